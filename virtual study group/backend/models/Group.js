@@ -68,7 +68,13 @@ const groupSchema = new mongoose.Schema({
       time: String,
       duration: Number // in minutes
     }],
-    timezone: String
+    timezone: String,
+    // Turn regularMeetings into StudySession documents ahead of time
+    autoSessions: {
+      enabled: { type: Boolean, default: false },
+      weeksAhead: { type: Number, default: 4, min: 1, max: 12 },
+      lastSyncedAt: Date
+    }
   },
   resources: [{
     title: String,
@@ -77,6 +83,13 @@ const groupSchema = new mongoose.Schema({
       enum: ['file', 'link', 'note']
     },
     url: String,
+    // Uploaded files; `url` then points at the download endpoint
+    file: {
+      key: String,
+      name: String,
+      size: Number,
+      contentType: String
+    },
     uploadedBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User'
@@ -29,6 +29,11 @@ const studySessionSchema = new mongoose.Schema({
     type: Date,
     required: true
   },
+  timezone: String,
+  allDay: {
+    type: Boolean,
+    default: false
+  },
   actualStart: Date,
   actualEnd: Date,
   status: {
@@ -38,7 +43,7 @@ const studySessionSchema = new mongoose.Schema({
   },
   type: {
     type: String,
-    enum: ['study', 'discussion', 'presentation', 'exam-prep', 'project-work'],
+    enum: ['study', 'discussion', 'presentation', 'exam-prep', 'project-work', 'pomodoro'],
     default: 'study'
   },
   participants: [{
@@ -61,6 +61,8 @@ const userSchema = new mongoose.Schema({
   studyStats: {
     totalStudyTime: { type: Number, default: 0 },
     sessionsCompleted: { type: Number, default: 0 },
+    // Work blocks of pomodoro sessions the user stayed for
+    pomodorosCompleted: { type: Number, default: 0 },
     streak: { type: Number, default: 0 },
     achievements: [String]
   },
@@ -71,6 +73,29 @@ const userSchema = new mongoose.Schema({
   lastSeen: {
     type: Date,
     default: Date.now
+  },
+  // What the user wants to be notified about and how; reminder lead times are
+  // minutes before a session starts (see src/services/sessionReminders.ts)
+  notificationSettings: {
+    email: { type: Boolean, default: true },
+    push: { type: Boolean, default: true },
+    sessionReminders: { type: Boolean, default: true },
+    groupMessages: { type: Boolean, default: true },
+    achievements: { type: Boolean, default: true },
+    reminderLeadMinutes: { type: [Number], default: () => [24 * 60, 60, 10] },
+    // Kinds of optional email the user unsubscribed from (see src/services/emailPreferences.ts)
+    emailOptOuts: [{ type: String, enum: ['reminders', 'cancellations', 'invites'] }]
+  },
+  // Pending password reset; only a hash of the emailed token is stored
+  passwordReset: {
+    tokenHash: String,
+    expiresAt: Date
+  },
+  // Secret part of the personal calendar feed URL
+  calendarFeedToken: {
+    type: String,
+    unique: true,
+    sparse: true
   }
 }, {
   timestamps: true
@@ -98,6 +123,8 @@ userSchema.methods.comparePassword = async function(candidatePassword) {
 userSchema.methods.toJSON = function() {
   const user = this.toObject();
   delete user.password;
+  delete user.calendarFeedToken;
+  delete user.passwordReset;
   return user;
 };
 
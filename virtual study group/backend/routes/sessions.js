@@ -2,7 +2,6 @@ const express = require('express');
 const { body, validationResult } = require('express-validator');
 const StudySession = require('../models/StudySession');
 const Group = require('../models/Group');
-const User = require('../models/User');
 const { auth } = require('../middleware/auth');
 
 const router = express.Router();
@@ -291,109 +290,10 @@ router.post('/:sessionId/join', auth, async (req, res) => {
   }
 });
 
-// Start a session
-router.post('/:sessionId/start', auth, async (req, res) => {
-  try {
-    const { sessionId } = req.params;
-
-    const session = await StudySession.findById(sessionId);
-    if (!session) {
-      return res.status(404).json({ message: 'Session not found' });
-    }
-
-    // Check if user is the host
-    if (session.host.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ message: 'Only the host can start the session' });
-    }
-
-    if (session.status !== 'scheduled') {
-      return res.status(400).json({ message: 'Session cannot be started' });
-    }
-
-    session.status = 'live';
-    session.actualStart = new Date();
-
-    await session.save();
-
-    // Update group stats
-    await Group.findByIdAndUpdate(session.group, {
-      $inc: { 'stats.totalSessions': 1 }
-    });
-
-    res.json({ message: 'Session started successfully', session });
-  } catch (error) {
-    console.error('Start session error:', error);
-    res.status(500).json({ message: 'Server error starting session' });
-  }
-});
-
-// End a session
-router.post('/:sessionId/end', auth, async (req, res) => {
-  try {
-    const { sessionId } = req.params;
-    const { notes, aiInsights } = req.body;
-
-    const session = await StudySession.findById(sessionId);
-    if (!session) {
-      return res.status(404).json({ message: 'Session not found' });
-    }
-
-    // Check if user is the host
-    if (session.host.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ message: 'Only the host can end the session' });
-    }
-
-    if (session.status !== 'live') {
-      return res.status(400).json({ message: 'Session is not currently live' });
-    }
-
-    session.status = 'completed';
-    session.actualEnd = new Date();
-    
-    if (notes) {
-      session.notes.content = notes;
-      session.notes.lastUpdated = new Date();
-    }
-
-    if (aiInsights) {
-      session.aiInsights = aiInsights;
-    }
-
-    // Update participant durations
-    session.participants.forEach(participant => {
-      if (participant.joinedAt && !participant.leftAt) {
-        participant.leftAt = new Date();
-        participant.duration = Math.round((participant.leftAt - participant.joinedAt) / (1000 * 60));
-      }
-    });
-
-    await session.save();
-
-    const duration = session.calculateDuration();
-
-    // Update group stats
-    await Group.findByIdAndUpdate(session.group, {
-      $inc: { 'stats.totalStudyTime': duration }
-    });
-
-    // Update participants' study time
-    for (const participant of session.participants) {
-      if (participant.duration > 0) {
-        await User.findByIdAndUpdate(participant.user, {
-          $inc: { 
-            'studyStats.totalStudyTime': participant.duration,
-            'studyStats.sessionsCompleted': 1
-          }
-        });
-      }
-    }
-
-    res.json({ message: 'Session ended successfully', session, duration });
-  } catch (error) {
-    console.error('End session error:', error);
-    res.status(500).json({ message: 'Server error ending session' });
-  }
-});
+// Starting and ending a session is handled by the TypeScript router (POST
+// /api/study-sessions/:id/start and /end). Both go through the session
+// lifecycle, which checks the transition and emits its events; ending credits
+// the attended minutes recorded by services/attendance.
 
 // Update session notes
 router.put('/:sessionId/notes', auth, [
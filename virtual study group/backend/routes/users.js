@@ -205,7 +205,7 @@ router.get('/dashboard', auth, async (req, res) => {
       .populate('host', 'firstName lastName avatar')
       .sort({ scheduledStart: 1 })
       .limit(5)
-      .select('title scheduledStart scheduledEnd group host status');
+      .select('title scheduledStart scheduledEnd timezone allDay group host status');
 
     // Calculate today's study time
     const today = new Date();
@@ -256,6 +256,9 @@ router.get('/dashboard', auth, async (req, res) => {
       title: session.title,
       groupName: session.group?.name || 'Unknown Group',
       time: session.scheduledStart,
+      endTime: session.scheduledEnd,
+      timezone: session.timezone,
+      allDay: session.allDay,
       host: `${session.host?.firstName || ''} ${session.host?.lastName || ''}`.trim()
     }));
 
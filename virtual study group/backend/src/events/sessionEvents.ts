@@ -0,0 +1,44 @@
+import { EventEmitter } from 'events';
+import { IStudySession } from '../models/StudySession';
+
+// Payload of the status change events. `by` is the user who made the change;
+// it is missing when the lifecycle scheduler did it automatically.
+export interface SessionTransitionEvent {
+  session: IStudySession;
+  from: IStudySession['status'];
+  by?: string;
+  at: Date;
+}
+
+// Domain events raised by study session routes and services. Side effects
+// such as notifications subscribe here instead of being wired into routes.
+export interface SessionEvents {
+  'waitlist:promoted': { session: IStudySession; userId: string };
+  'session:started': SessionTransitionEvent;
+  'session:completed': SessionTransitionEvent;
+  'session:cancelled': SessionTransitionEvent;
+  'session:restored': SessionTransitionEvent;
+  'agenda:updated': { session: IStudySession };
+  // The pomodoro timer was started, stopped or changed
+  'pomodoro:updated': { session: IStudySession };
+  // A round of breakout rooms was opened or ended
+  'breakouts:updated': { session: IStudySession };
+  // A host sent a message to every breakout room
+  'breakouts:broadcast': { session: IStudySession; message: string; from: string; at: Date };
+  // A user became the host or a co-host of a session
+  'host:assigned': { session: IStudySession; userId: string; role: 'host' | 'co-host'; by?: string };
+  // Guests lost access to a session because their invite link was revoked
+  'guests:removed': { session: IStudySession; userIds: string[] };
+}
+
+const emitter = new EventEmitter();
+
+export const sessionEvents = {
+  on<K extends keyof SessionEvents>(event: K, listener: (payload: SessionEvents[K]) => void) {
+    emitter.on(event, listener);
+  },
+
+  emit<K extends keyof SessionEvents>(event: K, payload: SessionEvents[K]) {
+    emitter.emit(event, payload);
+  }
+};
@@ -1,31 +1,97 @@
 import express, { Request, Response, NextFunction } from 'express';
+import http from 'http';
 import cors from 'cors';
 import mongoose from 'mongoose';
 import dotenv from 'dotenv';
 import studySessionRoutes from './routes/studySessionRoutes';
+import sessionImportRoutes from './routes/sessionImportRoutes';
+import sessionAgendaRoutes from './routes/sessionAgendaRoutes';
+import sessionBreakoutRoutes from './routes/sessionBreakoutRoutes';
+import sessionPomodoroRoutes from './routes/sessionPomodoroRoutes';
+import sessionResourceRoutes from './routes/sessionResourceRoutes';
+import sessionHistoryRoutes from './routes/sessionHistoryRoutes';
+import sessionTemplateRoutes from './routes/sessionTemplateRoutes';
+import sessionInviteRoutes from './routes/sessionInviteRoutes';
 import authRoutes from './routes/authRoutes';
 import userRoutes from './routes/userRoutes';
 import groupRoutes from './routes/groupRoutes';
+import groupScheduleRoutes from './routes/groupScheduleRoutes';
+import groupAttendanceRoutes from './routes/groupAttendanceRoutes';
+import groupFeedbackRoutes from './routes/groupFeedbackRoutes';
+import groupResourceRoutes from './routes/groupResourceRoutes';
+import notificationSettingsRoutes from './routes/notificationSettingsRoutes';
+import notificationRoutes from './routes/notificationRoutes';
+import passwordResetRoutes from './routes/passwordResetRoutes';
+import emailRoutes from './routes/emailRoutes';
+import groupInvitationRoutes from './routes/groupInvitationRoutes';
+import groupJoinRequestRoutes from './routes/groupJoinRequestRoutes';
+import { startGroupScheduler } from './services/groupScheduler';
+import { registerSessionNotifications } from './services/sessionNotifications';
+import { registerSessionStats } from './services/sessionStats';
+import { registerSessionAgenda } from './services/sessionAgenda';
+import { registerSessionBreakouts, startBreakoutScheduler } from './services/sessionBreakouts';
+import { registerSessionPomodoro } from './services/sessionPomodoro';
+import { startLifecycleScheduler } from './services/sessionLifecycle';
+import { startSeriesScheduler } from './services/sessionSeries';
+import { registerSessionReminders, startReminderScheduler } from './services/sessionReminders';
+import { startMailOutbox } from './services/mailOutbox';
+import { initSocket } from './socket';
 
 dotenv.config();
 
 const app = express();
+const server = http.createServer(app);
 const port = process.env.PORT || 5000;
 
+initSocket(server);
+registerSessionNotifications();
+registerSessionStats();
+registerSessionAgenda();
+registerSessionBreakouts();
+registerSessionPomodoro();
+registerSessionReminders();
+
 // Middleware
-app.use(cors());
+// Content-Disposition carries the file name of report downloads
+app.use(cors({ exposedHeaders: ['Content-Disposition'] }));
 app.use(express.json());
 
 // Connect to MongoDB
 mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/virtual-study-group')
-  .then(() => console.log('Connected to MongoDB'))
+  .then(() => {
+    console.log('Connected to MongoDB');
+    startGroupScheduler();
+    startSeriesScheduler();
+    startLifecycleScheduler();
+    startBreakoutScheduler();
+    startReminderScheduler();
+    startMailOutbox();
+  })
   .catch(err => console.error('Could not connect to MongoDB:', err));
 
 // Routes
+app.use('/api/auth', passwordResetRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/api/users', notificationSettingsRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/email', emailRoutes);
 app.use('/api/groups', groupRoutes);
+app.use('/api/groups', groupScheduleRoutes);
+app.use('/api/groups', groupAttendanceRoutes);
+app.use('/api/groups', groupFeedbackRoutes);
+app.use('/api/groups', groupResourceRoutes);
+app.use('/api/groups', groupInvitationRoutes);
+app.use('/api/groups', groupJoinRequestRoutes);
+app.use('/api/study-sessions/import', sessionImportRoutes);
+app.use('/api/study-sessions', sessionAgendaRoutes);
+app.use('/api/study-sessions', sessionBreakoutRoutes);
+app.use('/api/study-sessions', sessionPomodoroRoutes);
+app.use('/api/study-sessions', sessionResourceRoutes);
+app.use('/api/study-sessions', sessionHistoryRoutes);
+app.use('/api/study-sessions', sessionInviteRoutes);
 app.use('/api/study-sessions', studySessionRoutes);
+app.use('/api/session-templates', sessionTemplateRoutes);
 
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -33,6 +99,6 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
   res.status(500).json({ message: 'Something broke!' });
 });
 
-app.listen(port, () => {
+server.listen(port, () => {
   console.log(`Server is running on port ${port}`);
 });
@@ -0,0 +1,34 @@
+import rateLimit from 'express-rate-limit';
+
+// Endpoints that email or notify other people are rate limited, so they
+// can't be used to flood someone's inbox. Requests over the limit are
+// answered with 429.
+
+// Per client address, as nobody is logged in when asking for a reset
+export const passwordResetLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: 'Too many password reset requests, please try again later' }
+});
+
+// Per user; must run after authenticateToken
+export const invitationLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 20,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: req => req.user._id.toString(),
+  message: { message: 'Too many invitations sent, please try again later' }
+});
+
+// Per user; must run after authenticateToken
+export const joinRequestLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: req => req.user._id.toString(),
+  message: { message: 'Too many join requests, please try again later' }
+});
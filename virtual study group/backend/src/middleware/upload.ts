@@ -0,0 +1,28 @@
+import express from 'express';
+import multer from 'multer';
+import { ALLOWED_MIME_TYPES, MAX_FILE_SIZE } from '../services/fileStorage';
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_SIZE, files: 1 },
+  fileFilter: (req, file, cb) => {
+    if (!ALLOWED_MIME_TYPES.includes(file.mimetype)) {
+      return cb(new Error(`Files of type ${file.mimetype} cannot be shared`));
+    }
+    cb(null, true);
+  }
+});
+
+// Accept a single shared file in the `file` field. Files over the size limit
+// are rejected with 413, other upload problems as bad requests.
+export const uploadResourceFile: express.RequestHandler = (req, res, next) => {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ message: `Files can be at most ${Math.round(MAX_FILE_SIZE / (1024 * 1024))} MB` });
+    }
+    if (error) {
+      return res.status(400).json({ message: (error as Error).message });
+    }
+    next();
+  });
+};
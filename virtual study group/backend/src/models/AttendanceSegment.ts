@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IUser } from './User';
+import { IGroup } from './Group';
+import { IStudySession } from './StudySession';
+
+// One stretch of time a user was present in a session room, from entering
+// until leaving or disconnecting. People who drop out and reconnect get a new
+// segment; a user with several tabs open has overlapping ones.
+export interface IAttendanceSegment extends Document {
+  session: IStudySession['_id'];
+  // Copied from the session so group reports don't need to look it up
+  group?: IGroup['_id'];
+  user: IUser['_id'];
+  joinedAt: Date;
+  leftAt?: Date;
+  // Socket.IO connection the segment belongs to, so a disconnect closes it
+  connectionId: string;
+  // The breakout room the user was in; missing for the main room. Moving
+  // between rooms closes the segment and opens a new one.
+  breakoutRoom?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AttendanceSegmentSchema = new Schema<IAttendanceSegment>({
+  session: { type: Schema.Types.ObjectId, ref: 'StudySession', required: true },
+  group: { type: Schema.Types.ObjectId, ref: 'Group' },
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  joinedAt: { type: Date, required: true },
+  leftAt: { type: Date },
+  connectionId: { type: String, required: true },
+  breakoutRoom: { type: Schema.Types.ObjectId }
+}, {
+  timestamps: true
+});
+
+AttendanceSegmentSchema.index({ session: 1, user: 1 });
+AttendanceSegmentSchema.index({ group: 1, joinedAt: 1 });
+AttendanceSegmentSchema.index({ connectionId: 1, leftAt: 1 });
+
+export default mongoose.model<IAttendanceSegment>('AttendanceSegment', AttendanceSegmentSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IUser } from './User';
+
+export type NotificationType =
+  | 'session-reminder'
+  | 'session-cancelled'
+  | 'session-restored'
+  | 'waitlist-promoted'
+  | 'host-assigned'
+  | 'mention'
+  | 'group-join-request'
+  | 'achievement';
+
+// Something a user is told about in the notification center. `link` is the
+// app path the notification opens, e.g. /sessions/:id.
+export interface INotification extends Document {
+  user: IUser['_id'];
+  type: NotificationType;
+  title: string;
+  body?: string;
+  link?: string;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationSchema = new Schema<INotification>({
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  type: {
+    type: String,
+    enum: [
+      'session-reminder',
+      'session-cancelled',
+      'session-restored',
+      'waitlist-promoted',
+      'host-assigned',
+      'mention',
+      'group-join-request',
+      'achievement'
+    ],
+    required: true
+  },
+  title: { type: String, required: true },
+  body: { type: String },
+  link: { type: String },
+  // Unread while missing
+  readAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+NotificationSchema.index({ user: 1, _id: -1 });
+NotificationSchema.index({ user: 1, readAt: 1 });
+
+export default mongoose.model<INotification>('Notification', NotificationSchema);
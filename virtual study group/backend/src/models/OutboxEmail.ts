@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IUser } from './User';
+
+// An email waiting to be sent, or a record of one that was. Mail is rendered
+// when it is queued and kept until the transport accepts it, so an SMTP
+// outage or a restart delays mail instead of losing it.
+export interface IOutboxEmail extends Document {
+  to: string;
+  // Set when the recipient has an account
+  user?: IUser['_id'];
+  template: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Map<string, string>;
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  nextAttemptAt: Date;
+  // Set while an outbox run is sending the email
+  lockedUntil?: Date;
+  lastError?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Sent mail is only kept for troubleshooting
+const SENT_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+const OutboxEmailSchema = new Schema<IOutboxEmail>({
+  to: { type: String, required: true },
+  user: { type: Schema.Types.ObjectId, ref: 'User' },
+  template: { type: String, required: true },
+  subject: { type: String, required: true },
+  text: { type: String, required: true },
+  html: { type: String },
+  headers: { type: Map, of: String },
+  status: {
+    type: String,
+    enum: ['pending', 'sent', 'failed'],
+    default: 'pending',
+    required: true
+  },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: Date, default: Date.now },
+  lockedUntil: { type: Date },
+  lastError: { type: String },
+  sentAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+OutboxEmailSchema.index({ status: 1, nextAttemptAt: 1 });
+OutboxEmailSchema.index({ sentAt: 1 }, { expireAfterSeconds: SENT_RETENTION_SECONDS });
+
+export default mongoose.model<IOutboxEmail>('OutboxEmail', OutboxEmailSchema);
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IUser } from './User';
+import { IStudySession } from './StudySession';
+
+// A reminder to send one user `leadMinutes` before a session starts. Jobs
+// live in the database so reminders survive restarts; the reminder
+// scheduler delivers the ones that are due and replans a session's jobs
+// whenever the session or the user's settings change.
+export interface IReminderJob extends Document {
+  session: IStudySession['_id'];
+  user: IUser['_id'];
+  leadMinutes: number;
+  runAt: Date;
+  status: 'pending' | 'sent' | 'skipped' | 'failed';
+  attempts: number;
+  // Set while a scheduler run is delivering the reminder
+  lockedUntil?: Date;
+  lastError?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReminderJobSchema = new Schema<IReminderJob>({
+  session: { type: Schema.Types.ObjectId, ref: 'StudySession', required: true },
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  leadMinutes: { type: Number, required: true },
+  runAt: { type: Date, required: true },
+  status: {
+    type: String,
+    enum: ['pending', 'sent', 'skipped', 'failed'],
+    default: 'pending',
+    required: true
+  },
+  attempts: { type: Number, default: 0 },
+  lockedUntil: { type: Date },
+  lastError: { type: String },
+  sentAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+ReminderJobSchema.index({ status: 1, runAt: 1 });
+ReminderJobSchema.index({ session: 1, status: 1 });
+
+export default mongoose.model<IReminderJob>('ReminderJob', ReminderJobSchema);
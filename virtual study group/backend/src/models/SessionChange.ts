@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IUser } from './User';
+import { IStudySession } from './StudySession';
+
+export type SessionChangeAction =
+  | 'created'
+  | 'updated'
+  | 'started'
+  | 'completed'
+  | 'cancelled'
+  | 'restored'
+  | 'joined'
+  | 'left'
+  | 'waitlist-joined'
+  | 'waitlist-left'
+  | 'promoted'
+  | 'co-hosts-changed'
+  | 'host-transferred'
+  | 'guests-changed'
+  | 'agenda-changed'
+  | 'resources-changed'
+  | 'feedback-changed';
+
+// One entry of a session's change log: who did what, when, and the old and
+// new value of every tracked field that changed. Entries are only ever
+// added; updates and deletes are refused at the model level.
+export interface ISessionChange extends Document {
+  session: IStudySession['_id'];
+  action: SessionChangeAction;
+  // Missing for changes made by the server, e.g. an automatic start
+  actor?: IUser['_id'];
+  at: Date;
+  changes: Array<{
+    field: string;
+    from?: unknown;
+    to?: unknown;
+  }>;
+}
+
+const SessionChangeSchema = new Schema<ISessionChange>({
+  session: { type: Schema.Types.ObjectId, ref: 'StudySession', required: true },
+  action: {
+    type: String,
+    enum: [
+      'created', 'updated', 'started', 'completed', 'cancelled', 'restored', 'joined', 'left',
+      'waitlist-joined', 'waitlist-left', 'promoted', 'co-hosts-changed', 'host-transferred',
+      'guests-changed', 'agenda-changed', 'resources-changed', 'feedback-changed'
+    ],
+    required: true
+  },
+  actor: { type: Schema.Types.ObjectId, ref: 'User' },
+  at: { type: Date, required: true },
+  changes: [{
+    _id: false,
+    field: { type: String, required: true },
+    from: { type: Schema.Types.Mixed },
+    to: { type: Schema.Types.Mixed }
+  }]
+});
+
+const refuseChange = () => {
+  throw new Error('The session change log is append-only');
+};
+
+SessionChangeSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  refuseChange
+);
+SessionChangeSchema.pre('save', function () {
+  if (!this.isNew) {
+    refuseChange();
+  }
+});
+
+SessionChangeSchema.index({ session: 1, at: 1 });
+
+export default mongoose.model<ISessionChange>('SessionChange', SessionChangeSchema);
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IUser } from './User';
+import { IStudySession } from './StudySession';
+
+// A link that lets someone outside the group into one session, e.g. a guest
+// speaker. The link itself is not stored: it is signed from the invite's id
+// and expiry, so the hosts can copy it again later.
+export interface ISessionInvite extends Document {
+  session: IStudySession['_id'];
+  createdBy: IUser['_id'];
+  // Shown to the hosts, e.g. who the link was sent to
+  label?: string;
+  expiresAt: Date;
+  // Only the first person to accept it gets in
+  singleUse: boolean;
+  uses: Array<{
+    user: IUser['_id'];
+    at: Date;
+  }>;
+  // Revoking a link also shuts out the guests who came in with it
+  revokedAt?: Date;
+  revokedBy?: IUser['_id'];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionInviteSchema = new Schema<ISessionInvite>({
+  session: { type: Schema.Types.ObjectId, ref: 'StudySession', required: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  label: { type: String },
+  expiresAt: { type: Date, required: true },
+  singleUse: { type: Boolean, default: false },
+  uses: [{
+    _id: false,
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    at: { type: Date, required: true }
+  }],
+  revokedAt: { type: Date },
+  revokedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+}, {
+  timestamps: true
+});
+
+SessionInviteSchema.index({ session: 1, createdAt: -1 });
+
+export default mongoose.model<ISessionInvite>('SessionInvite', SessionInviteSchema);
@@ -0,0 +1,94 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IUser } from './User';
+import { IGroup } from './Group';
+import { IStudySession } from './StudySession';
+
+export interface ISessionSeries extends Document {
+  title: string;
+  description: string;
+  group: IGroup['_id'];
+  host: IUser['_id'];
+  type: IStudySession['type'];
+  maxParticipants?: number;
+  rrule: string;
+  dtstart: Date;
+  duration: number;
+  timezone?: string;
+  allDay: boolean;
+  autoStart: boolean;
+  autoComplete: boolean;
+  exdates: Date[];
+  // Agenda and links every occurrence starts with, from the template the
+  // series was created from
+  agenda: Array<{ topic: string; duration: number }>;
+  resources: Array<{ title: string; url: string }>;
+  horizonWeeks: number;
+  materializedUntil?: Date;
+  source: 'manual' | 'group-schedule';
+  meeting?: mongoose.Types.ObjectId;
+  status: 'active' | 'cancelled';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSeriesSchema = new Schema<ISessionSeries>({
+  title: { type: String, required: true },
+  description: { type: String, required: true },
+  group: { type: Schema.Types.ObjectId, ref: 'Group', required: true },
+  host: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  type: {
+    type: String,
+    enum: ['study', 'discussion', 'presentation', 'exam-prep', 'project-work', 'pomodoro'],
+    required: true
+  },
+  maxParticipants: { type: Number },
+  // RFC 5545 recurrence rule, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10
+  rrule: { type: String, required: true },
+  // Start of the first occurrence; later occurrences reuse its time of day
+  dtstart: { type: Date, required: true },
+  duration: { type: Number, required: true }, // in minutes
+  // IANA timezone the rule is expanded in, so occurrences keep their local time across DST
+  timezone: { type: String },
+  // Occurrences of all-day series cover whole local days instead of `duration`
+  allDay: { type: Boolean, default: false },
+  // Copied to every occurrence, see StudySession
+  autoStart: { type: Boolean, default: false },
+  autoComplete: { type: Boolean, default: false },
+  exdates: [{ type: Date }],
+  agenda: [{
+    _id: false,
+    topic: { type: String, required: true },
+    duration: { type: Number, required: true }
+  }],
+  resources: [{
+    _id: false,
+    title: { type: String, required: true },
+    url: { type: String, required: true }
+  }],
+  // How many weeks ahead occurrences are generated
+  horizonWeeks: { type: Number, default: 12, min: 1, max: 52 },
+  // Occurrences have been generated up to (but not including) this instant
+  materializedUntil: { type: Date },
+  // Series generated from Group.schedule.regularMeetings point at their meeting
+  source: {
+    type: String,
+    enum: ['manual', 'group-schedule'],
+    default: 'manual',
+    required: true
+  },
+  meeting: { type: Schema.Types.ObjectId },
+  status: {
+    type: String,
+    enum: ['active', 'cancelled'],
+    default: 'active',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+SessionSeriesSchema.index({ group: 1 });
+SessionSeriesSchema.index({ host: 1 });
+SessionSeriesSchema.index({ group: 1, source: 1, status: 1 });
+
+export default mongoose.model<ISessionSeries>('SessionSeries', SessionSeriesSchema);
@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IUser } from './User';
+import { IGroup } from './Group';
+import { IStudySession } from './StudySession';
+
+// A reusable session format, e.g. a 90-minute exam prep with a fixed agenda.
+// Templates with a group are shared with its members; the others belong to
+// the user who created them.
+export interface ISessionTemplate extends Document {
+  name: string;
+  group?: IGroup['_id'];
+  createdBy: IUser['_id'];
+  // Defaults for the sessions created from it
+  title?: string;
+  description?: string;
+  type: IStudySession['type'];
+  // Minutes
+  duration: number;
+  maxParticipants?: number;
+  agenda: Array<{
+    topic: string;
+    duration: number;
+  }>;
+  // Links every session starts with; uploaded files stay with their session
+  resources: Array<{
+    title: string;
+    url: string;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionTemplateSchema = new Schema<ISessionTemplate>({
+  name: { type: String, required: true },
+  group: { type: Schema.Types.ObjectId, ref: 'Group' },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  title: { type: String },
+  description: { type: String },
+  type: {
+    type: String,
+    enum: ['study', 'discussion', 'presentation', 'exam-prep', 'project-work', 'pomodoro'],
+    required: true
+  },
+  duration: { type: Number, required: true, min: 1 },
+  maxParticipants: { type: Number },
+  agenda: [{
+    _id: false,
+    topic: { type: String, required: true },
+    duration: { type: Number, required: true }
+  }],
+  resources: [{
+    _id: false,
+    title: { type: String, required: true },
+    url: { type: String, required: true }
+  }]
+}, {
+  timestamps: true
+});
+
+SessionTemplateSchema.index({ group: 1, name: 1 });
+SessionTemplateSchema.index({ createdBy: 1, name: 1 });
+
+export default mongoose.model<ISessionTemplate>('SessionTemplate', SessionTemplateSchema);
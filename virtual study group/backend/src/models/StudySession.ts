@@ -1,33 +1,106 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Types } from 'mongoose';
 import { IUser } from './User';
 import { IGroup } from './Group';
+import { ISessionSeries } from './SessionSeries';
 
 export interface IStudySession extends Document {
   title: string;
   description: string;
   group: IGroup['_id'];
   host: IUser['_id'];
+  // Run the session with the host: they can do everything the host can
+  // apart from changing who hosts it
+  coHosts: Array<IUser['_id']>;
   scheduledStart: Date;
   scheduledEnd: Date;
+  timezone?: string;
+  allDay: boolean;
   actualStart?: Date;
   actualEnd?: Date;
   status: 'scheduled' | 'live' | 'completed' | 'cancelled';
-  type: 'study' | 'discussion' | 'presentation' | 'exam-prep' | 'project-work';
+  autoStart: boolean;
+  autoComplete: boolean;
+  type: 'study' | 'discussion' | 'presentation' | 'exam-prep' | 'project-work' | 'pomodoro';
   maxParticipants?: number;
   participants: Array<{
     user: IUser['_id'];
     joinedAt: Date;
     leftAt?: Date;
   }>;
+  waitlist: Array<{
+    user: IUser['_id'];
+    joinedAt: Date;
+  }>;
+  // People from outside the group let in with an invite link. They can see
+  // and join this session, but don't count towards its capacity.
+  guests: Array<{
+    user: IUser['_id'];
+    invite: Types.ObjectId;
+    addedAt: Date;
+  }>;
   agenda: Array<{
+    _id: Types.ObjectId;
     topic: string;
+    // Planned minutes
     duration: number;
     completed: boolean;
+    // When the host moved to and away from this item; at most one item is
+    // running (started but not ended) at a time
+    startedAt?: Date;
+    endedAt?: Date;
   }>;
+  // Rounds of breakout rooms while the session is live. At most one round is
+  // open (not ended) at a time; ended rounds stay for the attendance report.
+  breakouts: Array<{
+    _id: Types.ObjectId;
+    assignment: 'random' | 'manual';
+    rooms: Array<{
+      _id: Types.ObjectId;
+      name: string;
+      members: Array<IUser['_id']>;
+    }>;
+    // Planned minutes; everyone returns to the main room at endsAt
+    duration: number;
+    startedAt: Date;
+    endsAt: Date;
+    endedAt?: Date;
+    startedBy?: IUser['_id'];
+  }>;
+  // The shared timer of pomodoro sessions: work blocks alternating with
+  // short breaks, and a long break after every `longBreakEvery` work blocks
+  pomodoro?: {
+    // Minutes
+    workMinutes: number;
+    shortBreakMinutes: number;
+    longBreakMinutes: number;
+    longBreakEvery: number;
+    // Mute everyone's microphone during work blocks
+    muteDuringWork: boolean;
+    // Every time the host started the timer, with the lengths it ran with, so
+    // the work blocks it went through can be worked out later. At most one
+    // run is not stopped.
+    runs: Array<{
+      _id: Types.ObjectId;
+      startedAt: Date;
+      stoppedAt?: Date;
+      workMinutes: number;
+      shortBreakMinutes: number;
+      longBreakMinutes: number;
+      longBreakEvery: number;
+    }>;
+  };
   resources: Array<{
+    _id: Types.ObjectId;
     title: string;
     type: 'file' | 'link' | 'note';
     url: string;
+    // Uploaded files; `url` then points at the download endpoint
+    file?: {
+      key: string;
+      name: string;
+      size: number;
+      contentType: string;
+    };
     uploadedBy: IUser['_id'];
     uploadedAt: Date;
   }>;
@@ -37,11 +110,32 @@ export interface IStudySession extends Document {
     duration?: number;
   };
   feedback: Array<{
+    _id: Types.ObjectId;
     user: IUser['_id'];
     rating: number;
     comment: string;
+    // Hide who wrote it from the host
+    anonymous: boolean;
     submittedAt: Date;
+    editedAt?: Date;
   }>;
+  // Why and by whom the session was cancelled. Kept after a restore, which
+  // sets `restoredAt`, so the history of the session stays readable.
+  cancellation?: {
+    reason?: string;
+    // A time the host suggests meeting instead
+    suggestedStart?: Date;
+    suggestedEnd?: Date;
+    cancelledBy?: IUser['_id'];
+    cancelledAt: Date;
+    restoredAt?: Date;
+  };
+  // When the reminder scheduler last planned this session's reminders
+  remindersPlannedAt?: Date;
+  series?: ISessionSeries['_id'];
+  occurrenceStart?: Date;
+  isException: boolean;
+  importUid?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -51,8 +145,13 @@ const StudySessionSchema = new Schema<IStudySession>({
   description: { type: String, required: true },
   group: { type: Schema.Types.ObjectId, ref: 'Group', required: true },
   host: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  coHosts: [{ type: Schema.Types.ObjectId, ref: 'User' }],
   scheduledStart: { type: Date, required: true },
   scheduledEnd: { type: Date, required: true },
+  // IANA timezone the session was scheduled in (the host's local time)
+  timezone: { type: String },
+  // All-day sessions run from local midnight to local midnight in `timezone`
+  allDay: { type: Boolean, default: false },
   actualStart: { type: Date },
   actualEnd: { type: Date },
   status: {
@@ -61,9 +160,13 @@ const StudySessionSchema = new Schema<IStudySession>({
     default: 'scheduled',
     required: true
   },
+  // Let the lifecycle scheduler start the session at scheduledStart and/or
+  // complete it at scheduledEnd instead of waiting for the host
+  autoStart: { type: Boolean, default: false },
+  autoComplete: { type: Boolean, default: false },
   type: {
     type: String,
-    enum: ['study', 'discussion', 'presentation', 'exam-prep', 'project-work'],
+    enum: ['study', 'discussion', 'presentation', 'exam-prep', 'project-work', 'pomodoro'],
     required: true
   },
   maxParticipants: { type: Number },
@@ -72,11 +175,51 @@ const StudySessionSchema = new Schema<IStudySession>({
     joinedAt: { type: Date, required: true },
     leftAt: { type: Date }
   }],
+  // People waiting for a spot once maxParticipants is reached, first in line first
+  waitlist: [{
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    joinedAt: { type: Date, required: true }
+  }],
+  guests: [{
+    _id: false,
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    invite: { type: Schema.Types.ObjectId, ref: 'SessionInvite', required: true },
+    addedAt: { type: Date, required: true }
+  }],
   agenda: [{
     topic: { type: String, required: true },
     duration: { type: Number, required: true },
-    completed: { type: Boolean, default: false }
+    completed: { type: Boolean, default: false },
+    startedAt: { type: Date },
+    endedAt: { type: Date }
   }],
+  breakouts: [{
+    assignment: { type: String, enum: ['random', 'manual'], required: true },
+    rooms: [{
+      name: { type: String, required: true },
+      members: [{ type: Schema.Types.ObjectId, ref: 'User' }]
+    }],
+    duration: { type: Number, required: true },
+    startedAt: { type: Date, required: true },
+    endsAt: { type: Date, required: true },
+    endedAt: { type: Date },
+    startedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+  }],
+  pomodoro: {
+    workMinutes: { type: Number },
+    shortBreakMinutes: { type: Number },
+    longBreakMinutes: { type: Number },
+    longBreakEvery: { type: Number },
+    muteDuringWork: { type: Boolean, default: false },
+    runs: [{
+      startedAt: { type: Date, required: true },
+      stoppedAt: { type: Date },
+      workMinutes: { type: Number, required: true },
+      shortBreakMinutes: { type: Number, required: true },
+      longBreakMinutes: { type: Number, required: true },
+      longBreakEvery: { type: Number, required: true }
+    }]
+  },
   resources: [{
     title: { type: String, required: true },
     type: {
@@ -85,6 +228,12 @@ const StudySessionSchema = new Schema<IStudySession>({
       required: true
     },
     url: { type: String, required: true },
+    file: {
+      key: { type: String },
+      name: { type: String },
+      size: { type: Number },
+      contentType: { type: String }
+    },
     uploadedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
     uploadedAt: { type: Date, required: true }
   }],
@@ -97,17 +246,57 @@ const StudySessionSchema = new Schema<IStudySession>({
     user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
     rating: { type: Number, required: true, min: 1, max: 5 },
     comment: String,
-    submittedAt: { type: Date, required: true }
-  }]
+    anonymous: { type: Boolean, default: false },
+    submittedAt: { type: Date, required: true },
+    editedAt: { type: Date }
+  }],
+  cancellation: {
+    reason: { type: String },
+    suggestedStart: { type: Date },
+    suggestedEnd: { type: Date },
+    cancelledBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    cancelledAt: { type: Date },
+    restoredAt: { type: Date }
+  },
+  remindersPlannedAt: { type: Date },
+  // Recurring sessions: the series this occurrence was generated from and the
+  // start time the rule produced for it (the iCalendar RECURRENCE-ID)
+  series: { type: Schema.Types.ObjectId, ref: 'SessionSeries' },
+  occurrenceStart: { type: Date },
+  // Set once a host edits or cancels this occurrence on its own, so later
+  // series-wide changes leave it alone
+  isException: { type: Boolean, default: false },
+  // Sessions imported from an .ics file keep the UID of their event (plus the
+  // occurrence start for recurring events) so re-imports can skip them
+  importUid: { type: String }
 }, {
   timestamps: true
 });
 
+// Feedback is only served through the feedback endpoints, which know who
+// may see the authors of anonymous entries
+StudySessionSchema.set('toJSON', {
+  transform: (_doc, ret) => {
+    delete ret.feedback;
+    return ret;
+  }
+});
+
 // Add indexes for common queries
 StudySessionSchema.index({ scheduledStart: 1 });
 StudySessionSchema.index({ status: 1 });
+StudySessionSchema.index({ status: 1, scheduledStart: 1 });
+StudySessionSchema.index({ status: 1, scheduledEnd: 1 });
 StudySessionSchema.index({ group: 1 });
 StudySessionSchema.index({ host: 1 });
+StudySessionSchema.index({ coHosts: 1 });
 StudySessionSchema.index({ 'participants.user': 1 });
+StudySessionSchema.index({ 'guests.user': 1 });
+StudySessionSchema.index(
+  { series: 1, occurrenceStart: 1 },
+  { unique: true, partialFilterExpression: { series: { $exists: true } } }
+);
+StudySessionSchema.index({ group: 1, importUid: 1 });
+StudySessionSchema.index({ host: 1, status: 1, actualEnd: 1 });
 
 export default mongoose.model<IStudySession>('StudySession', StudySessionSchema);
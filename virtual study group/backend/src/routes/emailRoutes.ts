@@ -0,0 +1,68 @@
+import express from 'express';
+import User from '../models/User';
+import { EmailCategory, verifyUnsubscribeToken } from '../services/emailPreferences';
+import { escapeHtml } from '../services/mailTemplates';
+
+const router = express.Router();
+
+const DESCRIPTIONS: Record<EmailCategory, string> = {
+  reminders: 'session reminders',
+  cancellations: 'session cancellation emails',
+  invites: 'group invitations'
+};
+
+const page = (title: string, body: string) => `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="font-family:Arial,Helvetica,sans-serif;max-width:480px;margin:48px auto;color:#212121">
+  <h2>${escapeHtml(title)}</h2>
+  ${body}
+</body>
+</html>
+`;
+
+const settingsHint = () =>
+  `<p>You can change this any time in the notification settings of <a href="${escapeHtml(process.env.CLIENT_URL || 'http://localhost:3000')}/profile">your profile</a>.</p>`;
+
+// The unsubscribe link of an email only asks to confirm, so link scanners
+// that open it don't unsubscribe anybody
+router.get('/unsubscribe', (req, res) => {
+  try {
+    const token = String(req.query.token || '');
+    const subscription = verifyUnsubscribeToken(token);
+    if (!subscription) {
+      return res.status(400).send(page('Invalid link', '<p>This unsubscribe link is invalid.</p>'));
+    }
+
+    res.send(page('Unsubscribe', `
+    <p>Stop receiving ${DESCRIPTIONS[subscription.category]}?</p>
+    <form method="post" action="?token=${encodeURIComponent(token)}">
+      <button type="submit">Unsubscribe</button>
+    </form>`));
+  } catch (error) {
+    console.error('Error checking unsubscribe link:', error);
+    res.status(500).send(page('Something went wrong', '<p>Failed to check this link. Please try again later.</p>'));
+  }
+});
+
+// Confirms the form above, and is what mail clients call for one-click
+// unsubscribes (List-Unsubscribe-Post)
+router.post('/unsubscribe', async (req, res) => {
+  try {
+    const subscription = verifyUnsubscribeToken(String(req.query.token || ''));
+    if (!subscription) {
+      return res.status(400).send(page('Invalid link', '<p>This unsubscribe link is invalid.</p>'));
+    }
+
+    await User.updateOne(
+      { _id: subscription.userId },
+      { $addToSet: { 'notificationSettings.emailOptOuts': subscription.category } }
+    );
+    res.send(page('Unsubscribed', `<p>You will no longer receive ${DESCRIPTIONS[subscription.category]}.</p>${settingsHint()}`));
+  } catch (error) {
+    console.error('Error unsubscribing:', error);
+    res.status(500).send(page('Something went wrong', '<p>Failed to unsubscribe. Please try again later.</p>'));
+  }
+});
+
+export default router;
@@ -0,0 +1,46 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import Group from '../models/Group';
+import { groupAttendanceCsv, groupAttendanceReport } from '../services/attendance';
+import { isGroupManager } from '../services/groupRoles';
+import { parseDateRange } from '../utils/dateRange';
+
+const router = express.Router();
+
+const DEFAULT_RANGE_DAYS = 30;
+
+// Attendance of a group's sessions that started in [from, to), as JSON or as
+// a CSV download (?format=csv). Defaults to the last 30 days.
+router.get('/:groupId/attendance', authenticateToken, async (req, res) => {
+  try {
+    const group = await Group.findById(req.params.groupId);
+    if (!group) {
+      return res.status(404).json({ message: 'Group not found' });
+    }
+
+    if (!isGroupManager(group, req.user._id.toString())) {
+      return res.status(403).json({ message: 'Only the group owner and moderators can view attendance' });
+    }
+
+    const range = parseDateRange(req.query, DEFAULT_RANGE_DAYS);
+    if ('error' in range) {
+      return res.status(400).json({ message: range.error });
+    }
+
+    const report = await groupAttendanceReport(group._id.toString(), range.from, range.to);
+
+    if (req.query.format === 'csv') {
+      const { fileName, content } = groupAttendanceCsv(group.name, report);
+      res.set('Content-Type', 'text/csv; charset=utf-8');
+      res.set('Content-Disposition', `attachment; filename="${fileName}"`);
+      return res.send(content);
+    }
+
+    res.json(report);
+  } catch (error) {
+    console.error('Error fetching group attendance:', error);
+    res.status(500).json({ message: 'Failed to fetch group attendance' });
+  }
+});
+
+export default router;
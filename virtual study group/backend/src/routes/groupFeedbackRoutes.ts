@@ -0,0 +1,45 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { authenticateToken } from '../middleware/auth';
+import Group from '../models/Group';
+import { FEEDBACK_TRENDS_DAYS, feedbackTrends } from '../services/sessionFeedback';
+import { isGroupManager } from '../services/groupRoles';
+import { parseDateRange } from '../utils/dateRange';
+
+const router = express.Router();
+
+// Ratings across a group's sessions, optionally of a single host (?host=), for
+// the group owner and moderators. Defaults to the last 90 days.
+router.get('/:groupId/feedback', authenticateToken, async (req, res) => {
+  try {
+    const group = await Group.findById(req.params.groupId);
+    if (!group) {
+      return res.status(404).json({ message: 'Group not found' });
+    }
+
+    const userId = req.user._id.toString();
+    if (!isGroupManager(group, userId)) {
+      return res.status(403).json({ message: 'Only the group owner and moderators can view feedback' });
+    }
+
+    const range = parseDateRange(req.query, FEEDBACK_TRENDS_DAYS);
+    if ('error' in range) {
+      return res.status(400).json({ message: range.error });
+    }
+
+    const filter: Record<string, unknown> = { group: group._id };
+    if (req.query.host) {
+      if (!mongoose.isValidObjectId(req.query.host)) {
+        return res.status(400).json({ message: 'Invalid host' });
+      }
+      filter.host = req.query.host;
+    }
+
+    res.json(await feedbackTrends(filter, range, userId));
+  } catch (error) {
+    console.error('Error fetching group feedback:', error);
+    res.status(500).json({ message: 'Failed to fetch group feedback' });
+  }
+});
+
+export default router;
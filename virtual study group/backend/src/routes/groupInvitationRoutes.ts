@@ -0,0 +1,47 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { validateRequest } from '../middleware/validate';
+import { invitationLimiter } from '../middleware/rateLimits';
+import Group from '../models/Group';
+import User from '../models/User';
+import { isGroupMember } from '../services/groupRoles';
+import { queueEmail } from '../services/mailOutbox';
+import { groupInvitationRules } from '../validation/groupInvitation';
+
+const router = express.Router();
+
+// Invite someone to a group by email. Members can invite anyone, with or
+// without an account; people with an account get the invitation only if
+// they haven't unsubscribed from invitations.
+router.post('/:groupId/invitations', authenticateToken, invitationLimiter, groupInvitationRules, validateRequest, async (req, res) => {
+  try {
+    const group = await Group.findById(req.params.groupId);
+    if (!group) {
+      return res.status(404).json({ message: 'Group not found' });
+    }
+
+    if (!isGroupMember(group, req.user._id.toString())) {
+      return res.status(403).json({ message: 'You must be a member of the group' });
+    }
+
+    const invitee = await User.findOne({ email: req.body.email }).select('email notificationSettings');
+    if (invitee && isGroupMember(group, invitee._id.toString())) {
+      return res.status(400).json({ message: 'This person is already a member of the group' });
+    }
+
+    await queueEmail(invitee || req.body.email, 'group-invite', {
+      inviterName: `${req.user.firstName} ${req.user.lastName}`,
+      groupName: group.name,
+      description: group.description,
+      link: `${process.env.CLIENT_URL || 'http://localhost:3000'}/groups/${group._id}`
+    });
+
+    // Opted-out invitees look the same, so their settings stay private
+    res.status(202).json({ message: `Invitation sent to ${req.body.email}` });
+  } catch (error) {
+    console.error('Error sending group invitation:', error);
+    res.status(500).json({ message: 'Failed to send invitation' });
+  }
+});
+
+export default router;
@@ -0,0 +1,38 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { validateRequest } from '../middleware/validate';
+import { joinRequestLimiter } from '../middleware/rateLimits';
+import Group from '../models/Group';
+import { isGroupMember } from '../services/groupRoles';
+import { notifyJoinRequest } from '../services/groupNotifications';
+import { groupJoinRequestRules } from '../validation/groupJoinRequest';
+
+const router = express.Router();
+
+// Ask to join a private or invite-only group. Its owner and moderators get a
+// notification and let the requester in by inviting them; public groups are
+// joined directly.
+router.post('/:groupId/join-requests', authenticateToken, joinRequestLimiter, groupJoinRequestRules, validateRequest, async (req, res) => {
+  try {
+    const group = await Group.findById(req.params.groupId);
+    if (!group) {
+      return res.status(404).json({ message: 'Group not found' });
+    }
+
+    if (!group.privacy || group.privacy === 'public') {
+      return res.status(400).json({ message: 'This group is public, join it directly' });
+    }
+
+    if (isGroupMember(group, req.user._id.toString())) {
+      return res.status(400).json({ message: 'You are already a member of this group' });
+    }
+
+    await notifyJoinRequest(group, req.user, req.body.message);
+    res.status(202).json({ message: 'Your request was sent to the group owner and moderators' });
+  } catch (error) {
+    console.error('Error requesting to join group:', error);
+    res.status(500).json({ message: 'Failed to send join request' });
+  }
+});
+
+export default router;
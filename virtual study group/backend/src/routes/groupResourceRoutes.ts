@@ -0,0 +1,138 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { uploadResourceFile } from '../middleware/upload';
+import Group, { IGroup } from '../models/Group';
+import { isGroupManager, isGroupMember } from '../services/groupRoles';
+import { ALLOWED_MIME_TYPES, MAX_FILE_SIZE } from '../services/fileStorage';
+import {
+  addFileResource,
+  fileSharingAllowed,
+  findResource,
+  presentResource,
+  removeResource,
+  Resource,
+  sendResourceFile,
+  uploaderOf
+} from '../services/resources';
+
+const router = express.Router();
+
+// Load a group and check that the user is a member. Sends the error
+// response and returns null otherwise.
+const loadGroup = async (req: express.Request, res: express.Response) => {
+  const group = await Group.findById(req.params.groupId);
+  if (!group) {
+    res.status(404).json({ message: 'Group not found' });
+    return null;
+  }
+
+  const userId = req.user._id.toString();
+  if (!isGroupMember(group, userId)) {
+    res.status(403).json({ message: 'You must be a member of the group' });
+    return null;
+  }
+
+  return { group, userId };
+};
+
+// Uploaders and group moderators can remove a resource
+const canDelete = (group: IGroup, resource: Resource, userId: string) =>
+  uploaderOf(resource) === userId || isGroupManager(group, userId);
+
+// The group's shared resources, and whether members can upload files
+router.get('/:groupId/resources', authenticateToken, async (req, res) => {
+  try {
+    const loaded = await loadGroup(req, res);
+    if (!loaded) return;
+
+    const { group, userId } = loaded;
+    await group.populate('resources.uploadedBy', 'firstName lastName avatar');
+
+    res.json({
+      resources: group.resources.map((resource: Resource) =>
+        presentResource(resource, canDelete(group, resource, userId))),
+      fileSharing: fileSharingAllowed(group),
+      canUpload: fileSharingAllowed(group),
+      maxFileSize: MAX_FILE_SIZE,
+      allowedTypes: ALLOWED_MIME_TYPES
+    });
+  } catch (error) {
+    console.error('Error fetching group resources:', error);
+    res.status(500).json({ message: 'Failed to fetch resources' });
+  }
+});
+
+// Upload a file (multipart field `file`, optional `title`); members only
+router.post('/:groupId/resources/files', authenticateToken, uploadResourceFile, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'Please choose a file to upload' });
+    }
+
+    const loaded = await loadGroup(req, res);
+    if (!loaded) return;
+
+    const { group, userId } = loaded;
+    if (!fileSharingAllowed(group)) {
+      return res.status(403).json({ message: 'File sharing is turned off for this group' });
+    }
+
+    const resource = await addFileResource(group, {
+      folder: `groups/${group._id}`,
+      basePath: `/api/groups/${group._id}/resources`,
+      file: req.file,
+      title: typeof req.body.title === 'string' ? req.body.title.trim().slice(0, 200) : undefined,
+      userId
+    });
+
+    await group.populate('resources.uploadedBy', 'firstName lastName avatar');
+    res.status(201).json(presentResource(resource, true));
+  } catch (error) {
+    console.error('Error uploading group file:', error);
+    res.status(500).json({ message: 'Failed to upload file' });
+  }
+});
+
+// Download an uploaded file
+router.get('/:groupId/resources/:resourceId/download', authenticateToken, async (req, res) => {
+  try {
+    const loaded = await loadGroup(req, res);
+    if (!loaded) return;
+
+    const resource = findResource(loaded.group, req.params.resourceId);
+    if (!resource?.file?.key) {
+      return res.status(404).json({ message: 'File not found' });
+    }
+
+    await sendResourceFile(res, resource);
+  } catch (error) {
+    console.error('Error downloading group file:', error);
+    res.status(500).json({ message: 'Failed to download file' });
+  }
+});
+
+// Remove a resource, deleting its file from storage
+router.delete('/:groupId/resources/:resourceId', authenticateToken, async (req, res) => {
+  try {
+    const loaded = await loadGroup(req, res);
+    if (!loaded) return;
+
+    const { group, userId } = loaded;
+    const resource = findResource(group, req.params.resourceId);
+    if (!resource) {
+      return res.status(404).json({ message: 'Resource not found' });
+    }
+
+    if (!canDelete(group, resource, userId)) {
+      return res.status(403).json({ message: 'Only the uploader and group moderators can remove this' });
+    }
+
+    await removeResource(group, resource);
+    res.json({ message: 'Resource removed' });
+  } catch (error) {
+    console.error('Error removing group resource:', error);
+    res.status(500).json({ message: 'Failed to remove resource' });
+  }
+});
+
+export default router;
@@ -0,0 +1,116 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import Group from '../models/Group';
+import SessionSeries from '../models/SessionSeries';
+import StudySession from '../models/StudySession';
+import { isValidMeeting, RegularMeeting, syncGroupSchedule } from '../services/groupScheduler';
+import { isGroupMember } from '../services/groupRoles';
+import { isValidTimezone } from '../utils/timezone';
+
+const router = express.Router();
+
+const loadScheduleState = async (groupId: string) => {
+  const series = await SessionSeries.find({ group: groupId, source: 'group-schedule', status: 'active' });
+  const upcomingSessions = await StudySession.find({
+    series: { $in: series.map(s => s._id) },
+    scheduledStart: { $gt: new Date() }
+  })
+    .select('title scheduledStart scheduledEnd status isException series')
+    .sort({ scheduledStart: 1 });
+
+  return { series, upcomingSessions };
+};
+
+// Get a group's regular meetings and the sessions generated from them
+router.get('/:groupId/schedule', authenticateToken, async (req, res) => {
+  try {
+    const group = await Group.findById(req.params.groupId);
+    if (!group) {
+      return res.status(404).json({ message: 'Group not found' });
+    }
+
+    if (!isGroupMember(group, req.user._id.toString())) {
+      return res.status(403).json({ message: 'You must be a member of the group to view its schedule' });
+    }
+
+    res.json({ schedule: group.schedule, ...(await loadScheduleState(group._id)) });
+  } catch (error) {
+    console.error('Error fetching group schedule:', error);
+    res.status(500).json({ message: 'Failed to fetch group schedule' });
+  }
+});
+
+// Replace a group's regular meetings and regenerate its sessions
+router.put('/:groupId/schedule', authenticateToken, async (req, res) => {
+  try {
+    const group = await Group.findById(req.params.groupId);
+    if (!group) {
+      return res.status(404).json({ message: 'Group not found' });
+    }
+
+    if (group.owner.toString() !== req.user._id.toString()) {
+      return res.status(403).json({ message: 'Only the group owner can manage the schedule' });
+    }
+
+    const { regularMeetings = [], timezone, autoSessions = {} } = req.body;
+
+    if (!Array.isArray(regularMeetings) || !regularMeetings.every(isValidMeeting)) {
+      return res.status(400).json({
+        message: 'Each meeting needs a day, a time in HH:mm and a duration between 15 and 480 minutes'
+      });
+    }
+
+    if (timezone && !isValidTimezone(timezone)) {
+      return res.status(400).json({ message: `Unknown timezone: ${timezone}` });
+    }
+
+    const weeksAhead = autoSessions.weeksAhead ?? group.schedule?.autoSessions?.weeksAhead;
+    if (weeksAhead !== undefined && (!Number.isInteger(weeksAhead) || weeksAhead < 1 || weeksAhead > 12)) {
+      return res.status(400).json({ message: 'Sessions can be generated 1 to 12 weeks ahead' });
+    }
+
+    // Meetings keep their _id when resubmitted so unchanged ones keep their series
+    group.schedule.regularMeetings = regularMeetings.map((meeting: RegularMeeting) => ({
+      _id: meeting._id,
+      day: meeting.day,
+      time: meeting.time,
+      duration: meeting.duration
+    }));
+    group.schedule.timezone = timezone || group.schedule.timezone;
+    group.schedule.autoSessions.enabled = Boolean(autoSessions.enabled);
+    if (weeksAhead !== undefined) {
+      group.schedule.autoSessions.weeksAhead = weeksAhead;
+    }
+
+    await group.save();
+    await syncGroupSchedule(group);
+
+    res.json({ schedule: group.schedule, ...(await loadScheduleState(group._id)) });
+  } catch (error) {
+    console.error('Error updating group schedule:', error);
+    res.status(500).json({ message: 'Failed to update group schedule' });
+  }
+});
+
+// Generate sessions for a group's schedule right away
+router.post('/:groupId/schedule/sync', authenticateToken, async (req, res) => {
+  try {
+    const group = await Group.findById(req.params.groupId);
+    if (!group) {
+      return res.status(404).json({ message: 'Group not found' });
+    }
+
+    if (group.owner.toString() !== req.user._id.toString()) {
+      return res.status(403).json({ message: 'Only the group owner can manage the schedule' });
+    }
+
+    await syncGroupSchedule(group);
+
+    res.json({ schedule: group.schedule, ...(await loadScheduleState(group._id)) });
+  } catch (error) {
+    console.error('Error syncing group schedule:', error);
+    res.status(500).json({ message: 'Failed to sync group schedule' });
+  }
+});
+
+export default router;
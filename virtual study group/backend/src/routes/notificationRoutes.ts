@@ -0,0 +1,65 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { authenticateToken } from '../middleware/auth';
+import {
+  findNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  unreadCount
+} from '../services/notifications';
+
+const router = express.Router();
+
+// A page of the current user's notifications, newest first, with the unread count
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user._id.toString();
+    const page = await findNotifications(userId, req.query);
+    if ('error' in page) {
+      return res.status(400).json({ message: page.error });
+    }
+
+    res.json({ ...page, unreadCount: await unreadCount(userId) });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({ message: 'Failed to fetch notifications' });
+  }
+});
+
+router.get('/unread-count', authenticateToken, async (req, res) => {
+  try {
+    res.json({ count: await unreadCount(req.user._id.toString()) });
+  } catch (error) {
+    console.error('Error counting unread notifications:', error);
+    res.status(500).json({ message: 'Failed to count unread notifications' });
+  }
+});
+
+router.post('/read-all', authenticateToken, async (req, res) => {
+  try {
+    res.json({ marked: await markAllNotificationsRead(req.user._id.toString()) });
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    res.status(500).json({ message: 'Failed to mark notifications as read' });
+  }
+});
+
+router.post('/:id/read', authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Notification not found' });
+    }
+
+    const notification = await markNotificationRead(req.user._id.toString(), req.params.id);
+    if (!notification) {
+      return res.status(404).json({ message: 'Notification not found' });
+    }
+
+    res.json(notification);
+  } catch (error) {
+    console.error('Error marking notification read:', error);
+    res.status(500).json({ message: 'Failed to mark notification as read' });
+  }
+});
+
+export default router;
@@ -0,0 +1,52 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import User from '../models/User';
+import { validateRequest } from '../middleware/validate';
+import { getNotificationSettingsUpdate, notificationSettingsRules } from '../validation/notificationSettings';
+import { scheduleUserReminders } from '../services/sessionReminders';
+
+const router = express.Router();
+
+// Get the notification settings of the current user
+router.get('/me/notification-settings', authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('notificationSettings');
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    res.json(user.notificationSettings);
+  } catch (error) {
+    console.error('Error fetching notification settings:', error);
+    res.status(500).json({ message: 'Failed to fetch notification settings' });
+  }
+});
+
+// Change some of the notification settings. Reminders of upcoming sessions
+// are replanned right away when reminder settings change.
+router.put('/me/notification-settings', authenticateToken, notificationSettingsRules, validateRequest, async (req, res) => {
+  try {
+    const update = getNotificationSettingsUpdate(req);
+    const changes: Record<string, unknown> = {};
+    Object.entries(update).forEach(([key, value]) => {
+      changes[`notificationSettings.${key}`] = value;
+    });
+
+    const user = await User.findByIdAndUpdate(req.user._id, { $set: changes }, { new: true })
+      .select('notificationSettings');
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (update.sessionReminders !== undefined || update.reminderLeadMinutes) {
+      await scheduleUserReminders(req.user._id.toString());
+    }
+
+    res.json(user.notificationSettings);
+  } catch (error) {
+    console.error('Error updating notification settings:', error);
+    res.status(500).json({ message: 'Failed to update notification settings' });
+  }
+});
+
+export default router;
@@ -0,0 +1,34 @@
+import express from 'express';
+import { validateRequest } from '../middleware/validate';
+import { passwordResetLimiter } from '../middleware/rateLimits';
+import { forgotPasswordRules, resetPasswordRules } from '../validation/auth';
+import { requestPasswordReset, resetPassword } from '../services/passwordReset';
+
+const router = express.Router();
+
+// Email a reset link. The answer is the same whether or not the address has
+// an account.
+router.post('/forgot-password', passwordResetLimiter, forgotPasswordRules, validateRequest, async (req, res) => {
+  try {
+    await requestPasswordReset(req.body.email);
+    res.json({ message: 'If an account uses this address, we sent it a link to reset the password' });
+  } catch (error) {
+    console.error('Error requesting password reset:', error);
+    res.status(500).json({ message: 'Failed to request a password reset' });
+  }
+});
+
+router.post('/reset-password', resetPasswordRules, validateRequest, async (req, res) => {
+  try {
+    if (!await resetPassword(req.body.token, req.body.password)) {
+      return res.status(400).json({ message: 'This reset link is invalid or has expired' });
+    }
+
+    res.json({ message: 'Your password has been changed' });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    res.status(500).json({ message: 'Failed to reset password' });
+  }
+});
+
+export default router;
@@ -0,0 +1,171 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { IStudySession } from '../models/StudySession';
+import { validateRequest } from '../middleware/validate';
+import {
+  agendaAdvanceRules,
+  agendaItemRules,
+  agendaItemUpdateRules,
+  agendaOrderRules
+} from '../validation/studySession';
+import {
+  addAgendaItem,
+  advanceAgenda,
+  agendaState,
+  checkAdvance,
+  checkAgendaEditable,
+  checkAgendaItemRemovable,
+  checkAgendaOrder,
+  removeAgendaItem,
+  reorderAgenda,
+  updateAgendaItem
+} from '../services/sessionAgenda';
+import { authorizeSession, findVisibleSession } from '../services/sessionAccess';
+import { recordSessionChange, snapshotSession } from '../services/sessionHistory';
+
+const router = express.Router();
+
+// Apply a change to the planned agenda and log it. Advancing through the
+// agenda while the session is live is not logged.
+const changeAgenda = async <T extends IStudySession | null>(
+  req: express.Request,
+  session: IStudySession,
+  change: () => Promise<T>
+): Promise<T> => {
+  const before = snapshotSession(session);
+  const updated = await change();
+  if (updated) {
+    await recordSessionChange(updated, 'agenda-changed', { before, by: req.user._id.toString() });
+  }
+  return updated;
+};
+
+// Load the session of an agenda change and check that the user manages it and
+// that it can still be changed. Sends the error response and returns null otherwise.
+const loadEditableSession = async (req: express.Request, res: express.Response): Promise<IStudySession | null> => {
+  const authorized = await authorizeSession(req.params.id, req.user._id.toString(), 'manage', 'change the agenda');
+  if ('denied' in authorized) {
+    res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    return null;
+  }
+
+  const { session } = authorized;
+  const denied = checkAgendaEditable(session);
+  if (denied) {
+    res.status(400).json({ message: denied });
+    return null;
+  }
+
+  return session;
+};
+
+// Get the agenda of a session with planned and actual time per topic
+router.get('/:id/agenda', authenticateToken, async (req, res) => {
+  try {
+    const visible = await findVisibleSession(req.params.id, req.user._id.toString());
+    if (!visible) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    res.json(agendaState(visible.session));
+  } catch (error) {
+    console.error('Error fetching agenda:', error);
+    res.status(500).json({ message: 'Failed to fetch agenda' });
+  }
+});
+
+// Add a topic to the end of the agenda
+router.post('/:id/agenda', authenticateToken, agendaItemRules, validateRequest, async (req, res) => {
+  try {
+    const session = await loadEditableSession(req, res);
+    if (!session) return;
+
+    const { topic, duration } = req.body;
+    const updated = await changeAgenda(req, session, () => addAgendaItem(session, { topic, duration }));
+    res.status(201).json(agendaState(updated));
+  } catch (error) {
+    console.error('Error adding agenda item:', error);
+    res.status(500).json({ message: 'Failed to add agenda item' });
+  }
+});
+
+// Reorder the agenda; `order` lists every item id in the new order
+router.put('/:id/agenda/order', authenticateToken, agendaOrderRules, validateRequest, async (req, res) => {
+  try {
+    const session = await loadEditableSession(req, res);
+    if (!session) return;
+
+    const denied = checkAgendaOrder(session, req.body.order);
+    if (denied) {
+      return res.status(400).json({ message: denied });
+    }
+
+    res.json(agendaState(await changeAgenda(req, session, () => reorderAgenda(session, req.body.order))));
+  } catch (error) {
+    console.error('Error reordering agenda:', error);
+    res.status(500).json({ message: 'Failed to reorder agenda' });
+  }
+});
+
+// Change the topic or planned duration of an item
+router.put('/:id/agenda/:itemId', authenticateToken, agendaItemUpdateRules, validateRequest, async (req, res) => {
+  try {
+    const session = await loadEditableSession(req, res);
+    if (!session) return;
+
+    const { topic, duration } = req.body;
+    const updated = await changeAgenda(req, session, () =>
+      updateAgendaItem(session, req.params.itemId, { topic, duration }));
+    if (!updated) {
+      return res.status(404).json({ message: 'Agenda item not found' });
+    }
+
+    res.json(agendaState(updated));
+  } catch (error) {
+    console.error('Error updating agenda item:', error);
+    res.status(500).json({ message: 'Failed to update agenda item' });
+  }
+});
+
+// Remove a topic that hasn't been started
+router.delete('/:id/agenda/:itemId', authenticateToken, async (req, res) => {
+  try {
+    const session = await loadEditableSession(req, res);
+    if (!session) return;
+
+    const item = session.agenda.find(entry => entry._id.toString() === req.params.itemId);
+    if (!item) {
+      return res.status(404).json({ message: 'Agenda item not found' });
+    }
+
+    const denied = checkAgendaItemRemovable(item);
+    if (denied) {
+      return res.status(400).json({ message: denied });
+    }
+
+    res.json(agendaState(await changeAgenda(req, session, () => removeAgendaItem(session, req.params.itemId))));
+  } catch (error) {
+    console.error('Error removing agenda item:', error);
+    res.status(500).json({ message: 'Failed to remove agenda item' });
+  }
+});
+
+// Move on to the next topic, or to `itemId`, while the session is live
+router.post('/:id/agenda/advance', authenticateToken, agendaAdvanceRules, validateRequest, async (req, res) => {
+  try {
+    const session = await loadEditableSession(req, res);
+    if (!session) return;
+
+    const denied = checkAdvance(session, req.body.itemId);
+    if (denied) {
+      return res.status(400).json({ message: denied });
+    }
+
+    res.json(agendaState(await advanceAgenda(session, req.body.itemId)));
+  } catch (error) {
+    console.error('Error advancing agenda:', error);
+    res.status(500).json({ message: 'Failed to advance agenda' });
+  }
+});
+
+export default router;
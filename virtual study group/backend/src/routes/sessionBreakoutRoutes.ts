@@ -0,0 +1,124 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { validateRequest } from '../middleware/validate';
+import { breakoutBroadcastRules, breakoutRules, getBreakoutPlan } from '../validation/studySession';
+import { sessionEvents } from '../events/sessionEvents';
+import { authorizeSession, findVisibleSession } from '../services/sessionAccess';
+import {
+  breakoutAttendance,
+  breakoutState,
+  endBreakouts,
+  openRound,
+  planBreakouts,
+  startBreakouts
+} from '../services/sessionBreakouts';
+
+const router = express.Router();
+
+// The open round of breakout rooms, with who is in which room and when the countdown ends
+router.get('/:id/breakouts', authenticateToken, async (req, res) => {
+  try {
+    const visible = await findVisibleSession(req.params.id, req.user._id.toString());
+    if (!visible) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    res.json(await breakoutState(visible.session));
+  } catch (error) {
+    console.error('Error fetching breakout rooms:', error);
+    res.status(500).json({ message: 'Failed to fetch breakout rooms' });
+  }
+});
+
+// Open a round of breakout rooms in a live session
+router.post('/:id/breakouts', authenticateToken, breakoutRules, validateRequest, async (req, res) => {
+  try {
+    const userId = req.user._id.toString();
+    const authorized = await authorizeSession(req.params.id, userId, 'manage', 'open breakout rooms');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    const plan = getBreakoutPlan(req);
+    const planned = await planBreakouts(authorized.session, plan);
+    if ('error' in planned) {
+      return res.status(400).json({ message: planned.error });
+    }
+
+    const updated = await startBreakouts(authorized.session, planned.rooms, {
+      assignment: plan.assignment,
+      duration: plan.duration,
+      by: userId
+    });
+    if (!updated) {
+      return res.status(409).json({ message: 'The session was changed in the meantime, please reload it' });
+    }
+
+    res.status(201).json(await breakoutState(updated));
+  } catch (error) {
+    console.error('Error opening breakout rooms:', error);
+    res.status(500).json({ message: 'Failed to open breakout rooms' });
+  }
+});
+
+// Bring everyone back to the main room before the countdown runs out
+router.post('/:id/breakouts/end', authenticateToken, async (req, res) => {
+  try {
+    const authorized = await authorizeSession(req.params.id, req.user._id.toString(), 'manage', 'close breakout rooms');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    const updated = await endBreakouts(authorized.session);
+    if (!updated) {
+      return res.status(400).json({ message: 'No breakout rooms are open' });
+    }
+
+    res.json(await breakoutState(updated));
+  } catch (error) {
+    console.error('Error closing breakout rooms:', error);
+    res.status(500).json({ message: 'Failed to close breakout rooms' });
+  }
+});
+
+// Send a message to every breakout room, e.g. "5 minutes left"
+router.post('/:id/breakouts/broadcast', authenticateToken, breakoutBroadcastRules, validateRequest, async (req, res) => {
+  try {
+    const authorized = await authorizeSession(req.params.id, req.user._id.toString(), 'manage', 'message the breakout rooms');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    if (!openRound(authorized.session)) {
+      return res.status(400).json({ message: 'No breakout rooms are open' });
+    }
+
+    sessionEvents.emit('breakouts:broadcast', {
+      session: authorized.session,
+      message: req.body.message,
+      from: `${req.user.firstName} ${req.user.lastName}`,
+      at: new Date()
+    });
+    res.status(202).json({ message: 'Message sent' });
+  } catch (error) {
+    console.error('Error messaging breakout rooms:', error);
+    res.status(500).json({ message: 'Failed to message breakout rooms' });
+  }
+});
+
+// Minutes each member spent in their breakout room, per round
+router.get('/:id/breakouts/attendance', authenticateToken, async (req, res) => {
+  try {
+    const authorized = await authorizeSession(req.params.id, req.user._id.toString(), 'manage', 'see breakout room attendance');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    res.json(await breakoutAttendance(authorized.session));
+  } catch (error) {
+    console.error('Error fetching breakout attendance:', error);
+    res.status(500).json({ message: 'Failed to fetch breakout attendance' });
+  }
+});
+
+export default router;
@@ -0,0 +1,54 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { authorizeSession, canViewSession, findVisibleSession } from '../services/sessionAccess';
+import { reconstructSession, sessionHistory } from '../services/sessionHistory';
+
+const router = express.Router();
+
+// The change log of a session: who changed what and when
+router.get('/:id/history', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user._id.toString();
+    const visible = await findVisibleSession(req.params.id, userId);
+    if (!visible) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    const { session, group } = visible;
+    if (!canViewSession(session, group, userId)) {
+      return res.status(403).json({ message: 'You do not have access to this session' });
+    }
+
+    res.json(await sessionHistory(session._id));
+  } catch (error) {
+    console.error('Error fetching session history:', error);
+    res.status(500).json({ message: 'Failed to fetch session history' });
+  }
+});
+
+// How the session looked at ?at=<ISO date>, for the hosts and group moderators
+router.get('/:id/history/snapshot', authenticateToken, async (req, res) => {
+  try {
+    const at = new Date(String(req.query.at || ''));
+    if (isNaN(at.getTime())) {
+      return res.status(400).json({ message: 'Please pass the point in time as `at`' });
+    }
+
+    const authorized = await authorizeSession(req.params.id, req.user._id.toString(), 'manage', 'view past versions');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    const snapshot = await reconstructSession(authorized.session, at);
+    if (!snapshot) {
+      return res.status(404).json({ message: 'The session did not exist yet at that time' });
+    }
+
+    res.json(snapshot);
+  } catch (error) {
+    console.error('Error reconstructing session:', error);
+    res.status(500).json({ message: 'Failed to reconstruct session' });
+  }
+});
+
+export default router;
@@ -0,0 +1,186 @@
+import express from 'express';
+import multer from 'multer';
+import { authenticateToken } from '../middleware/auth';
+import StudySession from '../models/StudySession';
+import Group from '../models/Group';
+import { allDayRange, isValidTimezone } from '../utils/timezone';
+import {
+  ImportCandidate,
+  markDuplicates,
+  MAX_IMPORT_SESSIONS,
+  previewImport
+} from '../services/sessionImport';
+import { SESSION_TYPES } from '../validation/studySession';
+import { recordSessionChange } from '../services/sessionHistory';
+import { isGroupMember } from '../services/groupRoles';
+
+const router = express.Router();
+
+// A session the user picked from the preview, as the client sends it back
+type ImportSelection = Partial<Pick<ImportCandidate, 'importUid' | 'title' | 'description' | 'timezone' | 'allDay'>> & {
+  scheduledStart: string;
+  scheduledEnd: string;
+};
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    cb(null, file.mimetype === 'text/calendar' || /\.ics$/i.test(file.originalname));
+  }
+});
+
+// Report upload problems (too large, wrong field) as bad requests
+const uploadCalendar: express.RequestHandler = (req, res, next) => {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({ message: (error as Error).message });
+    }
+    next();
+  });
+};
+
+const requireMembership = async (groupId: string, userId: string) => {
+  const group = await Group.findById(groupId);
+  if (!group) {
+    return { status: 404, message: 'Group not found' };
+  }
+
+  if (!isGroupMember(group, userId.toString())) {
+    return { status: 403, message: 'You must be a member of the group to import sessions' };
+  }
+
+  return null;
+};
+
+// Parse an uploaded .ics file and preview the sessions it would create in a group
+router.post('/preview', authenticateToken, uploadCalendar, async (req, res) => {
+  try {
+    const { groupId, timezone } = req.body;
+
+    if (!req.file) {
+      return res.status(400).json({ message: 'Please upload an .ics file' });
+    }
+
+    const denied = await requireMembership(groupId, req.user._id);
+    if (denied) {
+      return res.status(denied.status).json({ message: denied.message });
+    }
+
+    let sessions: ImportCandidate[];
+    try {
+      sessions = await previewImport(
+        req.file.buffer.toString('utf8'),
+        groupId,
+        timezone && isValidTimezone(timezone) ? timezone : undefined
+      );
+    } catch (error) {
+      return res.status(400).json({ message: `Could not read calendar: ${(error as Error).message}` });
+    }
+
+    res.json({
+      groupId,
+      fileName: req.file.originalname,
+      sessions,
+      counts: {
+        new: sessions.filter(s => s.status === 'new').length,
+        duplicate: sessions.filter(s => s.status === 'duplicate').length,
+        invalid: sessions.filter(s => s.status === 'invalid').length
+      }
+    });
+  } catch (error) {
+    console.error('Error previewing session import:', error);
+    res.status(500).json({ message: 'Failed to preview import' });
+  }
+});
+
+// Create the sessions the user confirmed from a preview. Duplicates are
+// checked again, so confirming the same preview twice creates nothing new.
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { groupId, type = 'study', sessions, timezone } = req.body;
+
+    if (!Array.isArray(sessions) || sessions.length === 0) {
+      return res.status(400).json({ message: 'Select at least one session to import' });
+    }
+
+    if (sessions.length > MAX_IMPORT_SESSIONS) {
+      return res.status(400).json({ message: `At most ${MAX_IMPORT_SESSIONS} sessions can be imported at once` });
+    }
+
+    if (!SESSION_TYPES.includes(type)) {
+      return res.status(400).json({ message: `Invalid session type: ${type}` });
+    }
+
+    const denied = await requireMembership(groupId, req.user._id);
+    if (denied) {
+      return res.status(denied.status).json({ message: denied.message });
+    }
+
+    const candidates: ImportCandidate[] = sessions.map((session: ImportSelection) => {
+      const candidate: ImportCandidate = {
+        importUid: String(session.importUid || ''),
+        title: String(session.title || '').trim(),
+        description: String(session.description || session.title || '').trim(),
+        scheduledStart: new Date(session.scheduledStart),
+        scheduledEnd: new Date(session.scheduledEnd),
+        timezone: [session.timezone, timezone].find(zone => zone && isValidTimezone(zone)) || 'UTC',
+        allDay: Boolean(session.allDay),
+        status: 'new'
+      };
+
+      if (!candidate.importUid || !candidate.title) {
+        candidate.status = 'invalid';
+        candidate.reason = 'Missing event id or title';
+      } else if (
+        isNaN(candidate.scheduledStart.getTime()) ||
+        isNaN(candidate.scheduledEnd.getTime()) ||
+        candidate.scheduledEnd <= candidate.scheduledStart
+      ) {
+        candidate.status = 'invalid';
+        candidate.reason = 'Session end must be after its start';
+      } else if (candidate.allDay) {
+        const range = allDayRange(candidate.scheduledStart, candidate.scheduledEnd, candidate.timezone!);
+        candidate.scheduledStart = range.start;
+        candidate.scheduledEnd = range.end;
+      }
+
+      return candidate;
+    });
+
+    await markDuplicates(groupId, candidates);
+
+    const toCreate = candidates.filter(c => c.status === 'new');
+    const now = new Date();
+
+    const created = await StudySession.insertMany(toCreate.map(candidate => ({
+      title: candidate.title,
+      description: candidate.description,
+      group: groupId,
+      host: req.user._id,
+      scheduledStart: candidate.scheduledStart,
+      scheduledEnd: candidate.scheduledEnd,
+      timezone: candidate.timezone,
+      allDay: candidate.allDay,
+      type,
+      participants: [{ user: req.user._id, joinedAt: now }],
+      status: 'scheduled',
+      importUid: candidate.importUid
+    })));
+    for (const session of created) {
+      await recordSessionChange(session, 'created', { before: null, by: req.user._id.toString(), at: now });
+    }
+
+    res.status(201).json({
+      created,
+      skipped: candidates
+        .filter(c => c.status !== 'new')
+        .map(({ importUid, title, reason }) => ({ importUid, title, reason }))
+    });
+  } catch (error) {
+    console.error('Error importing sessions:', error);
+    res.status(500).json({ message: 'Failed to import sessions' });
+  }
+});
+
+export default router;
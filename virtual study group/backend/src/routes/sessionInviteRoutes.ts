@@ -0,0 +1,179 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { authenticateToken } from '../middleware/auth';
+import { validateRequest } from '../middleware/validate';
+import StudySession from '../models/StudySession';
+import SessionInvite from '../models/SessionInvite';
+import Group from '../models/Group';
+import { getInviteOptions, sessionInviteRules } from '../validation/sessionInvite';
+import { authorizeSession, canViewSession } from '../services/sessionAccess';
+import {
+  acceptInvite,
+  checkInvite,
+  createInvite,
+  findInvite,
+  inviteStatus,
+  listInvites,
+  presentInvite,
+  revokeInvite
+} from '../services/sessionInvites';
+
+const router = express.Router();
+
+// Load the invite of a token with its session and group. Sends the error
+// response and returns null for invalid links.
+const loadInvite = async (req: express.Request, res: express.Response) => {
+  const invite = await findInvite(req.params.token);
+  const session = invite && await StudySession.findById(invite.session);
+  if (!invite || !session) {
+    res.status(404).json({ message: 'This invite link is not valid' });
+    return null;
+  }
+
+  const group = session.group ? await Group.findById(session.group) : null;
+  return { invite, session, group, userId: req.user._id.toString() };
+};
+
+// What an invite link leads to, so the invitee can decide to accept it. The
+// link itself is the permission to see this much.
+router.get('/invites/:token', authenticateToken, async (req, res) => {
+  try {
+    const loaded = await loadInvite(req, res);
+    if (!loaded) return;
+
+    const { invite, session, group, userId } = loaded;
+    await session.populate([
+      { path: 'host', select: 'firstName lastName avatar' },
+      { path: 'group', select: 'name' }
+    ]);
+
+    res.json({
+      session: {
+        _id: session._id,
+        title: session.title,
+        description: session.description,
+        type: session.type,
+        status: session.status,
+        host: session.host,
+        group: session.group,
+        scheduledStart: session.scheduledStart,
+        scheduledEnd: session.scheduledEnd,
+        timezone: session.timezone,
+        allDay: session.allDay
+      },
+      expiresAt: invite.expiresAt,
+      singleUse: invite.singleUse,
+      status: inviteStatus(invite),
+      problem: checkInvite(invite, session),
+      // People who can see the session already don't need the link
+      hasAccess: canViewSession(session, group, userId)
+    });
+  } catch (error) {
+    console.error('Error fetching session invite:', error);
+    res.status(500).json({ message: 'Failed to fetch invite' });
+  }
+});
+
+// Become a guest of the session; people who have access already keep it
+// and don't use up the link
+router.post('/invites/:token/accept', authenticateToken, async (req, res) => {
+  try {
+    const loaded = await loadInvite(req, res);
+    if (!loaded) return;
+
+    const { invite, session, group, userId } = loaded;
+    if (canViewSession(session, group, userId)) {
+      return res.json({ sessionId: session._id, message: 'You already have access to this session' });
+    }
+
+    const denied = checkInvite(invite, session);
+    if (denied) {
+      return res.status(400).json({ message: denied });
+    }
+
+    const accepted = await acceptInvite(invite, session, userId);
+    if ('error' in accepted) {
+      return res.status(409).json({ message: accepted.error });
+    }
+
+    res.json({ sessionId: session._id, message: `You are now a guest of "${session.title}"` });
+  } catch (error) {
+    console.error('Error accepting session invite:', error);
+    res.status(500).json({ message: 'Failed to accept invite' });
+  }
+});
+
+// The invite links of a session, newest first, with who used them
+router.get('/:id/invites', authenticateToken, async (req, res) => {
+  try {
+    const authorized = await authorizeSession(req.params.id, req.user._id.toString(), 'manage', 'see the invite links');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    const now = new Date();
+    const invites = await listInvites(authorized.session);
+    res.json(invites.map(invite => presentInvite(invite, now)));
+  } catch (error) {
+    console.error('Error fetching session invites:', error);
+    res.status(500).json({ message: 'Failed to fetch invite links' });
+  }
+});
+
+// Issue an invite link that lets someone from outside the group into this session
+router.post('/:id/invites', authenticateToken, sessionInviteRules, validateRequest, async (req, res) => {
+  try {
+    const userId = req.user._id.toString();
+    const authorized = await authorizeSession(req.params.id, userId, 'manage', 'invite guests');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    const { session } = authorized;
+    if (session.status === 'completed' || session.status === 'cancelled') {
+      return res.status(400).json({ message: `Guests can't be invited to a ${session.status} session` });
+    }
+
+    const invite = await createInvite(session, userId, getInviteOptions(req));
+    await invite.populate('createdBy', 'firstName lastName avatar');
+
+    res.status(201).json(presentInvite(invite));
+  } catch (error) {
+    console.error('Error creating session invite:', error);
+    res.status(500).json({ message: 'Failed to create invite link' });
+  }
+});
+
+// Revoke an invite link; guests who came in with it lose access
+router.delete('/:id/invites/:inviteId', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user._id.toString();
+    const authorized = await authorizeSession(req.params.id, userId, 'manage', 'revoke invite links');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    const invite = mongoose.isValidObjectId(req.params.inviteId)
+      ? await SessionInvite.findOne({ _id: req.params.inviteId, session: authorized.session._id })
+      : null;
+    if (!invite) {
+      return res.status(404).json({ message: 'Invite link not found' });
+    }
+
+    const revoked = await revokeInvite(invite, userId);
+    if (!revoked) {
+      return res.status(400).json({ message: 'This invite link was revoked already' });
+    }
+
+    await revoked.populate([
+      { path: 'createdBy', select: 'firstName lastName avatar' },
+      { path: 'uses.user', select: 'firstName lastName avatar' }
+    ]);
+    res.json(presentInvite(revoked));
+  } catch (error) {
+    console.error('Error revoking session invite:', error);
+    res.status(500).json({ message: 'Failed to revoke invite link' });
+  }
+});
+
+export default router;
@@ -0,0 +1,98 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { validateRequest } from '../middleware/validate';
+import { getPomodoroSettings, pomodoroRules } from '../validation/studySession';
+import { authorizeSession, findVisibleSession } from '../services/sessionAccess';
+import {
+  checkPomodoroSettings,
+  checkPomodoroStart,
+  pomodoroState,
+  startPomodoro,
+  stopPomodoro,
+  updatePomodoroSettings
+} from '../services/sessionPomodoro';
+
+const router = express.Router();
+
+// The timer of a pomodoro session: its settings and the running timer, if any
+router.get('/:id/pomodoro', authenticateToken, async (req, res) => {
+  try {
+    const visible = await findVisibleSession(req.params.id, req.user._id.toString());
+    if (!visible) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    res.json(pomodoroState(visible.session));
+  } catch (error) {
+    console.error('Error fetching pomodoro timer:', error);
+    res.status(500).json({ message: 'Failed to fetch pomodoro timer' });
+  }
+});
+
+// Change the lengths of work blocks and breaks, or whether mics are muted while working
+router.put('/:id/pomodoro', authenticateToken, pomodoroRules, validateRequest, async (req, res) => {
+  try {
+    const authorized = await authorizeSession(req.params.id, req.user._id.toString(), 'manage', 'change the timer');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    const changes = getPomodoroSettings(req);
+    const denied = checkPomodoroSettings(authorized.session, changes);
+    if (denied) {
+      return res.status(400).json({ message: denied });
+    }
+
+    res.json(pomodoroState(await updatePomodoroSettings(authorized.session, changes)));
+  } catch (error) {
+    console.error('Error updating pomodoro timer:', error);
+    res.status(500).json({ message: 'Failed to update pomodoro timer' });
+  }
+});
+
+// Start the timer with the first work block
+router.post('/:id/pomodoro/start', authenticateToken, async (req, res) => {
+  try {
+    const authorized = await authorizeSession(req.params.id, req.user._id.toString(), 'manage', 'start the timer');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    const denied = checkPomodoroStart(authorized.session);
+    if (denied) {
+      return res.status(400).json({ message: denied });
+    }
+
+    const updated = await startPomodoro(authorized.session);
+    if (!updated) {
+      return res.status(409).json({ message: 'The session was changed in the meantime, please reload it' });
+    }
+
+    res.json(pomodoroState(updated));
+  } catch (error) {
+    console.error('Error starting pomodoro timer:', error);
+    res.status(500).json({ message: 'Failed to start pomodoro timer' });
+  }
+});
+
+// Stop the timer; starting it again begins with a new work block
+router.post('/:id/pomodoro/stop', authenticateToken, async (req, res) => {
+  try {
+    const authorized = await authorizeSession(req.params.id, req.user._id.toString(), 'manage', 'stop the timer');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    const updated = await stopPomodoro(authorized.session);
+    if (!updated) {
+      return res.status(400).json({ message: 'The timer is not running' });
+    }
+
+    res.json(pomodoroState(updated));
+  } catch (error) {
+    console.error('Error stopping pomodoro timer:', error);
+    res.status(500).json({ message: 'Failed to stop pomodoro timer' });
+  }
+});
+
+export default router;
@@ -0,0 +1,154 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { uploadResourceFile } from '../middleware/upload';
+import { IStudySession } from '../models/StudySession';
+import { IGroup } from '../models/Group';
+import {
+  canViewSession,
+  findVisibleSession,
+  hasSessionPermission,
+  isHostOrParticipant
+} from '../services/sessionAccess';
+import { ALLOWED_MIME_TYPES, MAX_FILE_SIZE } from '../services/fileStorage';
+import { recordSessionChange, snapshotSession } from '../services/sessionHistory';
+import {
+  addFileResource,
+  fileSharingAllowed,
+  findResource,
+  presentResource,
+  removeResource,
+  Resource,
+  sendResourceFile,
+  uploaderOf
+} from '../services/resources';
+
+const router = express.Router();
+
+// Load a session with its group and check that the user may see its
+// resources: the host, participants and members of the group. Sends the
+// error response and returns null otherwise.
+const loadSession = async (req: express.Request, res: express.Response) => {
+  const userId = req.user._id.toString();
+  const visible = await findVisibleSession(req.params.id, userId);
+  if (!visible) {
+    res.status(404).json({ message: 'Session not found' });
+    return null;
+  }
+
+  const { session, group } = visible;
+  if (!canViewSession(session, group, userId)) {
+    res.status(403).json({ message: 'You do not have access to this session' });
+    return null;
+  }
+
+  return { session, group, userId };
+};
+
+// Uploaders, the hosts and group moderators can remove a resource
+const canDelete = (session: IStudySession, group: IGroup | null, resource: Resource, userId: string) =>
+  uploaderOf(resource) === userId || hasSessionPermission(session, group, userId);
+
+// The resources of a session, and whether the user can upload files
+router.get('/:id/resources', authenticateToken, async (req, res) => {
+  try {
+    const loaded = await loadSession(req, res);
+    if (!loaded) return;
+
+    const { session, group, userId } = loaded;
+    await session.populate('resources.uploadedBy', 'firstName lastName avatar');
+
+    res.json({
+      resources: session.resources.map(resource =>
+        presentResource(resource, canDelete(session, group, resource, userId))),
+      fileSharing: Boolean(group && fileSharingAllowed(group)),
+      canUpload: isHostOrParticipant(session, userId) && Boolean(group && fileSharingAllowed(group)),
+      maxFileSize: MAX_FILE_SIZE,
+      allowedTypes: ALLOWED_MIME_TYPES
+    });
+  } catch (error) {
+    console.error('Error fetching session resources:', error);
+    res.status(500).json({ message: 'Failed to fetch resources' });
+  }
+});
+
+// Upload a file (multipart field `file`, optional `title`); host and participants only
+router.post('/:id/resources/files', authenticateToken, uploadResourceFile, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'Please choose a file to upload' });
+    }
+
+    const loaded = await loadSession(req, res);
+    if (!loaded) return;
+
+    const { session, group, userId } = loaded;
+    if (!isHostOrParticipant(session, userId)) {
+      return res.status(403).json({ message: 'Only the host and participants can share files' });
+    }
+    if (!group || !fileSharingAllowed(group)) {
+      return res.status(403).json({ message: 'File sharing is turned off for this group' });
+    }
+
+    const before = snapshotSession(session);
+    const resource = await addFileResource(session, {
+      folder: `sessions/${session._id}`,
+      basePath: `/api/study-sessions/${session._id}/resources`,
+      file: req.file,
+      title: typeof req.body.title === 'string' ? req.body.title.trim().slice(0, 200) : undefined,
+      userId
+    });
+    await recordSessionChange(session, 'resources-changed', { before, by: userId });
+
+    await session.populate('resources.uploadedBy', 'firstName lastName avatar');
+    res.status(201).json(presentResource(resource, true));
+  } catch (error) {
+    console.error('Error uploading session file:', error);
+    res.status(500).json({ message: 'Failed to upload file' });
+  }
+});
+
+// Download an uploaded file
+router.get('/:id/resources/:resourceId/download', authenticateToken, async (req, res) => {
+  try {
+    const loaded = await loadSession(req, res);
+    if (!loaded) return;
+
+    const resource = findResource(loaded.session, req.params.resourceId);
+    if (!resource?.file?.key) {
+      return res.status(404).json({ message: 'File not found' });
+    }
+
+    await sendResourceFile(res, resource);
+  } catch (error) {
+    console.error('Error downloading session file:', error);
+    res.status(500).json({ message: 'Failed to download file' });
+  }
+});
+
+// Remove a resource, deleting its file from storage
+router.delete('/:id/resources/:resourceId', authenticateToken, async (req, res) => {
+  try {
+    const loaded = await loadSession(req, res);
+    if (!loaded) return;
+
+    const { session, group, userId } = loaded;
+    const resource = findResource(session, req.params.resourceId);
+    if (!resource) {
+      return res.status(404).json({ message: 'Resource not found' });
+    }
+
+    if (!canDelete(session, group, resource, userId)) {
+      return res.status(403).json({ message: 'Only the uploader, the hosts and group moderators can remove this' });
+    }
+
+    const before = snapshotSession(session);
+    await removeResource(session, resource);
+    await recordSessionChange(session, 'resources-changed', { before, by: userId });
+    res.json({ message: 'Resource removed' });
+  } catch (error) {
+    console.error('Error removing session resource:', error);
+    res.status(500).json({ message: 'Failed to remove resource' });
+  }
+});
+
+export default router;
@@ -0,0 +1,157 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { authenticateToken } from '../middleware/auth';
+import { validateRequest } from '../middleware/validate';
+import SessionTemplate from '../models/SessionTemplate';
+import Group from '../models/Group';
+import { isGroupManager, isGroupMember } from '../services/groupRoles';
+import { canViewSession, findVisibleSession } from '../services/sessionAccess';
+import {
+  canEditTemplate,
+  findUsableTemplate,
+  findUsableTemplates,
+  presentTemplate,
+  templateFromSession
+} from '../services/sessionTemplates';
+import {
+  getTemplateFields,
+  templateFromSessionRules,
+  templateRules,
+  templateUpdateRules
+} from '../validation/sessionTemplate';
+
+const router = express.Router();
+
+// Templates the user can start a session from: their own and their groups'.
+// `?group=` narrows the group templates to one group.
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const groupId = req.query.group ? String(req.query.group) : undefined;
+    if (groupId && !mongoose.isValidObjectId(groupId)) {
+      return res.status(400).json({ message: 'Invalid group id' });
+    }
+
+    res.json(await findUsableTemplates(req.user._id.toString(), groupId));
+  } catch (error) {
+    console.error('Error fetching session templates:', error);
+    res.status(500).json({ message: 'Failed to fetch session templates' });
+  }
+});
+
+// Create a template, shared with a group's members when `group` is given
+router.post('/', authenticateToken, templateRules, validateRequest, async (req, res) => {
+  try {
+    const userId = req.user._id.toString();
+    let group = null;
+    if (req.body.group) {
+      group = await Group.findById(req.body.group);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!isGroupMember(group, userId) && !isGroupManager(group, userId)) {
+        return res.status(403).json({ message: 'You must be a member of the group to share a template with it' });
+      }
+    }
+
+    const { maxParticipants, ...fields } = getTemplateFields(req);
+    const template = await SessionTemplate.create({
+      ...fields,
+      maxParticipants: maxParticipants ?? undefined,
+      group: group?._id,
+      createdBy: userId
+    });
+
+    res.status(201).json(presentTemplate(template, group, userId));
+  } catch (error) {
+    console.error('Error creating session template:', error);
+    res.status(500).json({ message: 'Failed to create session template' });
+  }
+});
+
+// Save an existing session as a template: its type, length, cap,
+// description, agenda and links
+router.post(
+  '/from-session/:sessionId',
+  authenticateToken,
+  templateFromSessionRules,
+  validateRequest,
+  async (req, res) => {
+    try {
+      const userId = req.user._id.toString();
+      const visible = await findVisibleSession(req.params.sessionId, userId);
+      if (!visible) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+
+      const { session, group } = visible;
+      if (!canViewSession(session, group, userId)) {
+        return res.status(403).json({ message: 'You do not have access to this session' });
+      }
+
+      // Only members share templates with the group
+      const shared = Boolean(group && !req.body.personal && (isGroupMember(group, userId) || isGroupManager(group, userId)));
+      const template = await SessionTemplate.create({
+        ...templateFromSession(session),
+        name: req.body.name,
+        group: shared ? group._id : undefined,
+        createdBy: userId
+      });
+
+      res.status(201).json(presentTemplate(template, shared ? group : null, userId));
+    } catch (error) {
+      console.error('Error saving session as template:', error);
+      res.status(500).json({ message: 'Failed to save session as template' });
+    }
+  }
+);
+
+// Change a template; by its creator or the group's owner and moderators
+router.put('/:id', authenticateToken, templateUpdateRules, validateRequest, async (req, res) => {
+  try {
+    const userId = req.user._id.toString();
+    const usable = await findUsableTemplate(req.params.id, userId);
+    if (!usable) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    const { template, group } = usable;
+    if (!canEditTemplate(template, group, userId)) {
+      return res.status(403).json({ message: 'Only its creator and group moderators can change this template' });
+    }
+
+    const { maxParticipants, ...fields } = getTemplateFields(req);
+    template.set(fields);
+    if (maxParticipants !== undefined) {
+      template.maxParticipants = maxParticipants ?? undefined;
+    }
+    await template.save();
+
+    res.json(presentTemplate(template, group, userId));
+  } catch (error) {
+    console.error('Error updating session template:', error);
+    res.status(500).json({ message: 'Failed to update session template' });
+  }
+});
+
+// Delete a template; sessions created from it keep what they got
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user._id.toString();
+    const usable = await findUsableTemplate(req.params.id, userId);
+    if (!usable) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    if (!canEditTemplate(usable.template, usable.group, userId)) {
+      return res.status(403).json({ message: 'Only its creator and group moderators can delete this template' });
+    }
+
+    await usable.template.deleteOne();
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting session template:', error);
+    res.status(500).json({ message: 'Failed to delete session template' });
+  }
+});
+
+export default router;
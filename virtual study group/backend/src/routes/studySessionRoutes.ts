@@ -1,73 +1,290 @@
 import express from 'express';
 import { authenticateToken } from '../middleware/auth';
 import StudySession from '../models/StudySession';
+import SessionSeries from '../models/SessionSeries';
 import Group from '../models/Group';
 import User from '../models/User';
+import { expandRRule, formatRRule, parseRRule } from '../utils/rrule';
+import {
+  materializeSeries,
+  pickOccurrenceChanges,
+  seriesHorizon,
+  updateFollowingOccurrences
+} from '../services/sessionSeries';
+import { addParticipant, hasOpenSpot, promoteFromWaitlist, waitlistPosition } from '../services/waitlist';
+import { buildSessionFeed, generateFeedToken } from '../services/calendarFeed';
+import { conflictResponse, findConflicts } from '../services/sessionConflicts';
+import { findSessionPage, parseSessionListQuery, withoutCancelled } from '../services/sessionListing';
+import {
+  cancelSessions,
+  checkTransition,
+  restoreDeadline,
+  SessionStatus,
+  transitionSession
+} from '../services/sessionLifecycle';
+import { validateRequest } from '../middleware/validate';
+import {
+  cancellationRules,
+  checkSessionUpdate,
+  coHostRules,
+  feedbackRules,
+  getCancellation,
+  getSessionUpdate,
+  sessionUpdateRules,
+  transferHostRules
+} from '../validation/studySession';
+import { allDayRange, isValidTimezone } from '../utils/timezone';
+import { sessionAttendanceCsv, sessionAttendanceReport } from '../services/attendance';
+import {
+  checkFeedback,
+  editableUntil,
+  FEEDBACK_TRENDS_DAYS,
+  feedbackDeadline,
+  feedbackTrends,
+  findFeedback,
+  pendingFeedback,
+  saveFeedback,
+  sessionFeedbackReport
+} from '../services/sessionFeedback';
+import { recordSessionChange, snapshotSession } from '../services/sessionHistory';
+import { checkCoHosts, checkHostTransfer, setCoHosts, transferHost } from '../services/sessionHosts';
+import { findUsableTemplate, sessionContent, TemplateContent } from '../services/sessionTemplates';
+import { parseDateRange } from '../utils/dateRange';
+import {
+  authorizeSession,
+  canManageSeries,
+  canSeeGroupSessions,
+  findVisibleSession,
+  hasSessionPermission,
+  isGuest,
+  visibleSessionsFilter
+} from '../services/sessionAccess';
 
 const router = express.Router();
 
-// Get upcoming study sessions
+// Get upcoming study sessions the user can see, one page at a time
 router.get('/upcoming', authenticateToken, async (req, res) => {
   try {
-    const sessions = await StudySession.find({
-      scheduledStart: { $gt: new Date() },
-      status: 'scheduled'
-    })
-    .populate('host', 'firstName lastName avatar')
-    .populate('group', 'name')
-    .populate('participants.user', 'firstName lastName avatar')
-    .sort({ scheduledStart: 1 });
-    
-    res.json(sessions);
+    const query = parseSessionListQuery(req.query);
+    if ('error' in query) {
+      return res.status(400).json({ message: query.error });
+    }
+
+    const page = await findSessionPage({
+      $and: [
+        { scheduledStart: { $gt: new Date() }, status: 'scheduled' },
+        await visibleSessionsFilter(req.user._id.toString())
+      ]
+    }, query, 1);
+
+    res.json(page);
   } catch (error) {
     console.error('Error fetching upcoming sessions:', error);
     res.status(500).json({ message: 'Failed to fetch upcoming sessions' });
   }
 });
 
-// Get past study sessions
+// Get past study sessions the user can see, most recent first. Cancelled
+// sessions are only included when filtering by status.
 router.get('/past', authenticateToken, async (req, res) => {
   try {
-    const sessions = await StudySession.find({
-      scheduledEnd: { $lt: new Date() }
-    })
-    .populate('host', 'firstName lastName avatar')
-    .populate('group', 'name')
-    .populate('participants.user', 'firstName lastName avatar')
-    .sort({ scheduledStart: -1 });
-    
-    res.json(sessions);
+    const query = parseSessionListQuery(req.query);
+    if ('error' in query) {
+      return res.status(400).json({ message: query.error });
+    }
+
+    const page = await findSessionPage({
+      $and: [
+        { scheduledEnd: { $lt: new Date() }, ...withoutCancelled(req.query) },
+        await visibleSessionsFilter(req.user._id.toString())
+      ]
+    }, query, -1);
+
+    res.json(page);
   } catch (error) {
     console.error('Error fetching past sessions:', error);
     res.status(500).json({ message: 'Failed to fetch past sessions' });
   }
 });
 
-// Get user's study sessions (where user is host or participant)
+// Sessions a user hosts, co-hosts or participates in
+const userSessionsFilter = (userId: string) => ({
+  $or: [
+    { host: userId },
+    { coHosts: userId },
+    { 'participants.user': userId }
+  ]
+});
+
+// All of a user's sessions, for the calendar feed
+const findUserSessions = (userId: string) =>
+  StudySession.find(userSessionsFilter(userId))
+  .populate('host', 'firstName lastName avatar')
+  .populate('group', 'name')
+  .populate('participants.user', 'firstName lastName avatar')
+  .sort({ scheduledStart: -1 });
+
+const calendarFeedUrl = (req: express.Request, token: string) =>
+  `${process.env.API_URL || `${req.protocol}://${req.get('host')}/api`}/study-sessions/my-sessions/calendar/${token}.ics`;
+
+// Get user's study sessions (where user is host or participant), apart from
+// cancelled ones unless filtering by status
 router.get('/my-sessions', authenticateToken, async (req, res) => {
   try {
-    const sessions = await StudySession.find({
-      $or: [
-        { host: req.user._id },
-        { 'participants.user': req.user._id }
-      ]
-    })
-    .populate('host', 'firstName lastName avatar')
-    .populate('group', 'name')
-    .populate('participants.user', 'firstName lastName avatar')
-    .sort({ scheduledStart: -1 });
-    
-    res.json(sessions);
+    const query = parseSessionListQuery(req.query);
+    if ('error' in query) {
+      return res.status(400).json({ message: query.error });
+    }
+
+    const page = await findSessionPage({ ...userSessionsFilter(req.user._id), ...withoutCancelled(req.query) }, query, -1);
+
+    res.json(page);
   } catch (error) {
     console.error('Error fetching user sessions:', error);
     res.status(500).json({ message: 'Failed to fetch user sessions' });
   }
 });
 
+// The user's cancelled sessions, with until when the host can still restore each one
+router.get('/cancelled', authenticateToken, async (req, res) => {
+  try {
+    const query = parseSessionListQuery(req.query);
+    if ('error' in query) {
+      return res.status(400).json({ message: query.error });
+    }
+
+    const page = await findSessionPage({ ...userSessionsFilter(req.user._id), status: 'cancelled' }, query, -1);
+
+    res.json({
+      ...page,
+      sessions: page.sessions.map(session => ({ ...session.toJSON(), restorableUntil: restoreDeadline(session) }))
+    });
+  } catch (error) {
+    console.error('Error fetching cancelled sessions:', error);
+    res.status(500).json({ message: 'Failed to fetch cancelled sessions' });
+  }
+});
+
+// Check which of the user's sessions overlap a time range, e.g. while picking a time
+router.get('/conflicts', authenticateToken, async (req, res) => {
+  try {
+    const start = new Date(req.query.start as string);
+    const end = new Date(req.query.end as string);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      return res.status(400).json({ message: 'A valid start and end are required' });
+    }
+
+    const exclude = req.query.exclude ? [req.query.exclude as string] : [];
+    const conflicts = await findConflicts(req.user._id, [{ start, end }], exclude);
+
+    res.json({ conflicts });
+  } catch (error) {
+    console.error('Error checking session conflicts:', error);
+    res.status(500).json({ message: 'Failed to check session conflicts' });
+  }
+});
+
+// Completed sessions the user took part in and hasn't rated yet
+router.get('/feedback/pending', authenticateToken, async (req, res) => {
+  try {
+    res.json({ sessions: await pendingFeedback(req.user._id.toString()) });
+  } catch (error) {
+    console.error('Error fetching pending feedback:', error);
+    res.status(500).json({ message: 'Failed to fetch pending feedback' });
+  }
+});
+
+// Ratings across the sessions the user hosted, by default over the last 90 days
+router.get('/feedback/trends', authenticateToken, async (req, res) => {
+  try {
+    const range = parseDateRange(req.query, FEEDBACK_TRENDS_DAYS);
+    if ('error' in range) {
+      return res.status(400).json({ message: range.error });
+    }
+
+    const userId = req.user._id.toString();
+    res.json(await feedbackTrends({ host: userId }, range, userId));
+  } catch (error) {
+    console.error('Error fetching feedback trends:', error);
+    res.status(500).json({ message: 'Failed to fetch feedback trends' });
+  }
+});
+
+// Get the URL of the user's personal calendar feed, creating its token on first use
+router.get('/my-sessions/calendar', authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (!user.calendarFeedToken) {
+      user.calendarFeedToken = generateFeedToken();
+      await user.save();
+    }
+
+    res.json({ url: calendarFeedUrl(req, user.calendarFeedToken) });
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    res.status(500).json({ message: 'Failed to fetch calendar feed' });
+  }
+});
+
+// Replace the feed token; previously shared feed URLs stop working
+router.post('/my-sessions/calendar/regenerate', authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    user.calendarFeedToken = generateFeedToken();
+    await user.save();
+
+    res.json({ url: calendarFeedUrl(req, user.calendarFeedToken) });
+  } catch (error) {
+    console.error('Error regenerating calendar feed:', error);
+    res.status(500).json({ message: 'Failed to regenerate calendar feed' });
+  }
+});
+
+// Personal iCalendar feed; authenticated by the token in the URL so calendar apps can subscribe
+router.get('/my-sessions/calendar/:token.ics', async (req, res) => {
+  try {
+    const user = await User.findOne({ calendarFeedToken: req.params.token });
+    if (!user) {
+      return res.status(404).json({ message: 'Calendar feed not found' });
+    }
+
+    const sessions = await findUserSessions(user._id);
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', 'inline; filename="study-sessions.ics"');
+    res.send(buildSessionFeed(user, sessions));
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    res.status(500).json({ message: 'Failed to build calendar feed' });
+  }
+});
+
 // Create a new study session
 router.post('/', authenticateToken, async (req, res) => {
   try {
-    const { title, description, groupId, scheduledStart, scheduledEnd, type, maxParticipants } = req.body;
+    const {
+      title,
+      description,
+      groupId,
+      scheduledStart,
+      scheduledEnd,
+      type,
+      maxParticipants,
+      recurrence,
+      allDay,
+      autoStart,
+      autoComplete,
+      ignoreConflicts,
+      templateId
+    } = req.body;
 
     // Verify group exists and user has access
     const group = await Group.findById(groupId);
@@ -79,21 +296,120 @@ router.post('/', authenticateToken, async (req, res) => {
       return res.status(403).json({ message: 'You must be a member of the group to create a session' });
     }
 
+    // Sessions started from a template get its agenda and links; the form
+    // already filled in the rest
+    let content: TemplateContent | undefined;
+    if (templateId) {
+      const usable = await findUsableTemplate(String(templateId), req.user._id.toString());
+      if (!usable) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      if (usable.template.group && usable.template.group.toString() !== group._id.toString()) {
+        return res.status(400).json({ message: 'This template belongs to another group' });
+      }
+      content = usable.template;
+    }
+
+    // Sessions remember the timezone they were scheduled in, defaulting to the group's
+    const timezone = req.body.timezone || group.schedule?.timezone || 'UTC';
+    if (!isValidTimezone(timezone)) {
+      return res.status(400).json({ message: `Unknown timezone: ${timezone}` });
+    }
+
+    let start = new Date(scheduledStart);
+    let end = new Date(scheduledEnd);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || (!allDay && end <= start)) {
+      return res.status(400).json({ message: 'Session end must be after its start' });
+    }
+
+    if (allDay) {
+      ({ start, end } = allDayRange(start, end, timezone));
+    }
+
+    // Recurring sessions are stored as a series and expanded into occurrences
+    if (recurrence) {
+      let rrule: string;
+      try {
+        rrule = formatRRule(parseRRule(recurrence.rrule || ''));
+      } catch (error) {
+        return res.status(400).json({ message: `Invalid recurrence rule: ${(error as Error).message}` });
+      }
+
+      const series = new SessionSeries({
+        title,
+        description,
+        group: groupId,
+        host: req.user._id,
+        type,
+        maxParticipants,
+        rrule,
+        dtstart: start,
+        duration: Math.round((end.getTime() - start.getTime()) / 60000),
+        timezone,
+        allDay: Boolean(allDay),
+        autoStart: Boolean(autoStart),
+        autoComplete: Boolean(autoComplete),
+        exdates: (recurrence.exdates || []).map((date: string) => new Date(date)),
+        agenda: content?.agenda || [],
+        resources: content?.resources || []
+      });
+
+      if (!ignoreConflicts) {
+        const duration = end.getTime() - start.getTime();
+        const occurrences = expandRRule(parseRRule(rrule), start, {
+          before: seriesHorizon(series),
+          exdates: series.exdates,
+          timezone
+        });
+        const conflicts = await findConflicts(
+          req.user._id,
+          occurrences.map(occurrence => ({ start: occurrence, end: new Date(occurrence.getTime() + duration) }))
+        );
+        if (conflicts.length > 0) {
+          return res.status(409).json(conflictResponse(conflicts));
+        }
+      }
+
+      await series.save();
+      await materializeSeries(series, seriesHorizon(series), req.user._id.toString());
+
+      const sessions = await StudySession.find({ series: series._id })
+        .populate('host', 'firstName lastName avatar')
+        .populate('group', 'name')
+        .populate('participants.user', 'firstName lastName avatar')
+        .sort({ scheduledStart: 1 });
+
+      return res.status(201).json({ series, sessions });
+    }
+
+    if (!ignoreConflicts) {
+      const conflicts = await findConflicts(req.user._id, [{ start, end }]);
+      if (conflicts.length > 0) {
+        return res.status(409).json(conflictResponse(conflicts));
+      }
+    }
+
     const session = new StudySession({
       title,
       description,
       group: groupId,
       host: req.user._id,
-      scheduledStart,
-      scheduledEnd,
+      scheduledStart: start,
+      scheduledEnd: end,
+      timezone,
+      allDay: Boolean(allDay),
+      autoStart: Boolean(autoStart),
+      autoComplete: Boolean(autoComplete),
       type,
       maxParticipants,
       participants: [{ user: req.user._id, joinedAt: new Date() }],
-      status: 'scheduled'
+      status: 'scheduled',
+      ...(content && sessionContent(content, req.user._id))
     });
 
     await session.save();
-    
+    await recordSessionChange(session, 'created', { before: null, by: req.user._id.toString() });
+
     const populatedSession = await StudySession.findById(session._id)
       .populate('host', 'firstName lastName avatar')
       .populate('group', 'name')
@@ -106,24 +422,167 @@ router.post('/', authenticateToken, async (req, res) => {
   }
 });
 
-// Update a study session
-router.put('/:id', authenticateToken, async (req, res) => {
+// Get a recurring series with its occurrences; series are visible like their sessions
+router.get('/series/:seriesId', authenticateToken, async (req, res) => {
   try {
-    const session = await StudySession.findById(req.params.id);
-    if (!session) {
+    const series = await SessionSeries.findById(req.params.seriesId);
+    if (!series) {
+      return res.status(404).json({ message: 'Series not found' });
+    }
+
+    const userId = req.user._id.toString();
+    const group = await Group.findById(series.group);
+    if (series.host.toString() !== userId && !(group && canSeeGroupSessions(group, userId))) {
+      return res.status(404).json({ message: 'Series not found' });
+    }
+
+    const sessions = await StudySession.find({ series: series._id })
+      .populate('host', 'firstName lastName avatar')
+      .populate('group', 'name')
+      .populate('participants.user', 'firstName lastName avatar')
+      .sort({ scheduledStart: 1 });
+
+    res.json({ series, sessions });
+  } catch (error) {
+    console.error('Error fetching session series:', error);
+    res.status(500).json({ message: 'Failed to fetch session series' });
+  }
+});
+
+// Cancel a recurring series and all of its upcoming occurrences
+router.delete('/series/:seriesId', authenticateToken, cancellationRules, validateRequest, async (req, res) => {
+  try {
+    const series = await SessionSeries.findById(req.params.seriesId);
+    if (!series) {
+      return res.status(404).json({ message: 'Series not found' });
+    }
+
+    const group = await Group.findById(series.group);
+    if (!canManageSeries(series, group, req.user._id.toString())) {
+      return res.status(403).json({ message: 'Only the host and group moderators can cancel the series' });
+    }
+
+    series.status = 'cancelled';
+    await series.save();
+
+    await cancelSessions(
+      { series: series._id, status: 'scheduled', scheduledStart: { $gt: new Date() } },
+      req.user._id.toString(),
+      getCancellation(req)
+    );
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error cancelling session series:', error);
+    res.status(500).json({ message: 'Failed to cancel session series' });
+  }
+});
+
+// Get a single study session, with what the user may do with it
+router.get('/:id', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user._id.toString();
+    const visible = await findVisibleSession(req.params.id, userId);
+    if (!visible) {
       return res.status(404).json({ message: 'Session not found' });
     }
 
-    // Only host can update session
-    if (session.host.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ message: 'Only the host can update the session' });
+    const { session, group } = visible;
+    const permissions = {
+      manage: hasSessionPermission(session, group, userId),
+      assignHosts: hasSessionPermission(session, group, userId, 'assign-hosts')
+    };
+
+    await session.populate([
+      { path: 'host', select: 'firstName lastName avatar' },
+      { path: 'coHosts', select: 'firstName lastName avatar' },
+      { path: 'group', select: 'name' },
+      { path: 'participants.user', select: 'firstName lastName avatar' }
+    ]);
+
+    res.json({ ...session.toJSON(), permissions });
+  } catch (error) {
+    console.error('Error fetching study session:', error);
+    res.status(500).json({ message: 'Failed to fetch study session' });
+  }
+});
+
+// Update a study session. Only the fields in sessionUpdateRules can be
+// changed; status changes go through the transition endpoints below.
+router.put('/:id', authenticateToken, sessionUpdateRules, validateRequest, async (req, res) => {
+  try {
+    const authorized = await authorizeSession(req.params.id, req.user._id.toString(), 'manage', 'update the session');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
     }
 
-    const updatedSession = await StudySession.findByIdAndUpdate(
-      req.params.id,
-      { $set: req.body },
-      { new: true }
-    )
+    const { session } = authorized;
+    if (session.status === 'completed' || session.status === 'cancelled') {
+      return res.status(400).json({ message: `A ${session.status} session can no longer be edited` });
+    }
+
+    const update = getSessionUpdate(req);
+    const errors = checkSessionUpdate(session, update);
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Validation failed', errors });
+    }
+
+    // Occurrences of a series can be edited on their own (scope=this, the
+    // default) or together with every later occurrence (scope=following)
+    if (session.series && req.query.scope === 'following') {
+      const series = await SessionSeries.findById(session.series);
+      if (series) {
+        const following = await StudySession.find({
+          series: series._id,
+          occurrenceStart: { $gte: session.occurrenceStart || session.scheduledStart }
+        });
+        const before = new Map(following.map(occurrence => [occurrence._id.toString(), snapshotSession(occurrence)]));
+
+        const result = await updateFollowingOccurrences(series, session, pickOccurrenceChanges(update));
+        if ('errors' in result) {
+          return res.status(400).json({ message: 'Validation failed', errors: result.errors });
+        }
+
+        const updated = await StudySession.find({ _id: { $in: following.map(occurrence => occurrence._id) } });
+        for (const occurrence of updated) {
+          await recordSessionChange(occurrence, 'updated', {
+            before: before.get(occurrence._id.toString())!,
+            by: req.user._id.toString()
+          });
+
+          // Raising the cap frees spots for people on the waitlist
+          if (update.maxParticipants !== undefined) {
+            await promoteFromWaitlist(occurrence);
+          }
+        }
+
+        const updatedSession = await StudySession.findById(session._id)
+          .populate('host', 'firstName lastName avatar')
+          .populate('group', 'name')
+          .populate('participants.user', 'firstName lastName avatar');
+
+        return res.json(updatedSession);
+      }
+    }
+
+    const before = snapshotSession(session);
+    const { maxParticipants, ...changes } = update;
+    session.set(changes);
+    if (maxParticipants !== undefined) {
+      session.maxParticipants = maxParticipants ?? undefined;
+    }
+    if (session.series) {
+      session.isException = true;
+    }
+    await session.save();
+    await recordSessionChange(session, 'updated', { before, by: req.user._id.toString() });
+
+    // Raising the cap frees spots for people on the waitlist
+    if (maxParticipants !== undefined) {
+      await promoteFromWaitlist(session);
+    }
+
+    const updatedSession = await StudySession.findById(req.params.id)
     .populate('host', 'firstName lastName avatar')
     .populate('group', 'name')
     .populate('participants.user', 'firstName lastName avatar');
@@ -135,23 +594,238 @@ router.put('/:id', authenticateToken, async (req, res) => {
   }
 });
 
-// Cancel a study session
-router.delete('/:id', authenticateToken, async (req, res) => {
+// Handler for an explicit status change by one of the hosts, e.g. starting a
+// session. Cancelling takes the details validated by cancellationRules.
+const statusChange = (to: SessionStatus, action: string): express.RequestHandler => async (req, res) => {
+  try {
+    const authorized = await authorizeSession(req.params.id, req.user._id.toString(), 'manage', `${action} the session`);
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    const { session } = authorized;
+
+    const denied = checkTransition(session, to);
+    if (denied) {
+      return res.status(400).json({ message: denied });
+    }
+
+    const transitioned = await transitionSession(session, to, {
+      by: req.user._id.toString(),
+      cancellation: to === 'cancelled' ? getCancellation(req) : undefined
+    });
+    if (!transitioned) {
+      return res.status(409).json({ message: 'The session was changed in the meantime, please reload it' });
+    }
+
+    const updatedSession = await StudySession.findById(session._id)
+      .populate('host', 'firstName lastName avatar')
+      .populate('group', 'name')
+      .populate('participants.user', 'firstName lastName avatar');
+
+    res.json(updatedSession);
+  } catch (error) {
+    console.error(`Error trying to ${action} study session:`, error);
+    res.status(500).json({ message: `Failed to ${action} study session` });
+  }
+};
+
+router.post('/:id/start', authenticateToken, statusChange('live', 'start'));
+router.post('/:id/end', authenticateToken, statusChange('completed', 'end'));
+router.post('/:id/cancel', authenticateToken, cancellationRules, validateRequest, statusChange('cancelled', 'cancel'));
+// Undo a cancellation within the restore window
+router.post('/:id/restore', authenticateToken, statusChange('scheduled', 'restore'));
+
+// Replace the co-hosts of a session, who run it together with the host
+router.put('/:id/co-hosts', authenticateToken, coHostRules, validateRequest, async (req, res) => {
+  try {
+    const userId = req.user._id.toString();
+    const authorized = await authorizeSession(req.params.id, userId, 'assign-hosts', 'choose the co-hosts');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    const { session, group } = authorized;
+    const denied = checkCoHosts(session, group, req.body.coHosts);
+    if (denied) {
+      return res.status(400).json({ message: denied });
+    }
+
+    await setCoHosts(session, req.body.coHosts, userId);
+
+    const updatedSession = await StudySession.findById(session._id)
+      .populate('host', 'firstName lastName avatar')
+      .populate('coHosts', 'firstName lastName avatar')
+      .populate('group', 'name')
+      .populate('participants.user', 'firstName lastName avatar');
+
+    res.json(updatedSession);
+  } catch (error) {
+    console.error('Error updating co-hosts:', error);
+    res.status(500).json({ message: 'Failed to update co-hosts' });
+  }
+});
+
+// Hand the session over to another host, e.g. when the host can't make it
+router.post('/:id/transfer-host', authenticateToken, transferHostRules, validateRequest, async (req, res) => {
+  try {
+    const userId = req.user._id.toString();
+    const authorized = await authorizeSession(req.params.id, userId, 'assign-hosts', 'hand over the session');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    const { session, group } = authorized;
+    const denied = checkHostTransfer(session, group, req.body.userId);
+    if (denied) {
+      return res.status(400).json({ message: denied });
+    }
+
+    const transferred = await transferHost(session, req.body.userId, {
+      keepAsCoHost: req.body.keepAsCoHost,
+      by: userId
+    });
+    if (!transferred) {
+      return res.status(409).json({ message: 'The session was changed in the meantime, please reload it' });
+    }
+
+    const updatedSession = await StudySession.findById(session._id)
+      .populate('host', 'firstName lastName avatar')
+      .populate('coHosts', 'firstName lastName avatar')
+      .populate('group', 'name')
+      .populate('participants.user', 'firstName lastName avatar');
+
+    res.json(updatedSession);
+  } catch (error) {
+    console.error('Error transferring session host:', error);
+    res.status(500).json({ message: 'Failed to hand over the session' });
+  }
+});
+
+// Attendance report of a session, as JSON or as a CSV download (?format=csv)
+router.get('/:id/attendance', authenticateToken, async (req, res) => {
+  try {
+    const authorized = await authorizeSession(
+      req.params.id,
+      req.user._id.toString(),
+      'manage',
+      'view the attendance of the session'
+    );
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    const { session } = authorized;
+
+    const report = await sessionAttendanceReport(session);
+
+    if (req.query.format === 'csv') {
+      const { fileName, content } = sessionAttendanceCsv(report);
+      res.set('Content-Type', 'text/csv; charset=utf-8');
+      res.set('Content-Disposition', `attachment; filename="${fileName}"`);
+      return res.send(content);
+    }
+
+    res.json(report);
+  } catch (error) {
+    console.error('Error fetching session attendance:', error);
+    res.status(500).json({ message: 'Failed to fetch session attendance' });
+  }
+});
+
+// Ratings and comments of a session, for its hosts and the group's owner and moderators
+router.get('/:id/feedback', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user._id.toString();
+    const authorized = await authorizeSession(req.params.id, userId, 'manage', 'view the feedback');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
+    }
+
+    res.json(await sessionFeedbackReport(authorized.session, userId));
+  } catch (error) {
+    console.error('Error fetching session feedback:', error);
+    res.status(500).json({ message: 'Failed to fetch session feedback' });
+  }
+});
+
+// The user's own feedback on a session, and whether they can still give or change it
+router.get('/:id/feedback/mine', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user._id.toString();
+    const visible = await findVisibleSession(req.params.id, userId);
+    if (!visible) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    const { session } = visible;
+    const feedback = findFeedback(session, userId);
+
+    res.json({
+      feedback: feedback || null,
+      editableUntil: feedback ? editableUntil(feedback) : feedbackDeadline(session),
+      denied: checkFeedback(session, userId)
+    });
+  } catch (error) {
+    console.error('Error fetching own feedback:', error);
+    res.status(500).json({ message: 'Failed to fetch feedback' });
+  }
+});
+
+// Rate a completed session, or change the rating given earlier
+router.put('/:id/feedback', authenticateToken, feedbackRules, validateRequest, async (req, res) => {
   try {
     const session = await StudySession.findById(req.params.id);
     if (!session) {
       return res.status(404).json({ message: 'Session not found' });
     }
 
-    // Only host can cancel session
-    if (session.host.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ message: 'Only the host can cancel the session' });
+    const userId = req.user._id.toString();
+    const denied = checkFeedback(session, userId);
+    if (denied) {
+      return res.status(400).json({ message: denied });
+    }
+
+    const before = snapshotSession(session);
+    const { rating, comment, anonymous } = req.body;
+    const saved = await saveFeedback(session, userId, { rating, comment, anonymous });
+    if (!saved) {
+      return res.status(409).json({ message: 'Your feedback was changed in the meantime, please reload it' });
+    }
+
+    // Anonymous ratings are logged without who gave them
+    await recordSessionChange(saved.session, 'feedback-changed', { before, by: anonymous ? undefined : userId });
+
+    const { entry } = saved;
+    res.json({ feedback: entry, editableUntil: editableUntil(entry), denied: null });
+  } catch (error) {
+    console.error('Error saving session feedback:', error);
+    res.status(500).json({ message: 'Failed to save feedback' });
+  }
+});
+
+// Cancel a study session
+router.delete('/:id', authenticateToken, cancellationRules, validateRequest, async (req, res) => {
+  try {
+    const authorized = await authorizeSession(req.params.id, req.user._id.toString(), 'manage', 'cancel the session');
+    if ('denied' in authorized) {
+      return res.status(authorized.denied.status).json({ message: authorized.denied.message });
     }
 
-    await StudySession.findByIdAndUpdate(req.params.id, {
-      status: 'cancelled',
-      updatedAt: new Date()
+    const { session } = authorized;
+
+    const denied = checkTransition(session, 'cancelled');
+    if (denied) {
+      return res.status(400).json({ message: denied });
+    }
+
+    const cancelled = await transitionSession(session, 'cancelled', {
+      by: req.user._id.toString(),
+      cancellation: getCancellation(req)
     });
+    if (!cancelled) {
+      return res.status(409).json({ message: 'The session was changed in the meantime, please reload it' });
+    }
 
     res.status(204).send();
   } catch (error) {
@@ -163,11 +837,13 @@ router.delete('/:id', authenticateToken, async (req, res) => {
 // Join a study session
 router.post('/:id/join', authenticateToken, async (req, res) => {
   try {
-    const session = await StudySession.findById(req.params.id);
-    if (!session) {
+    const visible = await findVisibleSession(req.params.id, req.user._id.toString());
+    if (!visible) {
       return res.status(404).json({ message: 'Session not found' });
     }
 
+    const { session } = visible;
+
     if (session.status !== 'scheduled') {
       return res.status(400).json({ message: 'Cannot join a non-scheduled session' });
     }
@@ -177,17 +853,48 @@ router.post('/:id/join', authenticateToken, async (req, res) => {
       return res.status(400).json({ message: 'You are already a participant' });
     }
 
+    if (waitlistPosition(session, req.user._id)) {
+      return res.status(400).json({ message: 'You are already on the waitlist' });
+    }
+
+    // Guests enter the room with their invite and don't take up a spot
+    if (isGuest(session, req.user._id.toString())) {
+      return res.status(400).json({ message: 'You are a guest of this session and can enter it without joining' });
+    }
+
     // Check if session is full
-    if (session.maxParticipants && session.participants.length >= session.maxParticipants) {
-      return res.status(400).json({ message: 'Session is full' });
+    if (!hasOpenSpot(session)) {
+      return res.status(400).json({
+        message: 'Session is full',
+        waitlistPosition: session.waitlist.length + 1
+      });
     }
 
-    session.participants.push({
-      user: req.user._id,
-      joinedAt: new Date()
-    });
+    if (!req.body.ignoreConflicts) {
+      const conflicts = await findConflicts(
+        req.user._id,
+        [{ start: session.scheduledStart, end: session.scheduledEnd }],
+        [session._id]
+      );
+      if (conflicts.length > 0) {
+        return res.status(409).json(conflictResponse(conflicts));
+      }
+    }
 
-    await session.save();
+    const before = snapshotSession(session);
+    const joined = await addParticipant(session, req.user._id.toString());
+    if (!joined) {
+      // Taken by someone who joined at the same time
+      const current = await StudySession.findById(session._id);
+      if (current && current.status === 'scheduled' && !hasOpenSpot(current)) {
+        return res.status(400).json({
+          message: 'Session is full',
+          waitlistPosition: current.waitlist.length + 1
+        });
+      }
+      return res.status(409).json({ message: 'The session was changed in the meantime, please reload it' });
+    }
+    await recordSessionChange(joined, 'joined', { before, by: req.user._id.toString() });
 
     const updatedSession = await StudySession.findById(session._id)
       .populate('host', 'firstName lastName avatar')
@@ -214,9 +921,25 @@ router.post('/:id/leave', authenticateToken, async (req, res) => {
       return res.status(400).json({ message: 'Host cannot leave the session' });
     }
 
-    await StudySession.findByIdAndUpdate(req.params.id, {
-      $pull: { participants: { user: req.user._id } }
-    });
+    // Once a session started, its participants are kept for attendance and feedback
+    if (session.status !== 'scheduled') {
+      return res.status(400).json({ message: 'You can only leave a session before it starts' });
+    }
+
+    const before = snapshotSession(session);
+    // Co-hosts who leave stop running the session too
+    const updated = await StudySession.findOneAndUpdate(
+      { _id: session._id, status: 'scheduled' },
+      { $pull: { participants: { user: req.user._id }, waitlist: { user: req.user._id }, coHosts: req.user._id } },
+      { new: true }
+    );
+    if (!updated) {
+      return res.status(409).json({ message: 'The session was changed in the meantime, please reload it' });
+    }
+    await recordSessionChange(updated, 'left', { before, by: req.user._id.toString() });
+
+    // Hand the freed spot to the next person in line
+    await promoteFromWaitlist(updated);
 
     res.status(204).send();
   } catch (error) {
@@ -225,4 +948,69 @@ router.post('/:id/leave', authenticateToken, async (req, res) => {
   }
 });
 
+// Join the waitlist of a full study session
+router.post('/:id/waitlist', authenticateToken, async (req, res) => {
+  try {
+    const visible = await findVisibleSession(req.params.id, req.user._id.toString());
+    if (!visible) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    const { session } = visible;
+
+    if (session.status !== 'scheduled') {
+      return res.status(400).json({ message: 'Cannot join the waitlist of a non-scheduled session' });
+    }
+
+    if (session.participants.some(p => p.user.toString() === req.user._id.toString())) {
+      return res.status(400).json({ message: 'You are already a participant' });
+    }
+
+    if (waitlistPosition(session, req.user._id)) {
+      return res.status(400).json({ message: 'You are already on the waitlist' });
+    }
+
+    if (hasOpenSpot(session)) {
+      return res.status(400).json({ message: 'Session has open spots, join it directly' });
+    }
+
+    const before = snapshotSession(session);
+    session.waitlist.push({ user: req.user._id, joinedAt: new Date() });
+    await session.save();
+    await recordSessionChange(session, 'waitlist-joined', { before, by: req.user._id.toString() });
+
+    res.status(201).json({ position: session.waitlist.length });
+  } catch (error) {
+    console.error('Error joining session waitlist:', error);
+    res.status(500).json({ message: 'Failed to join waitlist' });
+  }
+});
+
+// Leave the waitlist of a study session
+router.delete('/:id/waitlist', authenticateToken, async (req, res) => {
+  try {
+    const session = await StudySession.findById(req.params.id);
+    if (!session) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    if (!waitlistPosition(session, req.user._id)) {
+      return res.status(400).json({ message: 'You are not on the waitlist' });
+    }
+
+    const before = snapshotSession(session);
+    const updated = await StudySession.findByIdAndUpdate(req.params.id, {
+      $pull: { waitlist: { user: req.user._id } }
+    }, { new: true });
+    if (updated) {
+      await recordSessionChange(updated, 'waitlist-left', { before, by: req.user._id.toString() });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error leaving session waitlist:', error);
+    res.status(500).json({ message: 'Failed to leave waitlist' });
+  }
+});
+
 export default router;
@@ -0,0 +1,83 @@
+import { IAttendanceSegment } from '../models/AttendanceSegment';
+import { IStudySession } from '../models/StudySession';
+import { buildAttendance, mergeSpans } from './attendance';
+
+jest.mock('../models/User', () => ({ __esModule: true, default: {} }), { virtual: true });
+
+// Minutes after 10:00 on a fixed day
+const at = (minutes: number) => new Date(Date.UTC(2026, 2, 2, 10, minutes));
+const span = (start: number, end: number) => ({ start: at(start), end: at(end) });
+
+describe('mergeSpans', () => {
+  it('joins overlapping and touching spans and sorts them', () => {
+    expect(mergeSpans([span(30, 40), span(0, 10), span(5, 20), span(20, 25)])).toEqual([
+      span(0, 25),
+      span(30, 40)
+    ]);
+  });
+
+  it('keeps a span that lies within another once', () => {
+    expect(mergeSpans([span(0, 60), span(10, 20)])).toEqual([span(0, 60)]);
+  });
+
+  it('clips the spans to the window and drops what falls outside', () => {
+    expect(mergeSpans([span(-20, -10), span(-5, 15), span(50, 80)], span(0, 60))).toEqual([
+      span(0, 15),
+      span(50, 60)
+    ]);
+  });
+
+  it('drops empty spans', () => {
+    expect(mergeSpans([span(10, 10), span(20, 15)])).toEqual([]);
+  });
+
+  it('does not change the spans it was given', () => {
+    const spans = [span(0, 10), span(5, 20)];
+    mergeSpans(spans);
+    expect(spans).toEqual([span(0, 10), span(5, 20)]);
+  });
+});
+
+describe('buildAttendance', () => {
+  const session = { actualStart: at(0), actualEnd: at(60) } as unknown as IStudySession;
+  const segment = (user: string, joined: number, left?: number) =>
+    ({ user, joinedAt: at(joined), leftAt: left === undefined ? undefined : at(left) }) as unknown as IAttendanceSegment;
+
+  it('counts overlapping segments of one user, e.g. two tabs, once', () => {
+    const [record] = buildAttendance(session, [segment('ana', 0, 30), segment('ana', 20, 40)]);
+    expect(record).toEqual({
+      user: 'ana',
+      minutes: 40,
+      firstJoined: at(0),
+      lastLeft: at(40),
+      segments: [span(0, 40)]
+    });
+  });
+
+  it('only counts the time the session was live', () => {
+    const [record] = buildAttendance(session, [segment('ben', -15, 10), segment('ben', 50, 75)]);
+    expect(record.minutes).toBe(20);
+    expect(record.segments).toEqual([span(0, 10), span(50, 60)]);
+  });
+
+  it('counts open segments of a live session until now', () => {
+    const live = { actualStart: at(0) } as unknown as IStudySession;
+    const [record] = buildAttendance(live, [segment('cem', 10)], at(25));
+    expect(record.minutes).toBe(15);
+  });
+
+  it('counts nothing for a session that never went live', () => {
+    const cancelled = { actualEnd: at(60) } as unknown as IStudySession;
+    expect(buildAttendance(cancelled, [segment('dan', 0, 30)], at(90))).toEqual([]);
+    expect(buildAttendance({} as IStudySession, [segment('dan', 0)], at(90))).toEqual([]);
+  });
+
+  it('leaves out people who were only there outside the session and sorts by arrival', () => {
+    const records = buildAttendance(session, [
+      segment('late', 30, 45),
+      segment('early-bird', -30, -5),
+      segment('first', 5, 10)
+    ]);
+    expect(records.map(record => record.user)).toEqual(['first', 'late']);
+  });
+});
@@ -0,0 +1,302 @@
+import { Types } from 'mongoose';
+import AttendanceSegment, { IAttendanceSegment } from '../models/AttendanceSegment';
+import StudySession, { IStudySession } from '../models/StudySession';
+import User from '../models/User';
+import { csvFileName, CsvValue, toCsv } from '../utils/csv';
+
+// Attendance is recorded as segments: one per stretch of time a user spends
+// in a session room, opened when they enter and closed when they leave or
+// their connection drops. A person's attendance is the union of their
+// segments, clipped to the time the session was actually live.
+
+const MINUTE_MS = 60 * 1000;
+const USER_FIELDS = 'firstName lastName email avatar';
+
+export interface TimeSpan {
+  start: Date;
+  end: Date;
+}
+
+export interface AttendanceRecord {
+  user: string;
+  minutes: number;
+  firstJoined: Date;
+  lastLeft: Date;
+  segments: TimeSpan[];
+}
+
+export interface AttendeeInfo {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  avatar?: string;
+}
+
+const openSegment = { leftAt: { $exists: false } };
+
+// Record that a user entered the session room over a connection, straight
+// into `breakoutRoom` while a round of breakout rooms is running. Entering
+// twice over the same connection keeps the segment that is already open.
+export const enterSession = async (
+  session: IStudySession,
+  userId: string,
+  connectionId: string,
+  options: { breakoutRoom?: Types.ObjectId; at?: Date } = {}
+) => {
+  const existing = await AttendanceSegment.findOne({ session: session._id, user: userId, connectionId, ...openSegment });
+  if (existing) {
+    return existing;
+  }
+
+  return AttendanceSegment.create({
+    session: session._id,
+    group: session.group,
+    user: userId,
+    connectionId,
+    breakoutRoom: options.breakoutRoom,
+    joinedAt: options.at || new Date()
+  });
+};
+
+export const leaveSession = (sessionId: string, userId: string, connectionId: string, at: Date = new Date()) =>
+  AttendanceSegment.updateMany({ session: sessionId, user: userId, connectionId, ...openSegment }, { leftAt: at });
+
+// Close everything a dropped connection had open. Returns the ids of the
+// sessions it was in, so their presence can be refreshed.
+export const closeConnection = async (connectionId: string, at: Date = new Date()) => {
+  const sessionIds: string[] = (await AttendanceSegment.distinct('session', { connectionId, ...openSegment }))
+    .map((id: unknown) => String(id));
+  if (sessionIds.length > 0) {
+    await AttendanceSegment.updateMany({ connectionId, ...openSegment }, { leftAt: at });
+  }
+  return sessionIds;
+};
+
+// Move everyone in the session room to the breakout room `roomOf` gives for
+// them, or back to the main room for undefined. Segments in another room are
+// closed and reopened over the same connection, so the time spent in each
+// room is kept apart while the attendance of the session stays continuous.
+export const moveAttendance = async (
+  sessionId: IStudySession['_id'],
+  roomOf: (userId: string) => Types.ObjectId | undefined,
+  at: Date = new Date()
+) => {
+  const segments = await AttendanceSegment.find({ session: sessionId, ...openSegment });
+  const moving = segments.filter(segment =>
+    roomOf(segment.user.toString())?.toString() !== segment.breakoutRoom?.toString());
+  if (moving.length === 0) {
+    return;
+  }
+
+  await AttendanceSegment.updateMany({ _id: { $in: moving.map(segment => segment._id) } }, { leftAt: at });
+  await AttendanceSegment.insertMany(moving.map(segment => ({
+    session: segment.session,
+    group: segment.group,
+    user: segment.user,
+    connectionId: segment.connectionId,
+    breakoutRoom: roomOf(segment.user.toString()),
+    joinedAt: at
+  })));
+};
+
+// Close the segments of everyone still in the room of a session that ended
+export const closeSessionAttendance = (sessionId: IStudySession['_id'], at: Date = new Date()) =>
+  AttendanceSegment.updateMany({ session: sessionId, ...openSegment }, { leftAt: at });
+
+// The users currently in the room of a session
+export const presentUsers = async (sessionId: string): Promise<AttendeeInfo[]> => {
+  const userIds = await AttendanceSegment.distinct('user', { session: sessionId, ...openSegment });
+  return User.find({ _id: { $in: userIds } }).select('firstName lastName avatar').lean();
+};
+
+// Union of possibly overlapping spans, clipped to `window`; empty spans are dropped
+export const mergeSpans = (spans: TimeSpan[], window: Partial<TimeSpan> = {}): TimeSpan[] => {
+  const clipped = spans
+    .map(span => ({
+      start: window.start && span.start < window.start ? window.start : span.start,
+      end: window.end && span.end > window.end ? window.end : span.end
+    }))
+    .filter(span => span.end > span.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: TimeSpan[] = [];
+  clipped.forEach(span => {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      if (span.end > last.end) {
+        last.end = span.end;
+      }
+    } else {
+      merged.push({ ...span });
+    }
+  });
+
+  return merged;
+};
+
+const spanMinutes = (spans: TimeSpan[]) =>
+  Math.round(spans.reduce((total, span) => total + span.end.getTime() - span.start.getTime(), 0) / MINUTE_MS);
+
+// Per-user attendance of a session from its segments. Time in the room
+// before the session started or after it ended doesn't count, so a session
+// that never went live has no attendance; segments still open count until `now`.
+export const buildAttendance = (
+  session: IStudySession,
+  segments: IAttendanceSegment[],
+  now: Date = new Date()
+): AttendanceRecord[] => {
+  if (!session.actualStart) {
+    return [];
+  }
+
+  const window = { start: session.actualStart, end: session.actualEnd || now };
+  const byUser = new Map<string, TimeSpan[]>();
+
+  segments.forEach(segment => {
+    const user = segment.user.toString();
+    const spans = byUser.get(user) || [];
+    spans.push({ start: segment.joinedAt, end: segment.leftAt || now });
+    byUser.set(user, spans);
+  });
+
+  const records: AttendanceRecord[] = [];
+  byUser.forEach((spans, user) => {
+    const merged = mergeSpans(spans, window);
+    if (merged.length > 0) {
+      records.push({
+        user,
+        minutes: spanMinutes(merged),
+        firstJoined: merged[0].start,
+        lastLeft: merged[merged.length - 1].end,
+        segments: merged
+      });
+    }
+  });
+
+  return records.sort((a, b) => a.firstJoined.getTime() - b.firstJoined.getTime());
+};
+
+export const sessionAttendance = async (session: IStudySession, now: Date = new Date()) =>
+  buildAttendance(session, await AttendanceSegment.find({ session: session._id }), now);
+
+// Look up attendees by id; users deleted since still show up in reports
+const loadUsers = async (userIds: string[]) => {
+  const users: AttendeeInfo[] = await User.find({ _id: { $in: userIds } }).select(USER_FIELDS).lean();
+  const byId = new Map(users.map(user => [user._id.toString(), user]));
+  return (userId: string): AttendeeInfo => byId.get(userId) || { _id: userId, firstName: 'Deleted', lastName: 'user' };
+};
+
+const fullName = (user: AttendeeInfo) => `${user.firstName} ${user.lastName}`;
+
+// Attendance report of one session, with the attendees' names
+export const sessionAttendanceReport = async (session: IStudySession) => {
+  const records = await sessionAttendance(session);
+  const users = await loadUsers(records.map(record => record.user));
+
+  return {
+    session: {
+      _id: session._id,
+      title: session.title,
+      status: session.status,
+      scheduledStart: session.scheduledStart,
+      scheduledEnd: session.scheduledEnd,
+      actualStart: session.actualStart,
+      actualEnd: session.actualEnd
+    },
+    attendees: records.map(record => ({ ...record, user: users(record.user) })),
+    totalMinutes: records.reduce((total, record) => total + record.minutes, 0)
+  };
+};
+
+// Attendance report of a group over the sessions that took place in [from, to):
+// one row per session and attendee, plus totals per member
+export const groupAttendanceReport = async (groupId: string, from: Date, to: Date) => {
+  const sessions = await StudySession.find({
+    group: groupId,
+    status: { $in: ['live', 'completed'] },
+    actualStart: { $gte: from, $lt: to }
+  })
+    .select('title status scheduledStart scheduledEnd actualStart actualEnd')
+    .sort({ actualStart: 1 });
+
+  const segments = await AttendanceSegment.find({ group: groupId, session: { $in: sessions.map(s => s._id) } });
+  const now = new Date();
+
+  const rows = sessions.map(session => ({
+    session,
+    attendees: buildAttendance(
+      session,
+      segments.filter(segment => segment.session.toString() === session._id.toString()),
+      now
+    )
+  }));
+
+  const totals = new Map<string, { sessions: number; minutes: number }>();
+  rows.forEach(({ attendees }) => attendees.forEach(record => {
+    const total = totals.get(record.user) || { sessions: 0, minutes: 0 };
+    total.sessions++;
+    total.minutes += record.minutes;
+    totals.set(record.user, total);
+  }));
+
+  const users = await loadUsers(Array.from(totals.keys()));
+
+  return {
+    from,
+    to,
+    sessions: rows.map(({ session, attendees }) => ({
+      _id: session._id,
+      title: session.title,
+      actualStart: session.actualStart,
+      actualEnd: session.actualEnd,
+      attendees: attendees.map(record => ({
+        user: users(record.user),
+        minutes: record.minutes
+      }))
+    })),
+    members: Array.from(totals.keys())
+      .map(user => ({ user: users(user), ...totals.get(user)! }))
+      .sort((a, b) => b.minutes - a.minutes)
+  };
+};
+
+export type SessionAttendanceReport = Awaited<ReturnType<typeof sessionAttendanceReport>>;
+export type GroupAttendanceReport = Awaited<ReturnType<typeof groupAttendanceReport>>;
+
+export const sessionAttendanceCsv = (report: SessionAttendanceReport) => ({
+  fileName: csvFileName('attendance', report.session.title, report.session.scheduledStart.toISOString().slice(0, 10)),
+  content: toCsv(
+    ['Name', 'Email', 'Minutes attended', 'First joined', 'Last left', 'Times joined'],
+    report.attendees.map(({ user, minutes, firstJoined, lastLeft, segments }) => [
+      fullName(user),
+      user.email,
+      minutes,
+      firstJoined,
+      lastLeft,
+      segments.length
+    ])
+  )
+});
+
+export const groupAttendanceCsv = (groupName: string, report: GroupAttendanceReport) => ({
+  fileName: csvFileName(
+    'attendance',
+    groupName,
+    report.from.toISOString().slice(0, 10),
+    report.to.toISOString().slice(0, 10)
+  ),
+  content: toCsv(
+    ['Session', 'Started', 'Ended', 'Name', 'Email', 'Minutes attended'],
+    report.sessions.reduce<CsvValue[][]>((rows, session) => rows.concat(
+      session.attendees.map(({ user, minutes }) => [
+        session.title,
+        session.actualStart,
+        session.actualEnd,
+        fullName(user),
+        user.email,
+        minutes
+      ])
+    ), [])
+  )
+});
@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import { IStudySession } from '../models/StudySession';
+import { IUser } from '../models/User';
+import { IGroup } from '../models/Group';
+import { buildCalendar, ICalEvent } from '../utils/ical';
+import { populated } from '../utils/populated';
+
+// Personal iCalendar feeds. Calendar apps cannot send our JWT, so each user
+// gets a random token that is part of the feed URL; regenerating the token
+// invalidates every URL handed out before.
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:3000';
+
+export const generateFeedToken = () => crypto.randomBytes(24).toString('hex');
+
+export const sessionLink = (sessionId: string) => `${CLIENT_URL}/sessions/${sessionId}`;
+
+const personName = (person: IUser | null) =>
+  person && person.firstName ? `${person.firstName} ${person.lastName}` : undefined;
+
+// The feed route populates the group's name and the host's name
+const sessionEvent = (session: IStudySession): ICalEvent => {
+  const link = sessionLink(session._id.toString());
+  const group = populated<IGroup>(session.group, 'name')?.name;
+  const host = personName(populated<IUser>(session.host, 'firstName'));
+
+  const description = [
+    session.description,
+    group && `Group: ${group}`,
+    host && `Host: ${host}`,
+    link
+  ].filter(Boolean).join('\n');
+
+  return {
+    uid: `${session._id}@virtual-study-group`,
+    start: session.scheduledStart,
+    end: session.scheduledEnd,
+    summary: group ? `${session.title} (${group})` : session.title,
+    description,
+    categories: group ? [group] : undefined,
+    url: link,
+    status: session.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    created: session.createdAt,
+    lastModified: session.updatedAt
+  };
+};
+
+export const buildSessionFeed = (user: IUser, sessions: IStudySession[]) =>
+  buildCalendar({
+    name: `Study sessions - ${personName(user) || 'Virtual Study Group'}`,
+    events: sessions.map(sessionEvent)
+  });
@@ -0,0 +1,40 @@
+import { hasValidSignature, sign } from '../utils/signature';
+
+// Which email a user wants. `notificationSettings.email` switches all
+// optional mail off; `notificationSettings.emailOptOuts` lists the
+// categories they unsubscribed from. Transactional mail such as password
+// resets has no category and is always sent. Every optional email carries
+// an unsubscribe link, signed so it works without logging in.
+
+export const EMAIL_CATEGORIES = ['reminders', 'cancellations', 'invites'] as const;
+export type EmailCategory = typeof EMAIL_CATEGORIES[number];
+
+interface EmailSettings {
+  email?: boolean;
+  emailOptOuts?: string[];
+}
+
+export const wantsEmail = (settings: EmailSettings | undefined, category: EmailCategory) =>
+  settings?.email !== false && !(settings?.emailOptOuts || []).includes(category);
+
+const signedPayload = (userId: string, category: EmailCategory) => `unsubscribe:${userId}:${category}`;
+
+export const unsubscribeToken = (userId: string, category: EmailCategory) =>
+  `${userId}.${category}.${sign(signedPayload(userId, category))}`;
+
+// Returns null unless the token was signed by us
+export const verifyUnsubscribeToken = (token: string): { userId: string; category: EmailCategory } | null => {
+  const [userId, category, sig] = token.split('.');
+  if (!userId || !sig || !EMAIL_CATEGORIES.includes(category as EmailCategory)) {
+    return null;
+  }
+
+  if (!hasValidSignature(signedPayload(userId, category as EmailCategory), sig)) {
+    return null;
+  }
+
+  return { userId, category: category as EmailCategory };
+};
+
+export const unsubscribeUrl = (userId: string, category: EmailCategory) =>
+  `${process.env.API_URL || 'http://localhost:5000/api'}/email/unsubscribe?token=${encodeURIComponent(unsubscribeToken(userId, category))}`;
@@ -0,0 +1,81 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { createLocalDiskStorage } from './storageDrivers/localDisk';
+import { createS3Storage } from './storageDrivers/s3';
+
+// Uploaded files are kept by a storage driver under an opaque key; the
+// database only stores the key with the file's name, size and type.
+// STORAGE_DRIVER picks the driver: `local` (default) writes to UPLOAD_PATH,
+// `s3` talks to any S3-compatible service such as a local MinIO.
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+export interface StoredFile {
+  key: string;
+  name: string;
+  size: number;
+  contentType: string;
+}
+
+export const MAX_FILE_SIZE = Number(process.env.MAX_FILE_SIZE) || 10 * 1024 * 1024;
+
+export const ALLOWED_MIME_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/zip',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp'
+];
+
+let driver: StorageDriver | null = null;
+
+export const getStorage = (): StorageDriver => {
+  if (!driver) {
+    driver = process.env.STORAGE_DRIVER === 's3'
+      ? createS3Storage({
+        endpoint: process.env.S3_ENDPOINT || 'http://localhost:9000',
+        region: process.env.S3_REGION || 'us-east-1',
+        bucket: process.env.S3_BUCKET || 'study-group-uploads',
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || ''
+      })
+      : createLocalDiskStorage(process.env.UPLOAD_PATH || './uploads');
+  }
+  return driver;
+};
+
+// Keys group files by what they belong to, e.g. `sessions/<id>/<uuid>.pdf`;
+// the original name is kept in the database only
+export const storeFile = async (
+  folder: string,
+  file: { originalname: string; buffer: Buffer; size: number; mimetype: string }
+): Promise<StoredFile> => {
+  const key = `${folder}/${randomUUID()}${path.extname(file.originalname).toLowerCase()}`;
+  await getStorage().put(key, file.buffer, file.mimetype);
+
+  return { key, name: file.originalname, size: file.size, contentType: file.mimetype };
+};
+
+// Deleting is best effort: a file left behind in storage is only wasted
+// space, so failures are logged instead of failing the request
+export const deleteStoredFile = async (key: string) => {
+  try {
+    await getStorage().remove(key);
+  } catch (error) {
+    console.error(`Error deleting stored file ${key}:`, error);
+  }
+};
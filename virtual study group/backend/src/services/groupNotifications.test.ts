@@ -0,0 +1,78 @@
+import User from '../models/User';
+import { IGroup } from '../models/Group';
+import { notifyUsers } from './notifications';
+import { mentionedUsernames, notifyJoinRequest, notifyMentions } from './groupNotifications';
+
+jest.mock('../models/User', () => ({
+  __esModule: true,
+  default: { findById: jest.fn(), find: jest.fn() }
+}), { virtual: true });
+
+jest.mock('./notifications', () => ({ notifyUsers: jest.fn() }));
+
+const OWNER = '64b0000000000000000000b1';
+const MODERATOR = '64b0000000000000000000b2';
+const MEMBER = '64b0000000000000000000b3';
+const OUTSIDER = '64b0000000000000000000b4';
+
+const group = {
+  _id: '64b0000000000000000000a1',
+  name: 'Linear Algebra',
+  owner: OWNER,
+  moderators: [MODERATOR],
+  members: [{ user: OWNER, role: 'owner' }, { user: MODERATOR, role: 'member' }, { user: MEMBER, role: 'member' }]
+} as unknown as IGroup;
+
+const selected = (value: unknown) => ({ select: jest.fn().mockResolvedValue(value) });
+
+describe('mentionedUsernames', () => {
+  it('finds every username once, without a trailing full stop or email addresses', () => {
+    expect(mentionedUsernames('@ana and @ben.k, see @ana. Mail me at x@y')).toEqual(['ana', 'ben.k']);
+  });
+
+  it('is empty without mentions', () => {
+    expect(mentionedUsernames('no one here @')).toEqual([]);
+  });
+});
+
+describe('notifyMentions', () => {
+  beforeEach(() => {
+    (notifyUsers as jest.Mock).mockReset();
+  });
+
+  it('notifies the mentioned members except the sender', async () => {
+    (User.findById as jest.Mock).mockReturnValue(selected({ firstName: 'Ana', lastName: 'Lee' }));
+    (User.find as jest.Mock).mockReturnValue(selected([{ _id: MEMBER }, { _id: OUTSIDER }, { _id: OWNER }]));
+
+    await notifyMentions(group, OWNER, '@cem @dan @ana look at this');
+
+    expect(notifyUsers).toHaveBeenCalledWith([MEMBER], {
+      type: 'mention',
+      title: 'Ana Lee mentioned you in Linear Algebra',
+      body: '@cem @dan @ana look at this',
+      link: `/groups/${group._id}`
+    });
+  });
+
+  it('does not look anyone up without mentions', async () => {
+    (User.find as jest.Mock).mockClear();
+
+    await notifyMentions(group, OWNER, 'hello everyone');
+
+    expect(User.find).not.toHaveBeenCalled();
+    expect(notifyUsers).not.toHaveBeenCalled();
+  });
+});
+
+describe('notifyJoinRequest', () => {
+  it('notifies the owner and the moderators', async () => {
+    const requester = { firstName: 'Eva', lastName: 'Ng', email: 'eva@example.com' } as never;
+
+    await notifyJoinRequest(group, requester);
+
+    expect(notifyUsers).toHaveBeenCalledWith([OWNER, MODERATOR], expect.objectContaining({
+      type: 'group-join-request',
+      title: 'Eva Ng asks to join Linear Algebra'
+    }));
+  });
+});
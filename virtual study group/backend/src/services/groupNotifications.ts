@@ -0,0 +1,64 @@
+import { IGroup } from '../models/Group';
+import User, { IUser } from '../models/User';
+import { isGroupManager, isGroupMember } from './groupRoles';
+import { notifyUsers } from './notifications';
+
+const groupPath = (group: IGroup) => `/groups/${group._id}`;
+
+const fullName = (user: IUser) => `${user.firstName} ${user.lastName}`;
+
+// Long messages are cut in the notification body
+const MAX_PREVIEW_LENGTH = 140;
+
+// `@username` tokens of a chat message, without a trailing full stop. An @
+// within a word, as in an email address, is not a mention.
+export const mentionedUsernames = (content: string) =>
+  Array.from(new Set(Array.from(content.matchAll(/(?:^|\s)@([\w.-]+)/g), match => match[1].replace(/\.+$/, ''))))
+    .filter(username => username.length > 0);
+
+// Members mentioned in a group chat message hear about it; the sender and
+// people outside the group don't, even when their username is mentioned
+export const notifyMentions = async (group: IGroup, senderId: string, content: string) => {
+  const usernames = mentionedUsernames(content);
+  if (usernames.length === 0) {
+    return;
+  }
+
+  const [sender, mentioned] = await Promise.all([
+    User.findById(senderId).select('firstName lastName'),
+    User.find({ username: { $in: usernames } }).select('_id')
+  ]);
+  const recipients = mentioned
+    .map((user: IUser) => user._id.toString())
+    .filter((userId: string) => userId !== senderId && (isGroupMember(group, userId) || isGroupManager(group, userId)));
+  if (!sender || recipients.length === 0) {
+    return;
+  }
+
+  const preview = content.length > MAX_PREVIEW_LENGTH ? `${content.slice(0, MAX_PREVIEW_LENGTH - 1)}…` : content;
+  await notifyUsers(recipients, {
+    type: 'mention',
+    title: `${fullName(sender)} mentioned you in ${group.name}`,
+    body: preview,
+    link: groupPath(group)
+  });
+};
+
+// Owners and moderators of a group, who decide on join requests
+const groupManagers = (group: IGroup) => {
+  const candidates: string[] = [
+    group.owner,
+    ...(group.moderators || []),
+    ...(group.members || []).map((member: { user: unknown }) => member.user)
+  ].map(user => String(user));
+  return Array.from(new Set(candidates)).filter(userId => isGroupManager(group, userId));
+};
+
+// Join requests aren't stored: a manager lets the requester in by inviting them
+export const notifyJoinRequest = (group: IGroup, requester: IUser, message?: string) =>
+  notifyUsers(groupManagers(group), {
+    type: 'group-join-request',
+    title: `${fullName(requester)} asks to join ${group.name}`,
+    body: [message, `Invite ${requester.email} to the group to let them in.`].filter(Boolean).join('\n\n'),
+    link: groupPath(group)
+  });
@@ -0,0 +1,26 @@
+// Roles of a user within a group. The owner is also stored separately from
+// the members list, and moderators are kept in `moderators`. Older groups
+// only record moderators through the role of their entry in `members`.
+
+interface GroupRoles {
+  owner: { toString(): string };
+  moderators?: Array<{ toString(): string }>;
+  members?: Array<{ user: { toString(): string }; role?: string }>;
+}
+
+const MANAGER_ROLES = ['owner', 'moderator'];
+
+// Owners and moderators manage a group: they see its reports and analytics
+// and run its sessions
+export const isGroupManager = (group: GroupRoles, userId: string) =>
+  group.owner.toString() === userId ||
+  (group.moderators || []).some(moderator => moderator.toString() === userId) ||
+  (group.members || []).some(member =>
+    member.user.toString() === userId && MANAGER_ROLES.includes(member.role || 'member'));
+
+interface GroupMembers {
+  members: Array<{ user: { toString(): string } }>;
+}
+
+export const isGroupMember = (group: GroupMembers, userId: string) =>
+  group.members.some(member => member.user.toString() === userId);
@@ -0,0 +1,171 @@
+import { Types } from 'mongoose';
+import Group, { IGroup } from '../models/Group';
+import SessionSeries, { ISessionSeries } from '../models/SessionSeries';
+import { materializeSeries } from './sessionSeries';
+import { cancelSessions } from './sessionLifecycle';
+import { Weekday, WEEKDAYS } from '../utils/rrule';
+import { formatWallTime, fromWallClock, isValidTimezone, toWallClock } from '../utils/timezone';
+
+// Turns Group.schedule.regularMeetings into StudySession documents. Every
+// meeting is backed by a weekly SessionSeries expanded in the group timezone,
+// so generated sessions keep their local time across DST changes and
+// occurrences a host edited or cancelled are never touched again.
+
+export const GROUP_SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+export const DEFAULT_WEEKS_AHEAD = 4;
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const DAY_CODES: Record<string, Weekday> = {
+  sunday: 'SU',
+  monday: 'MO',
+  tuesday: 'TU',
+  wednesday: 'WE',
+  thursday: 'TH',
+  friday: 'FR',
+  saturday: 'SA'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RegularMeeting {
+  _id: Types.ObjectId;
+  day: string;
+  time: string;
+  duration: number;
+}
+
+// First start of the meeting at or after `from`, in the group's local time
+const nextMeetingStart = (meeting: RegularMeeting, timezone: string, from: Date): Date => {
+  const today = toWallClock(from, timezone);
+  const [hours, minutes] = meeting.time.split(':').map(Number);
+  const daysAhead = (WEEKDAYS.indexOf(DAY_CODES[meeting.day]) - today.getUTCDay() + 7) % 7;
+
+  let wall = new Date(Date.UTC(
+    today.getUTCFullYear(),
+    today.getUTCMonth(),
+    today.getUTCDate() + daysAhead,
+    hours,
+    minutes
+  ));
+
+  if (fromWallClock(wall, timezone) < from) {
+    wall = new Date(wall.getTime() + 7 * DAY_MS);
+  }
+
+  return fromWallClock(wall, timezone);
+};
+
+const meetingRRule = (meeting: RegularMeeting) => `FREQ=WEEKLY;BYDAY=${DAY_CODES[meeting.day]}`;
+
+const matchesMeeting = (series: ISessionSeries, meeting: RegularMeeting, timezone: string) =>
+  series.rrule === meetingRRule(meeting) &&
+  series.duration === meeting.duration &&
+  series.timezone === timezone &&
+  formatWallTime(series.dtstart, timezone) === meeting.time;
+
+// Stop a generated series. Upcoming occurrences nobody has touched are
+// cancelled; edited ones are left for their host to deal with.
+const retireSeries = async (series: ISessionSeries) => {
+  series.status = 'cancelled';
+  await series.save();
+
+  await cancelSessions({
+    series: series._id,
+    isException: false,
+    status: 'scheduled',
+    scheduledStart: { $gt: new Date() }
+  });
+};
+
+export const isValidMeeting = (meeting: Partial<RegularMeeting> | null | undefined): meeting is RegularMeeting =>
+  meeting != null &&
+  typeof meeting.day === 'string' &&
+  Object.prototype.hasOwnProperty.call(DAY_CODES, meeting.day) &&
+  TIME_PATTERN.test(meeting.time || '') &&
+  typeof meeting.duration === 'number' &&
+  Number.isInteger(meeting.duration) &&
+  meeting.duration >= 15 &&
+  meeting.duration <= 480;
+
+// Bring the generated series of a group in line with its schedule and
+// generate sessions up to the configured number of weeks ahead.
+export const syncGroupSchedule = async (group: IGroup): Promise<ISessionSeries[]> => {
+  const schedule = group.schedule || {};
+  const autoSessions = schedule.autoSessions || {};
+  const timezone = schedule.timezone && isValidTimezone(schedule.timezone) ? schedule.timezone : 'UTC';
+  const weeksAhead = autoSessions.weeksAhead || DEFAULT_WEEKS_AHEAD;
+  const meetings: RegularMeeting[] = autoSessions.enabled
+    ? (schedule.regularMeetings || []).filter(isValidMeeting)
+    : [];
+
+  const existing = await SessionSeries.find({
+    group: group._id,
+    source: 'group-schedule',
+    status: 'active'
+  });
+
+  const now = new Date();
+  const active: ISessionSeries[] = [];
+
+  for (const meeting of meetings) {
+    let series = existing.find(s => s.meeting?.toString() === meeting._id.toString());
+
+    // A meeting that moved gets a fresh series starting from its next slot
+    if (series && !matchesMeeting(series, meeting, timezone)) {
+      await retireSeries(series);
+      series = undefined;
+    }
+
+    if (!series) {
+      series = new SessionSeries({
+        title: `${group.name} - Weekly Meeting`,
+        description: group.description || `Regular meeting of ${group.name}`,
+        group: group._id,
+        host: group.owner,
+        type: 'study',
+        rrule: meetingRRule(meeting),
+        dtstart: nextMeetingStart(meeting, timezone, now),
+        duration: meeting.duration,
+        timezone,
+        source: 'group-schedule',
+        meeting: meeting._id
+      });
+    }
+
+    series.horizonWeeks = weeksAhead;
+    await series.save();
+    await materializeSeries(series);
+    active.push(series);
+  }
+
+  for (const series of existing) {
+    if (!active.includes(series)) {
+      await retireSeries(series);
+    }
+  }
+
+  await Group.updateOne({ _id: group._id }, { 'schedule.autoSessions.lastSyncedAt': now });
+
+  return active;
+};
+
+export const runGroupScheduler = async () => {
+  const groups = await Group.find({ 'schedule.autoSessions.enabled': true, isActive: true });
+
+  for (const group of groups) {
+    try {
+      await syncGroupSchedule(group);
+    } catch (error) {
+      console.error(`Error syncing schedule for group ${group._id}:`, error);
+    }
+  }
+};
+
+export const startGroupScheduler = (intervalMs: number = GROUP_SCHEDULER_INTERVAL_MS) => {
+  const run = () => {
+    runGroupScheduler().catch(error => console.error('Error running group scheduler:', error));
+  };
+
+  run();
+  return setInterval(run, intervalMs);
+};
@@ -0,0 +1,155 @@
+import OutboxEmail, { IOutboxEmail } from '../models/OutboxEmail';
+import { sendMail } from './mailer';
+import { EmailTemplate, EmailTemplateData, renderEmail } from './mailTemplates';
+import { EmailCategory, unsubscribeUrl, wantsEmail } from './emailPreferences';
+
+// Every email goes through the outbox: queueEmail renders it and stores it,
+// and the outbox sends pending mail right away and again on every run of
+// its scheduler, backing off between attempts while the transport fails.
+
+export const MAIL_OUTBOX_INTERVAL_MS = 30 * 1000;
+// With the backoff below the last attempt is made about a day after the first
+export const MAX_EMAIL_ATTEMPTS = 8;
+
+const MINUTE_MS = 60 * 1000;
+const LOCK_MS = 2 * MINUTE_MS;
+// Doubles after every failed attempt: 1, 2, 4, ... minutes
+const RETRY_BASE_MS = MINUTE_MS;
+
+// Which setting lets the recipient turn a template off; templates without
+// one (password resets) are always sent
+const CATEGORIES: { [T in EmailTemplate]: EmailCategory | null } = {
+  'session-reminder': 'reminders',
+  'session-cancelled': 'cancellations',
+  'group-invite': 'invites',
+  'password-reset': null
+};
+
+// Templates whose body carries a secret (the password reset link). The body
+// is replaced once the email is sent, and the email is deleted rather than
+// kept when sending finally fails, so the secret doesn't stay in the database.
+const SECRET_TEMPLATES = new Set<string>(['password-reset']);
+const REDACTED_BODY = '(removed after sending)';
+
+// A recipient with an account, or a bare address (e.g. an invite to someone
+// who hasn't signed up)
+export type EmailRecipient = string | {
+  _id: { toString(): string };
+  email: string;
+  notificationSettings?: { email?: boolean; emailOptOuts?: string[] };
+};
+
+let kicked = false;
+
+// Send what is due soon, without making the caller wait. Several emails
+// queued together are sent by one run.
+const kickOutbox = () => {
+  if (kicked) {
+    return;
+  }
+  kicked = true;
+  setImmediate(() => {
+    kicked = false;
+    runMailOutbox().catch(error => console.error('Error running mail outbox:', error));
+  });
+};
+
+// Returns the queued email, or null when the recipient opted out of this
+// kind of mail
+export const queueEmail = async <T extends EmailTemplate>(
+  recipient: EmailRecipient,
+  template: T,
+  data: EmailTemplateData[T]
+): Promise<IOutboxEmail | null> => {
+  const category = CATEGORIES[template];
+  const user = typeof recipient === 'string' ? null : recipient;
+  if (user && category && !wantsEmail(user.notificationSettings, category)) {
+    return null;
+  }
+
+  const unsubscribe = user && category ? unsubscribeUrl(user._id.toString(), category) : undefined;
+  const email = await OutboxEmail.create({
+    to: user ? user.email : recipient,
+    user: user?._id,
+    template,
+    ...renderEmail(template, data, unsubscribe),
+    // Lets mail clients show their own unsubscribe button (RFC 8058)
+    headers: unsubscribe
+      ? { 'List-Unsubscribe': `<${unsubscribe}>`, 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' }
+      : undefined
+  });
+
+  kickOutbox();
+  return email;
+};
+
+const deliver = async (email: IOutboxEmail, now: Date) => {
+  try {
+    await sendMail({
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+      headers: email.headers ? Object.fromEntries(email.headers) : undefined
+    });
+    const secret = SECRET_TEMPLATES.has(email.template);
+    await OutboxEmail.updateOne({ _id: email._id }, {
+      $set: { status: 'sent', sentAt: now, ...(secret ? { text: REDACTED_BODY } : {}) },
+      $unset: { lockedUntil: '', lastError: '', ...(secret ? { html: '' } : {}) }
+    });
+    return true;
+  } catch (error) {
+    console.error(`Error sending email ${email._id}:`, error);
+    const lastError = (error as Error).message;
+    if (email.attempts >= MAX_EMAIL_ATTEMPTS && SECRET_TEMPLATES.has(email.template)) {
+      await OutboxEmail.deleteOne({ _id: email._id });
+      return false;
+    }
+
+    await OutboxEmail.updateOne({ _id: email._id }, email.attempts >= MAX_EMAIL_ATTEMPTS
+      ? { $set: { status: 'failed', lastError }, $unset: { lockedUntil: '' } }
+      : {
+        $set: { lastError, nextAttemptAt: new Date(now.getTime() + RETRY_BASE_MS * 2 ** (email.attempts - 1)) },
+        $unset: { lockedUntil: '' }
+      });
+    return false;
+  }
+};
+
+// Send every email that is due
+export const runMailOutbox = async (now: Date = new Date()) => {
+  let sent = 0;
+  let failed = 0;
+  for (;;) {
+    // Claim one email at a time so several servers never send the same one
+    const email = await OutboxEmail.findOneAndUpdate(
+      {
+        status: 'pending',
+        nextAttemptAt: { $lte: now },
+        $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lt: now } }]
+      },
+      { $set: { lockedUntil: new Date(now.getTime() + LOCK_MS) }, $inc: { attempts: 1 } },
+      { new: true, sort: { nextAttemptAt: 1 } }
+    );
+    if (!email) {
+      break;
+    }
+
+    if (await deliver(email, now)) {
+      sent++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+};
+
+export const startMailOutbox = (intervalMs: number = MAIL_OUTBOX_INTERVAL_MS) => {
+  const run = () => {
+    runMailOutbox().catch(error => console.error('Error running mail outbox:', error));
+  };
+
+  run();
+  return setInterval(run, intervalMs);
+};
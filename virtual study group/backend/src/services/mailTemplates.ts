@@ -0,0 +1,143 @@
+// Templates of the emails we send. Each renders a subject and matching text
+// and HTML bodies from its data; values are escaped for the HTML part.
+
+export interface EmailTemplateData {
+  'session-reminder': {
+    firstName: string;
+    title: string;
+    groupName?: string;
+    // Already formatted in the recipient's timezone
+    start: string;
+    leadTime: string;
+    link: string;
+  };
+  'session-cancelled': {
+    firstName: string;
+    title: string;
+    groupName?: string;
+    start: string;
+    reason?: string;
+    suggestedStart?: string;
+    link: string;
+  };
+  'group-invite': {
+    inviterName: string;
+    groupName: string;
+    description?: string;
+    link: string;
+  };
+  'password-reset': {
+    firstName: string;
+    link: string;
+    expiresInMinutes: number;
+  };
+}
+
+export type EmailTemplate = keyof EmailTemplateData;
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// The parts of a message: paragraphs and an optional call to action
+interface EmailContent {
+  subject: string;
+  greeting?: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  footnote?: string;
+}
+
+const APP_NAME = 'Virtual Study Group';
+
+export const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// e.g. "Monday, March 4, 2024 at 6:00 PM (Europe/Berlin)"
+export const formatEmailDate = (date: Date, timeZone: string) =>
+  `${new Intl.DateTimeFormat('en-US', { dateStyle: 'full', timeStyle: 'short', timeZone }).format(date)} (${timeZone})`;
+
+const withGroup = (title: string, groupName?: string) => (groupName ? `"${title}" (${groupName})` : `"${title}"`);
+
+const templates: { [T in EmailTemplate]: (data: EmailTemplateData[T]) => EmailContent } = {
+  'session-reminder': data => ({
+    subject: `Reminder: "${data.title}" starts in ${data.leadTime}`,
+    greeting: `Hi ${data.firstName},`,
+    paragraphs: [`${withGroup(data.title, data.groupName)} starts ${data.start}.`],
+    action: { label: 'Join the session', url: data.link }
+  }),
+
+  'session-cancelled': data => ({
+    subject: `Cancelled: "${data.title}"`,
+    greeting: `Hi ${data.firstName},`,
+    paragraphs: [
+      `${withGroup(data.title, data.groupName)}, planned for ${data.start}, has been cancelled.`,
+      data.reason && `Reason: ${data.reason}`,
+      data.suggestedStart && `The host suggests meeting on ${data.suggestedStart} instead.`
+    ].filter((paragraph): paragraph is string => Boolean(paragraph)),
+    action: { label: 'View the session', url: data.link }
+  }),
+
+  'group-invite': data => ({
+    subject: `${data.inviterName} invited you to join ${data.groupName}`,
+    greeting: 'Hi,',
+    paragraphs: [
+      `${data.inviterName} invited you to study together in "${data.groupName}" on ${APP_NAME}.`,
+      data.description
+    ].filter((paragraph): paragraph is string => Boolean(paragraph)),
+    action: { label: 'Open the group', url: data.link }
+  }),
+
+  'password-reset': data => ({
+    subject: `Reset your ${APP_NAME} password`,
+    greeting: `Hi ${data.firstName},`,
+    paragraphs: [
+      `Someone asked to reset the password of your account. The link below works once within the next ${data.expiresInMinutes} minutes.`
+    ],
+    action: { label: 'Choose a new password', url: data.link },
+    footnote: 'If you did not ask for this, you can ignore this email; your password stays the same.'
+  })
+};
+
+const renderText = (content: EmailContent, unsubscribeUrl?: string) => [
+  content.greeting,
+  ...content.paragraphs,
+  content.action && `${content.action.label}: ${content.action.url}`,
+  content.footnote,
+  unsubscribeUrl && `--\nYou get this email because of your ${APP_NAME} notification settings. Unsubscribe: ${unsubscribeUrl}`
+].filter(Boolean).join('\n\n');
+
+const renderHtml = (content: EmailContent, unsubscribeUrl?: string) => `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f5f5f5;font-family:Arial,Helvetica,sans-serif;color:#212121">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+    <h2 style="margin-top:0;color:#1976d2">${APP_NAME}</h2>
+    ${content.greeting ? `<p>${escapeHtml(content.greeting)}</p>` : ''}
+    ${content.paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n    ')}
+    ${content.action ? `<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" style="background:#1976d2;color:#ffffff;padding:10px 18px;border-radius:4px;text-decoration:none">${escapeHtml(content.action.label)}</a></p>` : ''}
+    ${content.footnote ? `<p style="color:#757575;font-size:13px">${escapeHtml(content.footnote)}</p>` : ''}
+  </div>
+  ${unsubscribeUrl ? `<p style="max-width:560px;margin:12px auto;color:#9e9e9e;font-size:12px;text-align:center">You get this email because of your ${APP_NAME} notification settings. <a href="${escapeHtml(unsubscribeUrl)}" style="color:#9e9e9e">Unsubscribe</a></p>` : ''}
+</body>
+</html>
+`;
+
+// Optional mail passes the recipient's unsubscribe link for the footer
+export const renderEmail = <T extends EmailTemplate>(
+  template: T,
+  data: EmailTemplateData[T],
+  unsubscribeUrl?: string
+): RenderedEmail => {
+  const content = templates[template](data);
+  return {
+    subject: content.subject,
+    text: renderText(content, unsubscribeUrl),
+    html: renderHtml(content, unsubscribeUrl)
+  };
+};
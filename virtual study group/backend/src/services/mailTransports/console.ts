@@ -0,0 +1,8 @@
+import { MailTransport } from '../mailer';
+
+// Logs the text part of every message
+export const createConsoleTransport = (): MailTransport => ({
+  async send(message) {
+    console.log(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+});
@@ -0,0 +1,19 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { MailTransport } from '../mailer';
+
+// Every message becomes a JSON file in `dir`, named so that they sort by the
+// time they were sent. Handy for local development and tests that need to
+// read what was sent, e.g. the link in a password reset email.
+export const createFileTransport = (dir: string): MailTransport => {
+  const base = path.resolve(dir);
+
+  return {
+    async send(message) {
+      await fs.promises.mkdir(base, { recursive: true });
+      const file = path.join(base, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`);
+      await fs.promises.writeFile(file, JSON.stringify({ ...message, sentAt: new Date() }, null, 2));
+    }
+  };
+};
@@ -0,0 +1,25 @@
+import nodemailer from 'nodemailer';
+import { MailTransport } from '../mailer';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export const createSmtpTransport = (config: SmtpConfig): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail(message);
+    }
+  };
+};
@@ -0,0 +1,50 @@
+import { createConsoleTransport } from './mailTransports/console';
+import { createFileTransport } from './mailTransports/file';
+import { createSmtpTransport } from './mailTransports/smtp';
+
+// Outgoing email goes through a transport. MAIL_TRANSPORT picks it: `smtp`
+// sends through SMTP_HOST, `file` writes every message to MAIL_DIR and
+// `console` logs it. Without MAIL_TRANSPORT, SMTP is used when SMTP_HOST is
+// set and the console otherwise, which is enough for local development.
+// Application code queues mail in the outbox (services/mailOutbox.ts), which
+// calls sendMail and retries when the transport fails.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  // Rejects when the message could not be handed over
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+let transport: MailTransport | null = null;
+
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+    if (name === 'smtp') {
+      const port = Number(process.env.SMTP_PORT) || 587;
+      transport = createSmtpTransport({
+        host: process.env.SMTP_HOST || 'localhost',
+        port,
+        secure: port === 465,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS
+      });
+    } else if (name === 'file') {
+      transport = createFileTransport(process.env.MAIL_DIR || './mail');
+    } else {
+      transport = createConsoleTransport();
+    }
+  }
+  return transport;
+};
+
+export const mailSender = () => process.env.MAIL_FROM || process.env.SMTP_USER || 'no-reply@localhost';
+
+export const sendMail = (message: MailMessage) => getMailTransport().send({ from: mailSender(), ...message });
@@ -0,0 +1,101 @@
+import mongoose from 'mongoose';
+import Notification, { INotification, NotificationType } from '../models/Notification';
+import { emitToUser } from '../socket';
+
+// The in-app notification center. Every new notification is pushed to the
+// user's personal Socket.IO room as `notification`, and every change to the
+// number of unread ones as `notifications-unread`, so open tabs stay in sync.
+
+export const DEFAULT_NOTIFICATION_PAGE_SIZE = 20;
+export const MAX_NOTIFICATION_PAGE_SIZE = 50;
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  body?: string;
+  link?: string;
+}
+
+export const unreadCount = (userId: string) =>
+  Notification.countDocuments({ user: userId, readAt: { $exists: false } });
+
+export const pushUnreadCount = async (userId: string) => {
+  emitToUser(userId, 'notifications-unread', { count: await unreadCount(userId) });
+};
+
+// Failures are logged rather than thrown, so a notification never breaks
+// the action that caused it
+export const notifyUser = async (userId: string, input: NotificationInput) => {
+  try {
+    const notification = await Notification.create({ user: userId, ...input });
+    emitToUser(userId, 'notification', notification);
+    await pushUnreadCount(userId);
+    return notification;
+  } catch (error) {
+    console.error('Error creating notification:', error);
+    return null;
+  }
+};
+
+export const notifyUsers = (userIds: string[], input: NotificationInput) =>
+  Promise.all(userIds.map(userId => notifyUser(userId, input)));
+
+// A page of a user's notifications, newest first. `before` is the id of the
+// last notification of the previous page. Returns an error message when the
+// query is malformed.
+export const findNotifications = async (
+  userId: string,
+  query: Record<string, unknown>
+): Promise<{ notifications: INotification[]; nextCursor: string | null } | { error: string }> => {
+  const limit = query.limit === undefined ? DEFAULT_NOTIFICATION_PAGE_SIZE : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    return { error: 'limit must be a positive integer' };
+  }
+  if (query.before !== undefined && !mongoose.isValidObjectId(query.before)) {
+    return { error: 'Invalid cursor' };
+  }
+
+  const filter: Record<string, unknown> = { user: userId };
+  if (query.before) {
+    filter._id = { $lt: query.before };
+  }
+  if (query.unread === 'true') {
+    filter.readAt = { $exists: false };
+  }
+
+  const pageSize = Math.min(limit, MAX_NOTIFICATION_PAGE_SIZE);
+  // One extra document tells whether there is another page
+  const notifications = await Notification.find(filter).sort({ _id: -1 }).limit(pageSize + 1);
+  const page = notifications.slice(0, pageSize);
+
+  return {
+    notifications: page,
+    nextCursor: notifications.length > pageSize ? page[page.length - 1]._id.toString() : null
+  };
+};
+
+// Returns null if the user has no such notification
+export const markNotificationRead = async (userId: string, notificationId: string) => {
+  const notification = await Notification.findOne({ _id: notificationId, user: userId });
+  if (!notification) {
+    return null;
+  }
+
+  if (!notification.readAt) {
+    notification.readAt = new Date();
+    await notification.save();
+    await pushUnreadCount(userId);
+  }
+
+  return notification;
+};
+
+// Returns how many notifications were marked
+export const markAllNotificationsRead = async (userId: string) => {
+  const result = await Notification.updateMany(
+    { user: userId, readAt: { $exists: false } },
+    { $set: { readAt: new Date() } }
+  );
+  await pushUnreadCount(userId);
+  return result.modifiedCount;
+};
@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import User from '../models/User';
+import { queueEmail } from './mailOutbox';
+
+// Password resets by email. The user gets a random token in a link to the
+// app; only its hash is stored, and it works once until it expires. The mail
+// outbox drops the link from the email once it is sent.
+
+export const PASSWORD_RESET_MINUTES = 60;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Does nothing for unknown addresses, so callers can't tell which exist
+export const requestPasswordReset = async (email: string, now: Date = new Date()) => {
+  const user = await User.findOne({ email: email.toLowerCase() }).select('email firstName');
+  if (!user) {
+    return;
+  }
+
+  const token = crypto.randomBytes(32).toString('hex');
+  await User.updateOne({ _id: user._id }, {
+    $set: {
+      passwordReset: {
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + PASSWORD_RESET_MINUTES * 60 * 1000)
+      }
+    }
+  });
+
+  await queueEmail(user, 'password-reset', {
+    firstName: user.firstName,
+    link: `${process.env.CLIENT_URL || 'http://localhost:3000'}/reset-password?token=${token}`,
+    expiresInMinutes: PASSWORD_RESET_MINUTES
+  });
+};
+
+// Returns false when the token is unknown, used or expired
+export const resetPassword = async (token: string, password: string, now: Date = new Date()) => {
+  const user = await User.findOne({
+    'passwordReset.tokenHash': hashToken(token),
+    'passwordReset.expiresAt': { $gt: now }
+  });
+  if (!user) {
+    return false;
+  }
+
+  // Saving hashes the new password
+  user.password = password;
+  user.passwordReset = undefined;
+  await user.save();
+  return true;
+};
@@ -0,0 +1,105 @@
+import express from 'express';
+import { Types } from 'mongoose';
+import { deleteStoredFile, getStorage, storeFile } from './fileStorage';
+
+// Sessions and groups both keep a list of shared resources. Uploaded files
+// are stored through the storage driver and served by the app's download
+// endpoints, which check access first, so their `url` is never public.
+
+export interface Resource {
+  _id: Types.ObjectId;
+  title: string;
+  type: 'file' | 'link' | 'note';
+  url: string;
+  file?: {
+    key: string;
+    name: string;
+    size: number;
+    contentType: string;
+  };
+  // Populated with the uploader's name when listed
+  uploadedBy: Types.ObjectId | { _id: Types.ObjectId };
+  uploadedAt: Date;
+}
+
+interface ResourceHolder {
+  resources: Resource[];
+  save(): Promise<unknown>;
+}
+
+// Groups can turn off file sharing for themselves and their sessions
+export const fileSharingAllowed = (group: { settings?: { allowFileSharing?: boolean } }) =>
+  group.settings?.allowFileSharing !== false;
+
+export const findResource = (holder: ResourceHolder, resourceId: string) =>
+  holder.resources.find(resource => resource._id.toString() === resourceId);
+
+export const uploaderOf = (resource: Resource) => (resource.uploadedBy?._id || resource.uploadedBy)?.toString();
+
+// A resource as listed to users; storage keys stay on the server
+export const presentResource = (resource: Resource, canDelete: boolean) => ({
+  _id: resource._id,
+  title: resource.title,
+  type: resource.type,
+  url: resource.url,
+  file: resource.file?.key
+    ? { name: resource.file.name, size: resource.file.size, contentType: resource.file.contentType }
+    : undefined,
+  uploadedBy: resource.uploadedBy,
+  uploadedAt: resource.uploadedAt,
+  canDelete
+});
+
+// Store an uploaded file and add it to the holder's resources. `basePath` is
+// the resources endpoint of the holder, which the download URL is built on.
+export const addFileResource = async (
+  holder: ResourceHolder,
+  options: { folder: string; basePath: string; file: Express.Multer.File; title?: string; userId: string }
+) => {
+  const stored = await storeFile(options.folder, options.file);
+  const _id = new Types.ObjectId();
+
+  holder.resources.push({
+    _id,
+    title: options.title || options.file.originalname,
+    type: 'file',
+    url: `${options.basePath}/${_id}/download`,
+    file: stored,
+    uploadedBy: new Types.ObjectId(options.userId),
+    uploadedAt: new Date()
+  });
+
+  try {
+    await holder.save();
+  } catch (error) {
+    await deleteStoredFile(stored.key);
+    throw error;
+  }
+
+  return findResource(holder, _id.toString())!;
+};
+
+export const removeResource = async (holder: ResourceHolder, resource: Resource) => {
+  holder.resources = holder.resources.filter(entry => entry._id.toString() !== resource._id.toString());
+  await holder.save();
+
+  if (resource.file?.key) {
+    await deleteStoredFile(resource.file.key);
+  }
+};
+
+// Stream a stored file to the client as a download
+export const sendResourceFile = async (res: express.Response, resource: Resource) => {
+  const file = resource.file!;
+  const stream = await getStorage().get(file.key);
+
+  res.attachment(file.name);
+  res.type(file.contentType);
+  res.set('Content-Length', String(file.size));
+
+  stream.on('error', error => {
+    console.error('Error streaming file:', error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+};
@@ -0,0 +1,222 @@
+import StudySession, { IStudySession } from '../models/StudySession';
+import Group from '../models/Group';
+import {
+  authorizeSession,
+  canSeeSession,
+  canViewSession,
+  hasSessionPermission,
+  visibleSessionsFilter
+} from './sessionAccess';
+
+jest.mock('../models/StudySession', () => ({
+  __esModule: true,
+  default: { findById: jest.fn() }
+}));
+
+jest.mock('../models/Group', () => ({
+  __esModule: true,
+  default: { find: jest.fn(), findById: jest.fn() }
+}), { virtual: true });
+
+const HOST = '64b000000000000000000001';
+const CO_HOST = '64b000000000000000000002';
+const PARTICIPANT = '64b000000000000000000003';
+const GUEST = '64b000000000000000000004';
+const OWNER = '64b000000000000000000005';
+const MODERATOR = '64b000000000000000000006';
+const ROLE_MODERATOR = '64b000000000000000000007';
+const MEMBER = '64b000000000000000000008';
+const OUTSIDER = '64b000000000000000000009';
+const SESSION_ID = '64b0000000000000000000a1';
+const GROUP_ID = '64b0000000000000000000b1';
+
+type Privacy = 'public' | 'private' | 'invite-only';
+
+const makeGroup = (privacy?: Privacy) => ({
+  _id: GROUP_ID,
+  owner: OWNER,
+  moderators: [MODERATOR],
+  members: [
+    { user: OWNER, role: 'owner' },
+    { user: ROLE_MODERATOR, role: 'moderator' },
+    { user: MEMBER, role: 'member' }
+  ],
+  privacy
+});
+
+const makeSession = (options: { group?: boolean } = {}) => ({
+  _id: SESSION_ID,
+  group: options.group === false ? undefined : GROUP_ID,
+  host: HOST,
+  coHosts: [CO_HOST],
+  participants: [{ user: HOST }, { user: PARTICIPANT }],
+  guests: [{ user: GUEST }]
+}) as unknown as IStudySession;
+
+const findById = StudySession.findById as jest.Mock;
+const findGroupById = Group.findById as jest.Mock;
+const findGroups = Group.find as jest.Mock;
+
+describe('canSeeSession', () => {
+  it('shows sessions of public groups to everyone', () => {
+    expect(canSeeSession(makeSession(), makeGroup('public'), OUTSIDER)).toBe(true);
+  });
+
+  it('treats groups without a privacy setting as public', () => {
+    expect(canSeeSession(makeSession(), makeGroup(), OUTSIDER)).toBe(true);
+  });
+
+  it.each<Privacy>(['private', 'invite-only'])('hides sessions of %s groups from non-members', privacy => {
+    expect(canSeeSession(makeSession(), makeGroup(privacy), OUTSIDER)).toBe(false);
+  });
+
+  it.each<Privacy>(['private', 'invite-only'])('shows sessions of %s groups to members and managers', privacy => {
+    const group = makeGroup(privacy);
+    [MEMBER, OWNER, MODERATOR, ROLE_MODERATOR].forEach(userId => {
+      expect(canSeeSession(makeSession(), group, userId)).toBe(true);
+    });
+  });
+
+  it('shows hidden sessions to the people taking part', () => {
+    const group = makeGroup('private');
+    [HOST, CO_HOST, PARTICIPANT, GUEST].forEach(userId => {
+      expect(canSeeSession(makeSession(), group, userId)).toBe(true);
+    });
+  });
+
+  it('shows personal sessions only to the people taking part', () => {
+    const session = makeSession({ group: false });
+    expect(canSeeSession(session, null, HOST)).toBe(true);
+    expect(canSeeSession(session, null, GUEST)).toBe(true);
+    expect(canSeeSession(session, null, OUTSIDER)).toBe(false);
+    expect(canSeeSession(session, null, MEMBER)).toBe(false);
+  });
+});
+
+describe('canViewSession', () => {
+  it('opens files and history to the people taking part and group members', () => {
+    const group = makeGroup('private');
+    [HOST, CO_HOST, PARTICIPANT, GUEST, MEMBER].forEach(userId => {
+      expect(canViewSession(makeSession(), group, userId)).toBe(true);
+    });
+  });
+
+  it('keeps them from non-members, even of public groups', () => {
+    expect(canViewSession(makeSession(), makeGroup('public'), OUTSIDER)).toBe(false);
+    expect(canViewSession(makeSession({ group: false }), null, OUTSIDER)).toBe(false);
+  });
+
+  it('keeps moderators who are not members out', () => {
+    expect(canViewSession(makeSession(), makeGroup('public'), MODERATOR)).toBe(false);
+  });
+});
+
+describe('hasSessionPermission', () => {
+  const group = makeGroup('public');
+
+  it('lets the host and group managers manage and assign hosts', () => {
+    [HOST, OWNER, MODERATOR, ROLE_MODERATOR].forEach(userId => {
+      expect(hasSessionPermission(makeSession(), group, userId, 'manage')).toBe(true);
+      expect(hasSessionPermission(makeSession(), group, userId, 'assign-hosts')).toBe(true);
+    });
+  });
+
+  it('lets co-hosts manage but not assign hosts', () => {
+    expect(hasSessionPermission(makeSession(), group, CO_HOST)).toBe(true);
+    expect(hasSessionPermission(makeSession(), group, CO_HOST, 'assign-hosts')).toBe(false);
+  });
+
+  it('gives participants, guests and members no permissions', () => {
+    [PARTICIPANT, GUEST, MEMBER, OUTSIDER].forEach(userId => {
+      expect(hasSessionPermission(makeSession(), group, userId)).toBe(false);
+    });
+  });
+
+  it('leaves personal sessions to their host', () => {
+    expect(hasSessionPermission(makeSession({ group: false }), null, HOST, 'assign-hosts')).toBe(true);
+    expect(hasSessionPermission(makeSession({ group: false }), null, OWNER)).toBe(false);
+  });
+});
+
+describe('visibleSessionsFilter', () => {
+  it('matches sessions the user takes part in and those of groups not hidden from them', async () => {
+    const hiddenGroup = '64b0000000000000000000b2';
+    const distinct = jest.fn().mockResolvedValue([hiddenGroup]);
+    findGroups.mockReturnValue({ distinct });
+
+    const filter = await visibleSessionsFilter(OUTSIDER);
+
+    expect(findGroups).toHaveBeenCalledWith({
+      privacy: { $in: ['private', 'invite-only'] },
+      'members.user': { $ne: OUTSIDER },
+      owner: { $ne: OUTSIDER },
+      moderators: { $ne: OUTSIDER }
+    });
+    expect(distinct).toHaveBeenCalledWith('_id');
+    expect(filter).toEqual({
+      $or: [
+        { host: OUTSIDER },
+        { coHosts: OUTSIDER },
+        { 'participants.user': OUTSIDER },
+        { 'guests.user': OUTSIDER },
+        { group: { $exists: true, $ne: null, $nin: [hiddenGroup] } }
+      ]
+    });
+  });
+});
+
+describe('authorizeSession', () => {
+  beforeEach(() => {
+    findById.mockReset();
+    findGroupById.mockReset();
+  });
+
+  it('reports invalid and unknown ids as not found', async () => {
+    expect(await authorizeSession('not-an-id', HOST, 'manage', 'start the session'))
+      .toEqual({ denied: { status: 404, message: 'Session not found' } });
+    expect(findById).not.toHaveBeenCalled();
+
+    findById.mockResolvedValue(null);
+    expect(await authorizeSession(SESSION_ID, HOST, 'manage', 'start the session'))
+      .toEqual({ denied: { status: 404, message: 'Session not found' } });
+  });
+
+  it('reports sessions the user cannot see as not found', async () => {
+    findById.mockResolvedValue(makeSession());
+    findGroupById.mockResolvedValue(makeGroup('invite-only'));
+
+    expect(await authorizeSession(SESSION_ID, OUTSIDER, 'manage', 'start the session'))
+      .toEqual({ denied: { status: 404, message: 'Session not found' } });
+  });
+
+  it('refuses people who can see the session but lack the permission', async () => {
+    findById.mockResolvedValue(makeSession());
+    findGroupById.mockResolvedValue(makeGroup('private'));
+
+    expect(await authorizeSession(SESSION_ID, MEMBER, 'manage', 'start the session')).toEqual({
+      denied: { status: 403, message: 'Only the hosts and group moderators can start the session' }
+    });
+    expect(await authorizeSession(SESSION_ID, CO_HOST, 'assign-hosts', 'choose the co-hosts')).toEqual({
+      denied: { status: 403, message: 'Only the host and group moderators can choose the co-hosts' }
+    });
+  });
+
+  it('returns the session and its group to people with the permission', async () => {
+    const session = makeSession();
+    const group = makeGroup('private');
+    findById.mockResolvedValue(session);
+    findGroupById.mockResolvedValue(group);
+
+    expect(await authorizeSession(SESSION_ID, MODERATOR, 'assign-hosts', 'choose the co-hosts'))
+      .toEqual({ session, group });
+    expect(findGroupById).toHaveBeenCalledWith(GROUP_ID);
+  });
+
+  it('does not look up a group for personal sessions', async () => {
+    const session = makeSession({ group: false });
+    findById.mockResolvedValue(session);
+
+    expect(await authorizeSession(SESSION_ID, HOST, 'manage', 'start the session')).toEqual({ session, group: null });
+    expect(findGroupById).not.toHaveBeenCalled();
+  });
+});
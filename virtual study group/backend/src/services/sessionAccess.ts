@@ -0,0 +1,139 @@
+import mongoose, { FilterQuery, Types } from 'mongoose';
+import StudySession, { IStudySession } from '../models/StudySession';
+import { ISessionSeries } from '../models/SessionSeries';
+import Group, { IGroup } from '../models/Group';
+import { isGroupManager, isGroupMember } from './groupRoles';
+
+// Who may see and do what with a session.
+//
+// Visibility: sessions of public groups can be discovered by everyone;
+// sessions of private and invite-only groups only by the group's members;
+// sessions without a group (personal sessions) only by their host. The host
+// co-hosts, participants and guests always see the sessions they take part
+// in; guests came in with an invite link and see nothing else of the group.
+// Hidden sessions are reported as not found, so their existence doesn't leak.
+//
+// Management: the host, co-hosts and the group's owner and moderators run a
+// session. They edit, start, end, cancel and restore it, change its agenda,
+// remove its files and see its attendance, feedback and past versions. Who
+// hosts a session is only decided by the host and the group's managers, so
+// a session doesn't get stuck when its host is away.
+
+interface SessionGroup {
+  owner: { toString(): string };
+  moderators?: Array<{ toString(): string }>;
+  members: Array<{ user: { toString(): string }; role?: string }>;
+  privacy?: 'public' | 'private' | 'invite-only';
+}
+
+const HIDDEN_PRIVACIES = ['private', 'invite-only'];
+
+export type SessionPermission = 'manage' | 'assign-hosts';
+
+// Populated or not
+const idOf = (ref: Types.ObjectId | { _id: Types.ObjectId }): string => (ref._id || ref).toString();
+
+export const isHost = (session: IStudySession, userId: string) => idOf(session.host) === userId;
+
+export const isCoHost = (session: IStudySession, userId: string) =>
+  (session.coHosts || []).some(coHost => idOf(coHost) === userId);
+
+export const isHostOrParticipant = (session: IStudySession, userId: string) =>
+  isHost(session, userId) ||
+  session.participants.some(participant => idOf(participant.user) === userId);
+
+export const isGuest = (session: IStudySession, userId: string) =>
+  (session.guests || []).some(guest => idOf(guest.user) === userId);
+
+export const takesPart = (session: IStudySession, userId: string) =>
+  isHostOrParticipant(session, userId) || isCoHost(session, userId) || isGuest(session, userId);
+
+// Groups without a privacy setting predate it and are public
+const isPublicGroup = (group: SessionGroup) => !HIDDEN_PRIVACIES.includes(group.privacy || 'public');
+
+// Whether the sessions of a group can be discovered by the user
+export const canSeeGroupSessions = (group: SessionGroup, userId: string) =>
+  isPublicGroup(group) || isGroupMember(group, userId) || isGroupManager(group, userId);
+
+// Whether a session shows up in lists and can be opened, joined and followed
+export const canSeeSession = (session: IStudySession, group: SessionGroup | null, userId: string) =>
+  takesPart(session, userId) || Boolean(session.group && group && canSeeGroupSessions(group, userId));
+
+// The hosts, participants, guests and members of the group see a session's files and history
+export const canViewSession = (session: IStudySession, group: SessionGroup | null, userId: string) =>
+  takesPart(session, userId) || Boolean(group && isGroupMember(group, userId));
+
+// Whether the user holds `permission` on a session; co-hosts can manage it
+// but not assign hosts
+export const hasSessionPermission = (
+  session: IStudySession,
+  group: SessionGroup | null,
+  userId: string,
+  permission: SessionPermission = 'manage'
+) =>
+  isHost(session, userId) ||
+  (permission === 'manage' && isCoHost(session, userId)) ||
+  Boolean(group && isGroupManager(group, userId));
+
+// The host of a series and the group's managers change it as a whole
+export const canManageSeries = (series: ISessionSeries, group: SessionGroup | null, userId: string) =>
+  idOf(series.host) === userId || Boolean(group && isGroupManager(group, userId));
+
+// The query counterpart of canSeeSession, to combine with a list's own filter
+export const visibleSessionsFilter = async (userId: string): Promise<FilterQuery<IStudySession>> => {
+  const hiddenGroups = await Group.find({
+    privacy: { $in: HIDDEN_PRIVACIES },
+    'members.user': { $ne: userId },
+    owner: { $ne: userId },
+    moderators: { $ne: userId }
+  }).distinct('_id');
+
+  return {
+    $or: [
+      { host: userId },
+      { coHosts: userId },
+      { 'participants.user': userId },
+      { 'guests.user': userId },
+      { group: { $exists: true, $ne: null, $nin: hiddenGroups } }
+    ]
+  };
+};
+
+// Load a session with its group, or null when it doesn't exist or the user
+// can't see it
+export const findVisibleSession = async (sessionId: string, userId: string) => {
+  if (!mongoose.isValidObjectId(sessionId)) {
+    return null;
+  }
+
+  const session = await StudySession.findById(sessionId);
+  if (!session) {
+    return null;
+  }
+
+  const group = session.group ? await Group.findById(session.group) : null;
+  return canSeeSession(session, group, userId) ? { session, group } : null;
+};
+
+// Load a session with its group and check that the user holds `permission`
+// on it, e.g. to `action` = 'start the session'. Returns the status and
+// message to refuse with otherwise; sessions the user can't see are not found.
+export const authorizeSession = async (
+  sessionId: string,
+  userId: string,
+  permission: SessionPermission,
+  action: string
+): Promise<{ denied: { status: number; message: string } } | { session: IStudySession; group: IGroup | null }> => {
+  const visible = await findVisibleSession(sessionId, userId);
+  if (!visible) {
+    return { denied: { status: 404, message: 'Session not found' } };
+  }
+
+  const { session, group } = visible;
+  if (!hasSessionPermission(session, group, userId, permission)) {
+    const who = permission === 'manage' ? 'the hosts' : 'the host';
+    return { denied: { status: 403, message: `Only ${who} and group moderators can ${action}` } };
+  }
+
+  return { session, group };
+};
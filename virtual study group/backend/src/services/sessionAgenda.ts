@@ -0,0 +1,184 @@
+import { Types } from 'mongoose';
+import StudySession, { IStudySession } from '../models/StudySession';
+import { sessionEvents } from '../events/sessionEvents';
+
+// The agenda of a session is an ordered list of topics with a planned
+// duration. While the session is live the host works through it: advancing
+// ends the running item and starts the next one, and the start and end times
+// are kept so planned and actual time can be compared afterwards. Every
+// change is broadcast to the session room as `agenda:updated`.
+
+export type AgendaItem = IStudySession['agenda'][number];
+
+export interface AgendaItemInput {
+  topic?: string;
+  duration?: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const isRunning = (item: AgendaItem) => Boolean(item.startedAt && !item.endedAt);
+
+const findItem = (session: IStudySession, itemId: string) =>
+  session.agenda.find(item => item._id.toString() === itemId);
+
+// Why the agenda of `session` can't be changed, or null if it can
+export const checkAgendaEditable = (session: IStudySession) =>
+  session.status === 'completed' || session.status === 'cancelled'
+    ? `The agenda of a ${session.status} session can no longer be changed`
+    : null;
+
+// The agenda as shown in the session room: every item with its planned and
+// actual minutes, and the running item with the time its countdown ends.
+// `serverTime` lets clients correct for their clock being off.
+export const agendaState = (session: IStudySession, now: Date = new Date()) => {
+  const running = session.agenda.find(isRunning);
+
+  return {
+    sessionId: session._id,
+    items: session.agenda.map(item => ({
+      _id: item._id,
+      topic: item.topic,
+      duration: item.duration,
+      completed: item.completed,
+      startedAt: item.startedAt,
+      endedAt: item.endedAt,
+      actualMinutes: item.startedAt
+        ? Math.round(((item.endedAt || now).getTime() - item.startedAt.getTime()) / MINUTE_MS)
+        : null
+    })),
+    currentItemId: running?._id || null,
+    currentEndsAt: running?.startedAt
+      ? new Date(running.startedAt.getTime() + running.duration * MINUTE_MS)
+      : null,
+    plannedMinutes: session.agenda.reduce((total, item) => total + item.duration, 0),
+    serverTime: now
+  };
+};
+
+const saveAgenda = async (session: IStudySession) => {
+  await session.save();
+  sessionEvents.emit('agenda:updated', { session });
+  return session;
+};
+
+export const addAgendaItem = (session: IStudySession, input: Required<AgendaItemInput>) => {
+  session.agenda.push({ _id: new Types.ObjectId(), topic: input.topic, duration: input.duration, completed: false });
+  return saveAgenda(session);
+};
+
+// Returns null if there is no such item
+export const updateAgendaItem = async (session: IStudySession, itemId: string, input: AgendaItemInput) => {
+  const item = findItem(session, itemId);
+  if (!item) {
+    return null;
+  }
+
+  if (input.topic !== undefined) {
+    item.topic = input.topic;
+  }
+  if (input.duration !== undefined) {
+    item.duration = input.duration;
+  }
+  session.markModified('agenda');
+
+  return saveAgenda(session);
+};
+
+// Items that were already worked on stay, so their time can be reviewed
+export const checkAgendaItemRemovable = (item: AgendaItem) =>
+  item.startedAt ? 'Topics that were already started cannot be removed' : null;
+
+export const removeAgendaItem = (session: IStudySession, itemId: string) => {
+  session.agenda = session.agenda.filter(item => item._id.toString() !== itemId);
+  return saveAgenda(session);
+};
+
+// Why `order` is not a valid new order of the agenda, or null if it is
+export const checkAgendaOrder = (session: IStudySession, order: string[]) => {
+  const ids = session.agenda.map(item => item._id.toString());
+  const valid = order.length === ids.length &&
+    new Set(order).size === order.length &&
+    order.every(id => ids.includes(id));
+
+  return valid ? null : 'The new order must list every agenda item exactly once';
+};
+
+export const reorderAgenda = (session: IStudySession, order: string[]) => {
+  session.agenda = order.map(id => findItem(session, id)!);
+  return saveAgenda(session);
+};
+
+// The item advancing moves to: `itemId` if given, otherwise the first open
+// item after the running one, wrapping around to open items before it
+const nextItem = (session: IStudySession, itemId?: string) => {
+  if (itemId) {
+    return findItem(session, itemId);
+  }
+
+  const runningIndex = session.agenda.findIndex(isRunning);
+  const open = (item: AgendaItem) => !item.completed && !isRunning(item);
+  return session.agenda.slice(runningIndex + 1).find(open) || session.agenda.slice(0, runningIndex + 1).find(open);
+};
+
+// Why the host can't advance the agenda (to `itemId`), or null if they can
+export const checkAdvance = (session: IStudySession, itemId?: string) => {
+  if (session.status !== 'live') {
+    return 'The agenda can only be advanced while the session is live';
+  }
+  if (session.agenda.length === 0) {
+    return 'This session has no agenda';
+  }
+
+  if (itemId) {
+    const item = findItem(session, itemId);
+    if (!item) {
+      return 'Agenda item not found';
+    }
+    if (item.completed || isRunning(item)) {
+      return 'This topic was already covered';
+    }
+  } else if (!session.agenda.some(isRunning) && !nextItem(session)) {
+    return 'Every topic on the agenda was already covered';
+  }
+
+  return null;
+};
+
+// End the running item and start the next one (or `itemId`). Advancing past
+// the last open item just ends the running one.
+export const advanceAgenda = (session: IStudySession, itemId?: string, at: Date = new Date()) => {
+  const next = nextItem(session, itemId);
+
+  session.agenda.forEach(item => {
+    if (isRunning(item)) {
+      item.endedAt = at;
+      item.completed = true;
+    }
+  });
+
+  if (next) {
+    next.startedAt = at;
+  }
+  session.markModified('agenda');
+
+  return saveAgenda(session);
+};
+
+// Stop the clock of the running item when a session ends
+export const registerSessionAgenda = () => {
+  const endRunningItem = async ({ session, at }: { session: IStudySession; at: Date }) => {
+    try {
+      await StudySession.updateOne(
+        { _id: session._id },
+        { $set: { 'agenda.$[running].endedAt': at, 'agenda.$[running].completed': true } },
+        { arrayFilters: [{ 'running.startedAt': { $exists: true }, 'running.endedAt': { $exists: false } }] }
+      );
+    } catch (error) {
+      console.error('Error ending running agenda item:', error);
+    }
+  };
+
+  sessionEvents.on('session:completed', endRunningItem);
+  sessionEvents.on('session:cancelled', endRunningItem);
+};
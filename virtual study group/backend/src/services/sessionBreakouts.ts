@@ -0,0 +1,265 @@
+import { Types } from 'mongoose';
+import StudySession, { IStudySession } from '../models/StudySession';
+import AttendanceSegment from '../models/AttendanceSegment';
+import User from '../models/User';
+import { sessionEvents } from '../events/sessionEvents';
+import { AttendeeInfo, buildAttendance, moveAttendance } from './attendance';
+import { isCoHost, isHost, takesPart } from './sessionAccess';
+
+// Breakout rooms split a live session into small groups for a while. A host
+// opens a round, with the people in the session room assigned at random or
+// by hand. Everyone moves into their room, which has its own chat and
+// whiteboard, until the countdown runs out or a host ends the round, and then
+// they all return to the main room. Time in each room is recorded as
+// attendance segments of that room.
+
+export type BreakoutRound = IStudySession['breakouts'][number];
+
+export interface BreakoutPlan {
+  assignment: BreakoutRound['assignment'];
+  // Random assignment: how many rooms to split the people present into
+  roomCount?: number;
+  // Manual assignment
+  rooms?: Array<{ name?: string; members: string[] }>;
+  // Minutes
+  duration: number;
+}
+
+export const DEFAULT_BREAKOUT_MINUTES = 15;
+export const MAX_BREAKOUT_MINUTES = 120;
+export const MAX_BREAKOUT_ROOMS = 20;
+// Rounds are ended within this long of their countdown running out
+export const BREAKOUT_SCHEDULER_INTERVAL_MS = 10 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+const USER_FIELDS = 'firstName lastName avatar';
+
+const openRoundFilter = { $elemMatch: { endedAt: { $exists: false } } };
+
+export const openRound = (session: IStudySession) =>
+  (session.breakouts || []).find(round => !round.endedAt);
+
+// The room of the open round the user is in, if any
+export const assignedRoom = (session: IStudySession, userId: string) =>
+  openRound(session)?.rooms.find(room => room.members.some(member => member.toString() === userId));
+
+// Spread users over `count` rooms in random order; room sizes differ by at most one
+export const shuffleIntoRooms = (userIds: string[], count: number, random: () => number = Math.random) => {
+  const shuffled = [...userIds];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  const rooms: string[][] = Array.from({ length: count }, () => []);
+  shuffled.forEach((userId, index) => rooms[index % count].push(userId));
+  return rooms;
+};
+
+// The rooms of a new round, or why it can't be opened. Random assignment
+// splits the people currently in the session room; the host and co-hosts stay
+// in the main room to look after the round. Manual assignment may put anyone
+// taking part in the session in a room, hosts included.
+export const planBreakouts = async (
+  session: IStudySession,
+  plan: BreakoutPlan
+): Promise<{ error: string } | { rooms: Array<{ name?: string; members: string[] }> }> => {
+  if (session.status !== 'live') {
+    return { error: 'Breakout rooms can only be opened while the session is live' };
+  }
+  if (openRound(session)) {
+    return { error: 'A round of breakout rooms is already running' };
+  }
+
+  if (plan.assignment === 'random') {
+    const count = plan.roomCount || 2;
+    const present: string[] = (await AttendanceSegment.distinct('user', {
+      session: session._id,
+      leftAt: { $exists: false }
+    }))
+      .map((id: unknown) => String(id))
+      .filter((userId: string) => !isHost(session, userId) && !isCoHost(session, userId));
+
+    if (present.length < count) {
+      return {
+        error: `${present.length} ${present.length === 1 ? 'person is' : 'people are'} in the session, too few for ${count} rooms`
+      };
+    }
+
+    return { rooms: shuffleIntoRooms(present, count).map(members => ({ members })) };
+  }
+
+  const rooms = plan.rooms || [];
+  const members = rooms.reduce<string[]>((all, room) => all.concat(room.members), []);
+  if (new Set(members).size !== members.length) {
+    return { error: 'Everyone can be in one breakout room only' };
+  }
+  if (members.some(userId => !takesPart(session, userId))) {
+    return { error: 'Only people taking part in the session can be put in a breakout room' };
+  }
+
+  return { rooms };
+};
+
+// Open a round with rooms that passed planBreakouts and move everyone in the
+// session room into their room. Returns null if the session ended or another
+// round was opened in the meantime.
+export const startBreakouts = async (
+  session: IStudySession,
+  rooms: Array<{ name?: string; members: string[] }>,
+  options: { assignment: BreakoutRound['assignment']; duration: number; by?: string; at?: Date }
+) => {
+  const at = options.at || new Date();
+  const round = {
+    _id: new Types.ObjectId(),
+    assignment: options.assignment,
+    rooms: rooms.map((room, index) => ({
+      _id: new Types.ObjectId(),
+      name: room.name || `Room ${index + 1}`,
+      members: room.members.map(userId => new Types.ObjectId(userId))
+    })),
+    duration: options.duration,
+    startedAt: at,
+    endsAt: new Date(at.getTime() + options.duration * MINUTE_MS),
+    startedBy: options.by
+  };
+
+  const updated = await StudySession.findOneAndUpdate(
+    { _id: session._id, status: 'live', breakouts: { $not: openRoundFilter } },
+    { $push: { breakouts: round } },
+    { new: true }
+  );
+  if (!updated) {
+    return null;
+  }
+
+  await moveAttendance(updated._id, userId => assignedRoom(updated, userId)?._id, at);
+  sessionEvents.emit('breakouts:updated', { session: updated });
+  return updated;
+};
+
+// End the open round and bring everyone back to the main room. Returns null
+// if no round is open.
+export const endBreakouts = async (session: IStudySession, at: Date = new Date()) => {
+  const updated = await StudySession.findOneAndUpdate(
+    { _id: session._id, breakouts: openRoundFilter },
+    { $set: { 'breakouts.$.endedAt': at } },
+    { new: true }
+  );
+  if (!updated) {
+    return null;
+  }
+
+  await moveAttendance(updated._id, () => undefined, at);
+  sessionEvents.emit('breakouts:updated', { session: updated });
+  return updated;
+};
+
+const loadUsers = async (userIds: Array<Types.ObjectId | string>) => {
+  const users: AttendeeInfo[] = await User.find({ _id: { $in: userIds } }).select(USER_FIELDS).lean();
+  const byId = new Map(users.map(user => [user._id.toString(), user]));
+  return (userId: Types.ObjectId | string): AttendeeInfo =>
+    byId.get(userId.toString()) || { _id: userId.toString(), firstName: 'Deleted', lastName: 'user' };
+};
+
+// The open round as shown in the session room, with the countdown's end.
+// `serverTime` lets clients correct for their clock being off.
+export const breakoutState = async (session: IStudySession, now: Date = new Date()) => {
+  const round = openRound(session);
+  if (!round) {
+    return { sessionId: session._id, round: null, serverTime: now };
+  }
+
+  const users = await loadUsers(round.rooms.reduce<Array<Types.ObjectId>>((all, room) => all.concat(room.members), []));
+
+  return {
+    sessionId: session._id,
+    round: {
+      _id: round._id,
+      assignment: round.assignment,
+      duration: round.duration,
+      startedAt: round.startedAt,
+      endsAt: round.endsAt,
+      rooms: round.rooms.map(room => ({
+        _id: room._id,
+        name: room.name,
+        members: room.members.map(users)
+      }))
+    },
+    serverTime: now
+  };
+};
+
+// Minutes every member spent in their room, per round
+export const breakoutAttendance = async (session: IStudySession, now: Date = new Date()) => {
+  const segments = await AttendanceSegment.find({ session: session._id, breakoutRoom: { $exists: true } });
+  const rounds = session.breakouts || [];
+  const users = await loadUsers(segments.map(segment => segment.user).concat(
+    rounds.reduce<Array<Types.ObjectId>>(
+      (all, round) => all.concat(...round.rooms.map(room => room.members)),
+      []
+    )
+  ));
+
+  return rounds.map(round => ({
+    _id: round._id,
+    assignment: round.assignment,
+    duration: round.duration,
+    startedAt: round.startedAt,
+    endedAt: round.endedAt,
+    rooms: round.rooms.map(room => {
+      const records = buildAttendance(
+        session,
+        segments.filter(segment => segment.breakoutRoom?.toString() === room._id.toString()),
+        now
+      );
+      const minutesOf = new Map(records.map(record => [record.user, record.minutes]));
+
+      return {
+        _id: room._id,
+        name: room.name,
+        members: room.members.map(member => ({
+          user: users(member),
+          minutes: minutesOf.get(member.toString()) || 0
+        }))
+      };
+    })
+  }));
+};
+
+// End the rounds whose countdown ran out
+export const runBreakoutScheduler = async (now: Date = new Date()) => {
+  const sessions = await StudySession.find({
+    status: 'live',
+    breakouts: { $elemMatch: { endedAt: { $exists: false }, endsAt: { $lte: now } } }
+  });
+
+  for (const session of sessions) {
+    await endBreakouts(session, now);
+  }
+
+  return { ended: sessions.length };
+};
+
+export const startBreakoutScheduler = (intervalMs: number = BREAKOUT_SCHEDULER_INTERVAL_MS) => {
+  const run = () => {
+    runBreakoutScheduler().catch(error => console.error('Error running breakout scheduler:', error));
+  };
+
+  run();
+  return setInterval(run, intervalMs);
+};
+
+// Close the open round of a session that ends
+export const registerSessionBreakouts = () => {
+  const endOpenRound = async ({ session, at }: { session: IStudySession; at: Date }) => {
+    try {
+      await endBreakouts(session, at);
+    } catch (error) {
+      console.error('Error ending breakout rooms:', error);
+    }
+  };
+
+  sessionEvents.on('session:completed', endOpenRound);
+  sessionEvents.on('session:cancelled', endOpenRound);
+};
@@ -0,0 +1,57 @@
+import StudySession from '../models/StudySession';
+
+// Overlap detection between a user's study sessions. A user is booked for a
+// session while hosting it or taking part in it, from scheduledStart up to
+// (but not including) scheduledEnd; back-to-back sessions do not conflict.
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface SessionConflict {
+  _id: string;
+  title: string;
+  scheduledStart: Date;
+  scheduledEnd: Date;
+  timezone?: string;
+  allDay?: boolean;
+  status: string;
+  group?: { _id: string; name: string };
+}
+
+// Upper bound on how many conflicts are reported back at once
+const MAX_CONFLICTS = 20;
+
+export const findConflicts = async (
+  userId: string,
+  ranges: TimeRange[],
+  excludeSessionIds: string[] = []
+): Promise<SessionConflict[]> => {
+  if (ranges.length === 0) return [];
+
+  const sessions = await StudySession.find({
+    _id: { $nin: excludeSessionIds },
+    status: { $in: ['scheduled', 'live'] },
+    $and: [
+      { $or: [{ host: userId }, { 'participants.user': userId }] },
+      { $or: ranges.map(range => ({ scheduledStart: { $lt: range.end }, scheduledEnd: { $gt: range.start } })) }
+    ]
+  })
+    .select('title scheduledStart scheduledEnd timezone allDay status group')
+    .populate('group', 'name')
+    .sort({ scheduledStart: 1 })
+    .limit(MAX_CONFLICTS);
+
+  return sessions.map(session => session.toObject() as SessionConflict);
+};
+
+// Body of the 409 response sent when an action would double-book a user.
+// Clients can retry with `ignoreConflicts: true` to go ahead anyway.
+export const conflictResponse = (conflicts: SessionConflict[]) => ({
+  message: conflicts.length === 1
+    ? `This overlaps with "${conflicts[0].title}"`
+    : `This overlaps with ${conflicts.length} of your sessions`,
+  code: 'SCHEDULE_CONFLICT',
+  conflicts
+});
@@ -0,0 +1,242 @@
+import { FilterQuery } from 'mongoose';
+import StudySession, { IStudySession } from '../models/StudySession';
+import User from '../models/User';
+import { DateRange } from '../utils/dateRange';
+
+// Participants rate a session from 1 to 5 once it has completed. Everyone has
+// a single entry, which they can change for a while after submitting it.
+// Anonymous entries don't reveal their author to the host of the session.
+
+// How long after a session ended feedback is accepted
+export const FEEDBACK_WINDOW_DAYS = 14;
+// How long after submitting an entry it can still be changed
+export const FEEDBACK_EDIT_HOURS = 24;
+// Default period of the trends reports
+export const FEEDBACK_TRENDS_DAYS = 90;
+const MAX_COMMENTS = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export type FeedbackEntry = IStudySession['feedback'][number];
+
+export interface FeedbackInput {
+  rating: number;
+  comment?: string;
+  anonymous?: boolean;
+}
+
+export interface FeedbackSummary {
+  count: number;
+  average: number | null;
+  // Number of entries per rating, from 1 to 5 stars
+  distribution: number[];
+}
+
+interface FeedbackAuthor {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  avatar?: string;
+}
+
+export interface FeedbackView {
+  _id: string;
+  rating: number;
+  comment?: string;
+  anonymous: boolean;
+  submittedAt: Date;
+  editedAt?: Date;
+  // Left out when the entry is anonymous and the viewer hosted or co-hosted the session
+  user?: FeedbackAuthor;
+}
+
+export const summarizeFeedback = (entries: Array<{ rating: number }>): FeedbackSummary => {
+  const distribution = [0, 0, 0, 0, 0];
+  entries.forEach(entry => distribution[entry.rating - 1]++);
+
+  const total = entries.reduce((sum, entry) => sum + entry.rating, 0);
+  return {
+    count: entries.length,
+    average: entries.length > 0 ? Math.round((total / entries.length) * 10) / 10 : null,
+    distribution
+  };
+};
+
+export const findFeedback = (session: IStudySession, userId: string) =>
+  session.feedback.find(entry => entry.user.toString() === userId);
+
+export const feedbackDeadline = (session: IStudySession) =>
+  session.actualEnd ? new Date(session.actualEnd.getTime() + FEEDBACK_WINDOW_DAYS * DAY_MS) : null;
+
+export const editableUntil = (entry: FeedbackEntry) =>
+  new Date(entry.submittedAt.getTime() + FEEDBACK_EDIT_HOURS * HOUR_MS);
+
+const hostOf = (session: IStudySession) => (session.host._id || session.host).toString();
+
+// The host and co-hosts, who neither rate the session nor see anonymous authors
+const hostsOf = (session: IStudySession) =>
+  [hostOf(session), ...(session.coHosts || []).map(coHost => coHost.toString())];
+
+// Why `userId` cannot give or change feedback on `session` now, or null if they can
+export const checkFeedback = (session: IStudySession, userId: string, at: Date = new Date()) => {
+  const deadline = feedbackDeadline(session);
+  if (session.status !== 'completed' || !deadline) {
+    return 'Feedback can only be given once the session has ended';
+  }
+  if (hostsOf(session).includes(userId)) {
+    return 'Hosts cannot rate their own sessions';
+  }
+  if (!session.participants.some(participant => participant.user.toString() === userId)) {
+    return 'Only participants can give feedback';
+  }
+
+  const existing = findFeedback(session, userId);
+  if (existing && at > editableUntil(existing)) {
+    return `Feedback can only be changed within ${FEEDBACK_EDIT_HOURS} hours of submitting it`;
+  }
+  if (!existing && at > deadline) {
+    return 'The feedback period of this session has ended';
+  }
+
+  return null;
+};
+
+// Store the feedback of a user that passed checkFeedback, replacing their
+// earlier entry, and return it with the updated session. Both updates are
+// conditional so that two requests at once can't add a second entry for the
+// same user.
+export const saveFeedback = async (
+  session: IStudySession,
+  userId: string,
+  input: FeedbackInput,
+  at: Date = new Date()
+): Promise<{ session: IStudySession; entry: FeedbackEntry } | null> => {
+  const fields = { rating: input.rating, comment: input.comment || '', anonymous: Boolean(input.anonymous) };
+
+  const updated = findFeedback(session, userId)
+    ? await StudySession.findOneAndUpdate(
+      { _id: session._id, 'feedback.user': userId },
+      {
+        $set: {
+          'feedback.$.rating': fields.rating,
+          'feedback.$.comment': fields.comment,
+          'feedback.$.anonymous': fields.anonymous,
+          'feedback.$.editedAt': at
+        }
+      },
+      { new: true }
+    )
+    : await StudySession.findOneAndUpdate(
+      { _id: session._id, 'feedback.user': { $ne: userId } },
+      { $push: { feedback: { user: userId, ...fields, submittedAt: at } } },
+      { new: true }
+    );
+
+  const entry = updated && findFeedback(updated, userId);
+  return updated && entry ? { session: updated, entry } : null;
+};
+
+// Entries as `viewerId` may see them, newest first, with the authors that are not hidden
+const presentFeedback = async (
+  items: Array<{ entry: FeedbackEntry; session: IStudySession }>,
+  viewerId: string
+): Promise<Array<FeedbackView & { session: IStudySession }>> => {
+  const showAuthor = ({ entry, session }: { entry: FeedbackEntry; session: IStudySession }) =>
+    !entry.anonymous || !hostsOf(session).includes(viewerId);
+
+  const authorIds = items.filter(showAuthor).map(({ entry }) => entry.user);
+  const authors: FeedbackAuthor[] = await User.find({ _id: { $in: authorIds } })
+    .select('firstName lastName avatar')
+    .lean();
+  const authorsById = new Map(authors.map(author => [author._id.toString(), author]));
+
+  return items
+    .sort((a, b) => b.entry.submittedAt.getTime() - a.entry.submittedAt.getTime())
+    .map(item => ({
+      _id: item.entry._id.toString(),
+      rating: item.entry.rating,
+      comment: item.entry.comment,
+      anonymous: item.entry.anonymous,
+      submittedAt: item.entry.submittedAt,
+      editedAt: item.entry.editedAt,
+      user: showAuthor(item) ? authorsById.get(item.entry.user.toString()) : undefined,
+      session: item.session
+    }));
+};
+
+// Ratings and comments of one session, for its host or the group's managers
+export const sessionFeedbackReport = async (session: IStudySession, viewerId: string) => {
+  const feedback = await presentFeedback(session.feedback.map(entry => ({ entry, session })), viewerId);
+
+  return {
+    summary: summarizeFeedback(session.feedback),
+    feedback: feedback.map(({ session: _session, ...view }) => view)
+  };
+};
+
+// Ratings across the completed sessions matching `filter` that ended in
+// `range`: the overall summary, one point per session to show the trend, a
+// summary per host and the most recent comments
+export const feedbackTrends = async (filter: FilterQuery<IStudySession>, range: DateRange, viewerId: string) => {
+  const sessions = await StudySession.find({
+    ...filter,
+    status: 'completed',
+    actualEnd: { $gte: range.from, $lt: range.to }
+  })
+    .select('title host coHosts group actualStart actualEnd feedback')
+    .populate('host', 'firstName lastName avatar')
+    .sort({ actualEnd: 1 });
+
+  const entries = sessions.reduce<Array<{ entry: FeedbackEntry; session: IStudySession }>>(
+    (all, session) => all.concat(session.feedback.map(entry => ({ entry, session }))),
+    []
+  );
+
+  type HostRatings = { host: unknown; sessions: number; ratings: FeedbackEntry[] };
+  const hosts = new Map<string, HostRatings>();
+  sessions.forEach(session => {
+    const host: HostRatings = hosts.get(hostOf(session)) || { host: session.host, sessions: 0, ratings: [] };
+    host.sessions++;
+    host.ratings.push(...session.feedback);
+    hosts.set(hostOf(session), host);
+  });
+
+  const comments = await presentFeedback(entries.filter(({ entry }) => entry.comment), viewerId);
+
+  return {
+    from: range.from,
+    to: range.to,
+    summary: summarizeFeedback(entries.map(({ entry }) => entry)),
+    sessions: sessions.map(session => ({
+      _id: session._id,
+      title: session.title,
+      host: session.host,
+      actualEnd: session.actualEnd,
+      ...summarizeFeedback(session.feedback)
+    })),
+    hosts: Array.from(hosts.values()).map(({ host, sessions: count, ratings }) => ({
+      host,
+      sessions: count,
+      ...summarizeFeedback(ratings)
+    })),
+    comments: comments.slice(0, MAX_COMMENTS).map(({ session, ...view }) => ({
+      ...view,
+      session: { _id: session._id, title: session.title }
+    }))
+  };
+};
+
+// Completed sessions `userId` took part in and can still rate
+export const pendingFeedback = (userId: string, at: Date = new Date()) =>
+  StudySession.find({
+    status: 'completed',
+    'participants.user': userId,
+    host: { $ne: userId },
+    coHosts: { $ne: userId },
+    'feedback.user': { $ne: userId },
+    actualEnd: { $gte: new Date(at.getTime() - FEEDBACK_WINDOW_DAYS * DAY_MS) }
+  })
+    .select('title group host actualStart actualEnd')
+    .populate('host', 'firstName lastName avatar')
+    .populate('group', 'name')
+    .sort({ actualEnd: -1 });
@@ -0,0 +1,158 @@
+import { IStudySession } from '../models/StudySession';
+import SessionChange, { SessionChangeAction } from '../models/SessionChange';
+import User from '../models/User';
+import { summarizeFeedback } from './sessionFeedback';
+
+// Every change to a session is appended to its change log with the old and
+// new value of each tracked field. Replaying the log backwards from the
+// current session gives how it looked at any earlier time; changes made
+// before the log existed can't be undone that way, so such reconstructions
+// show their values as they are now.
+
+export const TRACKED_FIELDS = [
+  'host',
+  'coHosts',
+  'title',
+  'description',
+  'scheduledStart',
+  'scheduledEnd',
+  'timezone',
+  'allDay',
+  'status',
+  'type',
+  'maxParticipants',
+  'autoStart',
+  'autoComplete',
+  'actualStart',
+  'actualEnd',
+  'participants',
+  'waitlist',
+  'guests',
+  'agenda',
+  'resources',
+  'feedback'
+] as const;
+
+export type SessionSnapshot = Record<(typeof TRACKED_FIELDS)[number], unknown>;
+
+const feedbackSnapshot = (session: IStudySession) => {
+  const { count, average } = summarizeFeedback(session.feedback || []);
+  return { count, average };
+};
+
+// The tracked fields of a session; the host is kept as a user id, co-hosts,
+// participants, the waitlist and guests as lists of user ids. The agenda is
+// kept as planned (working through it live is not a change to the session),
+// resources by title, and feedback only as its count and average rating so
+// the log doesn't give away who wrote anonymous entries.
+export const snapshotSession = (session: IStudySession): SessionSnapshot => ({
+  host: session.host.toString(),
+  coHosts: (session.coHosts || []).map(coHost => coHost.toString()),
+  title: session.title,
+  description: session.description,
+  scheduledStart: session.scheduledStart,
+  scheduledEnd: session.scheduledEnd,
+  timezone: session.timezone,
+  allDay: session.allDay,
+  status: session.status,
+  type: session.type,
+  maxParticipants: session.maxParticipants,
+  autoStart: session.autoStart,
+  autoComplete: session.autoComplete,
+  actualStart: session.actualStart,
+  actualEnd: session.actualEnd,
+  participants: session.participants.map(participant => participant.user.toString()),
+  waitlist: session.waitlist.map(entry => entry.user.toString()),
+  guests: (session.guests || []).map(guest => guest.user.toString()),
+  agenda: (session.agenda || []).map(item => `${item.topic} (${item.duration} min)`),
+  resources: (session.resources || []).map(resource => resource.title),
+  feedback: feedbackSnapshot(session)
+});
+
+// Fields that hold a user id or a list of them
+const USER_FIELDS: string[] = ['host', 'coHosts', 'participants', 'waitlist', 'guests'];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Field-level differences between two snapshots; `before` is null for a new session
+export const diffSnapshots = (before: SessionSnapshot | null, after: SessionSnapshot) =>
+  TRACKED_FIELDS
+    .filter(field => (before ? !sameValue(before[field], after[field]) : after[field] !== undefined))
+    .map(field => ({ field, from: before?.[field], to: after[field] }));
+
+// Append what `action` changed about `session`, given a snapshot from
+// before it. Nothing is written if no tracked field changed. Failures are
+// logged: the change itself has already been saved by then.
+export const recordSessionChange = async (
+  session: IStudySession,
+  action: SessionChangeAction,
+  options: { before: SessionSnapshot | null; by?: string; at?: Date }
+) => {
+  const changes = diffSnapshots(options.before, snapshotSession(session));
+  if (changes.length === 0) {
+    return null;
+  }
+
+  try {
+    return await SessionChange.create({
+      session: session._id,
+      action,
+      actor: options.by,
+      at: options.at || new Date(),
+      changes
+    });
+  } catch (error) {
+    console.error(`Error recording ${action} of session ${session._id}:`, error);
+    return null;
+  }
+};
+
+// The change log of a session, oldest first, with the people it mentions
+export const sessionHistory = async (sessionId: IStudySession['_id']) => {
+  const entries = await SessionChange.find({ session: sessionId })
+    .sort({ at: 1, _id: 1 })
+    .populate('actor', 'firstName lastName avatar');
+
+  // Changes to who hosts and takes part only hold user ids
+  const userIds = new Set<string>();
+  entries.forEach(entry => entry.changes.forEach(change => {
+    if (USER_FIELDS.includes(change.field)) {
+      [change.from, change.to].forEach(ids => ([] as string[]).concat((ids as string | string[]) || [])
+        .forEach(id => userIds.add(id)));
+    }
+  }));
+
+  const users = await User.find({ _id: { $in: Array.from(userIds) } }).select('firstName lastName avatar');
+
+  return { entries, users };
+};
+
+// How the tracked fields of `session` looked at `at`, or null if the session
+// didn't exist yet
+export const reconstructSession = async (session: IStudySession, at: Date) => {
+  const created = await SessionChange.findOne({ session: session._id, action: 'created' });
+  const createdAt = created?.at || session.createdAt;
+  if (createdAt && createdAt > at) {
+    return null;
+  }
+
+  const later = await SessionChange.find({ session: session._id, at: { $gt: at } }).sort({ at: -1, _id: -1 });
+  const state: Record<string, unknown> = snapshotSession(session);
+
+  later.forEach(entry => entry.changes.forEach(change => {
+    state[change.field] = change.from;
+  }));
+
+  const userIds = USER_FIELDS.flatMap(field => ([] as string[]).concat((state[field] as string | string[]) || []));
+  const users = await User.find({ _id: { $in: userIds } }).select('firstName lastName avatar');
+
+  return {
+    sessionId: session._id,
+    at,
+    state,
+    users,
+    // Whether the log covers the session from its creation
+    complete: Boolean(created),
+    appliedChanges: later.length
+  };
+};
@@ -0,0 +1,97 @@
+import StudySession, { IStudySession } from '../models/StudySession';
+import { sessionEvents } from '../events/sessionEvents';
+import { isGroupManager, isGroupMember } from './groupRoles';
+import { isHostOrParticipant } from './sessionAccess';
+import { recordSessionChange, snapshotSession } from './sessionHistory';
+
+// Who hosts a session. Co-hosts are picked by the host or the group's
+// managers from the members of the group; the host role itself only changes
+// hands through an explicit transfer.
+
+interface HostingGroup {
+  owner: { toString(): string };
+  moderators?: Array<{ toString(): string }>;
+  members: Array<{ user: { toString(): string }; role?: string }>;
+}
+
+// Members of the group can host its sessions; sessions without a group only
+// the people already taking part
+const canHost = (session: IStudySession, group: HostingGroup | null, userId: string) =>
+  group ? isGroupMember(group, userId) || isGroupManager(group, userId) : isHostOrParticipant(session, userId);
+
+const isFinished = (session: IStudySession) => session.status === 'completed' || session.status === 'cancelled';
+
+// Why the co-hosts of `session` can't be set to `userIds`, or null if they can
+export const checkCoHosts = (session: IStudySession, group: HostingGroup | null, userIds: string[]) => {
+  if (isFinished(session)) {
+    return `The co-hosts of a ${session.status} session can no longer be changed`;
+  }
+  if (userIds.includes(session.host.toString())) {
+    return 'The host cannot also be a co-host';
+  }
+  if (userIds.some(userId => !canHost(session, group, userId))) {
+    return 'Co-hosts must be members of the group';
+  }
+  return null;
+};
+
+// Replace the co-hosts of a session and tell the ones that were added
+export const setCoHosts = async (session: IStudySession, userIds: string[], by: string) => {
+  const before = snapshotSession(session);
+  const added = userIds.filter(userId => !(before.coHosts as string[]).includes(userId));
+
+  session.set('coHosts', Array.from(new Set(userIds)));
+  await session.save();
+  await recordSessionChange(session, 'co-hosts-changed', { before, by });
+
+  added.forEach(userId => sessionEvents.emit('host:assigned', { session, userId, role: 'co-host', by }));
+  return session;
+};
+
+// Why the host of `session` can't be handed to `userId`, or null if it can
+export const checkHostTransfer = (session: IStudySession, group: HostingGroup | null, userId: string) => {
+  if (isFinished(session)) {
+    return `A ${session.status} session can no longer be handed over`;
+  }
+  if (session.host.toString() === userId) {
+    return 'This user already hosts the session';
+  }
+  if (!canHost(session, group, userId)) {
+    return 'The new host must be a member of the group';
+  }
+  return null;
+};
+
+// Make `userId` the host. They stop being a co-host and join the session if
+// they hadn't; the previous host stays a participant and, with
+// `keepAsCoHost`, becomes a co-host. Only goes through if nobody else changed
+// the host in the meantime; returns the updated session or null.
+export const transferHost = async (
+  session: IStudySession,
+  userId: string,
+  options: { keepAsCoHost?: boolean; by: string }
+) => {
+  const before = snapshotSession(session);
+  const previousHost = session.host.toString();
+  const coHosts = (before.coHosts as string[])
+    .filter(coHost => coHost !== userId)
+    .concat(options.keepAsCoHost ? [previousHost] : []);
+  const joined = session.participants.some(participant => participant.user.toString() === userId);
+
+  const updated = await StudySession.findOneAndUpdate(
+    { _id: session._id, host: session.host },
+    {
+      $set: { host: userId, coHosts },
+      ...(!joined && { $push: { participants: { user: userId, joinedAt: new Date() } } }),
+      $pull: { waitlist: { user: userId } }
+    },
+    { new: true }
+  );
+  if (!updated) {
+    return null;
+  }
+
+  await recordSessionChange(updated, 'host-transferred', { before, by: options.by });
+  sessionEvents.emit('host:assigned', { session: updated, userId, role: 'host', by: options.by });
+  return updated;
+};
@@ -0,0 +1,170 @@
+import StudySession from '../models/StudySession';
+import { ParsedICalEvent, parseICalEvents } from '../utils/ical';
+import { expandRRule, parseRRule } from '../utils/rrule';
+
+// Bulk creation of study sessions from .ics files. Importing is two steps:
+// the preview maps every event onto session fields and flags duplicates
+// without writing anything, then the confirmed sessions are created. Each
+// imported session remembers the event it came from (importUid), so
+// importing the same file again only offers the new events.
+
+export const MAX_IMPORT_SESSIONS = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+// Recurring events without an end are expanded this far past their start
+const RECURRENCE_HORIZON_MS = 366 * DAY_MS;
+
+export type ImportStatus = 'new' | 'duplicate' | 'invalid';
+
+export interface ImportCandidate {
+  importUid: string;
+  title: string;
+  description: string;
+  scheduledStart: Date;
+  scheduledEnd: Date;
+  timezone?: string;
+  allDay: boolean;
+  status: ImportStatus;
+  reason?: string;
+  existingSessionId?: string;
+}
+
+const eventDuration = (event: ParsedICalEvent) => {
+  if (event.end) return event.end.getTime() - event.start.getTime();
+  if (event.duration !== undefined) return event.duration;
+  return event.allDay ? DAY_MS : HOUR_MS;
+};
+
+const eventDescription = (event: ParsedICalEvent) =>
+  [event.description, event.location && `Location: ${event.location}`]
+    .filter(Boolean)
+    .join('\n\n');
+
+const toCandidate = (event: ParsedICalEvent, importUid: string, start: Date): ImportCandidate => {
+  const title = event.summary || '';
+  const candidate: ImportCandidate = {
+    importUid,
+    title,
+    description: eventDescription(event) || title,
+    scheduledStart: start,
+    scheduledEnd: new Date(start.getTime() + eventDuration(event)),
+    timezone: event.timezone,
+    allDay: event.allDay,
+    status: 'new'
+  };
+
+  if (!title) {
+    candidate.status = 'invalid';
+    candidate.reason = 'Event has no title (SUMMARY)';
+  } else if (candidate.scheduledEnd <= candidate.scheduledStart) {
+    candidate.status = 'invalid';
+    candidate.reason = 'Event ends before it starts';
+  } else if (event.status === 'CANCELLED') {
+    candidate.status = 'invalid';
+    candidate.reason = 'Event is cancelled';
+  }
+
+  return candidate;
+};
+
+// Events without a UID are identified by their start and title instead
+const eventUid = (event: ParsedICalEvent) =>
+  event.uid || `${event.start.toISOString()}:${event.summary || ''}`;
+
+const occurrenceUid = (uid: string, start: Date) => `${uid}#${start.toISOString()}`;
+
+// Turn parsed events into one candidate per session. Recurring events are
+// expanded; occurrences moved by a RECURRENCE-ID override are replaced by
+// the override.
+export const eventsToCandidates = (events: ParsedICalEvent[]): ImportCandidate[] => {
+  const overrides = events.filter(event => event.recurrenceId && event.uid);
+  const overridden = new Set(overrides.map(event => occurrenceUid(event.uid!, event.recurrenceId!)));
+  const candidates: ImportCandidate[] = [];
+
+  for (const event of events) {
+    const uid = eventUid(event);
+
+    if (event.recurrenceId) {
+      candidates.push(toCandidate(event, occurrenceUid(uid, event.recurrenceId), event.start));
+      continue;
+    }
+
+    if (!event.rrule) {
+      candidates.push(toCandidate(event, uid, event.start));
+      continue;
+    }
+
+    try {
+      const occurrences = expandRRule(parseRRule(event.rrule), event.start, {
+        before: new Date(event.start.getTime() + RECURRENCE_HORIZON_MS),
+        exdates: event.exdates,
+        timezone: event.timezone
+      });
+
+      for (const start of occurrences) {
+        const id = occurrenceUid(uid, start);
+        if (!overridden.has(id)) {
+          candidates.push(toCandidate(event, id, start));
+        }
+      }
+    } catch (error) {
+      candidates.push({
+        ...toCandidate(event, uid, event.start),
+        status: 'invalid',
+        reason: `Unsupported recurrence: ${(error as Error).message}`
+      });
+    }
+  }
+
+  return candidates.sort((a, b) => a.scheduledStart.getTime() - b.scheduledStart.getTime());
+};
+
+// Flag candidates that already exist in the group, either imported before
+// (same importUid) or created by hand with the same title and start time.
+// Repeats within the same batch are flagged as well.
+export const markDuplicates = async (groupId: string, candidates: ImportCandidate[]) => {
+  const existing = await StudySession.find({
+    group: groupId,
+    status: { $ne: 'cancelled' },
+    $or: [
+      { importUid: { $in: candidates.map(c => c.importUid) } },
+      { scheduledStart: { $in: candidates.map(c => c.scheduledStart) } }
+    ]
+  }).select('title scheduledStart importUid');
+
+  const seen = new Set<string>();
+
+  for (const candidate of candidates) {
+    if (candidate.status === 'invalid') continue;
+
+    const match = existing.find(session =>
+      session.importUid === candidate.importUid ||
+      (session.title === candidate.title &&
+        session.scheduledStart.getTime() === candidate.scheduledStart.getTime())
+    );
+
+    if (match) {
+      candidate.status = 'duplicate';
+      candidate.reason = 'Already in this group';
+      candidate.existingSessionId = match._id.toString();
+    } else if (seen.has(candidate.importUid)) {
+      candidate.status = 'duplicate';
+      candidate.reason = 'Listed more than once in the file';
+    }
+
+    seen.add(candidate.importUid);
+  }
+
+  return candidates;
+};
+
+export const previewImport = async (ics: string, groupId: string, timezone?: string) => {
+  const candidates = eventsToCandidates(parseICalEvents(ics, timezone));
+
+  if (candidates.length > MAX_IMPORT_SESSIONS) {
+    throw new Error(`A calendar can contain at most ${MAX_IMPORT_SESSIONS} sessions`);
+  }
+
+  return markDuplicates(groupId, candidates);
+};
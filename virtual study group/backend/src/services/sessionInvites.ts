@@ -0,0 +1,172 @@
+import mongoose from 'mongoose';
+import StudySession, { IStudySession } from '../models/StudySession';
+import SessionInvite, { ISessionInvite } from '../models/SessionInvite';
+import { sessionEvents } from '../events/sessionEvents';
+import { hasValidSignature, sign } from '../utils/signature';
+import { recordSessionChange, snapshotSession } from './sessionHistory';
+
+// Invite links to a single session, for people outside its group. The hosts
+// issue links that expire and can be limited to one use; accepting one adds
+// the user to the session's guests, which lets them see and join that
+// session, open its files and use its chat, and nothing else of the group.
+// A link is the invite's id plus a signature, so ids can't be guessed into
+// links and the hosts can copy a link again without it being stored.
+
+export const DEFAULT_INVITE_HOURS = 72;
+export const MAX_INVITE_HOURS = 30 * 24;
+
+export type InviteStatus = 'active' | 'expired' | 'used' | 'revoked';
+
+const signedPayload = (invite: ISessionInvite) =>
+  `session-invite:${invite._id}:${invite.session}:${invite.expiresAt.getTime()}`;
+
+export const inviteToken = (invite: ISessionInvite) => `${invite._id}.${sign(signedPayload(invite))}`;
+
+export const inviteUrl = (invite: ISessionInvite) =>
+  `${process.env.CLIENT_URL || 'http://localhost:3000'}/sessions/invite/${inviteToken(invite)}`;
+
+// The invite a token was signed for, or null for unknown and tampered tokens
+export const findInvite = async (token: string) => {
+  const [inviteId, sig] = token.split('.');
+  if (!sig || !mongoose.isValidObjectId(inviteId)) {
+    return null;
+  }
+
+  const invite = await SessionInvite.findById(inviteId);
+  if (!invite) {
+    return null;
+  }
+
+  return hasValidSignature(signedPayload(invite), sig) ? invite : null;
+};
+
+export const inviteStatus = (invite: ISessionInvite, now: Date = new Date()): InviteStatus => {
+  if (invite.revokedAt) {
+    return 'revoked';
+  }
+  if (invite.expiresAt <= now) {
+    return 'expired';
+  }
+  return invite.singleUse && invite.uses.length > 0 ? 'used' : 'active';
+};
+
+const INVITE_PROBLEMS: Record<Exclude<InviteStatus, 'active'>, string> = {
+  revoked: 'This invite link was revoked',
+  expired: 'This invite link has expired',
+  used: 'This invite link has already been used'
+};
+
+// Why the invite can't be accepted (anymore), or null if it can
+export const checkInvite = (invite: ISessionInvite, session: IStudySession, now: Date = new Date()) => {
+  const status = inviteStatus(invite, now);
+  if (status !== 'active') {
+    return INVITE_PROBLEMS[status];
+  }
+  return session.status === 'completed' || session.status === 'cancelled'
+    ? `This session was ${session.status}`
+    : null;
+};
+
+// How an invite is shown to the hosts; `uses.user` and `createdBy` may be populated
+export const presentInvite = (invite: ISessionInvite, now: Date = new Date()) => ({
+  _id: invite._id,
+  label: invite.label,
+  url: inviteUrl(invite),
+  expiresAt: invite.expiresAt,
+  singleUse: invite.singleUse,
+  status: inviteStatus(invite, now),
+  uses: invite.uses,
+  createdBy: invite.createdBy,
+  createdAt: invite.createdAt,
+  revokedAt: invite.revokedAt
+});
+
+export const listInvites = (session: IStudySession) =>
+  SessionInvite.find({ session: session._id })
+    .sort({ createdAt: -1 })
+    .populate('createdBy', 'firstName lastName avatar')
+    .populate('uses.user', 'firstName lastName avatar');
+
+export const createInvite = (
+  session: IStudySession,
+  by: string,
+  options: { expiresInHours: number; singleUse: boolean; label?: string },
+  now: Date = new Date()
+) =>
+  SessionInvite.create({
+    session: session._id,
+    createdBy: by,
+    label: options.label,
+    expiresAt: new Date(now.getTime() + options.expiresInHours * 60 * 60 * 1000),
+    singleUse: options.singleUse
+  });
+
+// Add the user to the session's guests and count the use of the invite.
+// Returns why it failed when the invite stopped working or the session ended
+// in the meantime, e.g. someone else was first to use a single-use link.
+export const acceptInvite = async (
+  invite: ISessionInvite,
+  session: IStudySession,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ error: string } | { session: IStudySession }> => {
+  const used = await SessionInvite.findOneAndUpdate(
+    {
+      _id: invite._id,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: now },
+      ...(invite.singleUse ? { 'uses.0': { $exists: false } } : {})
+    },
+    { $push: { uses: { user: userId, at: now } } },
+    { new: true }
+  );
+  if (!used) {
+    const current = await SessionInvite.findById(invite._id);
+    return { error: (current && checkInvite(current, session, now)) || 'This invite link no longer works' };
+  }
+
+  const updated = await StudySession.findOneAndUpdate(
+    { _id: session._id, status: { $nin: ['completed', 'cancelled'] }, 'guests.user': { $ne: userId } },
+    { $push: { guests: { user: userId, invite: invite._id, addedAt: now } } },
+    { new: true }
+  );
+  if (!updated) {
+    // Give the use back; the link didn't get anyone in
+    await SessionInvite.updateOne({ _id: invite._id }, { $pull: { uses: { user: userId, at: now } } });
+    return { error: 'The session was changed in the meantime, please reload it' };
+  }
+
+  await recordSessionChange(updated, 'guests-changed', { before: snapshotSession(session), by: userId, at: now });
+  return { session: updated };
+};
+
+// Stop the link from working and take the guests who came in with it out
+// of the session. Returns null if it was revoked already.
+export const revokeInvite = async (invite: ISessionInvite, by: string, now: Date = new Date()) => {
+  const revoked = await SessionInvite.findOneAndUpdate(
+    { _id: invite._id, revokedAt: { $exists: false } },
+    { $set: { revokedAt: now, revokedBy: by } },
+    { new: true }
+  );
+  if (!revoked) {
+    return null;
+  }
+
+  const session = await StudySession.findById(invite.session);
+  const userIds = (session?.guests || [])
+    .filter(guest => guest.invite.toString() === invite._id.toString())
+    .map(guest => guest.user.toString());
+  if (session && userIds.length > 0) {
+    const updated = await StudySession.findOneAndUpdate(
+      { _id: session._id },
+      { $pull: { guests: { invite: invite._id } } },
+      { new: true }
+    );
+    if (updated) {
+      await recordSessionChange(updated, 'guests-changed', { before: snapshotSession(session), by, at: now });
+    }
+    sessionEvents.emit('guests:removed', { session, userIds });
+  }
+
+  return revoked;
+};
@@ -0,0 +1,247 @@
+import { FilterQuery } from 'mongoose';
+import StudySession, { IStudySession } from '../models/StudySession';
+import { sessionEvents, SessionEvents } from '../events/sessionEvents';
+import { closeSessionAttendance } from './attendance';
+import { recordSessionChange, snapshotSession } from './sessionHistory';
+
+// The status state machine of a study session:
+//
+//   scheduled -> live -> completed
+//     ^   |          |
+//     |   +----------+--> cancelled
+//     |                       |
+//     +------- restore -------+
+//
+// Every change goes through transitionSession, which checks the guard of the
+// transition, records when it happened and emits a domain event. PUT never
+// touches the status. A cancelled session that never ran can be restored
+// by its host for RESTORE_WINDOW_HOURS, with its participants intact.
+//
+// The lifecycle scheduler moves sessions that opted in to
+// autoStart/autoComplete when their scheduled window begins or ends.
+
+export type SessionStatus = IStudySession['status'];
+
+export const LIFECYCLE_SCHEDULER_INTERVAL_MS = 60 * 1000;
+// How long before scheduledStart a host may start a session
+export const EARLY_START_MINUTES = 15;
+// How long after cancelling a host may restore a session
+export const RESTORE_WINDOW_HOURS = 24;
+
+export interface CancellationDetails {
+  reason?: string;
+  suggestedStart?: Date;
+  suggestedEnd?: Date;
+}
+
+// Until when a cancelled session can be restored, or null if it can't be
+export const restoreDeadline = (session: IStudySession) => {
+  if (session.status !== 'cancelled' || session.actualStart || !session.cancellation?.cancelledAt) {
+    return null;
+  }
+  return new Date(session.cancellation.cancelledAt.getTime() + RESTORE_WINDOW_HOURS * 60 * 60 * 1000);
+};
+
+interface Transition {
+  from: SessionStatus;
+  to: SessionStatus;
+  // Returns why the transition is not possible right now, if it isn't
+  guard?: (session: IStudySession, at: Date) => string | null;
+}
+
+const TRANSITIONS: Transition[] = [
+  {
+    from: 'scheduled',
+    to: 'live',
+    guard: (session, at) => {
+      if (at.getTime() < session.scheduledStart.getTime() - EARLY_START_MINUTES * 60 * 1000) {
+        return `Sessions can be started at most ${EARLY_START_MINUTES} minutes early`;
+      }
+      if (at >= session.scheduledEnd) {
+        return 'The scheduled time of this session has already passed';
+      }
+      return null;
+    }
+  },
+  { from: 'live', to: 'completed' },
+  { from: 'scheduled', to: 'cancelled' },
+  { from: 'live', to: 'cancelled' },
+  {
+    from: 'cancelled',
+    to: 'scheduled',
+    guard: (session, at) => {
+      if (session.actualStart) {
+        return 'Sessions that were already running cannot be restored';
+      }
+      const deadline = restoreDeadline(session);
+      if (!deadline || at > deadline) {
+        return `Sessions can only be restored within ${RESTORE_WINDOW_HOURS} hours of being cancelled`;
+      }
+      if (at >= session.scheduledEnd) {
+        return 'The scheduled time of this session has already passed';
+      }
+      return null;
+    }
+  }
+];
+
+const EVENTS: Partial<Record<SessionStatus, keyof SessionEvents>> = {
+  scheduled: 'session:restored',
+  live: 'session:started',
+  completed: 'session:completed',
+  cancelled: 'session:cancelled'
+};
+
+const HISTORY_ACTIONS = {
+  scheduled: 'restored',
+  live: 'started',
+  completed: 'completed',
+  cancelled: 'cancelled'
+} as const;
+
+const VERBS: Record<SessionStatus, string> = {
+  scheduled: 'restored',
+  live: 'started',
+  completed: 'ended',
+  cancelled: 'cancelled'
+};
+
+// Why `session` cannot move to `to` at `at`, or null if it can
+export const checkTransition = (session: IStudySession, to: SessionStatus, at: Date = new Date()) => {
+  const transition = TRANSITIONS.find(t => t.from === session.status && t.to === to);
+  if (!transition) {
+    return `A ${session.status} session cannot be ${VERBS[to]}`;
+  }
+  return transition.guard?.(session, at) ?? null;
+};
+
+export const canTransition = (session: IStudySession, to: SessionStatus, at: Date = new Date()) =>
+  checkTransition(session, to, at) === null;
+
+const transitionChanges = (
+  session: IStudySession,
+  to: SessionStatus,
+  at: Date,
+  options: { by?: string; cancellation?: CancellationDetails }
+) => {
+  const changes: Record<string, unknown> = { status: to };
+
+  if (to === 'cancelled') {
+    changes.cancellation = { ...options.cancellation, cancelledBy: options.by, cancelledAt: at };
+  } else if (to === 'scheduled') {
+    changes['cancellation.restoredAt'] = at;
+  }
+
+  if (to === 'live') {
+    changes.actualStart = at;
+  } else if (to === 'completed' || (to === 'cancelled' && session.status === 'live')) {
+    changes.actualEnd = at;
+  }
+
+  // A cancelled occurrence stays cancelled even if its series is edited later
+  if (to === 'cancelled' && session.series) {
+    changes.isException = true;
+  }
+
+  return changes;
+};
+
+// Apply a transition that passed checkTransition. The update only goes
+// through if the session is still in the status it was read with, so a host
+// and the scheduler can't both start the same session. Returns the updated
+// session, or null if another change got there first.
+export const transitionSession = async (
+  session: IStudySession,
+  to: SessionStatus,
+  options: { by?: string; at?: Date; cancellation?: CancellationDetails } = {}
+): Promise<IStudySession | null> => {
+  const at = options.at || new Date();
+  const from = session.status;
+  const before = snapshotSession(session);
+  const update: Record<string, unknown> = { $set: transitionChanges(session, to, at, options) };
+  const queryOptions: Record<string, unknown> = { new: true };
+
+  // Ending a session also ends the attendance of everyone still in it
+  if (to === 'completed' || to === 'cancelled') {
+    (update.$set as Record<string, unknown>)['participants.$[open].leftAt'] = at;
+    queryOptions.arrayFilters = [{ 'open.leftAt': { $exists: false } }];
+  }
+
+  // Restoring brings back everyone the cancellation closed out
+  if (to === 'scheduled' && session.cancellation?.cancelledAt) {
+    update.$unset = { 'participants.$[closed].leftAt': '' };
+    queryOptions.arrayFilters = [{ 'closed.leftAt': session.cancellation.cancelledAt }];
+  }
+
+  const updated = await StudySession.findOneAndUpdate({ _id: session._id, status: from }, update, queryOptions);
+  if (!updated) {
+    return null;
+  }
+
+  if (to === 'completed' || to === 'cancelled') {
+    await closeSessionAttendance(updated._id, at);
+  }
+
+  await recordSessionChange(updated, HISTORY_ACTIONS[to], { before, by: options.by, at });
+
+  const event = EVENTS[to];
+  if (event) {
+    sessionEvents.emit(event, { session: updated, from, by: options.by, at });
+  }
+
+  return updated;
+};
+
+// Cancel every session matching `filter` that can still be cancelled, e.g.
+// the upcoming occurrences of a series. Returns how many were cancelled.
+export const cancelSessions = async (
+  filter: FilterQuery<IStudySession>,
+  by?: string,
+  cancellation?: CancellationDetails
+) => {
+  const sessions = await StudySession.find(filter);
+  let cancelled = 0;
+
+  for (const session of sessions) {
+    if (canTransition(session, 'cancelled') && await transitionSession(session, 'cancelled', { by, cancellation })) {
+      cancelled++;
+    }
+  }
+
+  return cancelled;
+};
+
+// Start and complete the sessions that opted in once their window begins or ends
+export const runLifecycleScheduler = async (now: Date = new Date()) => {
+  const toStart = await StudySession.find({
+    status: 'scheduled',
+    autoStart: true,
+    scheduledStart: { $lte: now },
+    scheduledEnd: { $gt: now }
+  });
+
+  for (const session of toStart) {
+    await transitionSession(session, 'live', { at: now });
+  }
+
+  const toComplete = await StudySession.find({
+    status: 'live',
+    autoComplete: true,
+    scheduledEnd: { $lte: now }
+  });
+
+  for (const session of toComplete) {
+    await transitionSession(session, 'completed', { at: now });
+  }
+
+  return { started: toStart.length, completed: toComplete.length };
+};
+
+export const startLifecycleScheduler = (intervalMs: number = LIFECYCLE_SCHEDULER_INTERVAL_MS) => {
+  const run = () => {
+    runLifecycleScheduler().catch(error => console.error('Error running lifecycle scheduler:', error));
+  };
+
+  run();
+  return setInterval(run, intervalMs);
+};
@@ -0,0 +1,175 @@
+import mongoose, { FilterQuery } from 'mongoose';
+import StudySession, { IStudySession } from '../models/StudySession';
+import { SESSION_TYPES } from '../validation/studySession';
+
+// Filtering and cursor pagination for the session lists. Pages are ordered
+// by scheduledStart with _id as a tie breaker, and the cursor encodes the
+// last session of a page, so sessions created or cancelled while a user is
+// scrolling neither repeat nor get skipped.
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const SESSION_STATUSES = ['scheduled', 'live', 'completed', 'cancelled'];
+const MAX_SEARCH_LENGTH = 100;
+
+interface SessionCursor {
+  start: Date;
+  id: string;
+}
+
+export interface SessionListQuery {
+  conditions: FilterQuery<IStudySession>[];
+  limit: number;
+  cursor?: SessionCursor;
+}
+
+export interface SessionPage {
+  sessions: IStudySession[];
+  nextCursor: string | null;
+}
+
+const encodeCursor = (session: IStudySession) =>
+  Buffer.from(`${session.scheduledStart.toISOString()}|${session._id}`).toString('base64url');
+
+const decodeCursor = (cursor: string): SessionCursor | null => {
+  const [start, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const date = new Date(start);
+  return isNaN(date.getTime()) || !mongoose.isValidObjectId(id) ? null : { start: date, id };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Filters accept a single value, a comma separated list or a repeated parameter
+const listParam = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value])
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap(item => item.split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+
+const dateParam = (value: unknown) => {
+  if (typeof value !== 'string' || !value) return undefined;
+  return new Date(value);
+};
+
+// Turn the query string of a list request into filter conditions. Returns
+// an error message when a parameter is malformed.
+export const parseSessionListQuery = (query: Record<string, unknown>): SessionListQuery | { error: string } => {
+  const conditions: FilterQuery<IStudySession>[] = [];
+
+  const groups = listParam(query.group);
+  if (groups.some(id => !mongoose.isValidObjectId(id))) {
+    return { error: 'Invalid group id' };
+  }
+  if (groups.length > 0) {
+    conditions.push({ group: { $in: groups } });
+  }
+
+  const hosts = listParam(query.host);
+  if (hosts.some(id => !mongoose.isValidObjectId(id))) {
+    return { error: 'Invalid host id' };
+  }
+  if (hosts.length > 0) {
+    conditions.push({ host: { $in: hosts } });
+  }
+
+  const types = listParam(query.type);
+  const invalidType = types.find(type => !SESSION_TYPES.includes(type));
+  if (invalidType) {
+    return { error: `Invalid session type: ${invalidType}` };
+  }
+  if (types.length > 0) {
+    conditions.push({ type: { $in: types } });
+  }
+
+  const statuses = listParam(query.status);
+  const invalidStatus = statuses.find(status => !SESSION_STATUSES.includes(status));
+  if (invalidStatus) {
+    return { error: `Invalid status: ${invalidStatus}` };
+  }
+  if (statuses.length > 0) {
+    conditions.push({ status: { $in: statuses } });
+  }
+
+  // The date range selects sessions that take place (at least partly) within it
+  const from = dateParam(query.from);
+  const to = dateParam(query.to);
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return { error: 'Invalid date range' };
+  }
+  if (from && to && to <= from) {
+    return { error: '"to" must be after "from"' };
+  }
+  if (from) {
+    conditions.push({ scheduledEnd: { $gt: from } });
+  }
+  if (to) {
+    conditions.push({ scheduledStart: { $lt: to } });
+  }
+
+  const search = typeof query.q === 'string' ? query.q.trim() : '';
+  if (search.length > MAX_SEARCH_LENGTH) {
+    return { error: `Search text can be at most ${MAX_SEARCH_LENGTH} characters` };
+  }
+  if (search) {
+    const pattern = new RegExp(escapeRegExp(search), 'i');
+    conditions.push({ $or: [{ title: pattern }, { description: pattern }] });
+  }
+
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    return { error: 'limit must be a positive integer' };
+  }
+
+  let cursor: SessionCursor | undefined;
+  if (typeof query.cursor === 'string' && query.cursor) {
+    const decoded = decodeCursor(query.cursor);
+    if (!decoded) {
+      return { error: 'Invalid cursor' };
+    }
+    cursor = decoded;
+  }
+
+  return { conditions, limit: Math.min(limit, MAX_PAGE_SIZE), cursor };
+};
+
+// Cancelled sessions have their own list; the others leave them out unless
+// the user filters by status
+export const withoutCancelled = (query: Record<string, unknown>): FilterQuery<IStudySession> =>
+  listParam(query.status).length > 0 ? {} : { status: { $ne: 'cancelled' } };
+
+// One page of sessions matching both the list's own filter and the user's
+// filters, in chronological (1) or reverse chronological (-1) order
+export const findSessionPage = async (
+  baseFilter: FilterQuery<IStudySession>,
+  query: SessionListQuery,
+  direction: 1 | -1
+): Promise<SessionPage> => {
+  const conditions = [baseFilter, ...query.conditions];
+
+  if (query.cursor) {
+    const after = direction === 1 ? '$gt' : '$lt';
+    conditions.push({
+      $or: [
+        { scheduledStart: { [after]: query.cursor.start } },
+        { scheduledStart: query.cursor.start, _id: { [after]: query.cursor.id } }
+      ]
+    });
+  }
+
+  // One extra document tells whether there is another page
+  const sessions = await StudySession.find({ $and: conditions })
+    .populate('host', 'firstName lastName avatar')
+    .populate('group', 'name')
+    .populate('participants.user', 'firstName lastName avatar')
+    .sort({ scheduledStart: direction, _id: direction })
+    .limit(query.limit + 1);
+
+  const page = sessions.slice(0, query.limit);
+
+  return {
+    sessions: page,
+    nextCursor: sessions.length > query.limit ? encodeCursor(page[page.length - 1]) : null
+  };
+};
@@ -0,0 +1,163 @@
+import { IStudySession } from '../models/StudySession';
+import User from '../models/User';
+import Group from '../models/Group';
+import { sessionEvents } from '../events/sessionEvents';
+import { emitToSession, emitToUser, removeFromSession, syncBreakoutRooms } from '../socket';
+import { agendaState } from './sessionAgenda';
+import { breakoutState } from './sessionBreakouts';
+import { pomodoroState } from './sessionPomodoro';
+import { notifyUsers } from './notifications';
+import { queueEmail } from './mailOutbox';
+import { formatEmailDate } from './mailTemplates';
+import { sessionLink } from './calendarFeed';
+
+// Hosts, participants and guests of a session, except the user who caused the event
+const audience = (session: IStudySession, except?: string) => {
+  const users = [
+    session.host,
+    ...(session.coHosts || []),
+    ...session.participants.map(participant => participant.user),
+    ...(session.guests || []).map(guest => guest.user)
+  ].map(user => user.toString());
+  return Array.from(new Set(users)).filter(user => user !== except);
+};
+
+const sessionPath = (session: IStudySession) => `/sessions/${session._id}`;
+
+const statusPayload = (session: IStudySession) => ({
+  sessionId: session._id,
+  title: session.title,
+  status: session.status
+});
+
+// Cancellations are also emailed, with dates in each recipient's timezone
+const emailCancellation = async (session: IStudySession, userIds: string[]) => {
+  const users = await User.find({ _id: { $in: userIds } })
+    .select('email firstName studyPreferences notificationSettings');
+  // The session comes from the lifecycle unpopulated
+  const group: { name: string } | null = session.group
+    ? await Group.findById(session.group).select('name')
+    : null;
+
+  for (const user of users) {
+    const timeZone = user.studyPreferences?.timezone || session.timezone || 'UTC';
+    await queueEmail(user, 'session-cancelled', {
+      firstName: user.firstName,
+      title: session.title,
+      groupName: group?.name,
+      start: formatEmailDate(session.scheduledStart, timeZone),
+      reason: session.cancellation?.reason,
+      suggestedStart: session.cancellation?.suggestedStart && formatEmailDate(session.cancellation.suggestedStart, timeZone),
+      link: sessionLink(session._id.toString())
+    });
+  }
+};
+
+// Deliver session domain events to the affected users over Socket.IO, and
+// keep the ones worth coming back to in their notification center
+export const registerSessionNotifications = () => {
+  sessionEvents.on('waitlist:promoted', ({ session, userId }) => {
+    emitToUser(userId, 'waitlist-promoted', {
+      sessionId: session._id,
+      title: session.title,
+      scheduledStart: session.scheduledStart
+    });
+    notifyUsers([userId], {
+      type: 'waitlist-promoted',
+      title: `You got a spot in "${session.title}"`,
+      link: sessionPath(session)
+    });
+  });
+
+  sessionEvents.on('session:started', ({ session, by }) => {
+    audience(session, by).forEach(userId => emitToUser(userId, 'session-started', statusPayload(session)));
+  });
+
+  sessionEvents.on('session:completed', ({ session, by }) => {
+    audience(session, by).forEach(userId => emitToUser(userId, 'session-ended', statusPayload(session)));
+  });
+
+  // Everyone who was taking part hears why, and when the host suggests meeting instead
+  sessionEvents.on('session:cancelled', ({ session, by }) => {
+    const payload = {
+      ...statusPayload(session),
+      reason: session.cancellation?.reason,
+      suggestedStart: session.cancellation?.suggestedStart,
+      suggestedEnd: session.cancellation?.suggestedEnd
+    };
+    const users = audience(session, by);
+    users.forEach(userId => emitToUser(userId, 'session-cancelled', payload));
+    notifyUsers(users, {
+      type: 'session-cancelled',
+      title: `"${session.title}" was cancelled`,
+      body: session.cancellation?.reason,
+      link: sessionPath(session)
+    });
+    emailCancellation(session, users).catch(error => console.error('Error emailing session cancellation:', error));
+  });
+
+  sessionEvents.on('session:restored', ({ session, by }) => {
+    const payload = { ...statusPayload(session), scheduledStart: session.scheduledStart };
+    const users = audience(session, by);
+    users.forEach(userId => emitToUser(userId, 'session-restored', payload));
+    notifyUsers(users, {
+      type: 'session-restored',
+      title: `"${session.title}" is back on`,
+      link: sessionPath(session)
+    });
+  });
+
+  sessionEvents.on('host:assigned', ({ session, userId, role, by }) => {
+    if (userId === by) {
+      return;
+    }
+    notifyUsers([userId], {
+      type: 'host-assigned',
+      title: role === 'host' ? `You now host "${session.title}"` : `You are now a co-host of "${session.title}"`,
+      link: sessionPath(session)
+    });
+  });
+
+  // Keeps the agenda panel and countdown of everyone in the session room in sync
+  sessionEvents.on('agenda:updated', ({ session }) => {
+    emitToSession(session._id.toString(), 'agenda-updated', agendaState(session));
+  });
+
+  // Everyone in the session room works out the current phase from the run
+  sessionEvents.on('pomodoro:updated', ({ session }) => {
+    emitToSession(session._id.toString(), 'pomodoro-updated', pomodoroState(session));
+  });
+
+  // Moves everyone's socket into their breakout room, or back to the main
+  // room, and starts or clears the countdown in the session room
+  sessionEvents.on('breakouts:updated', async ({ session }) => {
+    try {
+      await syncBreakoutRooms(session);
+      emitToSession(session._id.toString(), 'breakouts-updated', await breakoutState(session));
+    } catch (error) {
+      console.error('Error updating breakout rooms:', error);
+    }
+  });
+
+  // Guests whose link was revoked leave the room straight away
+  sessionEvents.on('guests:removed', async ({ session, userIds }) => {
+    try {
+      for (const userId of userIds) {
+        await removeFromSession(session._id.toString(), userId);
+        emitToUser(userId, 'session-access-revoked', { sessionId: session._id, title: session.title });
+      }
+    } catch (error) {
+      console.error('Error removing guests from session room:', error);
+    }
+  });
+
+  // Reaches every breakout room and the main room alike
+  sessionEvents.on('breakouts:broadcast', ({ session, message, from, at }) => {
+    emitToSession(session._id.toString(), 'breakout-broadcast', {
+      sessionId: session._id,
+      message,
+      from,
+      sentAt: at
+    });
+  });
+};
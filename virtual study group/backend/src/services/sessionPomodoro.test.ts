@@ -0,0 +1,58 @@
+import { IStudySession } from '../models/StudySession';
+import { completedPomodoros, PomodoroRun, workBlocks } from './sessionPomodoro';
+
+// Minutes after 10:00 on a fixed day
+const at = (minutes: number) => new Date(Date.UTC(2026, 2, 2, 10, minutes));
+const span = (start: number, end: number) => ({ start: at(start), end: at(end) });
+
+const run = (changes: Partial<PomodoroRun> = {}) => ({
+  startedAt: at(0),
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 2,
+  ...changes
+}) as PomodoroRun;
+
+describe('workBlocks', () => {
+  it('alternates work with short breaks and a long break after every few blocks', () => {
+    // 0-25 work, 5 min break, 30-55 work, 15 min long break, 70-95 work, 5 min break, 100-125 work
+    expect(workBlocks(run(), at(125))).toEqual([span(0, 25), span(30, 55), span(70, 95), span(100, 125)]);
+  });
+
+  it('only returns work blocks that were finished by then', () => {
+    expect(workBlocks(run(), at(54))).toEqual([span(0, 25)]);
+  });
+
+  it('ends with the run when the timer was stopped', () => {
+    expect(workBlocks(run({ stoppedAt: at(40) }), at(200))).toEqual([span(0, 25)]);
+  });
+
+  it('uses the lengths the run was started with', () => {
+    const short = run({ workMinutes: 10, shortBreakMinutes: 2, longBreakEvery: 4 });
+    expect(workBlocks(short, at(34))).toEqual([span(0, 10), span(12, 22), span(24, 34)]);
+  });
+});
+
+describe('completedPomodoros', () => {
+  const session = { pomodoro: { runs: [run({ stoppedAt: at(60) }), run({ startedAt: at(100) })] } } as unknown as IStudySession;
+
+  it('counts the work blocks of every run the user was there for', () => {
+    // 2 blocks before the first run was stopped, 3 in the second by 200
+    expect(completedPomodoros(session, [span(0, 200)], at(200))).toBe(5);
+  });
+
+  it('requires being present for most of a block', () => {
+    // 23 of 25 minutes is enough, 22 is not
+    expect(completedPomodoros(session, [span(2, 25)], at(200))).toBe(1);
+    expect(completedPomodoros(session, [span(3, 25)], at(200))).toBe(0);
+  });
+
+  it('adds up presence from several spans within a block', () => {
+    expect(completedPomodoros(session, [span(0, 12), span(13, 25)], at(200))).toBe(1);
+  });
+
+  it('is zero for sessions without a timer', () => {
+    expect(completedPomodoros({} as IStudySession, [span(0, 200)], at(200))).toBe(0);
+  });
+});
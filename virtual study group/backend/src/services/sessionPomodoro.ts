@@ -0,0 +1,175 @@
+import { Types } from 'mongoose';
+import StudySession, { IStudySession } from '../models/StudySession';
+import { sessionEvents } from '../events/sessionEvents';
+import { TimeSpan } from './attendance';
+
+// The timer of `pomodoro` sessions. A run of the timer is fully described by
+// when it started and the lengths it runs with: work block, break, work
+// block, ..., with a long break after every `longBreakEvery` work blocks.
+// Clients work out the current phase from the run themselves, so people who
+// join mid-cycle are in sync straight away, and the server only pushes
+// `pomodoro:updated` when the host starts or stops the timer or changes it.
+
+export type PomodoroRun = NonNullable<IStudySession['pomodoro']>['runs'][number];
+export type PomodoroLengths = Pick<PomodoroRun, 'workMinutes' | 'shortBreakMinutes' | 'longBreakMinutes' | 'longBreakEvery'>;
+export type PomodoroSettings = PomodoroLengths & { muteDuringWork: boolean };
+export type PomodoroPhase = 'work' | 'short-break' | 'long-break';
+
+export const DEFAULT_POMODORO: PomodoroSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4,
+  muteDuringWork: false
+};
+
+// Share of a work block a participant must be in the room for it to count
+// towards their study stats
+export const MIN_POMODORO_PRESENCE = 0.9;
+
+const MINUTE_MS = 60 * 1000;
+
+// The session's settings, with the defaults for anything the host didn't set
+export const pomodoroSettings = (session: IStudySession): PomodoroSettings => ({
+  workMinutes: session.pomodoro?.workMinutes ?? DEFAULT_POMODORO.workMinutes,
+  shortBreakMinutes: session.pomodoro?.shortBreakMinutes ?? DEFAULT_POMODORO.shortBreakMinutes,
+  longBreakMinutes: session.pomodoro?.longBreakMinutes ?? DEFAULT_POMODORO.longBreakMinutes,
+  longBreakEvery: session.pomodoro?.longBreakEvery ?? DEFAULT_POMODORO.longBreakEvery,
+  muteDuringWork: session.pomodoro?.muteDuringWork ?? DEFAULT_POMODORO.muteDuringWork
+});
+
+export const currentRun = (session: IStudySession) =>
+  (session.pomodoro?.runs || []).find(run => !run.stoppedAt);
+
+// The work blocks of a run that ended by `until` (or the run's stop), in order
+export const workBlocks = (run: PomodoroRun, until: Date): TimeSpan[] => {
+  const end = Math.min(until.getTime(), run.stoppedAt ? run.stoppedAt.getTime() : Infinity);
+  const blocks: TimeSpan[] = [];
+
+  for (let start = run.startedAt.getTime(), cycle = 1; start + run.workMinutes * MINUTE_MS <= end; cycle++) {
+    const workEnd = start + run.workMinutes * MINUTE_MS;
+    blocks.push({ start: new Date(start), end: new Date(workEnd) });
+    start = workEnd + (cycle % run.longBreakEvery === 0 ? run.longBreakMinutes : run.shortBreakMinutes) * MINUTE_MS;
+  }
+
+  return blocks;
+};
+
+// The timer as sent to the session room; `run` is null while it is stopped.
+// `serverTime` lets clients correct for their clock being off.
+export const pomodoroState = (session: IStudySession, now: Date = new Date()) => {
+  const run = currentRun(session);
+
+  return {
+    sessionId: session._id,
+    settings: pomodoroSettings(session),
+    run: run
+      ? {
+        startedAt: run.startedAt,
+        workMinutes: run.workMinutes,
+        shortBreakMinutes: run.shortBreakMinutes,
+        longBreakMinutes: run.longBreakMinutes,
+        longBreakEvery: run.longBreakEvery
+      }
+      : null,
+    serverTime: now
+  };
+};
+
+const checkPomodoroSession = (session: IStudySession) =>
+  session.type === 'pomodoro' ? null : 'Only pomodoro sessions have a timer';
+
+// Why the timer can't be started, or null if it can
+export const checkPomodoroStart = (session: IStudySession) => {
+  const denied = checkPomodoroSession(session);
+  if (denied) {
+    return denied;
+  }
+  if (session.status !== 'live') {
+    return 'The timer can only be started while the session is live';
+  }
+  return currentRun(session) ? 'The timer is already running' : null;
+};
+
+// Why the settings can't be changed to `changes`, or null if they can
+export const checkPomodoroSettings = (session: IStudySession, changes: Partial<PomodoroSettings>) => {
+  const denied = checkPomodoroSession(session);
+  if (denied) {
+    return denied;
+  }
+  if (session.status === 'completed' || session.status === 'cancelled') {
+    return `The timer of a ${session.status} session can no longer be changed`;
+  }
+
+  // A running timer keeps its lengths; muting can change at any time
+  const { muteDuringWork: _muteDuringWork, ...lengths } = changes;
+  return currentRun(session) && Object.keys(lengths).length > 0
+    ? 'Stop the timer to change its lengths'
+    : null;
+};
+
+export const updatePomodoroSettings = async (session: IStudySession, changes: Partial<PomodoroSettings>) => {
+  session.pomodoro = { ...pomodoroSettings(session), ...changes, runs: session.pomodoro?.runs || [] };
+  await session.save();
+  sessionEvents.emit('pomodoro:updated', { session });
+  return session;
+};
+
+// Start a run with the session's current lengths. Returns null if the session
+// ended or the timer was started in the meantime.
+export const startPomodoro = async (session: IStudySession, at: Date = new Date()) => {
+  const { muteDuringWork: _muteDuringWork, ...lengths } = pomodoroSettings(session);
+  const updated = await StudySession.findOneAndUpdate(
+    { _id: session._id, status: 'live', 'pomodoro.runs': { $not: { $elemMatch: { stoppedAt: { $exists: false } } } } },
+    { $push: { 'pomodoro.runs': { _id: new Types.ObjectId(), startedAt: at, ...lengths } } },
+    { new: true }
+  );
+  if (updated) {
+    sessionEvents.emit('pomodoro:updated', { session: updated });
+  }
+  return updated;
+};
+
+// Stop the running timer. Returns null if it wasn't running.
+export const stopPomodoro = async (session: IStudySession, at: Date = new Date()) => {
+  const updated = await StudySession.findOneAndUpdate(
+    { _id: session._id, 'pomodoro.runs': { $elemMatch: { stoppedAt: { $exists: false } } } },
+    { $set: { 'pomodoro.runs.$.stoppedAt': at } },
+    { new: true }
+  );
+  if (updated) {
+    sessionEvents.emit('pomodoro:updated', { session: updated });
+  }
+  return updated;
+};
+
+// How many work blocks of a session, ended by `until`, a user was present
+// for; `presence` is their merged attendance
+export const completedPomodoros = (session: IStudySession, presence: TimeSpan[], until: Date) =>
+  (session.pomodoro?.runs || [])
+    .reduce<TimeSpan[]>((blocks, run) => blocks.concat(workBlocks(run, until)), [])
+    .filter(block => {
+      const present = presence.reduce((total, span) => {
+        const overlap = Math.min(span.end.getTime(), block.end.getTime()) -
+          Math.max(span.start.getTime(), block.start.getTime());
+        return total + Math.max(0, overlap);
+      }, 0);
+      return present >= MIN_POMODORO_PRESENCE * (block.end.getTime() - block.start.getTime());
+    })
+    .length;
+
+// Stop the timer of a session that ends
+export const registerSessionPomodoro = () => {
+  const stopTimer = async ({ session, at }: { session: IStudySession; at: Date }) => {
+    try {
+      if (currentRun(session)) {
+        await stopPomodoro(session, at);
+      }
+    } catch (error) {
+      console.error('Error stopping pomodoro timer:', error);
+    }
+  };
+
+  sessionEvents.on('session:completed', stopTimer);
+  sessionEvents.on('session:cancelled', stopTimer);
+};
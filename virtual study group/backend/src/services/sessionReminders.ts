@@ -0,0 +1,231 @@
+import StudySession, { IStudySession } from '../models/StudySession';
+import ReminderJob, { IReminderJob } from '../models/ReminderJob';
+import User, { IUser } from '../models/User';
+import { IGroup } from '../models/Group';
+import { sessionEvents } from '../events/sessionEvents';
+import { emitToUser } from '../socket';
+import { queueEmail } from './mailOutbox';
+import { formatEmailDate } from './mailTemplates';
+import { sessionLink } from './calendarFeed';
+import { notifyUser } from './notifications';
+import { populated } from '../utils/populated';
+
+// Reminders before a session starts. Every user gets one job per lead time
+// in their notification settings. The scheduler plans the jobs of upcoming
+// sessions that changed since they were last planned (new sessions, moves,
+// joins and leaves all bump updatedAt), drops them when a session starts or
+// is cancelled, and delivers due reminders in-app over Socket.IO and by email.
+
+export const REMINDER_SCHEDULER_INTERVAL_MS = 60 * 1000;
+export const DEFAULT_REMINDER_LEAD_MINUTES = [24 * 60, 60, 10];
+export const MAX_REMINDER_LEAD_MINUTES = 7 * 24 * 60;
+export const MAX_REMINDERS = 5;
+// Queueing the email is retried this often before a job is given up
+export const MAX_REMINDER_ATTEMPTS = 3;
+
+const MINUTE_MS = 60 * 1000;
+const LOCK_MS = 5 * MINUTE_MS;
+// Wait before retrying to queue the email, times the number of attempts so far
+const RETRY_DELAY_MS = 5 * MINUTE_MS;
+
+interface NotificationSettings {
+  email?: boolean;
+  sessionReminders?: boolean;
+  reminderLeadMinutes?: number[];
+}
+
+export const reminderLeadMinutes = (settings?: NotificationSettings) =>
+  settings?.reminderLeadMinutes?.length ? settings.reminderLeadMinutes : DEFAULT_REMINDER_LEAD_MINUTES;
+
+// Hosts and everyone who joined
+const recipients = (session: IStudySession) =>
+  Array.from(new Set([session.host, ...(session.coHosts || []), ...session.participants.map(participant => participant.user)]
+    .map(user => user.toString())));
+
+// "1 day", "2 hours", "10 minutes"
+export const formatLeadTime = (minutes: number) => {
+  const [amount, unit] = minutes % (24 * 60) === 0
+    ? [minutes / (24 * 60), 'day']
+    : minutes % 60 === 0 ? [minutes / 60, 'hour'] : [minutes, 'minute'];
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+};
+
+// Replace the pending reminders of a session with the ones its host and
+// participants want now. Sessions that are no longer scheduled get none.
+export const scheduleSessionReminders = async (session: IStudySession, now: Date = new Date()) => {
+  const wanted: Array<{ user: string; leadMinutes: number; runAt: Date }> = [];
+
+  if (session.status === 'scheduled') {
+    const users = await User.find({ _id: { $in: recipients(session) } }).select('notificationSettings');
+    users
+      .filter((user: IUser) => user.notificationSettings?.sessionReminders !== false)
+      .forEach((user: IUser) => {
+        new Set(reminderLeadMinutes(user.notificationSettings)).forEach(leadMinutes => {
+          const runAt = new Date(session.scheduledStart.getTime() - leadMinutes * MINUTE_MS);
+          if (runAt > now) {
+            wanted.push({ user: user._id.toString(), leadMinutes, runAt });
+          }
+        });
+      });
+  }
+
+  await ReminderJob.deleteMany({
+    session: session._id,
+    status: 'pending',
+    ...(wanted.length > 0 && { $nor: wanted.map(({ user, leadMinutes }) => ({ user, leadMinutes })) })
+  });
+
+  if (wanted.length > 0) {
+    await ReminderJob.bulkWrite(wanted.map(({ user, leadMinutes, runAt }) => ({
+      updateOne: {
+        filter: { session: session._id, user, leadMinutes, status: 'pending' },
+        update: { $set: { runAt }, $setOnInsert: { attempts: 0 } },
+        upsert: true
+      }
+    })));
+  }
+
+  // Doesn't touch updatedAt, which is what tells the scheduler to replan
+  await StudySession.updateOne({ _id: session._id }, { $set: { remindersPlannedAt: now } }, { timestamps: false });
+};
+
+export const dropSessionReminders = (sessionId: IStudySession['_id']) =>
+  ReminderJob.deleteMany({ session: sessionId, status: 'pending' });
+
+// Replan the upcoming sessions of a user, e.g. after they changed their lead times
+export const scheduleUserReminders = async (userId: string, now: Date = new Date()) => {
+  const sessions = await StudySession.find({
+    status: 'scheduled',
+    scheduledStart: { $gt: now },
+    $or: [{ host: userId }, { coHosts: userId }, { 'participants.user': userId }]
+  });
+
+  for (const session of sessions) {
+    await scheduleSessionReminders(session, now);
+  }
+};
+
+// The session comes with its group's name populated
+const reminderEmail = (user: IUser, session: IStudySession, leadMinutes: number) => ({
+  firstName: user.firstName,
+  title: session.title,
+  groupName: populated<IGroup>(session.group, 'name')?.name,
+  start: formatEmailDate(session.scheduledStart, user.studyPreferences?.timezone || session.timezone || 'UTC'),
+  leadTime: formatLeadTime(leadMinutes),
+  link: sessionLink(session._id.toString())
+});
+
+const finishJob = (job: IReminderJob, status: IReminderJob['status'], extra: Partial<IReminderJob> = {}) =>
+  ReminderJob.updateOne({ _id: job._id }, { $set: { status, ...extra }, $unset: { lockedUntil: '' } });
+
+// Deliver one claimed job. Reminders for sessions that started, were
+// cancelled or moved since the job was planned are skipped. The email goes
+// to the outbox, which takes care of retrying it; queueing it is retried on
+// the next runs.
+const deliverReminder = async (job: IReminderJob, now: Date) => {
+  const session = await StudySession.findById(job.session).populate('group', 'name');
+  if (!session || session.status !== 'scheduled' || session.scheduledStart <= now) {
+    return finishJob(job, 'skipped');
+  }
+
+  if (session.scheduledStart.getTime() - job.leadMinutes * MINUTE_MS !== job.runAt.getTime()) {
+    await finishJob(job, 'skipped');
+    return scheduleSessionReminders(session, now);
+  }
+
+  const user = await User.findById(job.user).select('email firstName studyPreferences notificationSettings');
+  if (!user || user.notificationSettings?.sessionReminders === false) {
+    return finishJob(job, 'skipped');
+  }
+
+  // Retries are only for queueing the email; the in-app reminder goes out once
+  if (job.attempts === 1) {
+    emitToUser(job.user.toString(), 'session-reminder', {
+      sessionId: session._id,
+      title: session.title,
+      scheduledStart: session.scheduledStart,
+      leadMinutes: job.leadMinutes
+    });
+    await notifyUser(job.user.toString(), {
+      type: 'session-reminder',
+      title: `"${session.title}" starts in ${formatLeadTime(job.leadMinutes)}`,
+      link: `/sessions/${session._id}`
+    });
+  }
+
+  try {
+    await queueEmail(user, 'session-reminder', reminderEmail(user, session, job.leadMinutes));
+    await finishJob(job, 'sent', { sentAt: now });
+  } catch (error) {
+    console.error('Error queueing session reminder email:', error);
+    const lastError = (error as Error).message;
+    if (job.attempts >= MAX_REMINDER_ATTEMPTS) {
+      return finishJob(job, 'failed', { lastError });
+    }
+    // Stays locked until the retry is due
+    await ReminderJob.updateOne({ _id: job._id }, {
+      $set: { lastError, lockedUntil: new Date(now.getTime() + job.attempts * RETRY_DELAY_MS) }
+    });
+  }
+};
+
+// Plan the reminders of upcoming sessions that changed since they were last
+// planned, then deliver every reminder that is due
+export const runReminderScheduler = async (now: Date = new Date()) => {
+  const toPlan = await StudySession.find({
+    status: 'scheduled',
+    scheduledStart: { $gt: now, $lte: new Date(now.getTime() + MAX_REMINDER_LEAD_MINUTES * MINUTE_MS) },
+    $or: [
+      { remindersPlannedAt: { $exists: false } },
+      { $expr: { $lt: ['$remindersPlannedAt', '$updatedAt'] } }
+    ]
+  });
+
+  for (const session of toPlan) {
+    await scheduleSessionReminders(session, now);
+  }
+
+  let delivered = 0;
+  for (;;) {
+    // Claim one job at a time so several servers never send the same reminder
+    const job = await ReminderJob.findOneAndUpdate(
+      {
+        status: 'pending',
+        runAt: { $lte: now },
+        $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lt: now } }]
+      },
+      { $set: { lockedUntil: new Date(now.getTime() + LOCK_MS) }, $inc: { attempts: 1 } },
+      { new: true, sort: { runAt: 1 } }
+    );
+    if (!job) {
+      break;
+    }
+
+    await deliverReminder(job, now);
+    delivered++;
+  }
+
+  return { planned: toPlan.length, delivered };
+};
+
+export const startReminderScheduler = (intervalMs: number = REMINDER_SCHEDULER_INTERVAL_MS) => {
+  const run = () => {
+    runReminderScheduler().catch(error => console.error('Error running reminder scheduler:', error));
+  };
+
+  run();
+  return setInterval(run, intervalMs);
+};
+
+// Started and cancelled sessions need no more reminders; restored ones get theirs back
+export const registerSessionReminders = () => {
+  const drop = ({ session }: { session: IStudySession }) => {
+    dropSessionReminders(session._id).catch(error => console.error('Error dropping session reminders:', error));
+  };
+
+  sessionEvents.on('session:started', drop);
+  sessionEvents.on('session:cancelled', drop);
+  sessionEvents.on('session:restored', ({ session }) => {
+    scheduleSessionReminders(session).catch(error => console.error('Error scheduling session reminders:', error));
+  });
+};
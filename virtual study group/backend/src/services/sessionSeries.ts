@@ -0,0 +1,267 @@
+import { FieldValidationError } from 'express-validator';
+import StudySession, { IStudySession } from '../models/StudySession';
+import SessionSeries, { ISessionSeries } from '../models/SessionSeries';
+import { expandRRule, formatRRule, parseRRule, shiftWeekdays } from '../utils/rrule';
+import { addLocalDays, fromWallClock, toWallClock } from '../utils/timezone';
+import { sessionContent } from './sessionTemplates';
+import { recordSessionChange } from './sessionHistory';
+import { checkSessionUpdate, SessionUpdate } from '../validation/studySession';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const SERIES_SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface OccurrenceChanges {
+  title?: string;
+  description?: string;
+  type?: IStudySession['type'];
+  maxParticipants?: number | null;
+  scheduledStart?: Date;
+  scheduledEnd?: Date;
+}
+
+// Occurrences are generated this far ahead of now
+export const seriesHorizon = (series: ISessionSeries, from: Date = new Date()) =>
+  new Date(from.getTime() + series.horizonWeeks * 7 * DAY_MS);
+
+// Pick the fields that may be changed on an occurrence (and carried over to
+// the following ones) out of a validated update.
+export const pickOccurrenceChanges = (body: SessionUpdate): OccurrenceChanges => {
+  const changes: OccurrenceChanges = {};
+
+  if (body.title !== undefined) changes.title = body.title;
+  if (body.description !== undefined) changes.description = body.description;
+  if (body.type !== undefined) changes.type = body.type;
+  if (body.maxParticipants !== undefined) changes.maxParticipants = body.maxParticipants;
+  if (body.scheduledStart !== undefined) changes.scheduledStart = new Date(body.scheduledStart);
+  if (body.scheduledEnd !== undefined) changes.scheduledEnd = new Date(body.scheduledEnd);
+
+  return changes;
+};
+
+// All-day occurrences end at local midnight, whatever DST does to the day length
+const occurrenceEnd = (series: Pick<ISessionSeries, 'allDay' | 'timezone' | 'duration'>, start: Date) =>
+  series.allDay && series.timezone
+    ? addLocalDays(start, Math.max(1, Math.round((series.duration * MINUTE_MS) / DAY_MS)), series.timezone)
+    : new Date(start.getTime() + series.duration * MINUTE_MS);
+
+// Create a StudySession for every occurrence of the series that falls before
+// the horizon and hasn't been generated yet, and log each as created by `by`
+// (the server when missing). Safe to call repeatedly.
+export const materializeSeries = async (
+  series: ISessionSeries,
+  horizon: Date = seriesHorizon(series),
+  by?: string
+): Promise<IStudySession[]> => {
+  if (series.status !== 'active') {
+    return [];
+  }
+
+  const existing = await StudySession.find({ series: series._id }).select('occurrenceStart');
+  const known = new Set(existing.map(session => session.occurrenceStart?.getTime()));
+
+  const starts = expandRRule(parseRRule(series.rrule), series.dtstart, {
+    before: horizon,
+    exdates: series.exdates,
+    timezone: series.timezone
+  }).filter(start => !known.has(start.getTime()));
+
+  const now = new Date();
+  const created = starts.length > 0
+    ? await StudySession.insertMany(starts.map(start => ({
+        title: series.title,
+        description: series.description,
+        group: series.group,
+        host: series.host,
+        scheduledStart: start,
+        scheduledEnd: occurrenceEnd(series, start),
+        timezone: series.timezone,
+        allDay: series.allDay,
+        autoStart: series.autoStart,
+        autoComplete: series.autoComplete,
+        type: series.type,
+        maxParticipants: series.maxParticipants,
+        participants: [{ user: series.host, joinedAt: now }],
+        status: 'scheduled',
+        series: series._id,
+        occurrenceStart: start,
+        ...sessionContent(series, series.host, now)
+      })))
+    : [];
+
+  for (const occurrence of created) {
+    await recordSessionChange(occurrence as unknown as IStudySession, 'created', { before: null, by, at: now });
+  }
+
+  if (!series.materializedUntil || series.materializedUntil < horizon) {
+    series.materializedUntil = horizon;
+    await series.save();
+  }
+
+  return created as unknown as IStudySession[];
+};
+
+// Apply an edit to an occurrence and every occurrence after it. The original
+// series is cut off just before the occurrence and a new series carries the
+// changed rule forward; if the occurrence is the first one, the series is
+// edited in place. Occurrences edited on their own keep their edits.
+// Each changed occurrence is checked like an edit of its own first; nothing
+// is saved if one of them fails, e.g. a cap below its participant count.
+export const updateFollowingOccurrences = async (
+  series: ISessionSeries,
+  occurrence: IStudySession,
+  changes: OccurrenceChanges
+): Promise<{ errors: FieldValidationError[] } | { series: ISessionSeries }> => {
+  const { timezone } = series;
+  const splitAt = occurrence.occurrenceStart || occurrence.scheduledStart;
+  const originalLength = occurrence.scheduledEnd.getTime() - occurrence.scheduledStart.getTime();
+  const start = changes.scheduledStart || occurrence.scheduledStart;
+  const end = changes.scheduledEnd || new Date(start.getTime() + originalLength);
+  const duration = Math.round((end.getTime() - start.getTime()) / MINUTE_MS);
+
+  // Moves are measured on the series' local calendar so that shifting by
+  // "one day later" stays at the same local time on the far side of DST
+  const wall = (date: Date) => (timezone ? toWallClock(date, timezone) : date);
+  const delta = wall(start).getTime() - wall(occurrence.scheduledStart).getTime();
+  const dayDelta = Math.floor(wall(start).getTime() / DAY_MS) - Math.floor(wall(occurrence.scheduledStart).getTime() / DAY_MS);
+  const shift = (date: Date) => {
+    const moved = new Date(wall(date).getTime() + delta);
+    return timezone ? fromWallClock(moved, timezone) : moved;
+  };
+
+  // Shift in the direction of the move so an occurrence never lands on a slot
+  // that another occurrence of the same series still occupies.
+  const following = await StudySession.find({
+    series: series._id,
+    occurrenceStart: { $gte: splitAt }
+  }).sort({ occurrenceStart: delta > 0 ? -1 : 1 });
+
+  const planned = following.map(session => {
+    const slot = shift(session.occurrenceStart!);
+    const isEdited = session._id.equals(occurrence._id);
+    if (!isEdited && (session.isException || session.status !== 'scheduled')) {
+      return { session, slot, update: null };
+    }
+
+    const update: SessionUpdate = {};
+    if (changes.title !== undefined) update.title = changes.title;
+    if (changes.description !== undefined) update.description = changes.description;
+    if (changes.type !== undefined) update.type = changes.type;
+    if (changes.maxParticipants !== undefined) update.maxParticipants = changes.maxParticipants;
+    if (session.status === 'scheduled') {
+      update.scheduledStart = slot;
+      update.scheduledEnd = occurrenceEnd({ allDay: series.allDay, timezone, duration }, slot);
+    }
+    return { session, slot, update };
+  });
+
+  const errors = planned.flatMap(({ session, update }) => (update ? checkSessionUpdate(session, update) : []));
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const options = parseRRule(series.rrule);
+  const nextOptions = { ...options, byDay: shiftWeekdays(options.byDay, dayDelta) };
+  const earlier = expandRRule(options, series.dtstart, { before: splitAt, timezone });
+
+  let target: ISessionSeries;
+
+  if (earlier.length === 0) {
+    target = series;
+  } else {
+    if (options.count) {
+      nextOptions.count = options.count - earlier.length;
+      options.count = earlier.length;
+    } else {
+      options.until = new Date(splitAt.getTime() - 1000);
+    }
+
+    target = new SessionSeries({
+      title: series.title,
+      description: series.description,
+      group: series.group,
+      host: series.host,
+      type: series.type,
+      maxParticipants: series.maxParticipants,
+      timezone: series.timezone,
+      allDay: series.allDay,
+      autoStart: series.autoStart,
+      autoComplete: series.autoComplete,
+      horizonWeeks: series.horizonWeeks,
+      source: series.source,
+      meeting: series.meeting,
+      exdates: series.exdates.filter(date => date >= splitAt),
+      agenda: series.agenda,
+      resources: series.resources
+    });
+
+    series.rrule = formatRRule(options);
+    series.exdates = series.exdates.filter(date => date < splitAt);
+    series.materializedUntil = splitAt;
+    await series.save();
+  }
+
+  if (changes.title !== undefined) target.title = changes.title;
+  if (changes.description !== undefined) target.description = changes.description;
+  if (changes.type !== undefined) target.type = changes.type;
+  if (changes.maxParticipants !== undefined) target.maxParticipants = changes.maxParticipants ?? undefined;
+  target.rrule = formatRRule(nextOptions);
+  target.dtstart = shift(splitAt);
+  target.duration = duration;
+  target.exdates = target.exdates
+    .filter(date => date >= splitAt)
+    .map(shift);
+  await target.save();
+
+  for (const { session, slot, update } of planned) {
+    session.series = target._id;
+    session.occurrenceStart = slot;
+
+    if (update) {
+      const { maxParticipants, ...rest } = update;
+      session.set(rest);
+      if (maxParticipants !== undefined) {
+        session.maxParticipants = maxParticipants ?? undefined;
+      }
+    }
+
+    await session.save();
+  }
+
+  await materializeSeries(target);
+
+  return { series: target };
+};
+
+// Keep hosts' series going: generate the occurrences that moved inside the
+// horizon since the last run. Series generated from a group's schedule are
+// rolled forward by the group scheduler instead.
+export const runSeriesScheduler = async (now: Date = new Date()) => {
+  const active = await SessionSeries.find({ source: 'manual', status: 'active' });
+  let created = 0;
+
+  for (const series of active) {
+    const horizon = seriesHorizon(series, now);
+    if (series.materializedUntil && series.materializedUntil >= horizon) {
+      continue;
+    }
+
+    try {
+      created += (await materializeSeries(series, horizon)).length;
+    } catch (error) {
+      console.error(`Error generating occurrences of series ${series._id}:`, error);
+    }
+  }
+
+  return { created };
+};
+
+export const startSeriesScheduler = (intervalMs: number = SERIES_SCHEDULER_INTERVAL_MS) => {
+  const run = () => {
+    runSeriesScheduler().catch(error => console.error('Error running series scheduler:', error));
+  };
+
+  run();
+  return setInterval(run, intervalMs);
+};
@@ -0,0 +1,79 @@
+import Group from '../models/Group';
+import User, { IUser } from '../models/User';
+import { sessionEvents } from '../events/sessionEvents';
+import { sessionAttendance } from './attendance';
+import { completedPomodoros } from './sessionPomodoro';
+import { notifyUser } from './notifications';
+
+const MINUTE_MS = 60 * 1000;
+
+// The achievements earned from session stats, with the same ids the
+// /api/users/study-time endpoint awards
+const ACHIEVEMENTS: Array<{ id: string; title: string; earned: (stats: IUser['studyStats']) => boolean }> = [
+  { id: 'first-hour', title: 'First hour of studying', earned: stats => stats.totalStudyTime >= 60 },
+  { id: 'session-master', title: 'Session master: 10 sessions completed', earned: stats => stats.sessionsCompleted >= 10 }
+];
+
+// Award the achievements a user newly reached and tell them about it
+const awardAchievements = async (user: IUser | null) => {
+  const stats = user?.studyStats;
+  if (!stats) {
+    return;
+  }
+
+  for (const achievement of ACHIEVEMENTS) {
+    if ((stats.achievements || []).includes(achievement.id) || !achievement.earned(stats)) {
+      continue;
+    }
+
+    // Only the update that adds it notifies, should two sessions end at once
+    const { modifiedCount } = await User.updateOne(
+      { _id: user._id, 'studyStats.achievements': { $ne: achievement.id } },
+      { $push: { 'studyStats.achievements': achievement.id } }
+    );
+    if (modifiedCount > 0) {
+      await notifyUser(user._id.toString(), {
+        type: 'achievement',
+        title: `Achievement earned: ${achievement.title}`,
+        link: '/profile'
+      });
+    }
+  }
+};
+
+// Keep group and user study statistics up to date as sessions start and finish
+export const registerSessionStats = () => {
+  sessionEvents.on('session:started', async ({ session }) => {
+    try {
+      await Group.findByIdAndUpdate(session.group, { $inc: { 'stats.totalSessions': 1 } });
+    } catch (error) {
+      console.error('Error updating stats of started session:', error);
+    }
+  });
+
+  sessionEvents.on('session:completed', async ({ session, at }) => {
+    try {
+      const start = session.actualStart || session.scheduledStart;
+      const duration = Math.round(((session.actualEnd || at).getTime() - start.getTime()) / MINUTE_MS);
+
+      await Group.findByIdAndUpdate(session.group, { $inc: { 'stats.totalStudyTime': duration } });
+
+      // Members are credited with the time they were actually in the room,
+      // and in pomodoro sessions with the work blocks they stayed for
+      for (const { user, minutes, segments } of await sessionAttendance(session, at)) {
+        if (minutes > 0) {
+          const updated = await User.findByIdAndUpdate(user, {
+            $inc: {
+              'studyStats.totalStudyTime': minutes,
+              'studyStats.sessionsCompleted': 1,
+              'studyStats.pomodorosCompleted': completedPomodoros(session, segments, session.actualEnd || at)
+            }
+          }, { new: true });
+          await awardAchievements(updated);
+        }
+      }
+    } catch (error) {
+      console.error('Error updating stats of completed session:', error);
+    }
+  });
+};
@@ -0,0 +1,107 @@
+import mongoose, { Types } from 'mongoose';
+import SessionTemplate, { ISessionTemplate } from '../models/SessionTemplate';
+import { IStudySession } from '../models/StudySession';
+import Group from '../models/Group';
+import { isGroupManager, isGroupMember } from './groupRoles';
+
+// Session templates. Group templates are used by the group's members and
+// changed by whoever created them and the group's managers; personal
+// templates only by their creator.
+
+interface TemplateGroup {
+  _id: Types.ObjectId;
+  name?: string;
+  owner: { toString(): string };
+  moderators?: Array<{ toString(): string }>;
+  members: Array<{ user: { toString(): string }; role?: string }>;
+}
+
+// What a template gives the sessions created from it, and a series keeps for its occurrences
+export type TemplateContent = Pick<ISessionTemplate, 'agenda' | 'resources'>;
+
+const MINUTE_MS = 60 * 1000;
+
+// Populated or not
+const idOf = (ref: Types.ObjectId | { _id: Types.ObjectId }): string => (ref._id || ref).toString();
+
+export const canUseTemplate = (template: ISessionTemplate, group: TemplateGroup | null, userId: string) =>
+  template.group
+    ? Boolean(group && (isGroupMember(group, userId) || isGroupManager(group, userId)))
+    : idOf(template.createdBy) === userId;
+
+export const canEditTemplate = (template: ISessionTemplate, group: TemplateGroup | null, userId: string) =>
+  idOf(template.createdBy) === userId || Boolean(template.group && group && isGroupManager(group, userId));
+
+// A template as listed to users: its group by name, and whether they may change it
+export const presentTemplate = (template: ISessionTemplate, group: TemplateGroup | null, userId: string) => ({
+  ...template.toJSON(),
+  group: group ? { _id: group._id, name: group.name } : undefined,
+  canEdit: canEditTemplate(template, group, userId)
+});
+
+// Load a template with its group, or null when it doesn't exist or the user
+// can't use it
+export const findUsableTemplate = async (templateId: string, userId: string) => {
+  if (!mongoose.isValidObjectId(templateId)) {
+    return null;
+  }
+
+  const template = await SessionTemplate.findById(templateId);
+  if (!template) {
+    return null;
+  }
+
+  const group = template.group ? await Group.findById(template.group) : null;
+  return canUseTemplate(template, group, userId) ? { template, group } : null;
+};
+
+// The user's personal templates and those of their groups, or of `groupId` only
+export const findUsableTemplates = async (userId: string, groupId?: string) => {
+  const groups: TemplateGroup[] = await Group.find({
+    $or: [{ 'members.user': userId }, { owner: userId }, { moderators: userId }],
+    ...(groupId && { _id: groupId })
+  }).select('name owner moderators members');
+  const groupsById = new Map(groups.map(group => [group._id.toString(), group]));
+
+  const templates = await SessionTemplate.find({
+    $or: [{ group: null, createdBy: userId }, { group: { $in: Array.from(groupsById.keys()) } }]
+  })
+    .populate('createdBy', 'firstName lastName')
+    .sort({ name: 1 });
+
+  return templates.map(template =>
+    presentTemplate(template, template.group ? groupsById.get(template.group.toString()) || null : null, userId));
+};
+
+// The template fields of an existing session. Uploaded files stay with the
+// session; its links become the template's resources.
+export const templateFromSession = (session: IStudySession) => ({
+  title: session.title,
+  description: session.description,
+  type: session.type,
+  duration: Math.round((session.scheduledEnd.getTime() - session.scheduledStart.getTime()) / MINUTE_MS),
+  maxParticipants: session.maxParticipants,
+  agenda: session.agenda.map(({ topic, duration }) => ({ topic, duration })),
+  resources: session.resources
+    .filter(resource => resource.type === 'link')
+    .map(({ title, url }) => ({ title, url }))
+});
+
+// The agenda items and resources of a new session created from `content`,
+// shared by `userId`
+export const sessionContent = (content: TemplateContent, userId: IStudySession['host'], at: Date = new Date()) => ({
+  agenda: content.agenda.map(({ topic, duration }) => ({
+    _id: new Types.ObjectId(),
+    topic,
+    duration,
+    completed: false
+  })),
+  resources: content.resources.map(({ title, url }) => ({
+    _id: new Types.ObjectId(),
+    title,
+    type: 'link' as const,
+    url,
+    uploadedBy: userId,
+    uploadedAt: at
+  }))
+});
@@ -0,0 +1,35 @@
+import fs from 'fs';
+import path from 'path';
+import { StorageDriver } from '../fileStorage';
+
+// Files on the local disk below `root`, with the key as relative path
+export const createLocalDiskStorage = (root: string): StorageDriver => {
+  const base = path.resolve(root);
+
+  const resolve = (key: string) => {
+    const file = path.resolve(base, key);
+    if (!file.startsWith(base + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    async put(key, body) {
+      const file = resolve(key);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, body);
+    },
+
+    async get(key) {
+      const file = resolve(key);
+      // Fail here rather than on the first read of the stream
+      await fs.promises.access(file);
+      return fs.createReadStream(file);
+    },
+
+    async remove(key) {
+      await fs.promises.rm(resolve(key), { force: true });
+    }
+  };
+};
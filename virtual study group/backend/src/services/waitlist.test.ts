@@ -0,0 +1,94 @@
+import StudySession, { IStudySession } from '../models/StudySession';
+import { sessionEvents } from '../events/sessionEvents';
+import { recordSessionChange } from './sessionHistory';
+import { promoteFromWaitlist } from './waitlist';
+
+jest.mock('../models/StudySession', () => ({
+  __esModule: true,
+  default: { findOneAndUpdate: jest.fn(), findById: jest.fn() }
+}));
+
+jest.mock('./sessionHistory', () => ({
+  recordSessionChange: jest.fn(),
+  snapshotSession: jest.fn(() => ({}))
+}));
+
+const SESSION_ID = '64b0000000000000000000a1';
+
+const makeSession = (participants: string[], waitlist: string[], changes: Partial<IStudySession> = {}) => ({
+  _id: SESSION_ID,
+  status: 'scheduled',
+  maxParticipants: 3,
+  participants: participants.map(user => ({ user })),
+  waitlist: waitlist.map(user => ({ user })),
+  ...changes
+}) as unknown as IStudySession;
+
+const findOneAndUpdate = StudySession.findOneAndUpdate as jest.Mock;
+const findById = StudySession.findById as jest.Mock;
+const promotedListener = jest.fn();
+sessionEvents.on('waitlist:promoted', promotedListener);
+
+describe('promoteFromWaitlist', () => {
+  beforeEach(() => {
+    findOneAndUpdate.mockReset();
+    findById.mockReset();
+    promotedListener.mockReset();
+    (recordSessionChange as jest.Mock).mockReset();
+  });
+
+  it('promotes people from the front of the waitlist until the session is full', async () => {
+    const afterFirst = makeSession(['a', 'b'], ['c', 'd', 'e']);
+    const afterSecond = makeSession(['a', 'b', 'c'], ['d', 'e']);
+    findOneAndUpdate.mockResolvedValueOnce(afterFirst).mockResolvedValueOnce(afterSecond);
+
+    const promoted = await promoteFromWaitlist(makeSession(['a'], ['b', 'c', 'd', 'e']));
+
+    expect(promoted).toEqual(['b', 'c']);
+    expect(findOneAndUpdate).toHaveBeenCalledTimes(2);
+    expect(findOneAndUpdate.mock.calls[0][0]).toMatchObject({
+      _id: SESSION_ID,
+      status: 'scheduled',
+      'waitlist.0.user': 'b'
+    });
+    expect(recordSessionChange).toHaveBeenCalledWith(afterSecond, 'promoted', { before: {} });
+    expect(promotedListener.mock.calls.map(([payload]) => payload)).toEqual([
+      { session: afterSecond, userId: 'b' },
+      { session: afterSecond, userId: 'c' }
+    ]);
+  });
+
+  it('looks at the session again when it changed in the meantime', async () => {
+    // Someone joined directly and took the last spot
+    findOneAndUpdate.mockResolvedValueOnce(null);
+    findById.mockResolvedValueOnce(makeSession(['a', 'x', 'y'], ['b']));
+
+    const promoted = await promoteFromWaitlist(makeSession(['a'], ['b']));
+
+    expect(promoted).toEqual([]);
+    expect(findById).toHaveBeenCalledWith(SESSION_ID);
+    expect(recordSessionChange).not.toHaveBeenCalled();
+    expect(promotedListener).not.toHaveBeenCalled();
+  });
+
+  it('fills every spot of sessions without a limit', async () => {
+    const unlimited = { maxParticipants: undefined };
+    findOneAndUpdate
+      .mockResolvedValueOnce(makeSession(['a', 'b'], ['c'], unlimited))
+      .mockResolvedValueOnce(makeSession(['a', 'b', 'c'], [], unlimited));
+
+    expect(await promoteFromWaitlist(makeSession(['a'], ['b', 'c'], unlimited))).toEqual(['b', 'c']);
+  });
+
+  it.each(['live', 'completed', 'cancelled'])('keeps the waitlist of %s sessions', async status => {
+    const session = makeSession(['a'], ['b'], { status } as Partial<IStudySession>);
+
+    expect(await promoteFromWaitlist(session)).toEqual([]);
+    expect(findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('does nothing while the session is full', async () => {
+    expect(await promoteFromWaitlist(makeSession(['a', 'b', 'c'], ['d']))).toEqual([]);
+    expect(findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
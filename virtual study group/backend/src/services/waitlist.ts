@@ -0,0 +1,62 @@
+import StudySession, { IStudySession } from '../models/StudySession';
+import { sessionEvents } from '../events/sessionEvents';
+import { recordSessionChange, snapshotSession } from './sessionHistory';
+
+export const hasOpenSpot = (session: IStudySession) =>
+  !session.maxParticipants || session.participants.length < session.maxParticipants;
+
+// The query counterpart of hasOpenSpot. Joins and promotions only go through
+// while it holds, so people joining at the same time can't overfill a session.
+const OPEN_SPOT = {
+  $or: [
+    { $not: [{ $ifNull: ['$maxParticipants', 0] }] },
+    { $lt: [{ $size: { $ifNull: ['$participants', []] } }, '$maxParticipants'] }
+  ]
+};
+
+// 1-based position of a user on the waitlist, or 0 if they're not on it
+export const waitlistPosition = (session: IStudySession, userId: string) =>
+  session.waitlist.findIndex(entry => entry.user.toString() === userId.toString()) + 1;
+
+// Add a user to a scheduled session with a free spot. Returns null if the
+// session filled up, started or got them as a participant in the meantime.
+export const addParticipant = (session: IStudySession, userId: string, at: Date = new Date()) =>
+  StudySession.findOneAndUpdate(
+    { _id: session._id, status: 'scheduled', 'participants.user': { $ne: userId }, $expr: OPEN_SPOT },
+    { $push: { participants: { user: userId, joinedAt: at } } },
+    { new: true }
+  );
+
+// Move people from the front of the waitlist into free spots of a scheduled
+// session, one at a time, and announce each promotion. Sessions that started
+// or ended keep their waitlist as it is. Returns the promoted user ids.
+export const promoteFromWaitlist = async (session: IStudySession): Promise<string[]> => {
+  const promoted: string[] = [];
+  const before = snapshotSession(session);
+  let current: IStudySession | null = session;
+
+  while (current && current.status === 'scheduled' && current.waitlist.length > 0 && hasOpenSpot(current)) {
+    const next: IStudySession['waitlist'][number] = current.waitlist[0];
+    const updated: IStudySession | null = await StudySession.findOneAndUpdate(
+      { _id: session._id, status: 'scheduled', 'waitlist.0.user': next.user, $expr: OPEN_SPOT },
+      { $pop: { waitlist: -1 }, $push: { participants: { user: next.user, joinedAt: new Date() } } },
+      { new: true }
+    );
+
+    if (updated) {
+      promoted.push(next.user.toString());
+      current = updated;
+    } else {
+      // Someone else changed the session; look again
+      current = await StudySession.findById(session._id);
+    }
+  }
+
+  if (current && promoted.length > 0) {
+    await recordSessionChange(current, 'promoted', { before });
+    const promotedIn = current;
+    promoted.forEach(userId => sessionEvents.emit('waitlist:promoted', { session: promotedIn, userId }));
+  }
+
+  return promoted;
+};
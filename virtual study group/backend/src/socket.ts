@@ -0,0 +1,280 @@
+import { Server as HttpServer } from 'http';
+import { Server, Socket } from 'socket.io';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { closeConnection, enterSession, leaveSession, presentUsers } from './services/attendance';
+import { unreadCount } from './services/notifications';
+import { notifyMentions } from './services/groupNotifications';
+import { findVisibleSession } from './services/sessionAccess';
+import { assignedRoom } from './services/sessionBreakouts';
+import { IStudySession } from './models/StudySession';
+import Group from './models/Group';
+import { isGroupManager, isGroupMember } from './services/groupRoles';
+
+let io: Server | null = null;
+
+// Sockets authenticate with the same JWT as the API, sent as `auth.token`
+// in the handshake. The user id of a socket comes from the verified token
+// only; session rooms, guest and breakout scoping and attendance rely on it.
+//
+// Every user joins a personal room (via `join-user`) so events can be
+// pushed to all of their open tabs. Joining also sends the number of unread
+// notifications, so the badge is right from the start.
+export const userRoom = (userId: string) => `user:${userId}`;
+
+// People in a session (SessionDetail) join its room; entering and leaving
+// is recorded as attendance and everyone in the room sees who is present
+export const sessionRoom = (sessionId: string) => `session:${sessionId}`;
+
+// While a round of breakout rooms runs, the people in a room also join its
+// Socket.IO room. Session chat and whiteboard events stay within the room
+// they were sent from; the main room is everyone not in a breakout room.
+const breakoutPrefix = (sessionId: string) => `${sessionRoom(sessionId)}:breakout:`;
+export const breakoutRoom = (sessionId: string, roomId: string) => `${breakoutPrefix(sessionId)}${roomId}`;
+
+const breakoutRoomsOf = (sessionId: string) =>
+  Array.from(io?.of('/').adapter.rooms.keys() || []).filter(room => room.startsWith(breakoutPrefix(sessionId)));
+
+// Where a chat message or drawing from `socket` goes: its breakout room, or
+// the main room without the breakout rooms. Null if the socket isn't in the session.
+const sessionScope = (socket: Socket, sessionId: string) => {
+  if (!io || !socket.rooms.has(sessionRoom(sessionId))) {
+    return null;
+  }
+
+  const room = Array.from(socket.rooms).find(name => name.startsWith(breakoutPrefix(sessionId)));
+  return {
+    roomId: room ? room.slice(breakoutPrefix(sessionId).length) : null,
+    target: room ? io.to(room) : io.to(sessionRoom(sessionId)).except(breakoutRoomsOf(sessionId))
+  };
+};
+
+// Group rooms are named by the group id. Anything else, such as a `user:` or
+// `session:` room, can't be joined or sent to through the group events.
+const isGroupRoom = (groupId: unknown): groupId is string =>
+  typeof groupId === 'string' && mongoose.isValidObjectId(groupId) && !/^(user|session):/.test(groupId);
+
+const canJoinGroup = async (groupId: unknown, userId: string) => {
+  if (!isGroupRoom(groupId)) {
+    return false;
+  }
+
+  const group = await Group.findById(groupId);
+  return !!group && (isGroupMember(group, userId) || isGroupManager(group, userId));
+};
+
+// Only sockets that joined a group room, which checks membership, send to it
+const inGroupRoom = (socket: Socket, groupId: unknown): groupId is string =>
+  isGroupRoom(groupId) && socket.rooms.has(groupId);
+
+const broadcastPresence = async (sessionId: string) => {
+  io?.to(sessionRoom(sessionId)).emit('session-presence', { sessionId, present: await presentUsers(sessionId) });
+};
+
+export const initSocket = (server: HttpServer): Server => {
+  io = new Server(server, {
+    cors: {
+      origin: process.env.CLIENT_URL || 'http://localhost:3000',
+      methods: ['GET', 'POST']
+    }
+  });
+
+  // Without a valid token (or a configured secret) the connection is refused
+  io.use((socket, next) => {
+    try {
+      const token = socket.handshake.auth?.token;
+      const payload = typeof token === 'string' && process.env.JWT_SECRET
+        ? jwt.verify(token, process.env.JWT_SECRET)
+        : null;
+      const userId = payload && typeof payload === 'object' ? payload.userId : null;
+      if (!userId || !mongoose.isValidObjectId(userId)) {
+        return next(new Error('Authentication required'));
+      }
+
+      socket.data.userId = userId.toString();
+      next();
+    } catch (error) {
+      next(new Error('Authentication required'));
+    }
+  });
+
+  io.on('connection', (socket) => {
+    // The user id the client sends along, if any, is ignored
+    socket.on('join-user', async () => {
+      const userId: string = socket.data.userId;
+      socket.join(userRoom(userId));
+
+      try {
+        socket.emit('notifications-unread', { count: await unreadCount(userId) });
+      } catch (error) {
+        console.error('Error counting unread notifications:', error);
+      }
+    });
+
+    socket.on('join-group', async (groupId: string) => {
+      try {
+        if (!(await canJoinGroup(groupId, socket.data.userId))) {
+          return;
+        }
+
+        socket.join(groupId);
+        socket.to(groupId).emit('user-joined', { userId: socket.data.userId });
+      } catch (error) {
+        console.error('Error joining group room:', error);
+      }
+    });
+
+    socket.on('leave-group', (groupId: string) => {
+      if (!inGroupRoom(socket, groupId)) {
+        return;
+      }
+
+      socket.leave(groupId);
+      socket.to(groupId).emit('user-left', { userId: socket.data.userId });
+    });
+
+    socket.on('join-session', async (sessionId: string) => {
+      try {
+        if (!socket.data.userId) {
+          return;
+        }
+
+        const visible = await findVisibleSession(sessionId, socket.data.userId);
+        if (!visible || visible.session.status === 'completed' || visible.session.status === 'cancelled') {
+          return;
+        }
+
+        const { session } = visible;
+        const room = assignedRoom(session, socket.data.userId);
+
+        socket.join(sessionRoom(sessionId));
+        if (room) {
+          socket.join(breakoutRoom(sessionId, room._id.toString()));
+        }
+        await enterSession(session, socket.data.userId, socket.id, { breakoutRoom: room?._id });
+        await broadcastPresence(sessionId);
+      } catch (error) {
+        console.error('Error joining session room:', error);
+      }
+    });
+
+    socket.on('leave-session', async (sessionId: string) => {
+      try {
+        if (!socket.data.userId || !mongoose.isValidObjectId(sessionId)) {
+          return;
+        }
+
+        socket.leave(sessionRoom(sessionId));
+        breakoutRoomsOf(sessionId).forEach(room => socket.leave(room));
+        await leaveSession(sessionId, socket.data.userId, socket.id);
+        await broadcastPresence(sessionId);
+      } catch (error) {
+        console.error('Error leaving session room:', error);
+      }
+    });
+
+    socket.on('disconnect', async () => {
+      try {
+        const sessionIds = await closeConnection(socket.id);
+        await Promise.all(sessionIds.map(broadcastPresence));
+      } catch (error) {
+        console.error('Error closing attendance of disconnected socket:', error);
+      }
+    });
+
+    // Chat of the session room, or of the breakout room the sender is in
+    socket.on('session-message', (data: { sessionId: string; sender: string; content: string }) => {
+      const scope = sessionScope(socket, data.sessionId);
+      scope?.target.emit('session-message', {
+        ...data,
+        userId: socket.data.userId,
+        roomId: scope.roomId,
+        sentAt: new Date()
+      });
+    });
+
+    socket.on('session-whiteboard-draw', (data: { sessionId: string }) => {
+      const scope = sessionScope(socket, data.sessionId);
+      scope?.target.except(socket.id).emit('session-whiteboard-update', { ...data, roomId: scope.roomId });
+    });
+
+    // Members @-mentioned in the message also get a notification
+    socket.on('send-message', async (data) => {
+      if (!inGroupRoom(socket, data?.groupId)) {
+        return;
+      }
+
+      io?.to(data.groupId).emit('new-message', data);
+      try {
+        const group = typeof data.content === 'string' ? await Group.findById(data.groupId) : null;
+        if (group) {
+          await notifyMentions(group, socket.data.userId, data.content);
+        }
+      } catch (error) {
+        console.error('Error notifying mentioned members:', error);
+      }
+    });
+
+    socket.on('whiteboard-draw', (data) => {
+      if (inGroupRoom(socket, data?.groupId)) {
+        socket.to(data.groupId).emit('whiteboard-update', data);
+      }
+    });
+
+    socket.on('screen-share', (data) => {
+      if (inGroupRoom(socket, data?.groupId)) {
+        socket.to(data.groupId).emit('screen-share-update', data);
+      }
+    });
+  });
+
+  return io;
+};
+
+// Push an event to everyone in the room of a session
+export const emitToSession = (sessionId: string, event: string, payload: unknown) => {
+  io?.to(sessionRoom(sessionId)).emit(event, payload);
+};
+
+// Move the sockets in the room of a session into the breakout rooms of its
+// open round, or all back to the main room when no round is open
+export const syncBreakoutRooms = async (session: IStudySession) => {
+  if (!io) {
+    return;
+  }
+
+  const sessionId = session._id.toString();
+  const sockets = await io.in(sessionRoom(sessionId)).fetchSockets();
+  sockets.forEach(socket => {
+    const room = assignedRoom(session, socket.data.userId);
+    Array.from(socket.rooms)
+      .filter(name => name.startsWith(breakoutPrefix(sessionId)))
+      .forEach(name => socket.leave(name));
+    if (room) {
+      socket.join(breakoutRoom(sessionId, room._id.toString()));
+    }
+  });
+};
+
+// Push an event to one user; a no-op until the socket server is running
+export const emitToUser = (userId: string, event: string, payload: unknown) => {
+  io?.to(userRoom(userId)).emit(event, payload);
+};
+
+// Take a user who lost access out of the room of a session, in all their tabs
+export const removeFromSession = async (sessionId: string, userId: string) => {
+  if (!io) {
+    return;
+  }
+
+  const sockets = await io.in(userRoom(userId)).fetchSockets();
+  const inSession = sockets.filter(socket => socket.rooms.has(sessionRoom(sessionId)));
+  for (const socket of inSession) {
+    socket.leave(sessionRoom(sessionId));
+    breakoutRoomsOf(sessionId).forEach(room => socket.leave(room));
+    await leaveSession(sessionId, userId, socket.id);
+  }
+  if (inSession.length > 0) {
+    await broadcastPresence(sessionId);
+  }
+};
@@ -0,0 +1,23 @@
+// Writing CSV (RFC 4180) documents for report exports
+
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Quote a value if it contains a separator, a quote or a line break
+export const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: CsvValue[][]): string =>
+  [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+
+// A file name safe for Content-Disposition, e.g. "Linear Algebra #3" -> "linear-algebra-3"
+export const csvFileName = (...parts: string[]) =>
+  parts
+    .map(part => part.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''))
+    .filter(Boolean)
+    .join('-') + '.csv';
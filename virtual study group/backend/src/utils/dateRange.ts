@@ -0,0 +1,26 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+// The [from, to) range of a report request. `to` defaults to now and `from`
+// to `defaultDays` before it. Returns an error message if the range is invalid.
+export const parseDateRange = (
+  query: { from?: unknown; to?: unknown },
+  defaultDays: number
+): DateRange | { error: string } => {
+  const to = query.to ? new Date(String(query.to)) : new Date();
+  const from = query.from ? new Date(String(query.from)) : new Date(to.getTime() - defaultDays * DAY_MS);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+    return { error: 'A valid date range is required' };
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    return { error: `The date range can be at most ${MAX_RANGE_DAYS} days` };
+  }
+
+  return { from, to };
+};
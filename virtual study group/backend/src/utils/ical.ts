@@ -0,0 +1,287 @@
+// Reading and writing iCalendar (RFC 5545) documents: serialization for
+// calendar feeds and parsing of VEVENTs for imports. Only the properties we
+// map onto study sessions are supported.
+
+import { formatICalDate } from './rrule';
+import { fromWallClock, isValidTimezone } from './timezone';
+
+export interface ICalEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  categories?: string[];
+  url?: string;
+  status?: 'CONFIRMED' | 'CANCELLED';
+  lastModified?: Date;
+  created?: Date;
+}
+
+export interface ICalCalendar {
+  name: string;
+  events: ICalEvent[];
+}
+
+const PRODID = '-//Virtual Study Group//Study Sessions//EN';
+// Content lines longer than this many octets must be folded
+const MAX_LINE_OCTETS = 75;
+
+export const escapeICalText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Fold a content line into chunks of at most 75 octets without splitting a
+// multi-byte character; continuation lines start with a single space.
+export const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+
+    current += char;
+    octets += size;
+  }
+
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const eventLines = (event: ICalEvent, stamp: Date): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatICalDate(event.lastModified || stamp)}`,
+    `DTSTART:${formatICalDate(event.start)}`,
+    `DTEND:${formatICalDate(event.end)}`,
+    `SUMMARY:${escapeICalText(event.summary)}`
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+  }
+  if (event.categories && event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeICalText).join(',')}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  if (event.status) {
+    lines.push(`STATUS:${event.status}`);
+  }
+  if (event.created) {
+    lines.push(`CREATED:${formatICalDate(event.created)}`);
+  }
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatICalDate(event.lastModified)}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+export const buildCalendar = (calendar: ICalCalendar, stamp: Date = new Date()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(calendar.name)}`,
+    ...calendar.events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export interface ParsedICalEvent {
+  uid?: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  status?: string;
+  start: Date;
+  end?: Date;
+  // DURATION in milliseconds, used when DTEND is missing
+  duration?: number;
+  allDay: boolean;
+  // Timezone DTSTART was given in, if any; recurrences are expanded in it
+  timezone?: string;
+  rrule?: string;
+  exdates: Date[];
+  recurrenceId?: Date;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DURATION_PATTERN = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+export const unescapeICalText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Undo line folding: a line starting with a space or tab continues the previous one
+const unfoldLines = (text: string): string[] =>
+  text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+
+const parseContentLine = (line: string): ContentLine | null => {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+// DATE and DATE-TIME values. Times without a trailing Z are local to TZID,
+// or to `fallbackTimezone` when the calendar uses floating times.
+const parseDateValue = (line: ContentLine, fallbackTimezone?: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(line.value.trim());
+  if (!match) {
+    throw new Error(`Invalid ${line.name} value: ${line.value}`);
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+  const wall = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  const allDay = match[4] === undefined;
+  const tzid = line.params.TZID && isValidTimezone(line.params.TZID) ? line.params.TZID : undefined;
+  const timezone = utc ? undefined : tzid || fallbackTimezone;
+
+  return {
+    date: timezone ? fromWallClock(wall, timezone) : wall,
+    allDay,
+    timezone
+  };
+};
+
+export const parseICalDuration = (value: string): number => {
+  const match = DURATION_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid DURATION value: ${value}`);
+  }
+
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const ms = ((((+weeks * 7 + +days) * 24 + +hours) * 60 + +minutes) * 60 + +seconds) * 1000;
+  return sign === '-' ? -ms : ms;
+};
+
+// Parse every VEVENT of a calendar. Events that cannot be read at all (no
+// DTSTART) are skipped; everything else is left for the caller to validate.
+export const parseICalEvents = (text: string, fallbackTimezone?: string): ParsedICalEvent[] => {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    throw new Error('Not an iCalendar file');
+  }
+
+  const events: ParsedICalEvent[] = [];
+  let current: Partial<ParsedICalEvent> | null = null;
+  let depth = 0;
+
+  for (const raw of unfoldLines(text)) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      current = { exdates: [], allDay: false };
+      depth = 0;
+      continue;
+    }
+
+    if (!current) continue;
+
+    // Nested components such as VALARM carry their own DESCRIPTION etc.
+    if (line.name === 'BEGIN') {
+      depth++;
+      continue;
+    }
+    if (line.name === 'END' && depth > 0) {
+      depth--;
+      continue;
+    }
+    if (depth > 0) continue;
+
+    switch (line.name) {
+      case 'END':
+        if (current.start) {
+          events.push(current as ParsedICalEvent);
+        }
+        current = null;
+        break;
+      case 'UID':
+        current.uid = line.value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeICalText(line.value).trim();
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeICalText(line.value).trim();
+        break;
+      case 'LOCATION':
+        current.location = unescapeICalText(line.value).trim();
+        break;
+      case 'STATUS':
+        current.status = line.value.trim().toUpperCase();
+        break;
+      case 'DTSTART': {
+        const { date, allDay, timezone } = parseDateValue(line, fallbackTimezone);
+        current.start = date;
+        current.allDay = allDay;
+        current.timezone = timezone;
+        break;
+      }
+      case 'DTEND':
+        current.end = parseDateValue(line, fallbackTimezone).date;
+        break;
+      case 'DURATION':
+        current.duration = parseICalDuration(line.value);
+        break;
+      case 'RRULE':
+        current.rrule = line.value.trim();
+        break;
+      case 'EXDATE':
+        current.exdates!.push(...line.value.split(',').map(value =>
+          parseDateValue({ ...line, value }, fallbackTimezone).date
+        ));
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseDateValue(line, fallbackTimezone).date;
+        break;
+    }
+  }
+
+  return events;
+};
@@ -0,0 +1,5 @@
+// The document behind a reference when the query populated it, or null when
+// the reference holds just the id. `field` is one the populated document
+// always has, e.g. the name of a group.
+export const populated = <T>(ref: unknown, field: keyof T): T | null =>
+  ref !== null && typeof ref === 'object' && field in ref ? (ref as T) : null;
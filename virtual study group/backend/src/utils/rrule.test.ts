@@ -0,0 +1,127 @@
+import { expandRRule, formatRRule, parseRRule, shiftWeekdays } from './rrule';
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+describe('parseRRule', () => {
+  it('reads the supported parts', () => {
+    expect(parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=6')).toEqual({
+      freq: 'WEEKLY',
+      interval: 2,
+      byDay: ['MO', 'WE'],
+      count: 6
+    });
+  });
+
+  it('keeps date-only UNTIL values inclusive', () => {
+    expect(parseRRule('FREQ=DAILY;UNTIL=20260310').until).toEqual(new Date('2026-03-10T23:59:59.000Z'));
+  });
+
+  it.each([
+    ['FREQ=MONTHLY', 'Unsupported FREQ: MONTHLY'],
+    ['FREQ=WEEKLY;BYDAY=XX', 'Unsupported BYDAY value: XX'],
+    ['FREQ=WEEKLY;BYMONTH=3', 'Unsupported RRULE part: BYMONTH'],
+    ['INTERVAL=2', 'RRULE must specify FREQ'],
+    ['FREQ=DAILY;COUNT=2;UNTIL=20260310', 'RRULE cannot specify both UNTIL and COUNT']
+  ])('rejects %s', (rule, message) => {
+    expect(() => parseRRule(rule)).toThrow(message);
+  });
+
+  it('round-trips through formatRRule', () => {
+    const rule = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=4';
+    expect(parseRRule(formatRRule(parseRRule(rule)))).toEqual(parseRRule(rule));
+  });
+});
+
+describe('shiftWeekdays', () => {
+  it('wraps around the week in both directions', () => {
+    expect(shiftWeekdays(['SA', 'MO'], 1)).toEqual(['SU', 'TU']);
+    expect(shiftWeekdays(['SU'], -1)).toEqual(['SA']);
+  });
+});
+
+describe('expandRRule', () => {
+  // A Monday
+  const dtstart = new Date('2026-03-02T17:00:00.000Z');
+  const before = new Date('2026-12-31T00:00:00.000Z');
+
+  it('repeats daily at the time of dtstart', () => {
+    expect(iso(expandRRule(parseRRule('FREQ=DAILY;COUNT=3'), dtstart, { before }))).toEqual([
+      '2026-03-02T17:00:00.000Z',
+      '2026-03-03T17:00:00.000Z',
+      '2026-03-04T17:00:00.000Z'
+    ]);
+  });
+
+  it('expands every listed weekday of every other week', () => {
+    const rule = parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=FR,MO;COUNT=4');
+    expect(iso(expandRRule(rule, dtstart, { before }))).toEqual([
+      '2026-03-02T17:00:00.000Z',
+      '2026-03-06T17:00:00.000Z',
+      '2026-03-16T17:00:00.000Z',
+      '2026-03-20T17:00:00.000Z'
+    ]);
+  });
+
+  it('skips days of the first week before dtstart', () => {
+    // A Wednesday
+    const wednesday = new Date('2026-03-04T17:00:00.000Z');
+    const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3');
+    expect(iso(expandRRule(rule, wednesday, { before }))).toEqual([
+      '2026-03-04T17:00:00.000Z',
+      '2026-03-09T17:00:00.000Z',
+      '2026-03-11T17:00:00.000Z'
+    ]);
+  });
+
+  it('stops at UNTIL and before the end of the range', () => {
+    const untilRule = parseRRule('FREQ=DAILY;UNTIL=20260304T170000Z');
+    expect(expandRRule(untilRule, dtstart, { before })).toHaveLength(3);
+
+    const open = parseRRule('FREQ=DAILY');
+    expect(expandRRule(open, dtstart, { before: new Date('2026-03-05T17:00:00.000Z') })).toHaveLength(3);
+  });
+
+  it('counts excluded and earlier occurrences towards COUNT without returning them', () => {
+    const rule = parseRRule('FREQ=DAILY;COUNT=4');
+    const occurrences = expandRRule(rule, dtstart, {
+      before,
+      after: new Date('2026-03-03T00:00:00.000Z'),
+      exdates: [new Date('2026-03-04T17:00:00.000Z')]
+    });
+    expect(iso(occurrences)).toEqual(['2026-03-03T17:00:00.000Z', '2026-03-05T17:00:00.000Z']);
+  });
+
+  describe('across daylight saving time', () => {
+    // 18:00 in Berlin on Monday 23 March 2026, still in winter time (UTC+1);
+    // summer time (UTC+2) starts on 29 March
+    const berlinStart = new Date('2026-03-23T17:00:00.000Z');
+
+    it('keeps the wall-clock time of dtstart in its timezone', () => {
+      const rule = parseRRule('FREQ=WEEKLY;COUNT=3');
+      expect(iso(expandRRule(rule, berlinStart, { before, timezone: 'Europe/Berlin' }))).toEqual([
+        '2026-03-23T17:00:00.000Z',
+        '2026-03-30T16:00:00.000Z',
+        '2026-04-06T16:00:00.000Z'
+      ]);
+    });
+
+    it('goes back an hour later when summer time ends', () => {
+      // 18:00 in Berlin on Friday 23 October 2026; winter time is back on 25 October
+      const rule = parseRRule('FREQ=DAILY;INTERVAL=2;COUNT=3');
+      expect(iso(expandRRule(rule, new Date('2026-10-23T16:00:00.000Z'), { before, timezone: 'Europe/Berlin' })))
+        .toEqual([
+          '2026-10-23T16:00:00.000Z',
+          '2026-10-25T17:00:00.000Z',
+          '2026-10-27T17:00:00.000Z'
+        ]);
+    });
+
+    it('keeps a fixed UTC time without a timezone', () => {
+      const rule = parseRRule('FREQ=WEEKLY;COUNT=2');
+      expect(iso(expandRRule(rule, berlinStart, { before }))).toEqual([
+        '2026-03-23T17:00:00.000Z',
+        '2026-03-30T17:00:00.000Z'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+// Minimal RFC 5545 RRULE support for recurring study sessions.
+// Only the parts we actually need are implemented: FREQ (DAILY/WEEKLY),
+// INTERVAL, BYDAY, UNTIL and COUNT. Everything else is rejected so that a
+// rule we cannot expand correctly never gets stored.
+
+import { fromWallClock, toWallClock } from './timezone';
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY';
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface RRuleOptions {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay: Weekday[];
+  until?: Date;
+  count?: number;
+}
+
+export interface ExpandOptions {
+  // Only return occurrences strictly before this instant
+  before: Date;
+  // Only return occurrences at or after this instant
+  after?: Date;
+  // Occurrences to skip (EXDATE); they still count towards COUNT
+  exdates?: Date[];
+  // IANA timezone the rule is anchored in. Occurrences then keep the wall-clock
+  // time of dtstart across DST changes instead of a fixed UTC time.
+  timezone?: string;
+}
+
+// Indexed like Date.getUTCDay()
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Hard stop so a bad rule can never loop forever
+const MAX_ITERATIONS = 5000;
+
+// Parse an iCalendar DATE or DATE-TIME value (UTC or floating) into a Date.
+// Date-only values resolve to the end of that day so UNTIL stays inclusive.
+export const parseICalDate = (value: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid iCalendar date: ${value}`);
+  }
+
+  const [, year, month, day, hour, minute, second] = match;
+  if (hour === undefined) {
+    return new Date(Date.UTC(+year, +month - 1, +day, 23, 59, 59));
+  }
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+};
+
+export const formatICalDate = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const parseRRule = (rule: string): RRuleOptions => {
+  const options: Partial<RRuleOptions> = { interval: 1, byDay: [] };
+  const parts = rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+
+  for (const part of parts) {
+    const [rawKey, value] = part.split('=');
+    const key = rawKey.toUpperCase();
+
+    if (!value) {
+      throw new Error(`Missing value for ${key}`);
+    }
+
+    switch (key) {
+      case 'FREQ':
+        if (value !== 'DAILY' && value !== 'WEEKLY') {
+          throw new Error(`Unsupported FREQ: ${value}`);
+        }
+        options.freq = value;
+        break;
+      case 'INTERVAL': {
+        const interval = parseInt(value, 10);
+        if (!Number.isInteger(interval) || interval < 1) {
+          throw new Error(`Invalid INTERVAL: ${value}`);
+        }
+        options.interval = interval;
+        break;
+      }
+      case 'BYDAY':
+        options.byDay = value.split(',').map(day => {
+          const weekday = day.toUpperCase() as Weekday;
+          if (!WEEKDAYS.includes(weekday)) {
+            throw new Error(`Unsupported BYDAY value: ${day}`);
+          }
+          return weekday;
+        });
+        break;
+      case 'UNTIL':
+        options.until = parseICalDate(value);
+        break;
+      case 'COUNT': {
+        const count = parseInt(value, 10);
+        if (!Number.isInteger(count) || count < 1) {
+          throw new Error(`Invalid COUNT: ${value}`);
+        }
+        options.count = count;
+        break;
+      }
+      case 'WKST':
+        // Weeks always start on Monday here
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part: ${key}`);
+    }
+  }
+
+  if (!options.freq) {
+    throw new Error('RRULE must specify FREQ');
+  }
+
+  if (options.until && options.count) {
+    throw new Error('RRULE cannot specify both UNTIL and COUNT');
+  }
+
+  return options as RRuleOptions;
+};
+
+export const formatRRule = (options: RRuleOptions): string => {
+  const parts = [`FREQ=${options.freq}`];
+
+  if (options.interval > 1) {
+    parts.push(`INTERVAL=${options.interval}`);
+  }
+  if (options.byDay.length > 0) {
+    parts.push(`BYDAY=${options.byDay.join(',')}`);
+  }
+  if (options.until) {
+    parts.push(`UNTIL=${formatICalDate(options.until)}`);
+  }
+  if (options.count) {
+    parts.push(`COUNT=${options.count}`);
+  }
+
+  return parts.join(';');
+};
+
+// Days since Monday, so MO sorts first within a week
+const mondayOffset = (weekday: Weekday) => (WEEKDAYS.indexOf(weekday) + 6) % 7;
+
+// Move every BYDAY entry by a number of days, e.g. when a host moves
+// "this and following" occurrences from Tuesday to Wednesday.
+export const shiftWeekdays = (days: Weekday[], delta: number): Weekday[] =>
+  days.map(day => WEEKDAYS[(((WEEKDAYS.indexOf(day) + delta) % 7) + 7) % 7]);
+
+// Expand a rule into concrete occurrence start times. The time of day is taken
+// from dtstart; without a timezone every occurrence is computed in UTC.
+export const expandRRule = (options: RRuleOptions, dtstart: Date, range: ExpandOptions): Date[] => {
+  const { timezone } = range;
+  const occurrences: Date[] = [];
+  const excluded = new Set((range.exdates || []).map(date => date.getTime()));
+  // Weekdays and day arithmetic happen on the local calendar of the timezone
+  const anchor = timezone ? toWallClock(dtstart, timezone) : dtstart;
+  const byDay = options.byDay.length > 0
+    ? [...options.byDay].sort((a, b) => mondayOffset(a) - mondayOffset(b))
+    : [WEEKDAYS[anchor.getUTCDay()]];
+
+  let emitted = 0;
+
+  const accept = (wall: Date): boolean => {
+    const candidate = timezone ? fromWallClock(wall, timezone) : wall;
+
+    if (options.until && candidate > options.until) return false;
+    if (options.count && emitted >= options.count) return false;
+    if (candidate >= range.before) return false;
+
+    emitted++;
+    if (!excluded.has(candidate.getTime()) && (!range.after || candidate >= range.after)) {
+      occurrences.push(candidate);
+    }
+    return true;
+  };
+
+  if (options.freq === 'DAILY') {
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+      const candidate = new Date(anchor.getTime() + i * options.interval * DAY_MS);
+      if (options.byDay.length > 0 && !byDay.includes(WEEKDAYS[candidate.getUTCDay()])) {
+        continue;
+      }
+      if (!accept(candidate)) break;
+    }
+    return occurrences;
+  }
+
+  const weekStart = anchor.getTime() - mondayOffset(WEEKDAYS[anchor.getUTCDay()]) * DAY_MS;
+
+  for (let week = 0; week < MAX_ITERATIONS; week += options.interval) {
+    let stop = false;
+
+    for (const day of byDay) {
+      const candidate = new Date(weekStart + (week * 7 + mondayOffset(day)) * DAY_MS);
+      if (candidate < anchor) continue;
+      if (!accept(candidate)) {
+        stop = true;
+        break;
+      }
+    }
+
+    if (stop) break;
+  }
+
+  return occurrences;
+};
@@ -0,0 +1,23 @@
+import crypto from 'crypto';
+
+// Signatures of links that work on their own, such as unsubscribe and
+// session invite links, keyed with JWT_SECRET. Without the secret nothing is
+// signed or accepted, rather than falling back to a key anyone could know.
+
+const signingKey = () => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not set, links cannot be signed');
+  }
+  return secret;
+};
+
+export const sign = (payload: string) =>
+  crypto.createHmac('sha256', signingKey()).update(payload).digest('base64url');
+
+// Whether `signature` was made for `payload`, compared in constant time
+export const hasValidSignature = (payload: string, signature: string) => {
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
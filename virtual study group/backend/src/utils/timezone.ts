@@ -0,0 +1,109 @@
+// IANA timezone helpers built on Intl, so schedules keep their wall-clock time
+// across DST changes without pulling in a date library.
+//
+// A "wall clock" date is a Date whose UTC fields hold the local time in some
+// timezone (e.g. 18:00 in Europe/Berlin is stored as 18:00Z). That lets the
+// usual UTC date arithmetic work on local calendars.
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimezone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Local wall-clock time of an instant in the given timezone
+export const toWallClock = (date: Date, timeZone: string): Date => {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find(part => part.type === type)!.value, 10);
+
+  return new Date(Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+    date.getUTCMilliseconds()
+  ));
+};
+
+// Offset from UTC in minutes at the given instant, e.g. 120 for CEST
+export const getTimezoneOffset = (date: Date, timeZone: string): number =>
+  Math.round((toWallClock(date, timeZone).getTime() - date.getTime()) / MINUTE_MS);
+
+// The instant at which the timezone shows the given wall-clock time. Times
+// skipped by a spring-forward change move forward by the gap; times repeated
+// by a fall-back change resolve to the earlier instant.
+export const fromWallClock = (wall: Date, timeZone: string): Date => {
+  const offsetBefore = getTimezoneOffset(new Date(wall.getTime() - DAY_MS), timeZone);
+  const offsetAfter = getTimezoneOffset(new Date(wall.getTime() + DAY_MS), timeZone);
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map(offset => new Date(wall.getTime() - offset * MINUTE_MS))
+    .filter(candidate => toWallClock(candidate, timeZone).getTime() === wall.getTime())
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  if (candidates.length > 0) {
+    return candidates[0];
+  }
+
+  return new Date(wall.getTime() - Math.min(offsetBefore, offsetAfter) * MINUTE_MS);
+};
+
+// "HH:mm" of an instant in the given timezone
+export const formatWallTime = (date: Date, timeZone: string): string =>
+  toWallClock(date, timeZone).toISOString().slice(11, 16);
+
+// Midnight at the start of the local day containing `date`. Days around DST
+// changes are 23 or 25 hours long, so this is not a multiple of DAY_MS.
+export const startOfLocalDay = (date: Date, timeZone: string): Date => {
+  const wall = toWallClock(date, timeZone);
+  return fromWallClock(
+    new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate())),
+    timeZone
+  );
+};
+
+// Local midnight `days` calendar days after the day containing `date`
+export const addLocalDays = (date: Date, days: number, timeZone: string): Date => {
+  const wall = toWallClock(date, timeZone);
+  return fromWallClock(
+    new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate() + days)),
+    timeZone
+  );
+};
+
+// Snap an all-day range to whole local days: from midnight of the first day
+// to midnight after the last one (exclusive, like iCalendar DTEND), at least one day long.
+export const allDayRange = (start: Date, end: Date, timeZone: string) => {
+  const from = startOfLocalDay(start, timeZone);
+  const lastInstant = new Date(Math.max(end.getTime() - 1, from.getTime()));
+  return { start: from, end: addLocalDays(lastInstant, 1, timeZone) };
+};
@@ -0,0 +1,15 @@
+import { body, checkExact } from 'express-validator';
+
+const unknownFields = (fields: Array<{ path: string }>) =>
+  `Unknown fields: ${fields.map(field => field.path).join(', ')}`;
+
+// Body of POST /auth/forgot-password
+export const forgotPasswordRules = checkExact([
+  body('email').isEmail().withMessage('Enter a valid email address').normalizeEmail()
+], { locations: ['body'], message: unknownFields });
+
+// Body of POST /auth/reset-password; the same password rule as registering
+export const resetPasswordRules = checkExact([
+  body('token').isString().notEmpty().withMessage('The reset link is incomplete'),
+  body('password').isString().isLength({ min: 6 }).withMessage('Passwords need at least 6 characters')
+], { locations: ['body'], message: unknownFields });
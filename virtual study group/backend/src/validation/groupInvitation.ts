@@ -0,0 +1,9 @@
+import { body, checkExact } from 'express-validator';
+
+// Body of POST /groups/:groupId/invitations
+export const groupInvitationRules = checkExact([
+  body('email').isEmail().withMessage('Enter a valid email address').normalizeEmail()
+], {
+  locations: ['body'],
+  message: fields => `Unknown fields: ${fields.map(field => field.path).join(', ')}`
+});
@@ -0,0 +1,10 @@
+import { body, checkExact } from 'express-validator';
+
+// Body of POST /groups/:groupId/join-requests
+export const groupJoinRequestRules = checkExact([
+  body('message').optional().isString().trim().isLength({ max: 500 })
+    .withMessage('The message can be at most 500 characters long')
+], {
+  locations: ['body'],
+  message: fields => `Unknown fields: ${fields.map(field => field.path).join(', ')}`
+});
@@ -0,0 +1,58 @@
+import { Request } from 'express';
+import { body, checkExact, matchedData } from 'express-validator';
+import { MAX_REMINDER_LEAD_MINUTES, MAX_REMINDERS } from '../services/sessionReminders';
+import { EMAIL_CATEGORIES, EmailCategory } from '../services/emailPreferences';
+
+export interface NotificationSettingsUpdate {
+  email?: boolean;
+  push?: boolean;
+  sessionReminders?: boolean;
+  groupMessages?: boolean;
+  achievements?: boolean;
+  reminderLeadMinutes?: number[];
+  emailOptOuts?: EmailCategory[];
+}
+
+const SWITCHES = ['email', 'push', 'sessionReminders', 'groupMessages', 'achievements'];
+
+// Body of PUT /users/me/notification-settings; every field is optional
+export const notificationSettingsRules = checkExact([
+  body(SWITCHES).optional()
+    .isBoolean({ strict: true }).withMessage('Must be true or false'),
+  body('reminderLeadMinutes').optional()
+    .isArray({ min: 1, max: MAX_REMINDERS }).withMessage(`Choose between 1 and ${MAX_REMINDERS} reminder times`),
+  body('reminderLeadMinutes.*')
+    .isInt({ min: 1, max: MAX_REMINDER_LEAD_MINUTES })
+    .withMessage(`Reminders can be sent between 1 minute and ${MAX_REMINDER_LEAD_MINUTES / (24 * 60)} days ahead`)
+    .toInt(),
+  body('emailOptOuts').optional()
+    .isArray({ max: EMAIL_CATEGORIES.length }).withMessage('Must be a list of email categories'),
+  body('emailOptOuts.*')
+    .isIn(EMAIL_CATEGORIES).withMessage(`Email categories are ${EMAIL_CATEGORIES.join(', ')}`)
+], {
+  locations: ['body'],
+  message: fields => `Unknown fields: ${fields.map(field => field.path).join(', ')}`
+});
+
+// The validated settings of a request that passed notificationSettingsRules,
+// with lead times deduplicated and longest first
+export const getNotificationSettingsUpdate = (req: Request): NotificationSettingsUpdate => {
+  const data = matchedData(req, { locations: ['body'] });
+  const update: NotificationSettingsUpdate = {};
+
+  SWITCHES.forEach(key => {
+    if (data[key] !== undefined) {
+      update[key as keyof Omit<NotificationSettingsUpdate, 'reminderLeadMinutes' | 'emailOptOuts'>] = data[key];
+    }
+  });
+
+  if (Array.isArray(data.reminderLeadMinutes)) {
+    update.reminderLeadMinutes = Array.from(new Set<number>(data.reminderLeadMinutes)).sort((a, b) => b - a);
+  }
+
+  if (Array.isArray(data.emailOptOuts)) {
+    update.emailOptOuts = Array.from(new Set<EmailCategory>(data.emailOptOuts));
+  }
+
+  return update;
+};
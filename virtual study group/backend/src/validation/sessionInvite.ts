@@ -0,0 +1,32 @@
+import { Request } from 'express';
+import { body, checkExact, matchedData } from 'express-validator';
+import { DEFAULT_INVITE_HOURS, MAX_INVITE_HOURS } from '../services/sessionInvites';
+
+const MAX_LABEL_LENGTH = 100;
+
+// Body of POST /study-sessions/:id/invites; all fields are optional
+export const sessionInviteRules = checkExact([
+  body('expiresInHours').optional()
+    .isInt({ min: 1, max: MAX_INVITE_HOURS }).withMessage(`Links can last from 1 to ${MAX_INVITE_HOURS} hours`)
+    .toInt(),
+  body('singleUse').optional()
+    .isBoolean().withMessage('Must be true or false')
+    .toBoolean(),
+  body('label').optional()
+    .isString().withMessage('Label must be text').bail()
+    .trim()
+    .isLength({ max: MAX_LABEL_LENGTH }).withMessage(`Label can be at most ${MAX_LABEL_LENGTH} characters`)
+], {
+  locations: ['body'],
+  message: fields => `Unknown fields: ${fields.map(field => field.path).join(', ')}`
+});
+
+// The validated options of a request that passed sessionInviteRules
+export const getInviteOptions = (req: Request) => {
+  const { expiresInHours, singleUse, label } = matchedData(req, { locations: ['body'] });
+  return {
+    expiresInHours: expiresInHours ?? DEFAULT_INVITE_HOURS,
+    singleUse: Boolean(singleUse),
+    label: label || undefined
+  };
+};
@@ -0,0 +1,96 @@
+import { Request } from 'express';
+import { body, checkExact, matchedData } from 'express-validator';
+import { ISessionTemplate } from '../models/SessionTemplate';
+import {
+  MAX_DESCRIPTION_LENGTH,
+  MAX_PARTICIPANTS,
+  MAX_TITLE_LENGTH,
+  MAX_TOPIC_LENGTH,
+  MAX_TOPIC_MINUTES,
+  SESSION_TYPES
+} from './studySession';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DURATION_MINUTES = 24 * 60;
+const MAX_AGENDA_ITEMS = 50;
+const MAX_RESOURCES = 20;
+
+const unknownFields = (fields: Array<{ path: string }>) =>
+  `Unknown fields: ${fields.map(field => field.path).join(', ')}`;
+
+const nameField = (optional: boolean) =>
+  (optional ? body('name').optional() : body('name'))
+    .isString().withMessage('Name must be text').bail()
+    .trim()
+    .notEmpty().withMessage('Name is required')
+    .isLength({ max: MAX_NAME_LENGTH }).withMessage(`Name can be at most ${MAX_NAME_LENGTH} characters`);
+
+// The fields of a template; everything is optional when changing one
+const templateFields = (optional: boolean) => [
+  nameField(optional),
+  body('title').optional()
+    .isString().withMessage('Title must be text').bail()
+    .trim()
+    .isLength({ max: MAX_TITLE_LENGTH }).withMessage(`Title can be at most ${MAX_TITLE_LENGTH} characters`),
+  body('description').optional()
+    .isString().withMessage('Description must be text').bail()
+    .trim()
+    .isLength({ max: MAX_DESCRIPTION_LENGTH }).withMessage(`Description can be at most ${MAX_DESCRIPTION_LENGTH} characters`),
+  (optional ? body('type').optional() : body('type'))
+    .isIn(SESSION_TYPES).withMessage('Unknown session type'),
+  (optional ? body('duration').optional() : body('duration'))
+    .isInt({ min: 1, max: MAX_DURATION_MINUTES }).withMessage(`Duration must be between 1 and ${MAX_DURATION_MINUTES} minutes`)
+    .toInt(),
+  // null removes the cap
+  body('maxParticipants').optional({ values: 'null' })
+    .isInt({ min: 1, max: MAX_PARTICIPANTS }).withMessage(`Must be a whole number between 1 and ${MAX_PARTICIPANTS}`)
+    .toInt(),
+  body('agenda').optional()
+    .isArray({ max: MAX_AGENDA_ITEMS }).withMessage(`The agenda can have at most ${MAX_AGENDA_ITEMS} topics`),
+  body('agenda.*.topic')
+    .isString().withMessage('Topic must be text').bail()
+    .trim()
+    .notEmpty().withMessage('Topic is required')
+    .isLength({ max: MAX_TOPIC_LENGTH }).withMessage(`Topic can be at most ${MAX_TOPIC_LENGTH} characters`),
+  body('agenda.*.duration')
+    .isInt({ min: 1, max: MAX_TOPIC_MINUTES }).withMessage(`Duration must be between 1 and ${MAX_TOPIC_MINUTES} minutes`)
+    .toInt(),
+  body('resources').optional()
+    .isArray({ max: MAX_RESOURCES }).withMessage(`A template can have at most ${MAX_RESOURCES} links`),
+  body('resources.*.title')
+    .isString().withMessage('Title must be text').bail()
+    .trim()
+    .notEmpty().withMessage('Title is required')
+    .isLength({ max: MAX_TITLE_LENGTH }).withMessage(`Title can be at most ${MAX_TITLE_LENGTH} characters`),
+  body('resources.*.url')
+    .isURL({ protocols: ['http', 'https'], require_protocol: true }).withMessage('Links must be http or https URLs')
+];
+
+// Body of POST /session-templates; without a group the template is personal
+export const templateRules = checkExact([
+  ...templateFields(false),
+  body('group').optional().isMongoId().withMessage('Unknown group')
+], { locations: ['body'], message: unknownFields });
+
+// Body of PUT /session-templates/:id; a template can't move to another group
+export const templateUpdateRules = checkExact(templateFields(true), { locations: ['body'], message: unknownFields });
+
+// Body of POST /session-templates/from-session/:sessionId. Sessions of a
+// group are saved as a template of that group unless `personal` is set.
+export const templateFromSessionRules = checkExact([
+  nameField(false),
+  body('personal').optional()
+    .isBoolean().withMessage('Must be true or false')
+    .toBoolean()
+], { locations: ['body'], message: unknownFields });
+
+type TemplateFields = Partial<Pick<
+  ISessionTemplate,
+  'name' | 'title' | 'description' | 'type' | 'duration' | 'agenda' | 'resources'
+>> & { maxParticipants?: number | null };
+
+// The validated fields of a request that passed templateRules or templateUpdateRules
+export const getTemplateFields = (req: Request): TemplateFields => {
+  const { group: _group, ...fields } = matchedData(req, { locations: ['body'] });
+  return fields;
+};
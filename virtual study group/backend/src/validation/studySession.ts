@@ -0,0 +1,294 @@
+import { Request } from 'express';
+import { body, checkExact, FieldValidationError, matchedData } from 'express-validator';
+import { IStudySession } from '../models/StudySession';
+import { CancellationDetails } from '../services/sessionLifecycle';
+import {
+  BreakoutPlan,
+  DEFAULT_BREAKOUT_MINUTES,
+  MAX_BREAKOUT_MINUTES,
+  MAX_BREAKOUT_ROOMS
+} from '../services/sessionBreakouts';
+import { PomodoroSettings } from '../services/sessionPomodoro';
+import { allDayRange, isValidTimezone } from '../utils/timezone';
+
+// The fields a host may change with PUT /study-sessions/:id. Everything else
+// (participants, waitlist, feedback, host, status, ...) is managed by its own
+// endpoint, and sending it here is rejected.
+
+export const SESSION_TYPES = ['study', 'discussion', 'presentation', 'exam-prep', 'project-work', 'pomodoro'];
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_DESCRIPTION_LENGTH = 5000;
+export const MAX_PARTICIPANTS = 1000;
+
+export interface SessionUpdate {
+  title?: string;
+  description?: string;
+  type?: IStudySession['type'];
+  maxParticipants?: number | null;
+  scheduledStart?: Date;
+  scheduledEnd?: Date;
+  timezone?: string;
+  allDay?: boolean;
+  autoStart?: boolean;
+  autoComplete?: boolean;
+}
+
+// Fields that move the session in time, which is only possible before it starts
+const SCHEDULE_FIELDS: Array<keyof SessionUpdate> = ['scheduledStart', 'scheduledEnd', 'timezone', 'allDay'];
+
+export const sessionUpdateRules = checkExact([
+  body('title').optional()
+    .isString().withMessage('Title must be text').bail()
+    .trim()
+    .notEmpty().withMessage('Title is required')
+    .isLength({ max: MAX_TITLE_LENGTH }).withMessage(`Title can be at most ${MAX_TITLE_LENGTH} characters`),
+  body('description').optional()
+    .isString().withMessage('Description must be text').bail()
+    .trim()
+    .notEmpty().withMessage('Description is required')
+    .isLength({ max: MAX_DESCRIPTION_LENGTH }).withMessage(`Description can be at most ${MAX_DESCRIPTION_LENGTH} characters`),
+  body('type').optional()
+    .isIn(SESSION_TYPES).withMessage('Unknown session type'),
+  // null removes the cap
+  body('maxParticipants').optional({ values: 'null' })
+    .isInt({ min: 1, max: MAX_PARTICIPANTS }).withMessage(`Must be a whole number between 1 and ${MAX_PARTICIPANTS}`)
+    .toInt(),
+  body('scheduledStart').optional()
+    .isISO8601().withMessage('Start must be a date and time')
+    .toDate(),
+  body('scheduledEnd').optional()
+    .isISO8601().withMessage('End must be a date and time')
+    .toDate(),
+  body('timezone').optional()
+    .custom(value => isValidTimezone(value)).withMessage('Unknown timezone'),
+  body('allDay').optional()
+    .isBoolean().withMessage('Must be true or false')
+    .toBoolean(),
+  body(['autoStart', 'autoComplete']).optional()
+    .isBoolean().withMessage('Must be true or false')
+    .toBoolean()
+], {
+  locations: ['body'],
+  message: fields => `These fields cannot be changed here: ${fields.map(field => field.path).join(', ')}`
+});
+
+// The validated changes of a request that passed sessionUpdateRules
+export const getSessionUpdate = (req: Request): SessionUpdate => {
+  const data = matchedData(req, { locations: ['body'], includeOptionals: true });
+  const update: Record<string, unknown> = {};
+
+  Object.keys(data).forEach(key => {
+    if (data[key] !== undefined) {
+      update[key] = data[key];
+    }
+  });
+
+  if (req.body.maxParticipants === null) {
+    update.maxParticipants = null;
+  }
+
+  return update as SessionUpdate;
+};
+
+const fieldError = (path: string, value: unknown, msg: string): FieldValidationError => ({
+  type: 'field',
+  location: 'body',
+  path,
+  value,
+  msg
+});
+
+// Checks that depend on the stored session: the status, the resulting time
+// range and the current number of participants. All-day ranges are snapped
+// to whole days in place. Returns the errors in the same format as the rules.
+export const checkSessionUpdate = (session: IStudySession, update: SessionUpdate): FieldValidationError[] => {
+  const errors: FieldValidationError[] = [];
+
+  if (session.status !== 'scheduled') {
+    SCHEDULE_FIELDS
+      .filter(field => update[field] !== undefined)
+      .forEach(field => errors.push(fieldError(field, update[field], 'Only scheduled sessions can be rescheduled')));
+  }
+
+  const start = update.scheduledStart || session.scheduledStart;
+  const end = update.scheduledEnd || session.scheduledEnd;
+
+  if ((update.allDay ?? session.allDay) && (update.scheduledStart || update.scheduledEnd || update.allDay)) {
+    const range = allDayRange(start, end, update.timezone || session.timezone || 'UTC');
+    update.scheduledStart = range.start;
+    update.scheduledEnd = range.end;
+  } else if (end <= start) {
+    errors.push(fieldError('scheduledEnd', update.scheduledEnd, 'End must be after the start'));
+  }
+
+  const participantCount = session.participants.length;
+  if (typeof update.maxParticipants === 'number' && update.maxParticipants < participantCount) {
+    errors.push(fieldError(
+      'maxParticipants',
+      update.maxParticipants,
+      `Cannot be lower than the ${participantCount} people already taking part`
+    ));
+  }
+
+  return errors;
+};
+
+const MAX_COMMENT_LENGTH = 1000;
+
+const unknownFields = (fields: Array<{ path: string }>) =>
+  `Unknown fields: ${fields.map(field => field.path).join(', ')}`;
+
+// Body of PUT /study-sessions/:id/feedback
+export const feedbackRules = checkExact([
+  body('rating')
+    .isInt({ min: 1, max: 5 }).withMessage('Rating must be a whole number from 1 to 5')
+    .toInt(),
+  body('comment').optional()
+    .isString().withMessage('Comment must be text').bail()
+    .trim()
+    .isLength({ max: MAX_COMMENT_LENGTH }).withMessage(`Comment can be at most ${MAX_COMMENT_LENGTH} characters`),
+  body('anonymous').optional()
+    .isBoolean().withMessage('Must be true or false')
+    .toBoolean()
+], { locations: ['body'], message: unknownFields });
+
+const MAX_REASON_LENGTH = 500;
+
+// Body of POST /study-sessions/:id/cancel, DELETE /study-sessions/:id and
+// DELETE /study-sessions/series/:seriesId; all fields are optional
+export const cancellationRules = checkExact([
+  body('reason').optional()
+    .isString().withMessage('Reason must be text').bail()
+    .trim()
+    .isLength({ max: MAX_REASON_LENGTH }).withMessage(`Reason can be at most ${MAX_REASON_LENGTH} characters`),
+  body('suggestedStart').optional()
+    .isISO8601().withMessage('Suggested start must be a date and time')
+    .toDate(),
+  body('suggestedEnd').optional()
+    .isISO8601().withMessage('Suggested end must be a date and time')
+    .toDate()
+    .custom((end: Date, { req }) => req.body.suggestedStart instanceof Date && end > req.body.suggestedStart)
+    .withMessage('Suggested end must be after the suggested start')
+], { locations: ['body'], message: unknownFields });
+
+// The validated details of a request that passed cancellationRules
+export const getCancellation = (req: Request): CancellationDetails => {
+  const { reason, suggestedStart, suggestedEnd } = matchedData(req, { locations: ['body'] });
+  return { reason: reason || undefined, suggestedStart, suggestedEnd };
+};
+
+export const MAX_TOPIC_LENGTH = 200;
+export const MAX_TOPIC_MINUTES = 480;
+
+const agendaItemFields = (optional: boolean) => [
+  (optional ? body('topic').optional() : body('topic'))
+    .isString().withMessage('Topic must be text').bail()
+    .trim()
+    .notEmpty().withMessage('Topic is required')
+    .isLength({ max: MAX_TOPIC_LENGTH }).withMessage(`Topic can be at most ${MAX_TOPIC_LENGTH} characters`),
+  (optional ? body('duration').optional() : body('duration'))
+    .isInt({ min: 1, max: MAX_TOPIC_MINUTES }).withMessage(`Duration must be between 1 and ${MAX_TOPIC_MINUTES} minutes`)
+    .toInt()
+];
+
+// Body of POST /study-sessions/:id/agenda
+export const agendaItemRules = checkExact(agendaItemFields(false), { locations: ['body'], message: unknownFields });
+
+// Body of PUT /study-sessions/:id/agenda/:itemId
+export const agendaItemUpdateRules = checkExact(agendaItemFields(true), { locations: ['body'], message: unknownFields });
+
+// Body of PUT /study-sessions/:id/agenda/order
+export const agendaOrderRules = checkExact([
+  body('order').isArray().withMessage('Order must be a list of agenda item ids'),
+  body('order.*').isMongoId().withMessage('Unknown agenda item')
+], { locations: ['body'], message: unknownFields });
+
+// Body of POST /study-sessions/:id/agenda/advance
+export const agendaAdvanceRules = checkExact([
+  body('itemId').optional().isMongoId().withMessage('Unknown agenda item')
+], { locations: ['body'], message: unknownFields });
+
+export const MAX_CO_HOSTS = 5;
+
+// Body of PUT /study-sessions/:id/co-hosts
+export const coHostRules = checkExact([
+  body('coHosts')
+    .isArray({ max: MAX_CO_HOSTS }).withMessage(`Co-hosts must be a list of at most ${MAX_CO_HOSTS} user ids`),
+  body('coHosts.*').isMongoId().withMessage('Unknown user')
+], { locations: ['body'], message: unknownFields });
+
+// Body of POST /study-sessions/:id/transfer-host
+export const transferHostRules = checkExact([
+  body('userId').isMongoId().withMessage('Unknown user'),
+  body('keepAsCoHost').optional()
+    .isBoolean().withMessage('Must be true or false')
+    .toBoolean()
+], { locations: ['body'], message: unknownFields });
+
+const MAX_ROOM_NAME_LENGTH = 50;
+const MAX_BROADCAST_LENGTH = 500;
+
+// Body of POST /study-sessions/:id/breakouts. Random assignment splits the
+// people present into `roomCount` rooms; manual assignment lists the `rooms`.
+export const breakoutRules = checkExact([
+  body('assignment').isIn(['random', 'manual']).withMessage('Assignment must be random or manual'),
+  body('duration').optional()
+    .isInt({ min: 1, max: MAX_BREAKOUT_MINUTES }).withMessage(`Duration must be between 1 and ${MAX_BREAKOUT_MINUTES} minutes`)
+    .toInt(),
+  body('roomCount').if(body('assignment').equals('random')).optional()
+    .isInt({ min: 2, max: MAX_BREAKOUT_ROOMS }).withMessage(`Must be between 2 and ${MAX_BREAKOUT_ROOMS} rooms`)
+    .toInt(),
+  body('rooms').if(body('assignment').equals('manual'))
+    .isArray({ min: 1, max: MAX_BREAKOUT_ROOMS }).withMessage(`Must be a list of 1 to ${MAX_BREAKOUT_ROOMS} rooms`),
+  body('rooms.*.name').optional()
+    .isString().withMessage('Name must be text').bail()
+    .trim()
+    .isLength({ max: MAX_ROOM_NAME_LENGTH }).withMessage(`Name can be at most ${MAX_ROOM_NAME_LENGTH} characters`),
+  body('rooms.*.members')
+    .isArray({ min: 1 }).withMessage('Every room needs at least one member'),
+  body('rooms.*.members.*').isMongoId().withMessage('Unknown user')
+], { locations: ['body'], message: unknownFields });
+
+// The validated body of a request that passed breakoutRules
+export const getBreakoutPlan = (req: Request): BreakoutPlan => {
+  const { assignment, duration, roomCount, rooms } = matchedData(req, { locations: ['body'] });
+  return {
+    assignment,
+    duration: duration ?? DEFAULT_BREAKOUT_MINUTES,
+    ...(assignment === 'random' ? { roomCount } : { rooms })
+  };
+};
+
+// Body of POST /study-sessions/:id/breakouts/broadcast
+export const breakoutBroadcastRules = checkExact([
+  body('message')
+    .isString().withMessage('Message must be text').bail()
+    .trim()
+    .notEmpty().withMessage('Message is required')
+    .isLength({ max: MAX_BROADCAST_LENGTH }).withMessage(`Message can be at most ${MAX_BROADCAST_LENGTH} characters`)
+], { locations: ['body'], message: unknownFields });
+
+const MAX_POMODORO_MINUTES = 120;
+const MAX_LONG_BREAK_EVERY = 10;
+
+const pomodoroMinutes = (field: string, label: string) =>
+  body(field).optional()
+    .isInt({ min: 1, max: MAX_POMODORO_MINUTES }).withMessage(`${label} must be between 1 and ${MAX_POMODORO_MINUTES} minutes`)
+    .toInt();
+
+// Body of PUT /study-sessions/:id/pomodoro; every field is optional
+export const pomodoroRules = checkExact([
+  pomodoroMinutes('workMinutes', 'Work blocks'),
+  pomodoroMinutes('shortBreakMinutes', 'Short breaks'),
+  pomodoroMinutes('longBreakMinutes', 'Long breaks'),
+  body('longBreakEvery').optional()
+    .isInt({ min: 1, max: MAX_LONG_BREAK_EVERY }).withMessage(`Must be between 1 and ${MAX_LONG_BREAK_EVERY} work blocks`)
+    .toInt(),
+  body('muteDuringWork').optional()
+    .isBoolean().withMessage('Must be true or false')
+    .toBoolean()
+], { locations: ['body'], message: unknownFields });
+
+// The validated fields of a request that passed pomodoroRules
+export const getPomodoroSettings = (req: Request): Partial<PomodoroSettings> =>
+  matchedData(req, { locations: ['body'] });
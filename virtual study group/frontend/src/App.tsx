@@ -10,9 +10,11 @@ import Groups from './pages/Groups';
 import GroupDetail from './pages/GroupDetail';
 import StudySessions from './pages/StudySessions';
 import SessionDetail from './pages/SessionDetail';
+import SessionInvite from './pages/SessionInvite';
 import Profile from './pages/Profile';
 import AIAssistant from './pages/AIAssistant';
 import { SocketProvider } from './contexts/SocketContext';
+import FeedbackPrompt from './components/StudySessions/FeedbackPrompt';
 
 function App() {
   const { isAuthenticated, isLoading } = useAuthStore();
@@ -76,6 +78,7 @@ function App() {
               <Route path="/groups/:id" element={<GroupDetail />} />
               <Route path="/sessions" element={<StudySessions />} />
               <Route path="/sessions/:id" element={<SessionDetail />} />
+              <Route path="/sessions/invite/:token" element={<SessionInvite />} />
               <Route path="/profile" element={<Profile />} />
               <Route path="/ai-assistant" element={<AIAssistant />} />
               <Route path="*" element={<Navigate to="/dashboard" replace />} />
@@ -83,6 +86,7 @@ function App() {
           </Box>
         </Box>
       </Box>
+      <FeedbackPrompt />
     </SocketProvider>
   );
 }
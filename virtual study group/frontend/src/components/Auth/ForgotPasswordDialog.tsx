@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { authAPI } from '../../services/api';
+
+interface ForgotPasswordDialogProps {
+  open: boolean;
+  // Prefilled from the login form
+  email: string;
+  onClose: () => void;
+}
+
+// Asks for the account's address and has the server email a reset link.
+// The server answers the same for unknown addresses, and so does this dialog.
+const ForgotPasswordDialog: React.FC<ForgotPasswordDialogProps> = ({ open, email: initialEmail, onClose }) => {
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setEmail(initialEmail);
+    setSent(false);
+    setError('');
+  }, [open, initialEmail]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+    try {
+      await authAPI.forgotPassword(email.trim());
+      setSent(true);
+    } catch (error: any) {
+      setError(error.response?.data?.errors?.[0]?.msg || error.response?.data?.message || 'Failed to send the reset link');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Reset Password</DialogTitle>
+      <DialogContent>
+        {sent ? (
+          <Alert severity="success">
+            If an account uses {email.trim()}, we sent it a link to choose a new password. The link works for an hour.
+          </Alert>
+        ) : (
+          <form id="forgot-password-form" onSubmit={handleSubmit}>
+            <Typography variant="body2" color="text.secondary">
+              Enter the email address of your account and we'll send you a link to choose a new password.
+            </Typography>
+            {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+            <TextField
+              fullWidth
+              label="Email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              margin="normal"
+              required
+              autoFocus
+            />
+          </form>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{sent ? 'Close' : 'Cancel'}</Button>
+        {!sent && (
+          <Button type="submit" form="forgot-password-form" variant="contained" disabled={submitting || !email.trim()}>
+            Send Link
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ForgotPasswordDialog;
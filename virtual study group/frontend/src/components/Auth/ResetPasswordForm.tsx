@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Alert, Box, Button, TextField, Typography } from '@mui/material';
+import { authAPI } from '../../services/api';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+interface ResetPasswordFormProps {
+  // From the link in the reset email
+  token: string;
+  onDone: (message?: string) => void;
+}
+
+// Where the link of a password reset email leads: choose the new password
+const ResetPasswordForm: React.FC<ResetPasswordFormProps> = ({ token, onDone }) => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const response = await authAPI.resetPassword(token, password);
+      onDone(response.data.message);
+    } catch (error: any) {
+      setError(error.response?.data?.message || 'Failed to reset password');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit}>
+      <Typography variant="h6" gutterBottom>
+        Choose a new password
+      </Typography>
+      {error && <Alert severity="error" sx={{ mt: 1 }}>{error}</Alert>}
+      <TextField
+        fullWidth
+        label="New password"
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        margin="normal"
+        required
+        autoFocus
+      />
+      <TextField
+        fullWidth
+        label="Confirm new password"
+        type="password"
+        value={confirmPassword}
+        onChange={(e) => setConfirmPassword(e.target.value)}
+        margin="normal"
+        required
+      />
+      <Button type="submit" fullWidth variant="contained" size="large" disabled={submitting} sx={{ mt: 3, mb: 1 }}>
+        {submitting ? 'Saving...' : 'Change Password'}
+      </Button>
+      <Button fullWidth onClick={() => onDone()}>
+        Back to login
+      </Button>
+    </Box>
+  );
+};
+
+export default ResetPasswordForm;
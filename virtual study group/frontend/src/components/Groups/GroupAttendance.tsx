@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Avatar,
+  CircularProgress,
+} from '@mui/material';
+import { Download } from '@mui/icons-material';
+import { format, subDays } from 'date-fns';
+import toast from 'react-hot-toast';
+import { groupsAPI } from '../../services/api';
+import { GroupAttendanceReport } from '../../types';
+import { fileNameFromDisposition, saveFile } from '../../utils/download';
+
+interface GroupAttendanceProps {
+  groupId: string;
+}
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+// The dates are inclusive in the form and sent as [from, to + 1 day) in local time
+const toRange = (from: string, to: string) => ({
+  from: new Date(`${from}T00:00`).toISOString(),
+  to: new Date(new Date(`${to}T00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString(),
+});
+
+// Attendance of a group's members over a date range, for its owner and moderators
+const GroupAttendance: React.FC<GroupAttendanceProps> = ({ groupId }) => {
+  const [from, setFrom] = useState(format(subDays(new Date(), 30), DATE_FORMAT));
+  const [to, setTo] = useState(format(new Date(), DATE_FORMAT));
+  const [report, setReport] = useState<GroupAttendanceReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+
+  const validRange = Boolean(from && to && from <= to);
+
+  const fetchAttendance = useCallback(async () => {
+    if (!validRange) return;
+
+    try {
+      setLoading(true);
+      const response = await groupsAPI.getAttendance(groupId, toRange(from, to));
+      setReport(response.data);
+    } catch (error: any) {
+      console.error('Error fetching group attendance:', error);
+      toast.error(error.response?.data?.message || 'Failed to load attendance');
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId, from, to, validRange]);
+
+  useEffect(() => {
+    fetchAttendance();
+  }, [fetchAttendance]);
+
+  const handleDownload = async () => {
+    try {
+      setDownloading(true);
+      const response = await groupsAPI.downloadAttendance(groupId, toRange(from, to));
+      saveFile(response.data, fileNameFromDisposition(response.headers['content-disposition'], 'attendance.csv'));
+    } catch (error) {
+      console.error('Error downloading group attendance:', error);
+      toast.error('Failed to download attendance');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Box display="flex" gap={1} mb={2}>
+        <TextField
+          label="From"
+          type="date"
+          size="small"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          error={!validRange}
+        />
+        <TextField
+          label="To"
+          type="date"
+          size="small"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          error={!validRange}
+          helperText={!validRange ? 'Must be on or after the start' : undefined}
+        />
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={2}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : report && (
+        <>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            {report.sessions.length} session{report.sessions.length !== 1 ? 's' : ''} in this period
+          </Typography>
+
+          {report.members.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              Nobody attended a session in this period.
+            </Typography>
+          ) : (
+            <List dense>
+              {report.members.map(({ user, sessions, minutes }) => (
+                <ListItem key={user._id} disableGutters>
+                  <ListItemAvatar>
+                    <Avatar src={user.avatar}>
+                      {user.firstName[0]}{user.lastName[0]}
+                    </Avatar>
+                  </ListItemAvatar>
+                  <ListItemText
+                    primary={`${user.firstName} ${user.lastName}`}
+                    secondary={`${sessions} session${sessions !== 1 ? 's' : ''} • ${minutes} min`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          )}
+
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<Download />}
+            onClick={handleDownload}
+            disabled={!validRange || downloading || report.sessions.length === 0}
+          >
+            Download CSV
+          </Button>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default GroupAttendance;
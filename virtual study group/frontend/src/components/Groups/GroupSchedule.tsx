@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  TextField,
+  Select,
+  MenuItem,
+  Switch,
+  FormControlLabel,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+  CircularProgress,
+  Divider,
+} from '@mui/material';
+import { Add, Delete, Save, Sync } from '@mui/icons-material';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { groupsAPI } from '../../services/api';
+import { GroupSchedule as GroupScheduleData, Meeting, StudySession } from '../../types';
+
+interface GroupScheduleProps {
+  groupId: string;
+  isOwner: boolean;
+}
+
+const days: Meeting['day'][] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const GroupSchedule: React.FC<GroupScheduleProps> = ({ groupId, isOwner }) => {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [meetings, setMeetings] = useState<Meeting[]>([]);
+  const [timezone, setTimezone] = useState(browserTimezone);
+  const [enabled, setEnabled] = useState(false);
+  const [weeksAhead, setWeeksAhead] = useState(4);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | undefined>();
+  const [upcomingSessions, setUpcomingSessions] = useState<StudySession[]>([]);
+
+  const applyState = (data: { schedule?: GroupScheduleData; upcomingSessions: StudySession[] }) => {
+    setMeetings(data.schedule?.regularMeetings || []);
+    setTimezone(data.schedule?.timezone || browserTimezone);
+    setEnabled(Boolean(data.schedule?.autoSessions?.enabled));
+    setWeeksAhead(data.schedule?.autoSessions?.weeksAhead || 4);
+    setLastSyncedAt(data.schedule?.autoSessions?.lastSyncedAt);
+    setUpcomingSessions(data.upcomingSessions || []);
+  };
+
+  const fetchSchedule = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await groupsAPI.getSchedule(groupId);
+      applyState(response.data);
+    } catch (error) {
+      console.error('Error fetching group schedule:', error);
+      toast.error('Failed to load group schedule');
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  const updateMeeting = (index: number, changes: Partial<Meeting>) => {
+    setMeetings(prev => prev.map((meeting, i) => (i === index ? { ...meeting, ...changes } : meeting)));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const response = await groupsAPI.updateSchedule(groupId, {
+        regularMeetings: meetings,
+        timezone,
+        autoSessions: { enabled, weeksAhead },
+      });
+      applyState(response.data);
+      toast.success('Schedule saved');
+    } catch (error: any) {
+      console.error('Error saving group schedule:', error);
+      toast.error(error.response?.data?.message || 'Failed to save schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSync = async () => {
+    try {
+      setSaving(true);
+      const response = await groupsAPI.syncSchedule(groupId);
+      applyState(response.data);
+      toast.success('Sessions generated');
+    } catch (error) {
+      console.error('Error syncing group schedule:', error);
+      toast.error('Failed to generate sessions');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" p={3}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" gutterBottom>
+        Regular Meetings ({timezone})
+      </Typography>
+
+      {meetings.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No regular meetings yet.
+        </Typography>
+      )}
+
+      {isOwner ? (
+        meetings.map((meeting, index) => (
+          <Box key={meeting._id || index} display="flex" gap={1} alignItems="center" mb={1}>
+            <Select
+              size="small"
+              value={meeting.day}
+              onChange={(e) => updateMeeting(index, { day: e.target.value as Meeting['day'] })}
+              sx={{ minWidth: 120, textTransform: 'capitalize' }}
+            >
+              {days.map(day => (
+                <MenuItem key={day} value={day} sx={{ textTransform: 'capitalize' }}>
+                  {day}
+                </MenuItem>
+              ))}
+            </Select>
+            <TextField
+              size="small"
+              type="time"
+              value={meeting.time}
+              onChange={(e) => updateMeeting(index, { time: e.target.value })}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Minutes"
+              value={meeting.duration}
+              onChange={(e) => updateMeeting(index, { duration: parseInt(e.target.value, 10) || 0 })}
+              sx={{ width: 100 }}
+            />
+            <IconButton size="small" onClick={() => setMeetings(prev => prev.filter((_, i) => i !== index))}>
+              <Delete fontSize="small" />
+            </IconButton>
+          </Box>
+        ))
+      ) : (
+        <List dense>
+          {meetings.map((meeting, index) => (
+            <ListItem key={meeting._id || index}>
+              <ListItemText
+                primary={`${meeting.day.charAt(0).toUpperCase()}${meeting.day.slice(1)} at ${meeting.time}`}
+                secondary={`${meeting.duration} minutes`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      {isOwner && (
+        <>
+          <Button
+            size="small"
+            startIcon={<Add />}
+            onClick={() => setMeetings(prev => [...prev, { day: 'monday', time: '18:00', duration: 60 }])}
+          >
+            Add Meeting
+          </Button>
+
+          <TextField
+            label="Timezone"
+            size="small"
+            fullWidth
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            helperText="IANA name, e.g. Europe/Berlin"
+            margin="normal"
+          />
+
+          <FormControlLabel
+            control={<Switch checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />}
+            label="Create sessions automatically"
+          />
+
+          {enabled && (
+            <TextField
+              label="Weeks ahead"
+              type="number"
+              size="small"
+              fullWidth
+              value={weeksAhead}
+              onChange={(e) => setWeeksAhead(parseInt(e.target.value, 10) || 1)}
+              inputProps={{ min: 1, max: 12 }}
+              margin="normal"
+            />
+          )}
+
+          <Box display="flex" gap={1} mt={1}>
+            <Button variant="contained" size="small" startIcon={<Save />} onClick={handleSave} disabled={saving}>
+              Save
+            </Button>
+            {enabled && (
+              <Button size="small" startIcon={<Sync />} onClick={handleSync} disabled={saving}>
+                Generate Now
+              </Button>
+            )}
+          </Box>
+        </>
+      )}
+
+      {enabled && (
+        <>
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="subtitle2" gutterBottom>
+            Upcoming Generated Sessions
+          </Typography>
+          {lastSyncedAt && (
+            <Typography variant="caption" color="text.secondary">
+              Last generated {format(new Date(lastSyncedAt), 'PPp')}
+            </Typography>
+          )}
+          <List dense>
+            {upcomingSessions.slice(0, 8).map(session => (
+              <ListItem key={session._id}>
+                <ListItemText primary={format(new Date(session.scheduledStart), 'EEE, PPp')} />
+                {session.status === 'cancelled' && <Chip size="small" label="cancelled" color="error" />}
+                {session.status !== 'cancelled' && session.isException && <Chip size="small" label="edited" />}
+              </ListItem>
+            ))}
+          </List>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default GroupSchedule;
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+} from '@mui/material';
+import toast from 'react-hot-toast';
+import { groupsAPI } from '../../services/api';
+
+interface InviteByEmailDialogProps {
+  group: { _id: string; name: string } | null;
+  onClose: () => void;
+}
+
+// Emails someone an invitation to the group, with or without an account
+const InviteByEmailDialog: React.FC<InviteByEmailDialogProps> = ({ group, onClose }) => {
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    setEmail('');
+  }, [group]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!group) return;
+
+    setSending(true);
+    try {
+      const response = await groupsAPI.inviteByEmail(group._id, email.trim());
+      toast.success(response.data.message);
+      onClose();
+    } catch (error: any) {
+      console.error('Error sending invitation:', error);
+      toast.error(error.response?.data?.errors?.[0]?.msg || error.response?.data?.message || 'Failed to send invitation');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(group)} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Invite to {group?.name}</DialogTitle>
+      <DialogContent>
+        <form id="invite-by-email-form" onSubmit={handleSend}>
+          <Typography variant="body2" color="text.secondary">
+            We'll email them a link to the group.
+          </Typography>
+          <TextField
+            label="Email"
+            type="email"
+            fullWidth
+            required
+            autoFocus
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            margin="normal"
+          />
+        </form>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          type="submit"
+          form="invite-by-email-form"
+          variant="contained"
+          disabled={sending || !email.trim()}
+        >
+          Send Invitation
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default InviteByEmailDialog;
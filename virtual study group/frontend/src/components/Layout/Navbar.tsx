@@ -8,7 +8,6 @@ import {
   Menu,
   MenuItem,
   Box,
-  Badge,
   TextField,
   InputAdornment,
   useMediaQuery,
@@ -17,7 +16,6 @@ import {
 import {
   Menu as MenuIcon,
   Search,
-  Notifications,
   Settings,
   AccountCircle,
   Logout,
@@ -26,6 +24,7 @@ import {
 import { useAuthStore } from '../../stores/authStore';
 import { useNavigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
+import NotificationMenu from './NotificationMenu';
 
 interface NavbarProps {
   onMenuClick: () => void;
@@ -212,11 +211,7 @@ const Navbar: React.FC<NavbarProps> = ({ onMenuClick }) => {
             </IconButton>
 
             {/* Notifications */}
-            <IconButton color="inherit" title="Notifications">
-              <Badge badgeContent={3} color="error">
-                <Notifications />
-              </Badge>
-            </IconButton>
+            <NotificationMenu />
 
             {/* Search icon for mobile */}
             {isMobile && (
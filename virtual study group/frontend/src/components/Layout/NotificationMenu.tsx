@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  CircularProgress,
+  Divider,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Typography,
+} from '@mui/material';
+import {
+  Alarm,
+  AlternateEmail,
+  EmojiEvents,
+  EventAvailable,
+  EventBusy,
+  GroupAdd,
+  Notifications,
+  Restore,
+  SupervisorAccount,
+} from '@mui/icons-material';
+import { formatDistanceToNow } from 'date-fns';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { UserNotification, UserNotificationType } from '../../types';
+import { notificationsAPI } from '../../services/api';
+import { useSocket } from '../../contexts/SocketContext';
+
+const ICONS: Record<UserNotificationType, React.ReactElement> = {
+  'session-reminder': <Alarm fontSize="small" />,
+  'session-cancelled': <EventBusy fontSize="small" />,
+  'session-restored': <Restore fontSize="small" />,
+  'waitlist-promoted': <EventAvailable fontSize="small" />,
+  'host-assigned': <SupervisorAccount fontSize="small" />,
+  mention: <AlternateEmail fontSize="small" />,
+  'group-join-request': <GroupAdd fontSize="small" />,
+  achievement: <EmojiEvents fontSize="small" />,
+};
+
+const PAGE_SIZE = 10;
+
+// The bell in the navbar. The unread count and new notifications are pushed
+// over the user's socket room; the list itself is loaded when the menu opens.
+const NotificationMenu: React.FC = () => {
+  const { socket } = useSocket();
+  const navigate = useNavigate();
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [notifications, setNotifications] = useState<UserNotification[] | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    notificationsAPI.getUnreadCount()
+      .then(({ data }) => setUnreadCount(data.count))
+      .catch(error => console.error('Error counting unread notifications:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleUnread = (data: { count: number }) => setUnreadCount(data.count);
+    const handleNotification = (notification: UserNotification) => {
+      setNotifications(current => current && [notification, ...current]);
+    };
+
+    socket.on('notifications-unread', handleUnread);
+    socket.on('notification', handleNotification);
+    return () => {
+      socket.off('notifications-unread', handleUnread);
+      socket.off('notification', handleNotification);
+    };
+  }, [socket]);
+
+  const load = async (before?: string) => {
+    setLoading(true);
+    try {
+      const { data } = await notificationsAPI.getNotifications({ before, limit: PAGE_SIZE });
+      setNotifications(current => (before && current ? [...current, ...data.notifications] : data.notifications));
+      setNextCursor(data.nextCursor);
+      setUnreadCount(data.unreadCount);
+    } catch (error: any) {
+      console.error('Error fetching notifications:', error);
+      toast.error(error.response?.data?.message || 'Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpen = (event: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(event.currentTarget);
+    load();
+  };
+
+  const markRead = (notification: UserNotification, readAt: string) => {
+    setNotifications(current => current && current.map(entry => (
+      entry._id === notification._id ? { ...entry, readAt } : entry
+    )));
+  };
+
+  const handleSelect = async (notification: UserNotification) => {
+    setAnchorEl(null);
+    if (notification.link) navigate(notification.link);
+    if (notification.readAt) return;
+
+    try {
+      const { data } = await notificationsAPI.markRead(notification._id);
+      markRead(notification, data.readAt || new Date().toISOString());
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationsAPI.markAllRead();
+      const readAt = new Date().toISOString();
+      setNotifications(current => current && current.map(entry => ({ ...entry, readAt: entry.readAt || readAt })));
+    } catch (error: any) {
+      console.error('Error marking notifications read:', error);
+      toast.error(error.response?.data?.message || 'Failed to mark notifications as read');
+    }
+  };
+
+  return (
+    <>
+      <IconButton color="inherit" title="Notifications" onClick={handleOpen}>
+        <Badge badgeContent={unreadCount} color="error">
+          <Notifications />
+        </Badge>
+      </IconButton>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+        PaperProps={{ sx: { width: 360, maxHeight: 480 } }}
+      >
+        <Box display="flex" justifyContent="space-between" alignItems="center" sx={{ px: 2, py: 1 }}>
+          <Typography variant="subtitle1" fontWeight={600}>Notifications</Typography>
+          <Button size="small" disabled={unreadCount === 0} onClick={handleMarkAllRead}>
+            Mark all read
+          </Button>
+        </Box>
+        <Divider />
+
+        {notifications?.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ px: 2, py: 2 }}>
+            You're all caught up.
+          </Typography>
+        )}
+
+        {notifications?.map(notification => (
+          <MenuItem
+            key={notification._id}
+            onClick={() => handleSelect(notification)}
+            sx={{
+              alignItems: 'flex-start',
+              whiteSpace: 'normal',
+              backgroundColor: notification.readAt ? undefined : 'action.hover',
+            }}
+          >
+            <ListItemIcon sx={{ mt: 0.5 }}>{ICONS[notification.type]}</ListItemIcon>
+            <ListItemText
+              primary={notification.title}
+              primaryTypographyProps={{ fontWeight: notification.readAt ? 400 : 600, variant: 'body2' }}
+              secondary={[
+                notification.body,
+                formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true }),
+              ].filter(Boolean).join(' • ')}
+            />
+          </MenuItem>
+        ))}
+
+        {loading && (
+          <Box display="flex" justifyContent="center" p={2}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+        {!loading && nextCursor && (
+          <Box display="flex" justifyContent="center" pb={1}>
+            <Button size="small" onClick={() => load(nextCursor)}>Show older</Button>
+          </Box>
+        )}
+      </Menu>
+    </>
+  );
+};
+
+export default NotificationMenu;
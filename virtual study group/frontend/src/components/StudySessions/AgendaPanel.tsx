@@ -0,0 +1,356 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  ArrowDownward,
+  ArrowUpward,
+  Check,
+  CheckCircle,
+  Close,
+  Delete,
+  Edit,
+  PlayArrow,
+  RadioButtonUnchecked,
+  SkipNext,
+} from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { AgendaState, AgendaStateItem } from '../../types';
+import { studySessionService } from '../../services/studySessionService';
+import { useSocket } from '../../contexts/SocketContext';
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.floor(Math.abs(ms) / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+interface AgendaReviewProps {
+  items: AgendaStateItem[];
+}
+
+// Planned against actual minutes per topic, for looking back on a session
+export const AgendaReview: React.FC<AgendaReviewProps> = ({ items }) => {
+  if (items.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        This session had no agenda.
+      </Typography>
+    );
+  }
+
+  const planned = items.reduce((total, item) => total + item.duration, 0);
+  const actual = items.reduce((total, item) => total + (item.actualMinutes || 0), 0);
+
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Topic</TableCell>
+          <TableCell align="right">Planned</TableCell>
+          <TableCell align="right">Actual</TableCell>
+          <TableCell align="right">Difference</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {items.map(item => {
+          const difference = item.actualMinutes !== null ? item.actualMinutes - item.duration : null;
+          return (
+            <TableRow key={item._id}>
+              <TableCell>{item.topic}</TableCell>
+              <TableCell align="right">{item.duration} min</TableCell>
+              <TableCell align="right">
+                {item.actualMinutes !== null ? `${item.actualMinutes} min` : 'Not covered'}
+              </TableCell>
+              <TableCell
+                align="right"
+                sx={{ color: difference && difference > 0 ? 'error.main' : 'text.secondary' }}
+              >
+                {difference !== null ? `${difference > 0 ? '+' : ''}${difference} min` : '–'}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+        <TableRow>
+          <TableCell><strong>Total</strong></TableCell>
+          <TableCell align="right"><strong>{planned} min</strong></TableCell>
+          <TableCell align="right"><strong>{actual} min</strong></TableCell>
+          <TableCell />
+        </TableRow>
+      </TableBody>
+    </Table>
+  );
+};
+
+interface AgendaPanelProps {
+  sessionId: string;
+  // Hosts, co-hosts and group moderators edit the agenda
+  canManage: boolean;
+}
+
+// The agenda in the session room. Everyone sees the running topic with its
+// countdown; the hosts edit the agenda and move on to the next topic. The
+// server pushes every change with `agenda-updated`.
+const AgendaPanel: React.FC<AgendaPanelProps> = ({ sessionId, canManage }) => {
+  const { socket } = useSocket();
+  const [agenda, setAgenda] = useState<AgendaState | null>(null);
+  // How far the server clock is ahead of ours, so countdowns agree
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [newTopic, setNewTopic] = useState('');
+  const [newDuration, setNewDuration] = useState(10);
+  const [editing, setEditing] = useState<{ itemId: string; topic: string; duration: number } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const receive = (state: AgendaState) => {
+    setNow(Date.now());
+    setClockOffset(new Date(state.serverTime).getTime() - Date.now());
+    setAgenda(state);
+  };
+
+  useEffect(() => {
+    setAgenda(null);
+    studySessionService.getAgenda(sessionId)
+      .then(receive)
+      .catch(error => {
+        console.error('Error fetching agenda:', error);
+        toast.error(error.response?.data?.message || 'Failed to load agenda');
+      });
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleUpdate = (state: AgendaState) => {
+      if (state.sessionId === sessionId) receive(state);
+    };
+
+    socket.on('agenda-updated', handleUpdate);
+    return () => {
+      socket.off('agenda-updated', handleUpdate);
+    };
+  }, [socket, sessionId]);
+
+  // Tick the countdown only while a topic is running
+  const running = Boolean(agenda?.currentEndsAt);
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  const change = async (request: () => Promise<AgendaState>) => {
+    setBusy(true);
+    try {
+      receive(await request());
+      return true;
+    } catch (error: any) {
+      console.error('Error changing agenda:', error);
+      toast.error(error.response?.data?.message || 'Failed to update agenda');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTopic.trim()) return;
+    if (await change(() => studySessionService.addAgendaItem(sessionId, { topic: newTopic.trim(), duration: newDuration }))) {
+      setNewTopic('');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing || !editing.topic.trim()) return;
+    const { itemId, topic, duration } = editing;
+    if (await change(() => studySessionService.updateAgendaItem(sessionId, itemId, { topic: topic.trim(), duration }))) {
+      setEditing(null);
+    }
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    if (!agenda) return;
+    const order = agenda.items.map(item => item._id);
+    [order[index], order[index + offset]] = [order[index + offset], order[index]];
+    change(() => studySessionService.reorderAgenda(sessionId, order));
+  };
+
+  if (!agenda) {
+    return (
+      <Paper sx={{ p: 2, display: 'flex', justifyContent: 'center' }}>
+        <CircularProgress size={24} />
+      </Paper>
+    );
+  }
+
+  const current = agenda.items.find(item => item._id === agenda.currentItemId);
+  const remaining = agenda.currentEndsAt ? new Date(agenda.currentEndsAt).getTime() - (now + clockOffset) : 0;
+  const hasOpenItems = agenda.items.some(item => !item.startedAt);
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center">
+        <Typography variant="h6">Agenda</Typography>
+        <Typography variant="caption" color="text.secondary">
+          {agenda.plannedMinutes} min planned
+        </Typography>
+      </Box>
+
+      {current && (
+        <Box sx={{ my: 1 }}>
+          <Typography variant="body2" color="text.secondary">Now discussing</Typography>
+          <Box display="flex" justifyContent="space-between" alignItems="baseline">
+            <Typography variant="subtitle1" fontWeight={500}>{current.topic}</Typography>
+            <Typography variant="h6" color={remaining < 0 ? 'error.main' : 'text.primary'}>
+              {remaining < 0 ? `+${formatCountdown(remaining)}` : formatCountdown(remaining)}
+            </Typography>
+          </Box>
+          <LinearProgress
+            variant="determinate"
+            color={remaining < 0 ? 'error' : 'primary'}
+            value={Math.min(100, Math.max(0, 100 - remaining / (current.duration * 600)))}
+          />
+        </Box>
+      )}
+
+      <List dense disablePadding>
+        {agenda.items.map((item, index) => (
+          <ListItem
+            key={item._id}
+            disableGutters
+            selected={item._id === agenda.currentItemId}
+            secondaryAction={canManage && !editing && (
+              <Box>
+                <IconButton size="small" disabled={busy || index === 0} onClick={() => handleMove(index, -1)}>
+                  <ArrowUpward fontSize="small" />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  disabled={busy || index === agenda.items.length - 1}
+                  onClick={() => handleMove(index, 1)}
+                >
+                  <ArrowDownward fontSize="small" />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  disabled={busy}
+                  onClick={() => setEditing({ itemId: item._id, topic: item.topic, duration: item.duration })}
+                >
+                  <Edit fontSize="small" />
+                </IconButton>
+                {!item.startedAt && (
+                  <IconButton
+                    size="small"
+                    disabled={busy}
+                    onClick={() => change(() => studySessionService.removeAgendaItem(sessionId, item._id))}
+                  >
+                    <Delete fontSize="small" />
+                  </IconButton>
+                )}
+              </Box>
+            )}
+          >
+            {editing?.itemId === item._id ? (
+              <Box display="flex" gap={1} alignItems="center" width="100%">
+                <TextField
+                  size="small"
+                  value={editing.topic}
+                  onChange={(e) => setEditing({ ...editing, topic: e.target.value })}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  size="small"
+                  type="number"
+                  value={editing.duration}
+                  onChange={(e) => setEditing({ ...editing, duration: Number(e.target.value) })}
+                  inputProps={{ min: 1, max: 480 }}
+                  sx={{ width: 80 }}
+                />
+                <IconButton size="small" disabled={busy} onClick={handleSave}>
+                  <Check fontSize="small" />
+                </IconButton>
+                <IconButton size="small" onClick={() => setEditing(null)}>
+                  <Close fontSize="small" />
+                </IconButton>
+              </Box>
+            ) : (
+              <>
+                <Box sx={{ mr: 1, display: 'flex', color: item.completed ? 'success.main' : 'text.disabled' }}>
+                  {item.completed ? <CheckCircle fontSize="small" /> : <RadioButtonUnchecked fontSize="small" />}
+                </Box>
+                <ListItemText
+                  primary={item.topic}
+                  secondary={
+                    item.actualMinutes !== null
+                      ? `${item.duration} min planned • ${item.actualMinutes} min actual`
+                      : `${item.duration} min planned`
+                  }
+                />
+              </>
+            )}
+          </ListItem>
+        ))}
+      </List>
+
+      {agenda.items.length === 0 && (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 1 }}>
+          No agenda has been set for this session.
+        </Typography>
+      )}
+
+      {canManage && (
+        <>
+          <Box component="form" onSubmit={handleAdd} display="flex" gap={1} sx={{ mt: 1 }}>
+            <TextField
+              size="small"
+              placeholder="Add a topic"
+              value={newTopic}
+              onChange={(e) => setNewTopic(e.target.value)}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Min"
+              value={newDuration}
+              onChange={(e) => setNewDuration(Number(e.target.value))}
+              inputProps={{ min: 1, max: 480 }}
+              sx={{ width: 80 }}
+            />
+            <Button type="submit" disabled={busy || !newTopic.trim()}>Add</Button>
+          </Box>
+          {(current || hasOpenItems) && (
+            <Button
+              fullWidth
+              variant="contained"
+              sx={{ mt: 1 }}
+              disabled={busy}
+              startIcon={current ? <SkipNext /> : <PlayArrow />}
+              onClick={() => change(() => studySessionService.advanceAgenda(sessionId))}
+            >
+              {!current ? 'Start Agenda' : hasOpenItems ? 'Next Topic' : 'Finish Agenda'}
+            </Button>
+          )}
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default AgendaPanel;
@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+} from '@mui/material';
+import toast from 'react-hot-toast';
+import { AgendaState } from '../../types';
+import { studySessionService } from '../../services/studySessionService';
+import { AgendaReview } from './AgendaPanel';
+
+interface AgendaReviewDialogProps {
+  session: { _id: string; title: string } | null;
+  onClose: () => void;
+}
+
+// How long each topic of a finished session took compared to the plan
+const AgendaReviewDialog: React.FC<AgendaReviewDialogProps> = ({ session, onClose }) => {
+  const [agenda, setAgenda] = useState<AgendaState | null>(null);
+
+  useEffect(() => {
+    setAgenda(null);
+    if (!session) return;
+
+    studySessionService.getAgenda(session._id)
+      .then(setAgenda)
+      .catch(error => {
+        console.error('Error fetching agenda:', error);
+        toast.error(error.response?.data?.message || 'Failed to load agenda');
+      });
+  }, [session]);
+
+  return (
+    <Dialog open={Boolean(session)} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Agenda – {session?.title}</DialogTitle>
+      <DialogContent>
+        {!agenda ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <AgendaReview items={agenda.items} />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AgendaReviewDialog;
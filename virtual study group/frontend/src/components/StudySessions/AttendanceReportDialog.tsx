@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Avatar,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Download } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { BreakoutAttendanceRound, SessionAttendanceReport } from '../../types';
+import { studySessionService } from '../../services/studySessionService';
+import { useAuthStore } from '../../stores/authStore';
+import { formatInTimezone, getViewerTimezone } from '../../utils/timezone';
+import { saveFile } from '../../utils/download';
+
+const TIME_OPTIONS: Intl.DateTimeFormatOptions = { hour: 'numeric', minute: '2-digit' };
+
+interface AttendanceReportDialogProps {
+  sessionId: string | null;
+  onClose: () => void;
+}
+
+// Who attended a session and for how long, for its host
+const AttendanceReportDialog: React.FC<AttendanceReportDialogProps> = ({ sessionId, onClose }) => {
+  const { user } = useAuthStore();
+  const viewerTimezone = getViewerTimezone(user);
+  const [report, setReport] = useState<SessionAttendanceReport | null>(null);
+  const [breakouts, setBreakouts] = useState<BreakoutAttendanceRound[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setReport(null);
+      setBreakouts([]);
+      return;
+    }
+
+    setLoading(true);
+    studySessionService.getAttendance(sessionId)
+      .then(setReport)
+      .catch(error => {
+        console.error('Error fetching attendance:', error);
+        toast.error(error.response?.data?.message || 'Failed to load attendance');
+      })
+      .finally(() => setLoading(false));
+
+    studySessionService.getBreakoutAttendance(sessionId)
+      .then(setBreakouts)
+      .catch(error => console.error('Error fetching breakout attendance:', error));
+  }, [sessionId]);
+
+  const handleDownload = async () => {
+    if (!sessionId) return;
+
+    try {
+      setDownloading(true);
+      const { blob, fileName } = await studySessionService.downloadAttendance(sessionId);
+      saveFile(blob, fileName);
+    } catch (error) {
+      console.error('Error downloading attendance:', error);
+      toast.error('Failed to download attendance');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const formatTime = (date: string) => formatInTimezone(date, viewerTimezone, TIME_OPTIONS);
+
+  return (
+    <Dialog open={Boolean(sessionId)} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Attendance{report ? ` – ${report.session.title}` : ''}</DialogTitle>
+      <DialogContent>
+        {loading || !report ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : report.attendees.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            {report.session.actualStart ? 'Nobody attended this session.' : 'This session has not started yet.'}
+          </Typography>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              {report.attendees.length} attendee{report.attendees.length !== 1 ? 's' : ''} • {report.totalMinutes} minutes
+              in total
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell align="right">Minutes</TableCell>
+                  <TableCell>Joined</TableCell>
+                  <TableCell>Left</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {report.attendees.map(attendee => (
+                  <TableRow key={attendee.user._id}>
+                    <TableCell>
+                      <Box display="flex" alignItems="center" gap={1}>
+                        <Avatar src={attendee.user.avatar} sx={{ width: 24, height: 24 }}>
+                          {attendee.user.firstName[0]}
+                        </Avatar>
+                        {attendee.user.firstName} {attendee.user.lastName}
+                      </Box>
+                    </TableCell>
+                    <TableCell align="right">{attendee.minutes}</TableCell>
+                    <TableCell>{formatTime(attendee.firstJoined)}</TableCell>
+                    <TableCell>
+                      {formatTime(attendee.lastLeft)}
+                      {attendee.segments.length > 1 && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          Rejoined {attendee.segments.length - 1} time{attendee.segments.length > 2 ? 's' : ''}
+                        </Typography>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {breakouts.map(round => (
+              <Box key={round._id} sx={{ mt: 3 }}>
+                <Typography variant="subtitle2" gutterBottom>
+                  Breakout rooms at {formatTime(round.startedAt)} • {round.duration} min planned
+                </Typography>
+                <Table size="small">
+                  <TableBody>
+                    {round.rooms.map(room => room.members.map((member, index) => (
+                      <TableRow key={`${room._id}-${member.user._id}`}>
+                        <TableCell sx={{ width: '30%' }}>{index === 0 ? room.name : ''}</TableCell>
+                        <TableCell>{member.user.firstName} {member.user.lastName}</TableCell>
+                        <TableCell align="right">{member.minutes} min</TableCell>
+                      </TableRow>
+                    )))}
+                  </TableBody>
+                </Table>
+              </Box>
+            ))}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button
+          variant="contained"
+          startIcon={<Download />}
+          onClick={handleDownload}
+          disabled={!report || report.attendees.length === 0 || downloading}
+        >
+          Download CSV
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AttendanceReportDialog;
@@ -0,0 +1,358 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { Campaign, GroupWork, MeetingRoom } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { BreakoutRoom, BreakoutState, PresentUser } from '../../types';
+import { studySessionService } from '../../services/studySessionService';
+import { useSocket } from '../../contexts/SocketContext';
+import { useAuthStore } from '../../stores/authStore';
+
+const DEFAULT_MINUTES = 15;
+const MAX_MINUTES = 120;
+const MAX_ROOMS = 20;
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const fullName = (user: PresentUser) => `${user.firstName} ${user.lastName}`;
+
+interface BreakoutSetupDialogProps {
+  open: boolean;
+  sessionId: string;
+  // The people in the session room, who can be put in a room by hand
+  present: PresentUser[];
+  onClose: () => void;
+  onStarted: (state: BreakoutState) => void;
+}
+
+// Splits the session into rooms: at random among the people present (hosts
+// stay in the main room), or by picking a room for each person
+const BreakoutSetupDialog: React.FC<BreakoutSetupDialogProps> = ({ open, sessionId, present, onClose, onStarted }) => {
+  const [assignment, setAssignment] = useState<'random' | 'manual'>('random');
+  const [roomCount, setRoomCount] = useState(2);
+  const [duration, setDuration] = useState(DEFAULT_MINUTES);
+  // Room index per user id; people without one stay in the main room
+  const [rooms, setRooms] = useState<Record<string, number>>({});
+  const [starting, setStarting] = useState(false);
+
+  useEffect(() => {
+    if (open) setRooms({});
+  }, [open]);
+
+  const manualRooms = Array.from({ length: roomCount }, (_, index) => ({
+    members: Object.keys(rooms).filter(userId => rooms[userId] === index)
+  })).filter(room => room.members.length > 0);
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      onStarted(await studySessionService.startBreakouts(sessionId, assignment === 'random'
+        ? { assignment, roomCount, duration }
+        : { assignment, rooms: manualRooms, duration }));
+      onClose();
+    } catch (error: any) {
+      console.error('Error opening breakout rooms:', error);
+      toast.error(error.response?.data?.message || 'Failed to open breakout rooms');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Open Breakout Rooms</DialogTitle>
+      <DialogContent>
+        <ToggleButtonGroup
+          exclusive
+          fullWidth
+          size="small"
+          value={assignment}
+          onChange={(_, value) => value && setAssignment(value)}
+          sx={{ mt: 1 }}
+        >
+          <ToggleButton value="random">Random</ToggleButton>
+          <ToggleButton value="manual">Choose</ToggleButton>
+        </ToggleButtonGroup>
+
+        <Box display="flex" gap={2} sx={{ mt: 2 }}>
+          <TextField
+            label="Rooms"
+            type="number"
+            size="small"
+            value={roomCount}
+            onChange={(e) => setRoomCount(Math.min(MAX_ROOMS, Math.max(assignment === 'random' ? 2 : 1, Number(e.target.value))))}
+            inputProps={{ min: assignment === 'random' ? 2 : 1, max: MAX_ROOMS }}
+            fullWidth
+          />
+          <TextField
+            label="Minutes"
+            type="number"
+            size="small"
+            value={duration}
+            onChange={(e) => setDuration(Math.min(MAX_MINUTES, Math.max(1, Number(e.target.value))))}
+            inputProps={{ min: 1, max: MAX_MINUTES }}
+            fullWidth
+          />
+        </Box>
+
+        {assignment === 'random' ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            Everyone in the session apart from the hosts is spread evenly over {roomCount} rooms.
+          </Typography>
+        ) : (
+          <List dense>
+            {present.map(person => (
+              <ListItem key={person._id} disableGutters>
+                <ListItemText primary={fullName(person)} />
+                <FormControl size="small" sx={{ minWidth: 140 }}>
+                  <InputLabel>Room</InputLabel>
+                  <Select
+                    label="Room"
+                    value={rooms[person._id] ?? ''}
+                    onChange={(e) => {
+                      const { [person._id]: _previous, ...others } = rooms;
+                      setRooms(e.target.value === '' ? others : { ...others, [person._id]: Number(e.target.value) });
+                    }}
+                  >
+                    <MenuItem value="">Main room</MenuItem>
+                    {Array.from({ length: roomCount }, (_, index) => (
+                      <MenuItem key={index} value={index}>Room {index + 1}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          disabled={starting || (assignment === 'manual' && manualRooms.length === 0)}
+          onClick={handleStart}
+        >
+          Open Rooms
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+interface BreakoutPanelProps {
+  sessionId: string;
+  // Hosts, co-hosts and group moderators open and close rooms
+  canManage: boolean;
+  live: boolean;
+  present: PresentUser[];
+  // The viewer's room whenever it changes, null for the main room
+  onRoomChange: (room: BreakoutRoom | null) => void;
+}
+
+// Breakout rooms in the session room. Everyone sees the open round with its
+// countdown and which room they are in; the hosts open and close rounds and
+// message every room. The server pushes changes with `breakouts-updated`
+// and host messages with `breakout-broadcast`.
+const BreakoutPanel: React.FC<BreakoutPanelProps> = ({ sessionId, canManage, live, present, onRoomChange }) => {
+  const { socket } = useSocket();
+  const { user } = useAuthStore();
+  const [state, setState] = useState<BreakoutState | null>(null);
+  // How far the server clock is ahead of ours, so countdowns agree
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [setupOpen, setSetupOpen] = useState(false);
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const receive = (next: BreakoutState) => {
+    setNow(Date.now());
+    setClockOffset(new Date(next.serverTime).getTime() - Date.now());
+    setState(next);
+  };
+
+  useEffect(() => {
+    setState(null);
+    studySessionService.getBreakouts(sessionId)
+      .then(receive)
+      .catch(error => console.error('Error fetching breakout rooms:', error));
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleUpdate = (next: BreakoutState) => {
+      if (next.sessionId !== sessionId) return;
+      if (!next.round) toast('Everyone is back in the main room');
+      receive(next);
+    };
+    const handleBroadcast = (data: { sessionId: string; message: string; from: string }) => {
+      if (data.sessionId === sessionId) {
+        toast(`${data.from}: ${data.message}`, { icon: '📢', duration: 8000 });
+      }
+    };
+
+    socket.on('breakouts-updated', handleUpdate);
+    socket.on('breakout-broadcast', handleBroadcast);
+    return () => {
+      socket.off('breakouts-updated', handleUpdate);
+      socket.off('breakout-broadcast', handleBroadcast);
+    };
+  }, [socket, sessionId]);
+
+  const round = state?.round || null;
+  const myRoom = round?.rooms.find(room => room.members.some(member => member._id === user?._id)) || null;
+
+  // The page only acts when the room is a different one
+  useEffect(() => {
+    onRoomChange(myRoom);
+  }, [myRoom, onRoomChange]);
+
+  // Tick the countdown only while a round is open
+  useEffect(() => {
+    if (!round) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [round]);
+
+  const handleEnd = async () => {
+    setBusy(true);
+    try {
+      receive(await studySessionService.endBreakouts(sessionId));
+    } catch (error: any) {
+      console.error('Error closing breakout rooms:', error);
+      toast.error(error.response?.data?.message || 'Failed to close breakout rooms');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleBroadcast = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim()) return;
+
+    setBusy(true);
+    try {
+      await studySessionService.broadcastToBreakouts(sessionId, message.trim());
+      setMessage('');
+    } catch (error: any) {
+      console.error('Error messaging breakout rooms:', error);
+      toast.error(error.response?.data?.message || 'Failed to send message');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Nothing to show to participants while everyone is together
+  if (!state || (!round && !(canManage && live))) {
+    return null;
+  }
+
+  const remaining = round ? new Date(round.endsAt).getTime() - (now + clockOffset) : 0;
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center">
+        <Typography variant="h6">Breakout Rooms</Typography>
+        {round && <Typography variant="h6">{formatCountdown(remaining)}</Typography>}
+      </Box>
+
+      {!round ? (
+        <Button
+          fullWidth
+          variant="outlined"
+          startIcon={<GroupWork />}
+          sx={{ mt: 1 }}
+          onClick={() => setSetupOpen(true)}
+        >
+          Split Into Rooms
+        </Button>
+      ) : (
+        <>
+          <LinearProgress
+            variant="determinate"
+            value={Math.min(100, Math.max(0, 100 - remaining / (round.duration * 600)))}
+            sx={{ my: 1 }}
+          />
+          <Typography variant="body2" color="text.secondary">
+            {myRoom ? `You're in ${myRoom.name}` : 'You are in the main room'}
+            {' • everyone returns when the time is up'}
+          </Typography>
+
+          <List dense disablePadding>
+            {round.rooms.map(room => (
+              <ListItem key={room._id} disableGutters selected={room._id === myRoom?._id}>
+                <MeetingRoom fontSize="small" sx={{ mr: 1, color: 'text.secondary' }} />
+                <ListItemText
+                  primary={room.name}
+                  secondary={
+                    <Box component="span" display="flex" flexWrap="wrap" gap={0.5} sx={{ mt: 0.5 }}>
+                      {room.members.map(member => (
+                        <Chip key={member._id} size="small" label={fullName(member)} />
+                      ))}
+                    </Box>
+                  }
+                  secondaryTypographyProps={{ component: 'div' }}
+                />
+              </ListItem>
+            ))}
+          </List>
+
+          {canManage && (
+            <>
+              <Box component="form" onSubmit={handleBroadcast} display="flex" gap={1} sx={{ mt: 1 }}>
+                <TextField
+                  size="small"
+                  placeholder="Message all rooms"
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  inputProps={{ maxLength: 500 }}
+                  sx={{ flex: 1 }}
+                />
+                <Button type="submit" disabled={busy || !message.trim()} startIcon={<Campaign />}>
+                  Send
+                </Button>
+              </Box>
+              <Button fullWidth variant="contained" sx={{ mt: 1 }} disabled={busy} onClick={handleEnd}>
+                Close Rooms Now
+              </Button>
+            </>
+          )}
+        </>
+      )}
+
+      <BreakoutSetupDialog
+        open={setupOpen}
+        sessionId={sessionId}
+        present={present}
+        onClose={() => setSetupOpen(false)}
+        onStarted={receive}
+      />
+    </Paper>
+  );
+};
+
+export default BreakoutPanel;
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { CancellationDetails } from '../../types';
+import { useAuthStore } from '../../stores/authStore';
+import { getViewerTimezone, zonedInputToDate } from '../../utils/timezone';
+
+const MAX_REASON_LENGTH = 500;
+
+interface CancelSessionDialogProps {
+  session: { title: string; scheduledStart: Date; scheduledEnd: Date } | null;
+  // Cancel the upcoming occurrences of the session's series instead of just this one
+  series?: boolean;
+  onClose: () => void;
+  onConfirm: (details: CancellationDetails) => Promise<void>;
+}
+
+// Asks the host why a session is cancelled and, for a single session, when
+// to meet instead. Participants are sent both.
+const CancelSessionDialog: React.FC<CancelSessionDialogProps> = ({ session, series = false, onClose, onConfirm }) => {
+  const { user } = useAuthStore();
+  const [reason, setReason] = useState('');
+  const [suggest, setSuggest] = useState(false);
+  const [suggestedStart, setSuggestedStart] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setReason('');
+    setSuggest(false);
+    setSuggestedStart('');
+  }, [session]);
+
+  const handleConfirm = async () => {
+    if (!session) return;
+
+    const details: CancellationDetails = { reason: reason.trim() };
+    if (!series && suggest && suggestedStart) {
+      // The suggestion keeps the length of the cancelled session
+      const start = zonedInputToDate(suggestedStart, getViewerTimezone(user));
+      const length = new Date(session.scheduledEnd).getTime() - new Date(session.scheduledStart).getTime();
+      details.suggestedStart = start.toISOString();
+      details.suggestedEnd = new Date(start.getTime() + length).toISOString();
+    }
+
+    setSubmitting(true);
+    try {
+      await onConfirm(details);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(session)} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{series ? 'Cancel Series' : 'Cancel Session'} – {session?.title}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          {series
+            ? 'Every upcoming occurrence is cancelled and its participants are told why.'
+            : 'Everyone taking part is told why. You can restore the session for a while afterwards.'}
+        </Typography>
+        <TextField
+          label="Reason"
+          fullWidth
+          multiline
+          rows={3}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          inputProps={{ maxLength: MAX_REASON_LENGTH }}
+          helperText={`${reason.length}/${MAX_REASON_LENGTH}`}
+          margin="normal"
+        />
+        {!series && (
+          <>
+            <FormControlLabel
+              control={<Switch checked={suggest} onChange={(e) => setSuggest(e.target.checked)} />}
+              label="Suggest another time"
+            />
+            {suggest && (
+              <TextField
+                label="New start time"
+                type="datetime-local"
+                fullWidth
+                value={suggestedStart}
+                onChange={(e) => setSuggestedStart(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                margin="normal"
+              />
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{series ? 'Keep Series' : 'Keep Session'}</Button>
+        <Button
+          color="error"
+          variant="contained"
+          disabled={submitting || !reason.trim() || (suggest && !suggestedStart)}
+          onClick={handleConfirm}
+        >
+          {series ? 'Cancel Series' : 'Cancel Session'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CancelSessionDialog;
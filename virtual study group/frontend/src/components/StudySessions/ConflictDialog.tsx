@@ -0,0 +1,80 @@
+import React from 'react';
+import {
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import { SessionConflict } from '../../types';
+import { useAuthStore } from '../../stores/authStore';
+import { formatSessionTime, getViewerTimezone } from '../../utils/timezone';
+
+interface ConflictListProps {
+  conflicts: SessionConflict[];
+}
+
+export const ConflictList: React.FC<ConflictListProps> = ({ conflicts }) => {
+  const { user } = useAuthStore();
+  const viewerTimezone = getViewerTimezone(user);
+
+  return (
+    <List dense disablePadding>
+      {conflicts.map(conflict => (
+        <ListItem key={conflict._id} disableGutters>
+          <ListItemText
+            primary={conflict.title}
+            secondary={
+              formatSessionTime(conflict, viewerTimezone).viewer +
+              (conflict.group ? ` • ${conflict.group.name}` : '')
+            }
+          />
+        </ListItem>
+      ))}
+    </List>
+  );
+};
+
+interface ConflictDialogProps {
+  open: boolean;
+  conflicts: SessionConflict[];
+  confirmLabel: string;
+  loading?: boolean;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+// Asks whether to go ahead with an action the server rejected because it
+// would double-book the user
+const ConflictDialog: React.FC<ConflictDialogProps> = ({
+  open,
+  conflicts,
+  confirmLabel,
+  loading = false,
+  onConfirm,
+  onClose,
+}) => (
+  <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+    <DialogTitle>Scheduling Conflict</DialogTitle>
+    <DialogContent>
+      <Typography variant="body2" gutterBottom>
+        This overlaps with {conflicts.length === 1 ? 'another session' : `${conflicts.length} sessions`} you
+        are already part of:
+      </Typography>
+      <ConflictList conflicts={conflicts} />
+    </DialogContent>
+    <DialogActions>
+      <Button onClick={onClose}>Cancel</Button>
+      <Button variant="contained" color="warning" onClick={onConfirm} disabled={loading}>
+        {loading ? <CircularProgress size={24} /> : confirmLabel}
+      </Button>
+    </DialogActions>
+  </Dialog>
+);
+
+export default ConflictDialog;
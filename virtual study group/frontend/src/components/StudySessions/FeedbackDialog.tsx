@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Rating,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import toast from 'react-hot-toast';
+import { MyFeedback } from '../../types';
+import { studySessionService } from '../../services/studySessionService';
+import { useAuthStore } from '../../stores/authStore';
+import { formatInTimezone, getViewerTimezone } from '../../utils/timezone';
+import { fieldErrorMessages, getValidationErrors } from '../../utils/apiErrors';
+
+const DEADLINE_OPTIONS: Intl.DateTimeFormatOptions = {
+  weekday: 'short',
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+};
+
+interface FeedbackDialogProps {
+  session: { _id: string; title: string } | null;
+  onClose: () => void;
+  // "Later" instead of "Cancel", for prompts the user didn't ask for
+  prompt?: boolean;
+  // Called instead of onClose once the feedback is saved
+  onSubmitted?: (sessionId: string) => void;
+}
+
+// Rate a completed session, or change a rating given earlier
+const FeedbackDialog: React.FC<FeedbackDialogProps> = ({ session, onClose, prompt = false, onSubmitted }) => {
+  const { user } = useAuthStore();
+  const viewerTimezone = getViewerTimezone(user);
+  const [mine, setMine] = useState<MyFeedback | null>(null);
+  const [rating, setRating] = useState<number | null>(null);
+  const [comment, setComment] = useState('');
+  const [anonymous, setAnonymous] = useState(false);
+  const [commentError, setCommentError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setMine(null);
+    setCommentError('');
+    if (!session) return;
+
+    studySessionService.getMyFeedback(session._id)
+      .then(data => {
+        setMine(data);
+        setRating(data.feedback?.rating ?? null);
+        setComment(data.feedback?.comment || '');
+        setAnonymous(data.feedback?.anonymous || false);
+      })
+      .catch(error => {
+        console.error('Error fetching feedback:', error);
+        setMine({ feedback: null, editableUntil: null, denied: 'Failed to load your feedback' });
+      });
+  }, [session]);
+
+  const handleSubmit = async () => {
+    if (!session || !rating) return;
+
+    try {
+      setSaving(true);
+      await studySessionService.submitFeedback(session._id, { rating, comment, anonymous });
+      toast.success(mine?.feedback ? 'Feedback updated' : 'Thanks for your feedback!');
+      if (onSubmitted) {
+        onSubmitted(session._id);
+      } else {
+        onClose();
+      }
+    } catch (error: any) {
+      const errors = getValidationErrors(error);
+      if (errors) {
+        setCommentError(fieldErrorMessages(errors).comment || '');
+      } else {
+        console.error('Error saving feedback:', error);
+        toast.error(error.response?.data?.message || 'Failed to save feedback');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const readOnly = Boolean(mine?.denied);
+
+  return (
+    <Dialog open={Boolean(session)} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>How was "{session?.title}"?</DialogTitle>
+      <DialogContent>
+        {!mine ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Box display="flex" flexDirection="column" gap={2} pt={1}>
+            {mine.denied && <Alert severity="info">{mine.denied}</Alert>}
+            <Rating
+              value={rating}
+              onChange={(_, value) => setRating(value)}
+              readOnly={readOnly}
+              size="large"
+            />
+            <TextField
+              label="Comment (optional)"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              disabled={readOnly}
+              multiline
+              minRows={3}
+              error={Boolean(commentError)}
+              helperText={commentError || undefined}
+              inputProps={{ maxLength: 1000 }}
+            />
+            <FormControlLabel
+              control={
+                <Switch checked={anonymous} onChange={(e) => setAnonymous(e.target.checked)} disabled={readOnly} />
+              }
+              label="Hide my name from the host"
+            />
+            {!readOnly && mine.editableUntil && (
+              <Typography variant="caption" color="text.secondary">
+                {mine.feedback ? 'You can change your feedback until' : 'Feedback is open until'}{' '}
+                {formatInTimezone(mine.editableUntil, viewerTimezone, DEADLINE_OPTIONS)}.
+              </Typography>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{prompt ? 'Later' : readOnly ? 'Close' : 'Cancel'}</Button>
+        {!readOnly && (
+          <Button variant="contained" onClick={handleSubmit} disabled={!mine || !rating || saving}>
+            {saving ? <CircularProgress size={24} /> : mine?.feedback ? 'Update' : 'Submit'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default FeedbackDialog;
@@ -0,0 +1,70 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useSocket } from '../../contexts/SocketContext';
+import { studySessionService } from '../../services/studySessionService';
+import { PendingFeedbackSession } from '../../types';
+import FeedbackDialog from './FeedbackDialog';
+
+// Sessions the user chose to rate "Later" aren't asked about again in this tab
+const DISMISSED_KEY = 'feedback-prompt-dismissed';
+
+const getDismissed = (): string[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(DISMISSED_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+// Asks the user to rate sessions they took part in once they have ended:
+// on load, and whenever a session they're in ends
+const FeedbackPrompt: React.FC = () => {
+  const { socket } = useSocket();
+  const [pending, setPending] = useState<PendingFeedbackSession[]>([]);
+
+  const fetchPending = useCallback(async () => {
+    try {
+      const sessions = await studySessionService.getPendingFeedback();
+      const dismissed = getDismissed();
+      setPending(sessions.filter(session => !dismissed.includes(session._id)));
+    } catch (error) {
+      console.error('Error fetching pending feedback:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPending();
+  }, [fetchPending]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    socket.on('session-ended', fetchPending);
+    return () => {
+      socket.off('session-ended', fetchPending);
+    };
+  }, [socket, fetchPending]);
+
+  const handleClose = useCallback(() => {
+    setPending(prev => {
+      if (prev[0]) {
+        sessionStorage.setItem(DISMISSED_KEY, JSON.stringify([...getDismissed(), prev[0]._id]));
+      }
+      return prev.slice(1);
+    });
+  }, []);
+
+  const handleSubmitted = useCallback((sessionId: string) => {
+    setPending(prev => prev.filter(session => session._id !== sessionId));
+  }, []);
+
+  return (
+    <FeedbackDialog
+      session={pending[0] || null}
+      onClose={handleClose}
+      onSubmitted={handleSubmitted}
+      prompt
+    />
+  );
+};
+
+export default FeedbackPrompt;
@@ -0,0 +1,103 @@
+import React from 'react';
+import {
+  Avatar,
+  Box,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Rating,
+  Typography,
+} from '@mui/material';
+import { VisibilityOff } from '@mui/icons-material';
+import { formatDistanceToNow } from 'date-fns';
+import { FeedbackSummary, SessionFeedback } from '../../types';
+
+interface RatingSummaryProps {
+  summary: FeedbackSummary;
+}
+
+// Average rating with the number of ratings per star
+export const RatingSummary: React.FC<RatingSummaryProps> = ({ summary }) => {
+  if (summary.count === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No ratings yet.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box display="flex" gap={3} alignItems="center">
+      <Box textAlign="center">
+        <Typography variant="h3">{summary.average?.toFixed(1)}</Typography>
+        <Rating value={summary.average} precision={0.1} readOnly size="small" />
+        <Typography variant="caption" color="text.secondary" display="block">
+          {summary.count} rating{summary.count !== 1 ? 's' : ''}
+        </Typography>
+      </Box>
+      <Box flex={1}>
+        {[5, 4, 3, 2, 1].map(stars => (
+          <Box key={stars} display="flex" alignItems="center" gap={1}>
+            <Typography variant="caption" sx={{ width: 12 }}>{stars}</Typography>
+            <LinearProgress
+              variant="determinate"
+              value={(summary.distribution[stars - 1] / summary.count) * 100}
+              sx={{ flex: 1, height: 8, borderRadius: 4 }}
+            />
+            <Typography variant="caption" color="text.secondary" sx={{ width: 24, textAlign: 'right' }}>
+              {summary.distribution[stars - 1]}
+            </Typography>
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+interface FeedbackCommentsProps {
+  comments: Array<SessionFeedback & { session?: { _id: string; title: string } }>;
+}
+
+// Written feedback, newest first; anonymous authors are shown as such
+export const FeedbackComments: React.FC<FeedbackCommentsProps> = ({ comments }) => {
+  const withText = comments.filter(entry => entry.comment);
+
+  if (withText.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No comments yet.
+      </Typography>
+    );
+  }
+
+  return (
+    <List dense disablePadding>
+      {withText.map(entry => (
+        <ListItem key={entry._id} alignItems="flex-start" disableGutters>
+          <ListItemAvatar>
+            <Avatar src={entry.user?.avatar}>
+              {entry.user ? entry.user.firstName[0] : <VisibilityOff fontSize="small" />}
+            </Avatar>
+          </ListItemAvatar>
+          <ListItemText
+            primary={
+              <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
+                <Typography variant="body2" fontWeight={500}>
+                  {entry.user ? `${entry.user.firstName} ${entry.user.lastName}` : 'Anonymous'}
+                </Typography>
+                <Rating value={entry.rating} readOnly size="small" />
+                <Typography variant="caption" color="text.secondary">
+                  {formatDistanceToNow(new Date(entry.submittedAt), { addSuffix: true })}
+                  {entry.session && ` • ${entry.session.title}`}
+                </Typography>
+              </Box>
+            }
+            secondary={entry.comment}
+          />
+        </ListItem>
+      ))}
+    </List>
+  );
+};
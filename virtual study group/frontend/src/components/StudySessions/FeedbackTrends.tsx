@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Avatar,
+  Box,
+  CircularProgress,
+  Divider,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  MenuItem,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { format, subDays } from 'date-fns';
+import toast from 'react-hot-toast';
+import { FeedbackTrends as FeedbackTrendsData, PresentUser } from '../../types';
+import { studySessionService } from '../../services/studySessionService';
+import { groupsAPI } from '../../services/api';
+import { FeedbackComments, RatingSummary } from './FeedbackSummary';
+
+const periods = [
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last year' },
+];
+
+const TREND_HEIGHT = 60;
+
+interface FeedbackTrendsProps {
+  // Ratings across a group's sessions instead of the sessions I hosted
+  groupId?: string;
+  // Hosts to pick from when looking at a group
+  hosts?: PresentUser[];
+}
+
+// How sessions were rated over a period: the overall summary, the average
+// of every session in order, per-host averages and recent comments
+const FeedbackTrends: React.FC<FeedbackTrendsProps> = ({ groupId, hosts = [] }) => {
+  const [days, setDays] = useState(90);
+  const [host, setHost] = useState('');
+  const [trends, setTrends] = useState<FeedbackTrendsData | null>(null);
+
+  useEffect(() => {
+    const range = { from: subDays(new Date(), days).toISOString() };
+    setTrends(null);
+
+    const request = groupId
+      ? groupsAPI.getFeedback(groupId, { ...range, host: host || undefined }).then(response => response.data)
+      : studySessionService.getFeedbackTrends(range);
+
+    // Ignore responses that arrive after the filters changed again
+    let current = true;
+    request
+      .then(data => current && setTrends(data))
+      .catch((error: any) => {
+        console.error('Error fetching feedback trends:', error);
+        toast.error(error.response?.data?.message || 'Failed to load ratings');
+      });
+
+    return () => {
+      current = false;
+    };
+  }, [groupId, host, days]);
+
+  const rated = trends?.sessions.filter(session => session.average !== null) || [];
+
+  return (
+    <Box>
+      <Box display="flex" gap={1} mb={2}>
+        <TextField select size="small" label="Period" value={days} onChange={(e) => setDays(Number(e.target.value))}>
+          {periods.map(period => (
+            <MenuItem key={period.days} value={period.days}>{period.label}</MenuItem>
+          ))}
+        </TextField>
+        {groupId && hosts.length > 0 && (
+          <TextField
+            select
+            size="small"
+            label="Host"
+            value={host}
+            onChange={(e) => setHost(e.target.value)}
+            sx={{ minWidth: 160 }}
+          >
+            <MenuItem value="">All hosts</MenuItem>
+            {hosts.map(option => (
+              <MenuItem key={option._id} value={option._id}>
+                {option.firstName} {option.lastName}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+      </Box>
+
+      {!trends ? (
+        <Box display="flex" justifyContent="center" p={2}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : (
+        <>
+          <RatingSummary summary={trends.summary} />
+
+          {rated.length > 1 && (
+            <>
+              <Typography variant="subtitle2" sx={{ mt: 2 }} gutterBottom>
+                Average per session
+              </Typography>
+              <Box display="flex" alignItems="flex-end" gap={0.5} height={TREND_HEIGHT}>
+                {rated.map(session => (
+                  <Tooltip
+                    key={session._id}
+                    title={`${session.title} (${format(new Date(session.actualEnd), 'MMM d')}): ${session.average} from ${session.count}`}
+                  >
+                    <Box
+                      flex={1}
+                      maxWidth={24}
+                      bgcolor="primary.main"
+                      borderRadius={0.5}
+                      height={((session.average || 0) / 5) * TREND_HEIGHT}
+                    />
+                  </Tooltip>
+                ))}
+              </Box>
+            </>
+          )}
+
+          {groupId && trends.hosts.length > 1 && (
+            <>
+              <Divider sx={{ my: 2 }} />
+              <Typography variant="subtitle2">By host</Typography>
+              <List dense disablePadding>
+                {trends.hosts.map(entry => (
+                  <ListItem key={entry.host._id} disableGutters>
+                    <ListItemAvatar>
+                      <Avatar src={entry.host.avatar}>{entry.host.firstName[0]}</Avatar>
+                    </ListItemAvatar>
+                    <ListItemText
+                      primary={`${entry.host.firstName} ${entry.host.lastName}`}
+                      secondary={
+                        `${entry.sessions} session${entry.sessions !== 1 ? 's' : ''} • ` +
+                        (entry.average !== null ? `${entry.average.toFixed(1)} from ${entry.count}` : 'not rated')
+                      }
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </>
+          )}
+
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="subtitle2" gutterBottom>
+            Recent comments
+          </Typography>
+          <FeedbackComments comments={trends.comments} />
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default FeedbackTrends;
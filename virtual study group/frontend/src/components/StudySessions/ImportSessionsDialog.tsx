@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Select,
+  Typography,
+} from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { studySessionService } from '../../services/studySessionService';
+import { SessionImportPreview, StudySession } from '../../types';
+import { useAuthStore } from '../../stores/authStore';
+import { formatSessionTime, getViewerTimezone } from '../../utils/timezone';
+
+interface ImportSessionsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: () => void;
+  groups: Array<{ _id: string; name: string }>;
+  sessionTypes: Array<{ value: string; label: string }>;
+}
+
+const statusChip = {
+  new: { label: 'New', color: 'success' as const },
+  duplicate: { label: 'Already imported', color: 'default' as const },
+  invalid: { label: 'Skipped', color: 'warning' as const },
+};
+
+const ImportSessionsDialog: React.FC<ImportSessionsDialogProps> = ({
+  open,
+  onClose,
+  onImported,
+  groups,
+  sessionTypes,
+}) => {
+  const [groupId, setGroupId] = useState('');
+  const [type, setType] = useState<StudySession['type']>('study');
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<SessionImportPreview | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { user } = useAuthStore();
+  const viewerTimezone = getViewerTimezone(user);
+
+  const handleClose = () => {
+    setFile(null);
+    setPreview(null);
+    setSelected([]);
+    onClose();
+  };
+
+  const handlePreview = async () => {
+    if (!file || !groupId) return;
+
+    try {
+      setLoading(true);
+      const result = await studySessionService.previewImport(file, groupId);
+      setPreview(result);
+      setSelected(result.sessions.filter(s => s.status === 'new').map(s => s.importUid));
+    } catch (error: any) {
+      console.error('Failed to preview import:', error);
+      toast.error(error.response?.data?.message || 'Failed to read calendar file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    try {
+      setLoading(true);
+      const sessions = preview.sessions.filter(s => selected.includes(s.importUid));
+      const { created, skipped } = await studySessionService.importSessions(preview.groupId, type, sessions);
+      toast.success(
+        skipped.length > 0
+          ? `Imported ${created.length} sessions, skipped ${skipped.length}`
+          : `Imported ${created.length} sessions`
+      );
+      onImported();
+      handleClose();
+    } catch (error: any) {
+      console.error('Failed to import sessions:', error);
+      toast.error(error.response?.data?.message || 'Failed to import sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (importUid: string) => {
+    setSelected(prev =>
+      prev.includes(importUid) ? prev.filter(id => id !== importUid) : [...prev, importUid]
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import Sessions from Calendar</DialogTitle>
+      <DialogContent>
+        {!preview ? (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Upload an .ics file, for example a lecture or exam schedule. You can review the
+              sessions before anything is created.
+            </Typography>
+
+            <FormControl fullWidth margin="normal">
+              <InputLabel>Select Group</InputLabel>
+              <Select value={groupId} label="Select Group" onChange={(e) => setGroupId(e.target.value)}>
+                {groups.map(group => (
+                  <MenuItem key={group._id} value={group._id}>
+                    {group.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <Button variant="outlined" component="label" startIcon={<UploadFile />} sx={{ mt: 1 }}>
+              {file ? file.name : 'Choose .ics file'}
+              <input
+                type="file"
+                accept=".ics,text/calendar"
+                hidden
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </Button>
+          </>
+        ) : (
+          <>
+            <Box display="flex" gap={1} alignItems="center" flexWrap="wrap" mb={1}>
+              <Typography variant="body2" sx={{ mr: 1 }}>
+                {preview.fileName}
+              </Typography>
+              <Chip size="small" color="success" label={`${preview.counts.new} new`} />
+              <Chip size="small" label={`${preview.counts.duplicate} already imported`} />
+              {preview.counts.invalid > 0 && (
+                <Chip size="small" color="warning" label={`${preview.counts.invalid} skipped`} />
+              )}
+            </Box>
+
+            <FormControl fullWidth margin="dense" size="small">
+              <InputLabel>Session Type</InputLabel>
+              <Select
+                value={type}
+                label="Session Type"
+                onChange={(e) => setType(e.target.value as StudySession['type'])}
+              >
+                {sessionTypes.map(sessionType => (
+                  <MenuItem key={sessionType.value} value={sessionType.value}>
+                    {sessionType.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <List dense sx={{ maxHeight: 400, overflow: 'auto' }}>
+              {preview.sessions.map(session => (
+                <ListItem
+                  key={session.importUid}
+                  button
+                  disabled={session.status !== 'new'}
+                  onClick={() => toggle(session.importUid)}
+                  secondaryAction={
+                    <Chip size="small" {...statusChip[session.status]} title={session.reason} />
+                  }
+                >
+                  <ListItemIcon>
+                    <Checkbox
+                      edge="start"
+                      checked={selected.includes(session.importUid)}
+                      disabled={session.status !== 'new'}
+                      tabIndex={-1}
+                    />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={session.title || '(untitled event)'}
+                    secondary={
+                      formatSessionTime(session, viewerTimezone).viewer +
+                      (session.reason ? ` • ${session.reason}` : '')
+                    }
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {preview && (
+          <Button onClick={() => setPreview(null)} disabled={loading}>
+            Back
+          </Button>
+        )}
+        <Button onClick={handleClose}>Cancel</Button>
+        {preview ? (
+          <Button variant="contained" onClick={handleImport} disabled={loading || selected.length === 0}>
+            {loading ? <CircularProgress size={24} /> : `Import ${selected.length} sessions`}
+          </Button>
+        ) : (
+          <Button variant="contained" onClick={handlePreview} disabled={loading || !file || !groupId}>
+            {loading ? <CircularProgress size={24} /> : 'Preview'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ImportSessionsDialog;
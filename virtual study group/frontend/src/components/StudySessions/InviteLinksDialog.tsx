@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { ContentCopy, LinkOff } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { SessionInvite, SessionInviteStatus } from '../../types';
+import { studySessionService } from '../../services/studySessionService';
+import { useAuthStore } from '../../stores/authStore';
+import { formatInTimezone, getViewerTimezone } from '../../utils/timezone';
+
+const EXPIRY_OPTIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '1 day' },
+  { hours: 72, label: '3 days' },
+  { hours: 7 * 24, label: '1 week' },
+  { hours: 30 * 24, label: '30 days' }
+];
+
+const STATUS_CHIPS: Record<SessionInviteStatus, { label: string; color: 'success' | 'default' | 'warning' | 'error' }> = {
+  active: { label: 'Active', color: 'success' },
+  used: { label: 'Used', color: 'default' },
+  expired: { label: 'Expired', color: 'warning' },
+  revoked: { label: 'Revoked', color: 'error' }
+};
+
+const DATE_TIME_OPTIONS: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' };
+
+interface InviteLinksDialogProps {
+  session: { _id: string; title: string } | null;
+  onClose: () => void;
+}
+
+// Invite links let people from outside the group into this one session, e.g.
+// a guest speaker. Open to the hosts and the group's moderators, who issue
+// links, copy them again and revoke them.
+const InviteLinksDialog: React.FC<InviteLinksDialogProps> = ({ session, onClose }) => {
+  const { user } = useAuthStore();
+  const viewerTimezone = getViewerTimezone(user);
+  const [invites, setInvites] = useState<SessionInvite[] | null>(null);
+  const [label, setLabel] = useState('');
+  const [expiresInHours, setExpiresInHours] = useState(72);
+  const [singleUse, setSingleUse] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setInvites(null);
+    setLabel('');
+    setSingleUse(false);
+    if (!session) return;
+
+    studySessionService.getInvites(session._id)
+      .then(setInvites)
+      .catch(error => {
+        console.error('Error fetching invite links:', error);
+        toast.error(error.response?.data?.message || 'Failed to load invite links');
+      });
+  }, [session]);
+
+  if (!session) return null;
+
+  const copy = async (invite: SessionInvite) => {
+    try {
+      await navigator.clipboard.writeText(invite.url);
+      toast.success('Invite link copied');
+    } catch (error) {
+      toast.error('Failed to copy invite link');
+    }
+  };
+
+  const replace = (updated: SessionInvite) =>
+    setInvites(current => (current || []).map(invite => (invite._id === updated._id ? updated : invite)));
+
+  const handleCreate = async () => {
+    setBusy(true);
+    try {
+      const invite = await studySessionService.createInvite(session._id, {
+        expiresInHours,
+        singleUse,
+        label: label.trim() || undefined
+      });
+      setInvites(current => [invite, ...(current || [])]);
+      setLabel('');
+      await copy(invite);
+    } catch (error: any) {
+      console.error('Error creating invite link:', error);
+      toast.error(error.response?.data?.message || 'Failed to create invite link');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (invite: SessionInvite) => {
+    setBusy(true);
+    try {
+      replace(await studySessionService.revokeInvite(session._id, invite._id));
+      toast.success('Invite link revoked');
+    } catch (error: any) {
+      console.error('Error revoking invite link:', error);
+      toast.error(error.response?.data?.message || 'Failed to revoke invite link');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const describe = (invite: SessionInvite) => {
+    const by = `${invite.createdBy.firstName} ${invite.createdBy.lastName}`;
+    const ends = invite.status === 'revoked' && invite.revokedAt
+      ? `revoked ${formatInTimezone(invite.revokedAt, viewerTimezone, DATE_TIME_OPTIONS)}`
+      : `${invite.status === 'expired' ? 'expired' : 'expires'} ${formatInTimezone(invite.expiresAt, viewerTimezone, DATE_TIME_OPTIONS)}`;
+    const guests = invite.uses.length > 0
+      ? `Used by ${invite.uses.map(use => `${use.user.firstName} ${use.user.lastName}`).join(', ')}`
+      : 'Not used yet';
+    return `By ${by} • ${ends}${invite.singleUse ? ' • single use' : ''}. ${guests}.`;
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Invite Links – {session.title}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          People with a link can join this session, see its files and use its chat, even if they are not in the group.
+          Revoking a link also removes the guests who came in with it.
+        </Typography>
+
+        <Box display="flex" gap={1} sx={{ mt: 2 }}>
+          <TextField
+            size="small"
+            label="Label (optional)"
+            placeholder="e.g. Guest speaker"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            inputProps={{ maxLength: 100 }}
+            sx={{ flex: 1 }}
+          />
+          <FormControl size="small" sx={{ minWidth: 120 }}>
+            <InputLabel>Expires in</InputLabel>
+            <Select
+              label="Expires in"
+              value={expiresInHours}
+              onChange={(e) => setExpiresInHours(Number(e.target.value))}
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <MenuItem key={option.hours} value={option.hours}>{option.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <FormControlLabel
+            control={<Switch checked={singleUse} onChange={(e) => setSingleUse(e.target.checked)} />}
+            label="Single use"
+          />
+          <Button variant="contained" disabled={busy} onClick={handleCreate}>
+            Create &amp; Copy Link
+          </Button>
+        </Box>
+
+        <Divider sx={{ my: 2 }} />
+
+        {!invites ? (
+          <Box display="flex" justifyContent="center" sx={{ py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : invites.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No invite links yet.
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {invites.map(invite => (
+              <ListItem
+                key={invite._id}
+                disableGutters
+                secondaryAction={invite.status !== 'revoked' && (
+                  <>
+                    <Tooltip title="Copy link">
+                      <IconButton size="small" onClick={() => copy(invite)} disabled={invite.status !== 'active'}>
+                        <ContentCopy fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Revoke">
+                      <IconButton size="small" edge="end" onClick={() => handleRevoke(invite)} disabled={busy}>
+                        <LinkOff fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </>
+                )}
+              >
+                <ListItemText
+                  primary={
+                    <Box display="flex" alignItems="center" gap={1}>
+                      {invite.label || 'Invite link'}
+                      <Chip size="small" label={STATUS_CHIPS[invite.status].label} color={STATUS_CHIPS[invite.status].color} />
+                    </Box>
+                  }
+                  secondary={describe(invite)}
+                  sx={{ pr: 9 }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default InviteLinksDialog;
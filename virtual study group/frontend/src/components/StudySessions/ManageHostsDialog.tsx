@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Select,
+  Switch,
+  Typography,
+} from '@mui/material';
+import toast from 'react-hot-toast';
+import { StudySession, User } from '../../types';
+import { studySessionService } from '../../services/studySessionService';
+import { useAuthStore } from '../../stores/authStore';
+
+const MAX_CO_HOSTS = 5;
+
+const idOf = (user: User | string) => (typeof user === 'string' ? user : user._id);
+
+interface ManageHostsDialogProps {
+  session: StudySession | null;
+  onClose: () => void;
+  // Called with the session as the server returns it after a change
+  onUpdated: (session: StudySession) => void;
+}
+
+// Picks the co-hosts of a session from its participants, or hands the
+// session to one of them. Open to the host and the group's moderators.
+const ManageHostsDialog: React.FC<ManageHostsDialogProps> = ({ session, onClose, onUpdated }) => {
+  const { user } = useAuthStore();
+  const [coHosts, setCoHosts] = useState<string[]>([]);
+  const [newHost, setNewHost] = useState('');
+  const [keepAsCoHost, setKeepAsCoHost] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setCoHosts((session?.coHosts || []).map(idOf));
+    setNewHost('');
+    setKeepAsCoHost(true);
+  }, [session]);
+
+  if (!session) return null;
+
+  const hostId = idOf(session.host);
+  const candidates = session.participants
+    .map(participant => participant.user)
+    .filter(candidate => idOf(candidate) !== hostId);
+  const isHost = hostId === user?._id;
+
+  const toggleCoHost = (userId: string) => {
+    setCoHosts(current => (current.includes(userId)
+      ? current.filter(id => id !== userId)
+      : [...current, userId]));
+  };
+
+  const run = async (change: () => Promise<StudySession>, success: string) => {
+    setSubmitting(true);
+    try {
+      onUpdated(await change());
+      toast.success(success);
+      onClose();
+    } catch (error: any) {
+      console.error('Error changing session hosts:', error);
+      toast.error(error.response?.data?.message || 'Failed to change the hosts');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Hosts – {session.title}</DialogTitle>
+      <DialogContent>
+        <Typography variant="subtitle2" sx={{ mt: 1 }}>Co-hosts</Typography>
+        <Typography variant="body2" color="text.secondary">
+          Co-hosts can start, edit and cancel the session and run its agenda.
+        </Typography>
+        {candidates.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            Nobody else has joined yet.
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {candidates.map(candidate => {
+              const candidateId = idOf(candidate);
+              const checked = coHosts.includes(candidateId);
+              return (
+                <ListItem key={candidateId} disablePadding>
+                  <ListItemButton
+                    disabled={!checked && coHosts.length >= MAX_CO_HOSTS}
+                    onClick={() => toggleCoHost(candidateId)}
+                  >
+                    <ListItemIcon sx={{ minWidth: 36 }}>
+                      <Checkbox edge="start" size="small" checked={checked} tabIndex={-1} disableRipple />
+                    </ListItemIcon>
+                    <ListItemText primary={`${candidate.firstName} ${candidate.lastName}`} />
+                  </ListItemButton>
+                </ListItem>
+              );
+            })}
+          </List>
+        )}
+        <Box display="flex" justifyContent="flex-end">
+          <Button
+            disabled={submitting || candidates.length === 0}
+            onClick={() => run(() => studySessionService.setCoHosts(session._id, coHosts), 'Co-hosts updated')}
+          >
+            Save Co-hosts
+          </Button>
+        </Box>
+
+        <Divider sx={{ my: 2 }} />
+
+        <Typography variant="subtitle2">Hand over the session</Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          The new host takes over the session; only they and the group's moderators can change its hosts afterwards.
+        </Typography>
+        <FormControl fullWidth size="small" disabled={candidates.length === 0}>
+          <InputLabel>New host</InputLabel>
+          <Select label="New host" value={newHost} onChange={(e) => setNewHost(e.target.value)}>
+            {candidates.map(candidate => (
+              <MenuItem key={idOf(candidate)} value={idOf(candidate)}>
+                {candidate.firstName} {candidate.lastName}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {isHost && (
+          <FormControlLabel
+            control={<Switch checked={keepAsCoHost} onChange={(e) => setKeepAsCoHost(e.target.checked)} />}
+            label="Stay on as a co-host"
+          />
+        )}
+        <Box display="flex" justifyContent="flex-end">
+          <Button
+            color="warning"
+            disabled={submitting || !newHost}
+            onClick={() => run(
+              () => studySessionService.transferHost(session._id, newHost, isHost && keepAsCoHost),
+              'Session handed over'
+            )}
+          >
+            Hand Over
+          </Button>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ManageHostsDialog;
@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  FormControlLabel,
+  Grid,
+  LinearProgress,
+  Paper,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { PlayArrow, Stop } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { PomodoroLengths, PomodoroState } from '../../types';
+import { studySessionService } from '../../services/studySessionService';
+import { useSocket } from '../../contexts/SocketContext';
+import { PomodoroPhase, pomodoroPosition } from '../../utils/pomodoro';
+
+const MAX_MINUTES = 120;
+
+const PHASE_LABELS: Record<PomodoroPhase, string> = {
+  work: 'Focus',
+  'short-break': 'Short break',
+  'long-break': 'Long break'
+};
+
+const LENGTH_FIELDS: Array<{ field: keyof PomodoroLengths; label: string; max: number }> = [
+  { field: 'workMinutes', label: 'Work (min)', max: MAX_MINUTES },
+  { field: 'shortBreakMinutes', label: 'Break (min)', max: MAX_MINUTES },
+  { field: 'longBreakMinutes', label: 'Long break (min)', max: MAX_MINUTES },
+  { field: 'longBreakEvery', label: 'Long break every', max: 10 }
+];
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+interface PomodoroPanelProps {
+  sessionId: string;
+  // Hosts, co-hosts and group moderators run the timer
+  canManage: boolean;
+  live: boolean;
+  // Called when the phase changes, null while the timer is stopped
+  onPhaseChange: (phase: PomodoroPhase | null, muteDuringWork: boolean) => void;
+}
+
+// The shared timer of a pomodoro session. Everyone works out the current
+// phase from when the timer started, so people joining mid-cycle are in
+// sync; the server pushes starts, stops and changes with `pomodoro-updated`.
+const PomodoroPanel: React.FC<PomodoroPanelProps> = ({ sessionId, canManage, live, onPhaseChange }) => {
+  const { socket } = useSocket();
+  const [state, setState] = useState<PomodoroState | null>(null);
+  // How far the server clock is ahead of ours, so everyone switches phase together
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [lengths, setLengths] = useState<PomodoroLengths | null>(null);
+  const [busy, setBusy] = useState(false);
+  const lastPhase = useRef<string | null>(null);
+  const reported = useRef<string | null>(null);
+
+  const receive = (next: PomodoroState) => {
+    setNow(Date.now());
+    setClockOffset(new Date(next.serverTime).getTime() - Date.now());
+    setState(next);
+    const { muteDuringWork: _muteDuringWork, ...nextLengths } = next.settings;
+    setLengths(nextLengths);
+  };
+
+  useEffect(() => {
+    setState(null);
+    studySessionService.getPomodoro(sessionId)
+      .then(receive)
+      .catch(error => {
+        console.error('Error fetching pomodoro timer:', error);
+        toast.error(error.response?.data?.message || 'Failed to load the timer');
+      });
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleUpdate = (next: PomodoroState) => {
+      if (next.sessionId === sessionId) receive(next);
+    };
+
+    socket.on('pomodoro-updated', handleUpdate);
+    return () => {
+      socket.off('pomodoro-updated', handleUpdate);
+    };
+  }, [socket, sessionId]);
+
+  const run = state?.run || null;
+  useEffect(() => {
+    if (!run) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [run]);
+
+  const position = run ? pomodoroPosition(run, new Date(run.startedAt).getTime(), now + clockOffset) : null;
+  const muteDuringWork = Boolean(state?.settings.muteDuringWork);
+
+  // Tell the page about phase changes, including when muting is switched.
+  // The phase and muting are what matter, not every tick or a new callback.
+  const loaded = Boolean(state);
+  const phase = position?.phase || null;
+  const phaseKey = position ? `${position.cycle}:${position.phase}` : null;
+  useEffect(() => {
+    const key = `${phaseKey}:${muteDuringWork}`;
+    if (!loaded || key === reported.current) return;
+    if (phaseKey !== lastPhase.current && phase && lastPhase.current !== null) {
+      toast(phase === 'work' ? 'Back to work' : 'Time for a break', { icon: '🍅' });
+    }
+    lastPhase.current = phaseKey;
+    reported.current = key;
+    onPhaseChange(phase, muteDuringWork);
+  }, [loaded, phase, phaseKey, muteDuringWork, onPhaseChange]);
+
+  const change = async (request: () => Promise<PomodoroState>) => {
+    setBusy(true);
+    try {
+      receive(await request());
+    } catch (error: any) {
+      console.error('Error changing pomodoro timer:', error);
+      toast.error(error.response?.data?.message || 'Failed to update the timer');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStart = () => change(async () => {
+    const { muteDuringWork: _muteDuringWork, ...current } = state!.settings;
+    // Save changed lengths first; the timer runs with the saved ones
+    if (lengths && LENGTH_FIELDS.some(({ field }) => lengths[field] !== current[field])) {
+      await studySessionService.updatePomodoro(sessionId, lengths);
+    }
+    return studySessionService.startPomodoro(sessionId);
+  });
+
+  if (!state || !lengths) {
+    return (
+      <Paper sx={{ p: 2, display: 'flex', justifyContent: 'center' }}>
+        <CircularProgress size={24} />
+      </Paper>
+    );
+  }
+
+  const settings = run || state.settings;
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6">Pomodoro Timer</Typography>
+
+      {position ? (
+        <Box sx={{ my: 1, textAlign: 'center' }}>
+          <Typography variant="body2" color={position.phase === 'work' ? 'error.main' : 'success.main'}>
+            {PHASE_LABELS[position.phase]}
+          </Typography>
+          <Typography variant="h3">{formatCountdown(position.phaseEnd - (now + clockOffset))}</Typography>
+          <LinearProgress
+            variant="determinate"
+            color={position.phase === 'work' ? 'error' : 'success'}
+            value={Math.min(100, ((now + clockOffset - position.phaseStart) / (position.phaseEnd - position.phaseStart)) * 100)}
+          />
+          <Typography variant="caption" color="text.secondary">
+            Pomodoro {position.cycle} • long break after every {settings.longBreakEvery}
+          </Typography>
+        </Box>
+      ) : (
+        <Typography variant="body2" color="text.secondary" sx={{ my: 1 }}>
+          {settings.workMinutes} min work, {settings.shortBreakMinutes} min breaks and a {settings.longBreakMinutes} min
+          break after every {settings.longBreakEvery}.
+          {!canManage && ' The timer starts when the host starts it.'}
+        </Typography>
+      )}
+
+      {canManage && (
+        <>
+          {!run && (
+            <Grid container spacing={1} sx={{ mt: 1 }}>
+              {LENGTH_FIELDS.map(({ field, label, max }) => (
+                <Grid item xs={6} key={field}>
+                  <TextField
+                    size="small"
+                    type="number"
+                    label={label}
+                    value={lengths[field]}
+                    onChange={(e) => setLengths({ ...lengths, [field]: Math.min(max, Math.max(1, Number(e.target.value))) })}
+                    inputProps={{ min: 1, max }}
+                    fullWidth
+                  />
+                </Grid>
+              ))}
+            </Grid>
+          )}
+          <FormControlLabel
+            control={
+              <Switch
+                checked={muteDuringWork}
+                disabled={busy}
+                onChange={(e) => change(() => studySessionService.updatePomodoro(sessionId, { muteDuringWork: e.target.checked }))}
+              />
+            }
+            label="Mute microphones while working"
+          />
+          {run ? (
+            <Button
+              fullWidth
+              variant="outlined"
+              startIcon={<Stop />}
+              disabled={busy}
+              onClick={() => change(() => studySessionService.stopPomodoro(sessionId))}
+            >
+              Stop Timer
+            </Button>
+          ) : (
+            <Button
+              fullWidth
+              variant="contained"
+              startIcon={<PlayArrow />}
+              disabled={busy || !live}
+              onClick={handleStart}
+            >
+              Start Timer
+            </Button>
+          )}
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default PomodoroPanel;
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import toast from 'react-hot-toast';
+import { StudySession } from '../../types';
+import { studySessionService } from '../../services/studySessionService';
+
+const MAX_NAME_LENGTH = 100;
+
+interface SaveTemplateDialogProps {
+  session: StudySession | null;
+  onClose: () => void;
+}
+
+// Saves the format of a session (type, length, cap, description, agenda and
+// links) as a template, shared with the session's group unless kept personal
+const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({ session, onClose }) => {
+  const [name, setName] = useState('');
+  const [personal, setPersonal] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setName(session?.title || '');
+    setPersonal(false);
+  }, [session]);
+
+  const handleSave = async () => {
+    if (!session) return;
+
+    setSaving(true);
+    try {
+      await studySessionService.saveAsTemplate(session._id, name.trim(), personal);
+      toast.success('Template saved');
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving template:', error);
+      toast.error(error.response?.data?.message || 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(session)} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Save as Template</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary">
+          New sessions can start from this one's type, length, description, agenda and links.
+          Uploaded files are not copied.
+        </Typography>
+        <TextField
+          label="Template name"
+          fullWidth
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          inputProps={{ maxLength: MAX_NAME_LENGTH }}
+          margin="normal"
+        />
+        <FormControlLabel
+          control={<Switch checked={personal} onChange={(e) => setPersonal(e.target.checked)} />}
+          label="Only for me"
+        />
+        {!personal && session?.group?.name && (
+          <Typography variant="caption" color="text.secondary" display="block">
+            Members of {session.group.name} can use it.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" disabled={saving || !name.trim()} onClick={handleSave}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SaveTemplateDialog;
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  Typography,
+} from '@mui/material';
+import toast from 'react-hot-toast';
+import { SessionFeedbackReport } from '../../types';
+import { studySessionService } from '../../services/studySessionService';
+import { FeedbackComments, RatingSummary } from './FeedbackSummary';
+
+interface SessionFeedbackDialogProps {
+  session: { _id: string; title: string } | null;
+  onClose: () => void;
+}
+
+// Ratings and comments participants left on a session, for its host
+const SessionFeedbackDialog: React.FC<SessionFeedbackDialogProps> = ({ session, onClose }) => {
+  const [report, setReport] = useState<SessionFeedbackReport | null>(null);
+
+  useEffect(() => {
+    setReport(null);
+    if (!session) return;
+
+    studySessionService.getSessionFeedback(session._id)
+      .then(setReport)
+      .catch(error => {
+        console.error('Error fetching session feedback:', error);
+        toast.error(error.response?.data?.message || 'Failed to load feedback');
+      });
+  }, [session]);
+
+  return (
+    <Dialog open={Boolean(session)} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Feedback – {session?.title}</DialogTitle>
+      <DialogContent>
+        {!report ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <>
+            <RatingSummary summary={report.summary} />
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle2" gutterBottom>
+              Comments
+            </Typography>
+            <FeedbackComments comments={report.feedback} />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SessionFeedbackDialog;
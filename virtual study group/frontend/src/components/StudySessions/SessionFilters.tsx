@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+} from '@mui/material';
+import { Search } from '@mui/icons-material';
+import { SessionListFilters, StudySession } from '../../types';
+import { zonedInputToDate } from '../../utils/timezone';
+
+// Values of the filter controls; dates are whole days in the viewer's timezone
+export interface SessionFilterValues {
+  q: string;
+  group: string;
+  type: string;
+  status: string;
+  from: string;
+  to: string;
+  hostedByMe: boolean;
+}
+
+export const emptySessionFilters: SessionFilterValues = {
+  q: '',
+  group: '',
+  type: '',
+  status: '',
+  from: '',
+  to: '',
+  hostedByMe: false,
+};
+
+const statuses = [
+  { value: 'scheduled', label: 'Scheduled' },
+  { value: 'live', label: 'Live' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+const nextDay = (date: string) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+// Query parameters for the list endpoints. The "to" day is inclusive.
+export const toListFilters = (
+  values: SessionFilterValues,
+  timezone: string,
+  userId?: string
+): SessionListFilters => ({
+  q: values.q.trim() || undefined,
+  group: values.group || undefined,
+  type: (values.type || undefined) as StudySession['type'] | undefined,
+  status: (values.status || undefined) as StudySession['status'] | undefined,
+  host: values.hostedByMe ? userId : undefined,
+  from: values.from ? zonedInputToDate(`${values.from}T00:00`, timezone).toISOString() : undefined,
+  to: values.to ? zonedInputToDate(`${nextDay(values.to)}T00:00`, timezone).toISOString() : undefined,
+});
+
+interface SessionFiltersProps {
+  filters: SessionFilterValues;
+  onChange: (filters: SessionFilterValues) => void;
+  groups: Array<{ _id: string; name: string }>;
+  sessionTypes: Array<{ value: string; label: string }>;
+}
+
+const SessionFilters: React.FC<SessionFiltersProps> = ({ filters, onChange, groups, sessionTypes }) => {
+  const [search, setSearch] = useState(filters.q);
+
+  // Only search once the user stops typing
+  useEffect(() => {
+    if (search === filters.q) return;
+    const timer = setTimeout(() => onChange({ ...filters, q: search }), 300);
+    return () => clearTimeout(timer);
+  }, [search, filters, onChange]);
+
+  const update = (changes: Partial<SessionFilterValues>) => onChange({ ...filters, ...changes });
+
+  const handleClear = () => {
+    setSearch('');
+    onChange(emptySessionFilters);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center', mb: 3 }}>
+      <TextField
+        size="small"
+        placeholder="Search sessions"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <Search fontSize="small" />
+            </InputAdornment>
+          ),
+        }}
+        sx={{ minWidth: 220 }}
+      />
+
+      <FormControl size="small" sx={{ minWidth: 160 }}>
+        <InputLabel>Group</InputLabel>
+        <Select value={filters.group} label="Group" onChange={(e) => update({ group: e.target.value })}>
+          <MenuItem value="">All groups</MenuItem>
+          {groups.map(group => (
+            <MenuItem key={group._id} value={group._id}>
+              {group.name}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <FormControl size="small" sx={{ minWidth: 160 }}>
+        <InputLabel>Type</InputLabel>
+        <Select value={filters.type} label="Type" onChange={(e) => update({ type: e.target.value })}>
+          <MenuItem value="">All types</MenuItem>
+          {sessionTypes.map(type => (
+            <MenuItem key={type.value} value={type.value}>
+              {type.label}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <FormControl size="small" sx={{ minWidth: 140 }}>
+        <InputLabel>Status</InputLabel>
+        <Select value={filters.status} label="Status" onChange={(e) => update({ status: e.target.value })}>
+          <MenuItem value="">Any status</MenuItem>
+          {statuses.map(status => (
+            <MenuItem key={status.value} value={status.value}>
+              {status.label}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <TextField
+        size="small"
+        type="date"
+        label="From"
+        value={filters.from}
+        onChange={(e) => update({ from: e.target.value })}
+        InputLabelProps={{ shrink: true }}
+      />
+
+      <TextField
+        size="small"
+        type="date"
+        label="To"
+        value={filters.to}
+        onChange={(e) => update({ to: e.target.value })}
+        InputLabelProps={{ shrink: true }}
+        inputProps={{ min: filters.from || undefined }}
+      />
+
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={filters.hostedByMe}
+            onChange={(e) => update({ hostedByMe: e.target.checked })}
+          />
+        }
+        label="Hosted by me"
+      />
+
+      <Button onClick={handleClear}>Clear</Button>
+    </Box>
+  );
+};
+
+export default SessionFilters;
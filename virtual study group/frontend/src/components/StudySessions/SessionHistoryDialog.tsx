@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Avatar,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { History } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { SessionChange, SessionChangeAction, SessionHistory, SessionSnapshot } from '../../types';
+import { studySessionService } from '../../services/studySessionService';
+import { useAuthStore } from '../../stores/authStore';
+import { formatInTimezone, getViewerTimezone } from '../../utils/timezone';
+
+const ACTIONS: Record<SessionChangeAction, string> = {
+  created: 'created the session',
+  updated: 'edited the session',
+  started: 'started the session',
+  completed: 'ended the session',
+  cancelled: 'cancelled the session',
+  restored: 'restored the session',
+  joined: 'joined',
+  left: 'left',
+  'waitlist-joined': 'joined the waitlist',
+  'waitlist-left': 'left the waitlist',
+  promoted: 'moved people up from the waitlist',
+  'co-hosts-changed': 'changed the co-hosts',
+  'host-transferred': 'handed the session to a new host',
+  'guests-changed': 'changed the guests',
+  'agenda-changed': 'changed the agenda',
+  'resources-changed': 'changed the resources',
+  'feedback-changed': 'rated the session',
+};
+
+const FIELDS: { [field: string]: string } = {
+  host: 'Host',
+  coHosts: 'Co-hosts',
+  title: 'Title',
+  description: 'Description',
+  scheduledStart: 'Start',
+  scheduledEnd: 'End',
+  timezone: 'Timezone',
+  allDay: 'All day',
+  status: 'Status',
+  type: 'Type',
+  maxParticipants: 'Max participants',
+  autoStart: 'Start automatically',
+  autoComplete: 'End automatically',
+  actualStart: 'Started at',
+  actualEnd: 'Ended at',
+  participants: 'Participants',
+  waitlist: 'Waitlist',
+  guests: 'Guests',
+  agenda: 'Agenda',
+  resources: 'Resources',
+  feedback: 'Feedback',
+};
+
+const DATE_FIELDS = ['scheduledStart', 'scheduledEnd', 'actualStart', 'actualEnd'];
+// Fields holding a single user id
+const USER_FIELDS = ['host'];
+// Fields holding a list of user ids; other lists hold text
+const USER_LIST_FIELDS = ['coHosts', 'participants', 'waitlist', 'guests'];
+const DATE_TIME_OPTIONS: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' };
+
+interface SessionHistoryDialogProps {
+  session: { _id: string; title: string } | null;
+  // Hosts and group moderators can look at the session as it was at any time
+  canViewPast: boolean;
+  onClose: () => void;
+}
+
+// The change log of a session: who changed what and when
+const SessionHistoryDialog: React.FC<SessionHistoryDialogProps> = ({ session, canViewPast, onClose }) => {
+  const { user } = useAuthStore();
+  const viewerTimezone = getViewerTimezone(user);
+  const [history, setHistory] = useState<SessionHistory | null>(null);
+  const [pointInTime, setPointInTime] = useState('');
+  const [snapshot, setSnapshot] = useState<SessionSnapshot | null>(null);
+
+  useEffect(() => {
+    setHistory(null);
+    setSnapshot(null);
+    setPointInTime('');
+    if (!session) return;
+
+    studySessionService.getHistory(session._id)
+      .then(setHistory)
+      .catch(error => {
+        console.error('Error fetching session history:', error);
+        toast.error(error.response?.data?.message || 'Failed to load history');
+      });
+  }, [session]);
+
+  const userName = (id: string) => {
+    const person = (history?.users || []).concat(snapshot?.users || []).find(entry => entry._id === id);
+    return person ? `${person.firstName} ${person.lastName}` : 'Deleted user';
+  };
+
+  // Anonymous ratings are logged without who gave them
+  const actorName = (entry: SessionChange) => {
+    if (entry.actor) return `${entry.actor.firstName} ${entry.actor.lastName}`;
+    return entry.action === 'feedback-changed' ? 'Someone' : 'The system';
+  };
+
+  const listItem = (field: string) => (value: string) => (USER_LIST_FIELDS.includes(field) ? userName(value) : value);
+
+  const formatValue = (field: string, value: any) => {
+    if (value === undefined || value === null || value === '') return '–';
+    if (DATE_FIELDS.includes(field)) return formatInTimezone(value, viewerTimezone, DATE_TIME_OPTIONS);
+    if (USER_FIELDS.includes(field)) return userName(value);
+    if (Array.isArray(value)) {
+      if (value.length > 0) return value.map(listItem(field)).join(', ');
+      return USER_LIST_FIELDS.includes(field) ? 'nobody' : 'none';
+    }
+    if (field === 'feedback') {
+      if (value.count === 0) return 'no ratings';
+      return `${value.count} rating${value.count === 1 ? '' : 's'}, average ${value.average}`;
+    }
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return String(value);
+  };
+
+  // List changes, e.g. of participants or agenda topics, are shown as what was added and removed
+  const describeChange = (change: SessionChange['changes'][number]) => {
+    const label = FIELDS[change.field] || change.field;
+    if (Array.isArray(change.to) || Array.isArray(change.from)) {
+      const from: string[] = change.from || [];
+      const to: string[] = change.to || [];
+      const added = to.filter(item => !from.includes(item)).map(listItem(change.field));
+      const removed = from.filter(item => !to.includes(item)).map(listItem(change.field));
+      return [
+        added.length > 0 && `${label}: added ${added.join(', ')}`,
+        removed.length > 0 && `${label}: removed ${removed.join(', ')}`,
+      ].filter(Boolean).join('; ') || `${label}: reordered`;
+    }
+    if (change.from === undefined) {
+      return `${label}: ${formatValue(change.field, change.to)}`;
+    }
+    return `${label}: ${formatValue(change.field, change.from)} → ${formatValue(change.field, change.to)}`;
+  };
+
+  const showVersion = async (at: string) => {
+    if (!session) return;
+
+    try {
+      setSnapshot(await studySessionService.getSnapshot(session._id, new Date(at).toISOString()));
+    } catch (error: any) {
+      console.error('Error reconstructing session:', error);
+      setSnapshot(null);
+      toast.error(error.response?.data?.message || 'Failed to load this version');
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(session)} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>History – {session?.title}</DialogTitle>
+      <DialogContent>
+        {!history ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <>
+            {canViewPast && (
+              <>
+                <Box display="flex" gap={1} alignItems="center" sx={{ mt: 1 }}>
+                  <TextField
+                    size="small"
+                    type="datetime-local"
+                    label="View as of"
+                    value={pointInTime}
+                    onChange={(e) => setPointInTime(e.target.value)}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                  <Button disabled={!pointInTime} onClick={() => showVersion(pointInTime)}>
+                    Show
+                  </Button>
+                </Box>
+                {snapshot && (
+                  <Box sx={{ mt: 1 }}>
+                    <Typography variant="subtitle2">
+                      As of {formatInTimezone(snapshot.at, viewerTimezone, DATE_TIME_OPTIONS)}
+                    </Typography>
+                    {!snapshot.complete && (
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        This session is older than its history, so earlier changes may be missing.
+                      </Typography>
+                    )}
+                    <Table size="small">
+                      <TableBody>
+                        {Object.keys(FIELDS).map(field => (
+                          <TableRow key={field}>
+                            <TableCell sx={{ fontWeight: 500 }}>{FIELDS[field]}</TableCell>
+                            <TableCell>{formatValue(field, snapshot.state[field])}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </Box>
+                )}
+                <Divider sx={{ my: 2 }} />
+              </>
+            )}
+
+            {history.entries.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No changes have been recorded yet.
+              </Typography>
+            ) : (
+              <List dense disablePadding>
+                {history.entries.slice().reverse().map(entry => (
+                  <ListItem
+                    key={entry._id}
+                    alignItems="flex-start"
+                    disableGutters
+                    secondaryAction={canViewPast && (
+                      <Button size="small" startIcon={<History />} onClick={() => showVersion(entry.at)}>
+                        Version
+                      </Button>
+                    )}
+                  >
+                    <ListItemAvatar>
+                      <Avatar src={entry.actor?.avatar}>{entry.actor?.firstName?.[0]}</Avatar>
+                    </ListItemAvatar>
+                    <ListItemText
+                      primary={`${actorName(entry)} ${ACTIONS[entry.action]}`}
+                      secondary={
+                        <>
+                          <Typography variant="caption" color="text.secondary" display="block">
+                            {formatInTimezone(entry.at, viewerTimezone, DATE_TIME_OPTIONS)}
+                          </Typography>
+                          {entry.action !== 'created' && entry.changes.map(change => (
+                            <Typography key={change.field} variant="body2" component="span" display="block">
+                              {describeChange(change)}
+                            </Typography>
+                          ))}
+                        </>
+                      }
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SessionHistoryDialog;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { useAuthStore } from '../../stores/authStore';
+import { formatSessionTime, getViewerTimezone, SessionTimeInput } from '../../utils/timezone';
+
+// A session's time in the viewer's profile timezone, with the host's local
+// time underneath when the two differ
+const SessionTime: React.FC<SessionTimeInput> = (session) => {
+  const { user } = useAuthStore();
+  const { viewer, host } = formatSessionTime(session, getViewerTimezone(user));
+
+  return (
+    <Box component="span">
+      {viewer}
+      {host && (
+        <Typography variant="caption" color="text.secondary" display="block">
+          Host time: {host}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default SessionTime;
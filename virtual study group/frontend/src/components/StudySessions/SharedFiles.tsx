@@ -0,0 +1,203 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  Link,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import { Delete, Download, InsertDriveFile, Link as LinkIcon, UploadFile } from '@mui/icons-material';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Resource, ResourceList } from '../../types';
+import { studySessionService } from '../../services/studySessionService';
+import { groupsAPI } from '../../services/api';
+import { fileNameFromDisposition, saveFile } from '../../utils/download';
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Sessions and groups have the same resource endpoints
+const resourcesApi = (owner: SharedFilesProps['owner']) => owner.type === 'session'
+  ? {
+    list: () => studySessionService.getResources(owner.id),
+    upload: (file: File) => studySessionService.uploadResource(owner.id, file),
+    download: (resource: Resource) => studySessionService.downloadResource(owner.id, resource),
+    remove: (resourceId: string) => studySessionService.deleteResource(owner.id, resourceId),
+  }
+  : {
+    list: (): Promise<ResourceList> => groupsAPI.getResources(owner.id).then(response => response.data),
+    upload: (file: File): Promise<Resource> => groupsAPI.uploadResource(owner.id, file).then(response => response.data),
+    download: async (resource: Resource) => {
+      const response = await groupsAPI.downloadResource(owner.id, resource._id);
+      return {
+        blob: response.data as Blob,
+        fileName: fileNameFromDisposition(response.headers['content-disposition'], resource.file?.name || resource.title),
+      };
+    },
+    remove: async (resourceId: string) => {
+      await groupsAPI.deleteResource(owner.id, resourceId);
+    },
+  };
+
+interface SharedFilesProps {
+  owner: { type: 'session' | 'group'; id: string };
+}
+
+// Files and links shared in a session or group. Files are uploaded to and
+// downloaded from the API, which checks access and the group's file sharing setting.
+const SharedFiles: React.FC<SharedFilesProps> = ({ owner }) => {
+  const [list, setList] = useState<ResourceList | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { type, id } = owner;
+
+  useEffect(() => {
+    setList(null);
+    resourcesApi({ type, id }).list()
+      .then(setList)
+      .catch((error: any) => {
+        console.error('Error fetching resources:', error);
+        toast.error(error.response?.data?.message || 'Failed to load files');
+      });
+  }, [type, id]);
+
+  const api = resourcesApi(owner);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !list) return;
+
+    if (file.size > list.maxFileSize) {
+      toast.error(`Files can be at most ${formatSize(list.maxFileSize)}`);
+      return;
+    }
+    if (!list.allowedTypes.includes(file.type)) {
+      toast.error('This type of file cannot be shared');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const resource = await api.upload(file);
+      setList({ ...list, resources: [...list.resources, resource] });
+      toast.success('File shared');
+    } catch (error: any) {
+      console.error('Error uploading file:', error);
+      toast.error(error.response?.data?.message || 'Failed to upload file');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDownload = async (resource: Resource) => {
+    try {
+      const { blob, fileName } = await api.download(resource);
+      saveFile(blob, fileName);
+    } catch (error) {
+      console.error('Error downloading file:', error);
+      toast.error('Failed to download file');
+    }
+  };
+
+  const handleDelete = async (resource: Resource) => {
+    if (!list || !window.confirm(`Remove "${resource.title}"?`)) return;
+
+    try {
+      await api.remove(resource._id);
+      setList({ ...list, resources: list.resources.filter(entry => entry._id !== resource._id) });
+    } catch (error: any) {
+      console.error('Error removing resource:', error);
+      toast.error(error.response?.data?.message || 'Failed to remove file');
+    }
+  };
+
+  if (!list) {
+    return (
+      <Box display="flex" justifyContent="center" p={2}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {list.resources.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No files shared yet.
+        </Typography>
+      ) : (
+        <List dense disablePadding>
+          {list.resources.map(resource => (
+            <ListItem
+              key={resource._id}
+              disableGutters
+              secondaryAction={
+                <Box>
+                  {resource.file && (
+                    <IconButton size="small" onClick={() => handleDownload(resource)}>
+                      <Download fontSize="small" />
+                    </IconButton>
+                  )}
+                  {resource.canDelete && (
+                    <IconButton size="small" onClick={() => handleDelete(resource)}>
+                      <Delete fontSize="small" />
+                    </IconButton>
+                  )}
+                </Box>
+              }
+            >
+              <ListItemIcon sx={{ minWidth: 36 }}>
+                {resource.file ? <InsertDriveFile fontSize="small" /> : <LinkIcon fontSize="small" />}
+              </ListItemIcon>
+              <ListItemText
+                primary={resource.file ? resource.title : (
+                  <Link href={resource.url} target="_blank" rel="noopener noreferrer">{resource.title}</Link>
+                )}
+                secondary={[
+                  resource.file && formatSize(resource.file.size),
+                  resource.uploadedBy && `${resource.uploadedBy.firstName} ${resource.uploadedBy.lastName}`,
+                  formatDistanceToNow(new Date(resource.uploadedAt), { addSuffix: true }),
+                ].filter(Boolean).join(' • ')}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      {list.canUpload && (
+        <>
+          <input ref={inputRef} type="file" hidden accept={list.allowedTypes.join(',')} onChange={handleUpload} />
+          <Button
+            size="small"
+            startIcon={uploading ? <CircularProgress size={16} /> : <UploadFile />}
+            disabled={uploading}
+            onClick={() => inputRef.current?.click()}
+            sx={{ mt: 1 }}
+          >
+            Share a File
+          </Button>
+          <Typography variant="caption" color="text.secondary" display="block">
+            Up to {formatSize(list.maxFileSize)}
+          </Typography>
+        </>
+      )}
+      {!list.fileSharing && (
+        <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+          File sharing is turned off for this group.
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default SharedFiles;
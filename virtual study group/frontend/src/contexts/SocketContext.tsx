@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
+import toast from 'react-hot-toast';
 import { useAuthStore } from '../stores/authStore';
+import { formatInTimezone, getViewerTimezone } from '../utils/timezone';
 
 interface SocketContextType {
   socket: Socket | null;
@@ -27,21 +29,23 @@ interface SocketProviderProps {
 export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
-  const { user, isAuthenticated } = useAuthStore();
+  const { user, token, isAuthenticated } = useAuthStore();
 
   useEffect(() => {
-    if (isAuthenticated && user) {
+    if (isAuthenticated && user && token) {
       const socketUrl = process.env.REACT_APP_SOCKET_URL || 'http://localhost:5000';
       const newSocket = io(socketUrl, {
         transports: ['websocket'],
         upgrade: true,
+        // The server takes who we are from this token
+        auth: { token },
       });
 
       newSocket.on('connect', () => {
         console.log('Connected to server');
         setIsConnected(true);
         // Join user to their personal room
-        newSocket.emit('join-user', user._id);
+        newSocket.emit('join-user');
       });
 
       newSocket.on('disconnect', () => {
@@ -49,6 +53,41 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         setIsConnected(false);
       });
 
+      // A spot opened up in a session we were waiting for
+      newSocket.on('waitlist-promoted', (data: { title: string }) => {
+        toast.success(`A spot opened up: you're now in "${data.title}"`);
+      });
+
+      // Status changes of sessions we host or take part in
+      newSocket.on('session-reminder', (data: { title: string; scheduledStart: string }) => {
+        const start = formatInTimezone(data.scheduledStart, getViewerTimezone(user), { timeStyle: 'short' });
+        toast(`Reminder: "${data.title}" starts at ${start}`, { duration: 8000 });
+      });
+
+      newSocket.on('session-started', (data: { title: string }) => {
+        toast(`"${data.title}" has started`);
+      });
+
+      // Cancellations carry the host's reason and possibly a time to meet instead
+      newSocket.on('session-cancelled', (data: { title: string; reason?: string; suggestedStart?: string }) => {
+        const lines = [`"${data.title}" was cancelled`];
+        if (data.reason) {
+          lines.push(data.reason);
+        }
+        if (data.suggestedStart) {
+          const suggested = formatInTimezone(data.suggestedStart, getViewerTimezone(user), {
+            dateStyle: 'medium',
+            timeStyle: 'short',
+          });
+          lines.push(`Suggested instead: ${suggested}`);
+        }
+        toast.error(lines.join('\n'), { duration: 8000 });
+      });
+
+      newSocket.on('session-restored', (data: { title: string }) => {
+        toast.success(`"${data.title}" is back on`);
+      });
+
       newSocket.on('connect_error', (error) => {
         console.error('Connection error:', error);
         setIsConnected(false);
@@ -60,7 +99,7 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         newSocket.close();
       };
     }
-  }, [isAuthenticated, user]);
+  }, [isAuthenticated, user, token]);
 
   useEffect(() => {
     return () => {
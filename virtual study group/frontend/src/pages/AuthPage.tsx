@@ -10,7 +10,10 @@ import {
   Link,
   Alert,
 } from '@mui/material';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../stores/authStore';
+import ForgotPasswordDialog from '../components/Auth/ForgotPasswordDialog';
+import ResetPasswordForm from '../components/Auth/ResetPasswordForm';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -38,13 +41,29 @@ const AuthPage: React.FC = () => {
     lastName: '',
   });
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [loading, setLoading] = useState(false);
+  const [forgotOpen, setForgotOpen] = useState(false);
 
   const { login, register } = useAuthStore();
+  const location = useLocation();
+  const navigate = useNavigate();
+  // Password reset emails link to /reset-password?token=...
+  const resetToken = location.pathname === '/reset-password'
+    ? new URLSearchParams(location.search).get('token')
+    : null;
+
+  const handleResetDone = (message?: string) => {
+    navigate('/', { replace: true });
+    setTab(0);
+    setError('');
+    setNotice(message ? `${message}. You can log in now.` : '');
+  };
 
   const handleTabChange = (_: React.SyntheticEvent, newValue: number) => {
     setTab(newValue);
     setError('');
+    setNotice('');
   };
 
   const handleLogin = async (e: React.FormEvent) => {
@@ -102,6 +121,19 @@ const AuthPage: React.FC = () => {
     }
   };
 
+  if (resetToken) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="100vh" bgcolor="background.default" p={2}>
+        <Paper elevation={3} sx={{ width: '100%', maxWidth: 400, p: 4 }}>
+          <Typography variant="h4" align="center" gutterBottom color="primary">
+            Virtual Study Group
+          </Typography>
+          <ResetPasswordForm token={resetToken} onDone={handleResetDone} />
+        </Paper>
+      </Box>
+    );
+  }
+
   return (
     <Box
       display="flex"
@@ -136,6 +168,11 @@ const AuthPage: React.FC = () => {
             {error}
           </Alert>
         )}
+        {notice && (
+          <Alert severity="success" sx={{ mt: 2 }}>
+            {notice}
+          </Alert>
+        )}
 
         <TabPanel value={tab} index={0}>
           <Box component="form" onSubmit={handleLogin}>
@@ -171,6 +208,11 @@ const AuthPage: React.FC = () => {
             >
               {loading ? 'Logging in...' : 'Login'}
             </Button>
+            <Box textAlign="center">
+              <Link component="button" type="button" variant="body2" onClick={() => setForgotOpen(true)}>
+                Forgot password?
+              </Link>
+            </Box>
           </Box>
         </TabPanel>
 
@@ -268,6 +310,7 @@ const AuthPage: React.FC = () => {
           </Link>
         </Typography>
       </Paper>
+      <ForgotPasswordDialog open={forgotOpen} email={loginData.email} onClose={() => setForgotOpen(false)} />
     </Box>
   );
 };
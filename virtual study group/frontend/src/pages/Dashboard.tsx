@@ -40,6 +40,7 @@ import { format, isValid, parseISO } from 'date-fns';
 import { usersAPI } from '../services/api';
 import { toast } from 'react-hot-toast';
 import { DashboardData, DashboardGroup, DashboardSession } from '../types';
+import SessionTime from '../components/StudySessions/SessionTime';
 
 const Dashboard: React.FC = () => {
   const { user } = useAuthStore();
@@ -412,7 +413,19 @@ const Dashboard: React.FC = () => {
                         </ListItemAvatar>
                         <ListItemText
                           primary={session.title}
-                          secondary={`${session.groupName} • ${formatDate(session.time, 'MMM dd, HH:mm', 'Time TBD')}`}
+                          secondary={
+                            session.time ? (
+                              <>
+                                {session.groupName} •{' '}
+                                <SessionTime
+                                  scheduledStart={session.time}
+                                  scheduledEnd={session.endTime}
+                                  timezone={session.timezone}
+                                  allDay={session.allDay}
+                                />
+                              </>
+                            ) : `${session.groupName} • Time TBD`
+                          }
                         />
                         <IconButton size="small" color="primary">
                           <PlayArrow />
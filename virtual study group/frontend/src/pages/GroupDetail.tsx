@@ -37,6 +37,11 @@ import {
 import { useAuthStore } from '../stores/authStore';
 import { useSocket } from '../contexts/SocketContext';
 import { groupsAPI, messagesAPI } from '../services/api';
+import GroupSchedule from '../components/Groups/GroupSchedule';
+import GroupAttendance from '../components/Groups/GroupAttendance';
+import FeedbackTrends from '../components/StudySessions/FeedbackTrends';
+import SharedFiles from '../components/StudySessions/SharedFiles';
+import InviteByEmailDialog from '../components/Groups/InviteByEmailDialog';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
@@ -128,6 +133,7 @@ const GroupDetail: React.FC = () => {
   const [sendingMessage, setSendingMessage] = useState(false);
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [selectedMessage, setSelectedMessage] = useState<Message | null>(null);
+  const [inviteOpen, setInviteOpen] = useState(false);
   const [replyingTo, setReplyingTo] = useState<Message | null>(null);
 
   useEffect(() => {
@@ -434,6 +440,8 @@ const GroupDetail: React.FC = () => {
     );
   }
 
+  const isManager = getUserRole() === 'owner' || getUserRole() === 'moderator';
+
   return (
     <Box sx={{ height: 'calc(100vh - 100px)', display: 'flex', flexDirection: 'column' }}>
       {/* Header */}
@@ -475,7 +483,7 @@ const GroupDetail: React.FC = () => {
             >
               Start Call
             </Button>
-            <IconButton>
+            <IconButton title="Invite by email" onClick={() => setInviteOpen(true)}>
               <PersonAdd />
             </IconButton>
             <IconButton onClick={handleLeaveGroup}>
@@ -567,10 +575,13 @@ const GroupDetail: React.FC = () => {
 
         {/* Sidebar */}
         <Grid item xs={12} md={4}>
-          <Paper sx={{ height: '100%', p: 2 }}>
-            <Tabs value={activeTab} onChange={(_, v) => setActiveTab(v)} sx={{ mb: 2 }}>
+          <Paper sx={{ height: '100%', p: 2, overflow: 'auto' }}>
+            <Tabs value={activeTab} onChange={(_, v) => setActiveTab(v)} variant="scrollable" scrollButtons="auto" sx={{ mb: 2 }}>
               <Tab label="Members" />
               <Tab label="Files" />
+              <Tab label="Schedule" />
+              {isManager && <Tab label="Attendance" />}
+              {isManager && <Tab label="Feedback" />}
             </Tabs>
 
             {activeTab === 0 && (
@@ -605,11 +616,19 @@ const GroupDetail: React.FC = () => {
             )}
 
             {activeTab === 1 && (
-              <Box>
-                <Typography variant="body2" color="text.secondary">
-                  No files shared yet.
-                </Typography>
-              </Box>
+              <SharedFiles owner={{ type: 'group', id: group._id }} />
+            )}
+
+            {activeTab === 2 && (
+              <GroupSchedule groupId={group._id} isOwner={getUserRole() === 'owner'} />
+            )}
+
+            {activeTab === 3 && isManager && (
+              <GroupAttendance groupId={group._id} />
+            )}
+
+            {activeTab === 4 && isManager && (
+              <FeedbackTrends groupId={group._id} hosts={group.members.map(member => member.user)} />
             )}
           </Paper>
         </Grid>
@@ -647,6 +666,8 @@ const GroupDetail: React.FC = () => {
           </MenuItem>
         )}
       </Menu>
+
+      <InviteByEmailDialog group={inviteOpen ? group : null} onClose={() => setInviteOpen(false)} />
     </Box>
   );
 };
@@ -53,13 +53,35 @@ import {
   EmojiEvents,
   Timeline,
   Assessment,
+  ContentCopy,
+  Refresh,
 } from '@mui/icons-material';
 import { useForm } from 'react-hook-form';
 import { useAuthStore } from '../stores/authStore';
 import { format, subDays } from 'date-fns';
 import toast from 'react-hot-toast';
 import { usersAPI } from '../services/api';
-import { Achievement, Activity, StudyProgressItem } from '../types';
+import { studySessionService } from '../services/studySessionService';
+import { Achievement, Activity, EmailCategory, NotificationSettings, StudyProgressItem } from '../types';
+import { browserTimezone, getViewerTimezone, isValidTimezone } from '../utils/timezone';
+
+// Lead times offered for session reminders, in minutes
+const REMINDER_OPTIONS = [
+  { minutes: 10, label: '10 min' },
+  { minutes: 15, label: '15 min' },
+  { minutes: 30, label: '30 min' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 2 * 60, label: '2 hours' },
+  { minutes: 24 * 60, label: '1 day' },
+  { minutes: 2 * 24 * 60, label: '2 days' },
+];
+const MAX_REMINDERS = 5;
+
+const EMAIL_OPTIONS: { category: EmailCategory; label: string }[] = [
+  { category: 'reminders', label: 'Reminders' },
+  { category: 'cancellations', label: 'Cancellations' },
+  { category: 'invites', label: 'Group invitations' },
+];
 
 interface ProfileForm {
   firstName: string;
@@ -78,6 +100,11 @@ const Profile: React.FC = () => {
   const [editMode, setEditMode] = useState(false);
   const [loading, setLoading] = useState(false);
   const [avatarDialogOpen, setAvatarDialogOpen] = useState(false);
+  const [calendarFeedUrl, setCalendarFeedUrl] = useState('');
+  const [regenerateDialogOpen, setRegenerateDialogOpen] = useState(false);
+  const [timezone, setTimezone] = useState(() => getViewerTimezone(user));
+  const [savingTimezone, setSavingTimezone] = useState(false);
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings | null>(null);
   
   const { user, updateProfile } = useAuthStore();
   const { register, handleSubmit, reset, formState: { errors } } = useForm<ProfileForm>({
@@ -98,6 +125,7 @@ const Profile: React.FC = () => {
   const [userStats, setUserStats] = useState({
     totalStudyTime: 0,
     sessionsAttended: 0,
+    pomodorosCompleted: 0,
     groupsJoined: 0,
     streakDays: 0,
     pointsEarned: 0,
@@ -124,6 +152,7 @@ const Profile: React.FC = () => {
         setUserStats({
           totalStudyTime: Math.floor(stats.totalStudyTime / 60), // Convert minutes to hours
           sessionsAttended: stats.sessionsCompleted || 0,
+          pomodorosCompleted: stats.pomodorosCompleted || 0,
           groupsJoined: stats.totalGroups || 0,
           streakDays: stats.streak || 0,
           pointsEarned: stats.totalStudyTime * 10, // 10 points per minute studied
@@ -150,14 +179,109 @@ const Profile: React.FC = () => {
     loadUserData();
   }, []);
 
+  // The feed URL is only needed on the settings tab
+  React.useEffect(() => {
+    if (activeTab !== 4 || calendarFeedUrl) return;
+
+    studySessionService.getCalendarFeed()
+      .then(feed => setCalendarFeedUrl(feed.url))
+      .catch(error => {
+        console.error('Error loading calendar feed:', error);
+        toast.error('Failed to load calendar feed');
+      });
+  }, [activeTab, calendarFeedUrl]);
+
+  React.useEffect(() => {
+    if (activeTab !== 4 || notificationSettings) return;
+
+    usersAPI.getNotificationSettings()
+      .then(response => setNotificationSettings(response.data))
+      .catch(error => {
+        console.error('Error loading notification settings:', error);
+        toast.error('Failed to load notification settings');
+      });
+  }, [activeTab, notificationSettings]);
+
+  // Notification settings are saved as soon as they change; the server
+  // replans the reminders of upcoming sessions
+  const handleNotificationChange = async (changes: Partial<NotificationSettings>) => {
+    if (!notificationSettings) return;
+
+    const previous = notificationSettings;
+    setNotificationSettings({ ...previous, ...changes });
+    try {
+      const response = await usersAPI.updateNotificationSettings(changes);
+      setNotificationSettings(response.data);
+    } catch (error: any) {
+      console.error('Error updating notification settings:', error);
+      setNotificationSettings(previous);
+      toast.error(error.response?.data?.message || 'Failed to save notification settings');
+    }
+  };
+
+  const handleToggleReminder = (minutes: number) => {
+    if (!notificationSettings) return;
+
+    const current = notificationSettings.reminderLeadMinutes;
+    handleNotificationChange({
+      reminderLeadMinutes: current.includes(minutes)
+        ? current.filter(lead => lead !== minutes)
+        : [...current, minutes].sort((a, b) => b - a),
+    });
+  };
+
+  const handleToggleEmailCategory = (category: EmailCategory) => {
+    if (!notificationSettings) return;
+
+    const optOuts = notificationSettings.emailOptOuts || [];
+    handleNotificationChange({
+      emailOptOuts: optOuts.includes(category)
+        ? optOuts.filter(entry => entry !== category)
+        : [...optOuts, category],
+    });
+  };
+
+  const handleCopyCalendarFeed = async () => {
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl);
+      toast.success('Calendar link copied');
+    } catch (error) {
+      toast.error('Failed to copy calendar link');
+    }
+  };
+
+  const handleRegenerateCalendarFeed = async () => {
+    try {
+      const feed = await studySessionService.regenerateCalendarFeed();
+      setCalendarFeedUrl(feed.url);
+      toast.success('New calendar link created');
+    } catch (error) {
+      console.error('Error regenerating calendar feed:', error);
+      toast.error('Failed to regenerate calendar link');
+    } finally {
+      setRegenerateDialogOpen(false);
+    }
+  };
+
+  const handleSaveTimezone = async () => {
+    if (!user) return;
+
+    try {
+      setSavingTimezone(true);
+      const response = await usersAPI.updateProfile({
+        studyPreferences: { ...user.studyPreferences, timezone },
+      });
+      useAuthStore.setState({ user: response.data });
+      toast.success('Timezone updated');
+    } catch (error) {
+      console.error('Error updating timezone:', error);
+      toast.error('Failed to update timezone');
+    } finally {
+      setSavingTimezone(false);
+    }
+  };
+
   const [settings, setSettings] = useState({
-    notifications: {
-      email: true,
-      push: true,
-      sessionReminders: true,
-      groupMessages: true,
-      achievements: true,
-    },
     privacy: {
       profileVisibility: 'public',
       showOnlineStatus: true,
@@ -338,6 +462,11 @@ const Profile: React.FC = () => {
               <Typography variant="body2" color="text.secondary">
                 Sessions Attended
               </Typography>
+              {userStats.pomodorosCompleted > 0 && (
+                <Typography variant="caption" color="text.secondary">
+                  {userStats.pomodorosCompleted} pomodoro{userStats.pomodorosCompleted !== 1 ? 's' : ''} completed
+                </Typography>
+              )}
             </CardContent>
           </Card>
         </Grid>
@@ -643,36 +772,88 @@ const Profile: React.FC = () => {
                 <Notifications sx={{ mr: 1, verticalAlign: 'middle' }} />
                 Notifications
               </Typography>
-              <List>
-                <ListItem>
-                  <ListItemText primary="Email Notifications" />
-                  <Switch
-                    checked={settings.notifications.email}
-                    onChange={(e) => handleSettingChange('notifications', 'email', e.target.checked)}
-                  />
-                </ListItem>
-                <ListItem>
-                  <ListItemText primary="Push Notifications" />
-                  <Switch
-                    checked={settings.notifications.push}
-                    onChange={(e) => handleSettingChange('notifications', 'push', e.target.checked)}
-                  />
-                </ListItem>
-                <ListItem>
-                  <ListItemText primary="Session Reminders" />
-                  <Switch
-                    checked={settings.notifications.sessionReminders}
-                    onChange={(e) => handleSettingChange('notifications', 'sessionReminders', e.target.checked)}
-                  />
-                </ListItem>
-                <ListItem>
-                  <ListItemText primary="Group Messages" />
-                  <Switch
-                    checked={settings.notifications.groupMessages}
-                    onChange={(e) => handleSettingChange('notifications', 'groupMessages', e.target.checked)}
-                  />
-                </ListItem>
-              </List>
+              {!notificationSettings ? (
+                <Box display="flex" justifyContent="center" p={2}>
+                  <CircularProgress size={24} />
+                </Box>
+              ) : (
+                <List>
+                  <ListItem>
+                    <ListItemText primary="Email Notifications" />
+                    <Switch
+                      checked={notificationSettings.email}
+                      onChange={(e) => handleNotificationChange({ email: e.target.checked })}
+                    />
+                  </ListItem>
+                  {notificationSettings.email && (
+                    <ListItem sx={{ display: 'block' }}>
+                      <Typography variant="body2" color="text.secondary" gutterBottom>
+                        Email me about
+                      </Typography>
+                      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                        {EMAIL_OPTIONS.map(option => {
+                          const selected = !(notificationSettings.emailOptOuts || []).includes(option.category);
+                          return (
+                            <Chip
+                              key={option.category}
+                              label={option.label}
+                              color={selected ? 'primary' : 'default'}
+                              variant={selected ? 'filled' : 'outlined'}
+                              onClick={() => handleToggleEmailCategory(option.category)}
+                            />
+                          );
+                        })}
+                      </Box>
+                    </ListItem>
+                  )}
+                  <ListItem>
+                    <ListItemText primary="Push Notifications" />
+                    <Switch
+                      checked={notificationSettings.push}
+                      onChange={(e) => handleNotificationChange({ push: e.target.checked })}
+                    />
+                  </ListItem>
+                  <ListItem>
+                    <ListItemText primary="Session Reminders" />
+                    <Switch
+                      checked={notificationSettings.sessionReminders}
+                      onChange={(e) => handleNotificationChange({ sessionReminders: e.target.checked })}
+                    />
+                  </ListItem>
+                  {notificationSettings.sessionReminders && (
+                    <ListItem sx={{ display: 'block' }}>
+                      <Typography variant="body2" color="text.secondary" gutterBottom>
+                        Remind me before a session starts (up to {MAX_REMINDERS})
+                      </Typography>
+                      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                        {REMINDER_OPTIONS.map(option => {
+                          const selected = notificationSettings.reminderLeadMinutes.includes(option.minutes);
+                          const locked = selected
+                            ? notificationSettings.reminderLeadMinutes.length === 1
+                            : notificationSettings.reminderLeadMinutes.length >= MAX_REMINDERS;
+                          return (
+                            <Chip
+                              key={option.minutes}
+                              label={option.label}
+                              color={selected ? 'primary' : 'default'}
+                              variant={selected ? 'filled' : 'outlined'}
+                              disabled={locked}
+                              onClick={() => handleToggleReminder(option.minutes)}
+                            />
+                          );
+                        })}
+                      </Box>
+                    </ListItem>
+                  )}
+                  <ListItem>
+                    <ListItemText primary="Group Messages" />
+                    <Switch
+                      checked={notificationSettings.groupMessages}
+                      onChange={(e) => handleNotificationChange({ groupMessages: e.target.checked })}
+                    />
+                  </ListItem>
+                </List>
+              )}
             </Paper>
           </Grid>
           
@@ -706,9 +887,96 @@ const Profile: React.FC = () => {
               </Button>
             </Paper>
           </Grid>
+
+          <Grid item xs={12}>
+            <Paper sx={{ p: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                <Language sx={{ mr: 1, verticalAlign: 'middle' }} />
+                Timezone
+              </Typography>
+              <Typography variant="body2" color="text.secondary" paragraph>
+                Session times are shown in this timezone, and new sessions are scheduled in it by default.
+              </Typography>
+              <Box display="flex" gap={1} alignItems="flex-start">
+                <TextField
+                  fullWidth
+                  size="small"
+                  value={timezone}
+                  onChange={(e) => setTimezone(e.target.value)}
+                  error={!isValidTimezone(timezone)}
+                  helperText={isValidTimezone(timezone) ? 'IANA name, e.g. Europe/Berlin' : 'Unknown timezone'}
+                />
+                <Button onClick={() => setTimezone(browserTimezone())} sx={{ whiteSpace: 'nowrap' }}>
+                  Use device timezone
+                </Button>
+                <Button
+                  variant="contained"
+                  onClick={handleSaveTimezone}
+                  disabled={savingTimezone || !isValidTimezone(timezone)}
+                >
+                  Save
+                </Button>
+              </Box>
+            </Paper>
+          </Grid>
+
+          <Grid item xs={12}>
+            <Paper sx={{ p: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                <CalendarToday sx={{ mr: 1, verticalAlign: 'middle' }} />
+                Calendar Subscription
+              </Typography>
+              <Typography variant="body2" color="text.secondary" paragraph>
+                Subscribe to this link in Google Calendar, Outlook or Apple Calendar to see the
+                sessions you host or joined. Anyone with the link can see them, so keep it private.
+              </Typography>
+              <Box display="flex" gap={1} alignItems="center">
+                <TextField
+                  fullWidth
+                  size="small"
+                  value={calendarFeedUrl}
+                  placeholder="Loading..."
+                  InputProps={{ readOnly: true }}
+                />
+                <Tooltip title="Copy link">
+                  <span>
+                    <IconButton onClick={handleCopyCalendarFeed} disabled={!calendarFeedUrl}>
+                      <ContentCopy />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Button
+                  variant="outlined"
+                  startIcon={<Refresh />}
+                  onClick={() => setRegenerateDialogOpen(true)}
+                  disabled={!calendarFeedUrl}
+                  sx={{ whiteSpace: 'nowrap' }}
+                >
+                  Regenerate
+                </Button>
+              </Box>
+            </Paper>
+          </Grid>
         </Grid>
       )}
 
+      {/* Regenerate Calendar Feed Dialog */}
+      <Dialog open={regenerateDialogOpen} onClose={() => setRegenerateDialogOpen(false)}>
+        <DialogTitle>Regenerate Calendar Link?</DialogTitle>
+        <DialogContent>
+          <Alert severity="warning">
+            Calendars subscribed to the current link will stop updating. You will need to
+            subscribe again with the new link.
+          </Alert>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRegenerateDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" color="warning" onClick={handleRegenerateCalendarFeed}>
+            Regenerate
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Avatar Upload Dialog */}
       <Dialog open={avatarDialogOpen} onClose={() => setAvatarDialogOpen(false)}>
         <DialogTitle>Update Profile Picture</DialogTitle>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
   Box,
@@ -38,19 +38,37 @@ import {
   Send,
   Close,
   StopScreenShare,
+  History,
+  SupervisorAccount,
+  Link as LinkIcon,
 } from '@mui/icons-material';
 import { useAuthStore } from '../stores/authStore';
+import { useSocket } from '../contexts/SocketContext';
+import { BreakoutRoom, PresentUser } from '../types';
+import SessionTime from '../components/StudySessions/SessionTime';
+import AgendaPanel from '../components/StudySessions/AgendaPanel';
+import BreakoutPanel from '../components/StudySessions/BreakoutPanel';
+import PomodoroPanel from '../components/StudySessions/PomodoroPanel';
+import { PomodoroPhase } from '../utils/pomodoro';
+import SharedFiles from '../components/StudySessions/SharedFiles';
+import SessionHistoryDialog from '../components/StudySessions/SessionHistoryDialog';
+import ManageHostsDialog from '../components/StudySessions/ManageHostsDialog';
+import InviteLinksDialog from '../components/StudySessions/InviteLinksDialog';
 import toast from 'react-hot-toast';
 
 const SessionDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user } = useAuthStore();
+  const { socket, isConnected } = useSocket();
   
   const [micEnabled, setMicEnabled] = useState(true);
   const [videoEnabled, setVideoEnabled] = useState(true);
   const [session, setSession] = useState<any>(null);
   const [participants, setParticipants] = useState<any[]>([]);
+  const [present, setPresent] = useState<PresentUser[]>([]);
+  // The breakout room the viewer is in; chat stays within it
+  const [breakoutRoom, setBreakoutRoom] = useState<BreakoutRoom | null>(null);
   const [loading, setLoading] = useState(true);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
@@ -59,6 +77,11 @@ const SessionDetail: React.FC = () => {
   const [messages, setMessages] = useState<any[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [unreadCount, setUnreadCount] = useState(0);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [hostsOpen, setHostsOpen] = useState(false);
+  const [invitesOpen, setInvitesOpen] = useState(false);
+  // Whether the mic was muted for a pomodoro work block, to turn it back on at the break
+  const mutedForWork = useRef(false);
   const videoRef = useRef<HTMLVideoElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -88,6 +111,93 @@ const SessionDetail: React.FC = () => {
     };
   }, [id]);
 
+  // Being in the room is recorded as attendance; the server tells everyone
+  // in it who is present. Reconnecting enters the room again.
+  useEffect(() => {
+    if (!socket || !isConnected || !id) return;
+
+    const handlePresence = (data: { sessionId: string; present: PresentUser[] }) => {
+      if (data.sessionId !== id) return;
+      setPresent(data.present);
+      setParticipants(data.present.map(present => ({
+        id: present._id,
+        name: `${present.firstName} ${present.lastName}`,
+        avatar: present.avatar
+      })));
+    };
+
+    socket.on('session-presence', handlePresence);
+    socket.emit('join-session', id);
+
+    return () => {
+      socket.emit('leave-session', id);
+      socket.off('session-presence', handlePresence);
+    };
+  }, [socket, isConnected, id]);
+
+  // Chat messages reach everyone in the same room: the breakout room the
+  // sender is in, or the main room
+  useEffect(() => {
+    if (!socket || !id) return;
+
+    const handleMessage = (data: {
+      sessionId: string;
+      userId: string;
+      sender: string;
+      content: string;
+      sentAt: string;
+    }) => {
+      if (data.sessionId !== id) return;
+      setMessages(prev => [...prev, {
+        id: `${data.userId}-${data.sentAt}`,
+        sender: data.sender,
+        content: data.content,
+        timestamp: new Date(data.sentAt),
+        isSystem: false,
+        isSelf: data.userId === user?._id
+      }]);
+      if (!chatOpen) {
+        setUnreadCount(prev => prev + 1);
+      }
+    };
+
+    socket.on('session-message', handleMessage);
+    return () => {
+      socket.off('session-message', handleMessage);
+    };
+  }, [socket, id, user?._id, chatOpen]);
+
+  // Guests whose invite link was revoked are taken out of the room by the server
+  useEffect(() => {
+    if (!socket || !id) return;
+
+    const handleAccessRevoked = (data: { sessionId: string; title: string }) => {
+      if (data.sessionId !== id) return;
+      toast.error(`Your invite to "${data.title}" was revoked`);
+      navigate('/sessions');
+    };
+
+    socket.on('session-access-revoked', handleAccessRevoked);
+    return () => {
+      socket.off('session-access-revoked', handleAccessRevoked);
+    };
+  }, [socket, id, navigate]);
+
+  const handleRoomChange = useCallback((room: BreakoutRoom | null) => {
+    if (room?._id === breakoutRoom?._id) return;
+
+    setMessages(prev => [...prev, {
+      id: `room-${Date.now()}`,
+      sender: 'System',
+      content: room
+        ? `You moved to ${room.name}. Only its members see this chat.`
+        : 'You are back in the main room.',
+      timestamp: new Date(),
+      isSystem: true
+    }]);
+    setBreakoutRoom(room);
+  }, [breakoutRoom]);
+
   // Auto-scroll chat to bottom
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -138,10 +248,6 @@ const SessionDetail: React.FC = () => {
       if (response.ok) {
         const sessionData = await response.json();
         setSession(sessionData);
-        // Simulate some participants for demo
-        setParticipants([
-          { id: user?._id, name: `${user?.firstName} ${user?.lastName}`, avatar: user?.avatar },
-        ]);
       } else {
         toast.error('Session not found');
         navigate('/sessions');
@@ -154,6 +260,13 @@ const SessionDetail: React.FC = () => {
     }
   };
 
+  const participantRole = (userId: string) => {
+    if (userId === (session?.host?._id || session?.host)) return 'Host';
+    if ((session?.coHosts || []).some((coHost: any) => (coHost._id || coHost) === userId)) return 'Co-host';
+    if ((session?.guests || []).some((guest: any) => guest.user === userId)) return 'Guest';
+    return 'Participant';
+  };
+
   const handleEndCall = () => {
     // Stop all media tracks
     if (localStream) {
@@ -163,17 +276,36 @@ const SessionDetail: React.FC = () => {
     navigate('/sessions');
   };
 
-  const toggleMic = () => {
+  const setMic = useCallback((enabled: boolean) => {
     if (localStream) {
       const audioTracks = localStream.getAudioTracks();
       if (audioTracks.length > 0) {
-        audioTracks[0].enabled = !micEnabled;
+        audioTracks[0].enabled = enabled;
       }
     }
-    setMicEnabled(!micEnabled);
+    setMicEnabled(enabled);
+  }, [localStream]);
+
+  const toggleMic = () => {
+    setMic(!micEnabled);
     toast.success(micEnabled ? 'Microphone muted' : 'Microphone unmuted');
   };
 
+  // Pomodoro sessions can mute everyone during work blocks. People may still
+  // unmute themselves; the next work block mutes them again.
+  const handlePomodoroPhase = useCallback((phase: PomodoroPhase | null, muteDuringWork: boolean) => {
+    if (phase === 'work' && muteDuringWork) {
+      if (micEnabled) {
+        setMic(false);
+        mutedForWork.current = true;
+        toast('Microphones are muted while working', { icon: '🔇' });
+      }
+    } else if (mutedForWork.current) {
+      mutedForWork.current = false;
+      setMic(true);
+    }
+  }, [micEnabled, setMic]);
+
   const toggleVideo = () => {
     if (localStream) {
       const videoTracks = localStream.getVideoTracks();
@@ -245,24 +377,13 @@ const SessionDetail: React.FC = () => {
     e.preventDefault();
     if (!newMessage.trim()) return;
 
-    const message = {
-      id: Date.now().toString(),
+    // The server sends it back to everyone in the room, the sender included
+    socket?.emit('session-message', {
+      sessionId: id,
       sender: `${user?.firstName} ${user?.lastName}`,
-      content: newMessage,
-      timestamp: new Date(),
-      isSystem: false,
-      isSelf: true
-    };
-
-    setMessages(prev => [...prev, message]);
+      content: newMessage.trim()
+    });
     setNewMessage('');
-    
-    // Simulate receiving the message for demo
-    setTimeout(() => {
-      if (!chatOpen) {
-        setUnreadCount(prev => prev + 1);
-      }
-    }, 100);
   };
 
   if (loading) {
@@ -438,7 +559,7 @@ const SessionDetail: React.FC = () => {
                           )}
                         </Box>
                       }
-                      secondary={participant.id === user?._id ? "Host" : "Participant"}
+                      secondary={participantRole(participant.id)}
                     />
                   </ListItem>
                 ))}
@@ -453,6 +574,45 @@ const SessionDetail: React.FC = () => {
               )}
             </Paper>
 
+            {/* Agenda */}
+            {id && (
+              <AgendaPanel
+                sessionId={id}
+                canManage={Boolean(session?.permissions?.manage)}
+              />
+            )}
+
+            {/* Pomodoro Timer */}
+            {id && session?.type === 'pomodoro' && (
+              <PomodoroPanel
+                sessionId={id}
+                canManage={Boolean(session?.permissions?.manage)}
+                live={session?.status === 'live'}
+                onPhaseChange={handlePomodoroPhase}
+              />
+            )}
+
+            {/* Breakout Rooms */}
+            {id && (
+              <BreakoutPanel
+                sessionId={id}
+                canManage={Boolean(session?.permissions?.manage)}
+                live={session?.status === 'live'}
+                present={present}
+                onRoomChange={handleRoomChange}
+              />
+            )}
+
+            {/* Shared Files */}
+            {id && (
+              <Paper sx={{ p: 2 }}>
+                <Typography variant="h6" gutterBottom>
+                  Files
+                </Typography>
+                <SharedFiles owner={{ type: 'session', id }} />
+              </Paper>
+            )}
+
             {/* Session Info */}
             <Paper sx={{ p: 2 }}>
               <Typography variant="h6" gutterBottom>
@@ -461,11 +621,29 @@ const SessionDetail: React.FC = () => {
               <Typography variant="body2" color="text.secondary" gutterBottom>
                 {session?.description || 'Study session in progress'}
               </Typography>
-              <Box sx={{ mt: 2 }}>
-                <Typography variant="caption" color="text.secondary">
-                  Started: {new Date().toLocaleTimeString()}
-                </Typography>
-              </Box>
+              {session?.scheduledStart && (
+                <Box sx={{ mt: 2 }}>
+                  <SessionTime
+                    scheduledStart={session.scheduledStart}
+                    scheduledEnd={session.scheduledEnd}
+                    timezone={session.timezone}
+                    allDay={session.allDay}
+                  />
+                </Box>
+              )}
+              <Button size="small" startIcon={<History />} onClick={() => setHistoryOpen(true)} sx={{ mt: 1 }}>
+                History
+              </Button>
+              {session?.permissions?.assignHosts && (
+                <Button size="small" startIcon={<SupervisorAccount />} onClick={() => setHostsOpen(true)} sx={{ mt: 1 }}>
+                  Hosts
+                </Button>
+              )}
+              {session?.permissions?.manage && (
+                <Button size="small" startIcon={<LinkIcon />} onClick={() => setInvitesOpen(true)} sx={{ mt: 1 }}>
+                  Invite Links
+                </Button>
+              )}
             </Paper>
           </Box>
         </Grid>
@@ -588,6 +766,24 @@ const SessionDetail: React.FC = () => {
         </Box>
       </Paper>
 
+      <SessionHistoryDialog
+        session={historyOpen ? session : null}
+        canViewPast={Boolean(session?.permissions?.manage)}
+        onClose={() => setHistoryOpen(false)}
+      />
+
+      {/* Handing the session over can change what the viewer may do, so it is loaded again */}
+      <ManageHostsDialog
+        session={hostsOpen ? session : null}
+        onClose={() => setHostsOpen(false)}
+        onUpdated={() => fetchSessionDetails()}
+      />
+
+      <InviteLinksDialog
+        session={invitesOpen ? session : null}
+        onClose={() => setInvitesOpen(false)}
+      />
+
       {/* Chat Drawer */}
       <Drawer
         anchor="right"
@@ -606,7 +802,7 @@ const SessionDetail: React.FC = () => {
       >
         {/* Chat Header */}
         <Box sx={{ p: 2, borderBottom: 1, borderColor: 'divider', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-          <Typography variant="h6">Session Chat</Typography>
+          <Typography variant="h6">{breakoutRoom ? `${breakoutRoom.name} Chat` : 'Session Chat'}</Typography>
           <IconButton onClick={() => setChatOpen(false)}>
             <Close />
           </IconButton>
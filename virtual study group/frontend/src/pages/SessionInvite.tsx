@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Alert, Box, Button, CircularProgress, Paper, Typography } from '@mui/material';
+import { Event, PersonAdd } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { SessionInvitePreview } from '../types';
+import { studySessionService } from '../services/studySessionService';
+import SessionTime from '../components/StudySessions/SessionTime';
+
+// Where an invite link to a session leads: what the session is and a button
+// to accept. Accepting makes the user a guest of that session only.
+const SessionInvite: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [preview, setPreview] = useState<SessionInvitePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [accepting, setAccepting] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    setPreview(null);
+    setError(null);
+    studySessionService.getInvitePreview(token)
+      .then(setPreview)
+      .catch(error => {
+        console.error('Error fetching session invite:', error);
+        setError(error.response?.data?.message || 'Failed to load the invite');
+      });
+  }, [token]);
+
+  const handleAccept = async () => {
+    if (!token) return;
+
+    setAccepting(true);
+    try {
+      const { sessionId, message } = await studySessionService.acceptInvite(token);
+      toast.success(message);
+      navigate(`/sessions/${sessionId}`);
+    } catch (error: any) {
+      console.error('Error accepting session invite:', error);
+      toast.error(error.response?.data?.message || 'Failed to accept the invite');
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <Box maxWidth={560} mx="auto">
+        <Alert severity="error">{error}</Alert>
+      </Box>
+    );
+  }
+
+  if (!preview) {
+    return (
+      <Box display="flex" justifyContent="center" sx={{ py: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const { session } = preview;
+
+  return (
+    <Box maxWidth={560} mx="auto">
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="overline" color="text.secondary">
+          You're invited to a study session
+        </Typography>
+        <Typography variant="h5" gutterBottom>{session.title}</Typography>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Hosted by {session.host.firstName} {session.host.lastName}
+          {session.group?.name && ` in ${session.group.name}`}
+        </Typography>
+        <Box display="flex" alignItems="flex-start" gap={1} sx={{ my: 2 }}>
+          <Event fontSize="small" color="action" />
+          <Typography variant="body2" component="div">
+            <SessionTime
+              scheduledStart={session.scheduledStart}
+              scheduledEnd={session.scheduledEnd}
+              timezone={session.timezone}
+              allDay={session.allDay}
+            />
+          </Typography>
+        </Box>
+        <Typography variant="body1" sx={{ mb: 2 }}>{session.description}</Typography>
+
+        {preview.hasAccess ? (
+          <Button variant="contained" onClick={() => navigate(`/sessions/${session._id}`)}>
+            Open Session
+          </Button>
+        ) : preview.problem ? (
+          <Alert severity="warning">{preview.problem}</Alert>
+        ) : (
+          <>
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>
+              As a guest you can join this session, see its files and use its chat.
+              {preview.singleUse && ' This link works only once.'}
+            </Typography>
+            <Button variant="contained" startIcon={<PersonAdd />} disabled={accepting} onClick={handleAccept}>
+              Accept Invite
+            </Button>
+          </>
+        )}
+      </Paper>
+    </Box>
+  );
+};
+
+export default SessionInvite;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   Box,
   Grid,
@@ -26,6 +26,15 @@ import {
   Divider,
   ListItemIcon,
   CircularProgress,
+  Radio,
+  RadioGroup,
+  Alert,
+  FormControlLabel,
+  Switch,
+  FormLabel,
+  List,
+  ListItem,
+  ListItemText,
 } from '@mui/material';
 import {
   Add,
@@ -38,90 +47,393 @@ import {
   Edit,
   Delete,
   PlayArrow,
+  Stop,
   CalendarToday,
   School,
   Assignment,
   Poll,
   Quiz,
   TrendingUp,
+  Repeat,
+  EventBusy,
+  HourglassEmpty,
+  UploadFile,
+  HowToReg,
+  Star,
+  RateReview,
+  FormatListNumbered,
+  History,
+  Restore,
+  BookmarkAdd,
+  Timer,
 } from '@mui/icons-material';
 import { useForm, Controller } from 'react-hook-form';
 import { useAuthStore } from '../stores/authStore';
 import { useNavigate } from 'react-router-dom';
-import { format } from 'date-fns';
 import toast from 'react-hot-toast';
-import { StudySession } from '../types';
+import {
+  StudySession,
+  SessionSeries,
+  SeriesEditScope,
+  SessionConflict,
+  SessionPage,
+  CancellationDetails,
+  SessionTemplate,
+} from '../types';
 import { studySessionService } from '../services/studySessionService';
 import { groupsAPI } from '../services/api';
+import ImportSessionsDialog from '../components/StudySessions/ImportSessionsDialog';
+import ConflictDialog, { ConflictList } from '../components/StudySessions/ConflictDialog';
+import AttendanceReportDialog from '../components/StudySessions/AttendanceReportDialog';
+import FeedbackDialog from '../components/StudySessions/FeedbackDialog';
+import SessionFeedbackDialog from '../components/StudySessions/SessionFeedbackDialog';
+import AgendaReviewDialog from '../components/StudySessions/AgendaReviewDialog';
+import SessionHistoryDialog from '../components/StudySessions/SessionHistoryDialog';
+import CancelSessionDialog from '../components/StudySessions/CancelSessionDialog';
+import SaveTemplateDialog from '../components/StudySessions/SaveTemplateDialog';
+import FeedbackTrends from '../components/StudySessions/FeedbackTrends';
+import SessionTime from '../components/StudySessions/SessionTime';
+import SessionFilters, {
+  emptySessionFilters,
+  SessionFilterValues,
+  toListFilters,
+} from '../components/StudySessions/SessionFilters';
+import { dateToZonedInput, getViewerTimezone, isValidTimezone, zonedInputToDate } from '../utils/timezone';
+import { fieldErrorMessages, getValidationErrors } from '../utils/apiErrors';
 
 interface CreateSessionForm {
+  // The template the session starts from, if any
+  templateId: string;
   title: string;
   description: string;
   groupId: string;
   startTime: string;
   duration: number;
-  type: 'study' | 'discussion' | 'presentation' | 'exam-prep' | 'project-work';
+  allDay: boolean;
+  timezone: string;
+  autoStart: boolean;
+  autoComplete: boolean;
+  type: 'study' | 'discussion' | 'presentation' | 'exam-prep' | 'project-work' | 'pomodoro';
   maxParticipants: number;
+  repeat: 'none' | 'weekly' | 'biweekly';
+  repeatDays: string[];
+  repeatEnd: 'count' | 'until';
+  repeatCount: number;
+  repeatUntil: string;
 }
 
+interface EditSessionForm {
+  title: string;
+  description: string;
+  startTime: string;
+  duration: number;
+  maxParticipants: string;
+  scope: SeriesEditScope;
+}
+
+// The edit dialog field that shows the server's validation errors for each API field
+const editFieldFor: Record<string, keyof EditSessionForm> = {
+  title: 'title',
+  description: 'description',
+  maxParticipants: 'maxParticipants',
+  scheduledStart: 'startTime',
+  scheduledEnd: 'duration',
+  timezone: 'startTime',
+  allDay: 'startTime',
+};
+
+const weekdays = [
+  { value: 'MO', label: 'Mon' },
+  { value: 'TU', label: 'Tue' },
+  { value: 'WE', label: 'Wed' },
+  { value: 'TH', label: 'Thu' },
+  { value: 'FR', label: 'Fri' },
+  { value: 'SA', label: 'Sat' },
+  { value: 'SU', label: 'Sun' },
+];
+
+// Turn the "Repeat" controls of the create dialog into an RRULE
+const buildRRule = (data: CreateSessionForm) => {
+  const parts = ['FREQ=WEEKLY'];
+  if (data.repeat === 'biweekly') {
+    parts.push('INTERVAL=2');
+  }
+  if (data.repeatDays.length > 0) {
+    parts.push(`BYDAY=${data.repeatDays.join(',')}`);
+  }
+  if (data.repeatEnd === 'until') {
+    parts.push(`UNTIL=${data.repeatUntil.replace(/-/g, '')}`);
+  } else {
+    parts.push(`COUNT=${data.repeatCount}`);
+  }
+  return parts.join(';');
+};
+
+// Human readable summary of an RRULE, e.g. "Every 2 weeks on Mon, Wed, 6 times"
+const describeRRule = (rrule: string) => {
+  const rule = rrule.split(';').reduce<Record<string, string>>((acc, part) => {
+    const [key, value] = part.split('=');
+    acc[key] = value;
+    return acc;
+  }, {});
+
+  const interval = parseInt(rule.INTERVAL || '1', 10);
+  const unit = rule.FREQ === 'DAILY' ? 'day' : 'week';
+  let text = interval > 1 ? `Every ${interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.BYDAY) {
+    const days = rule.BYDAY.split(',').map(day => weekdays.find(w => w.value === day)?.label || day);
+    text += ` on ${days.join(', ')}`;
+  }
+  if (rule.COUNT) {
+    text += `, ${rule.COUNT} times`;
+  }
+  if (rule.UNTIL) {
+    text += `, until ${rule.UNTIL.slice(0, 4)}-${rule.UNTIL.slice(4, 6)}-${rule.UNTIL.slice(6, 8)}`;
+  }
+  return text;
+};
+
+// The tabs, in order, each a separately paginated list
+const sessionTabs = ['upcoming', 'past', 'my', 'cancelled'] as const;
+type SessionTab = typeof sessionTabs[number];
+
+interface SessionListState {
+  sessions: StudySession[];
+  nextCursor: string | null;
+  loading: boolean;
+  loaded: boolean;
+}
+
+const emptyList: SessionListState = { sessions: [], nextCursor: null, loading: false, loaded: false };
+
+const emptyLists: Record<SessionTab, SessionListState> = {
+  upcoming: emptyList,
+  past: emptyList,
+  my: emptyList,
+  cancelled: emptyList,
+};
+
+const sessionLoaders = {
+  upcoming: studySessionService.getUpcomingSessions,
+  past: studySessionService.getPastSessions,
+  my: studySessionService.getMySessions,
+  cancelled: studySessionService.getCancelledSessions,
+};
+
 const StudySessions: React.FC = () => {
   const [activeTab, setActiveTab] = useState(0);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [selectedSession, setSelectedSession] = useState<StudySession | null>(null);
-  const [upcomingSessions, setUpcomingSessions] = useState<StudySession[]>([]);
-  const [pastSessions, setPastSessions] = useState<StudySession[]>([]);
-  const [mySessions, setMySessions] = useState<StudySession[]>([]);
+  const [lists, setLists] = useState(emptyLists);
+  const [filters, setFilters] = useState<SessionFilterValues>(emptySessionFilters);
   const [userGroups, setUserGroups] = useState<any[]>([]);
+  const [editingSession, setEditingSession] = useState<StudySession | null>(null);
+  const [attendanceSessionId, setAttendanceSessionId] = useState<string | null>(null);
+  const [ratingSession, setRatingSession] = useState<StudySession | null>(null);
+  const [feedbackSession, setFeedbackSession] = useState<StudySession | null>(null);
+  const [agendaSession, setAgendaSession] = useState<StudySession | null>(null);
+  const [historySession, setHistorySession] = useState<StudySession | null>(null);
+  const [cancelling, setCancelling] = useState<{ session: StudySession; series: boolean } | null>(null);
+  const [templates, setTemplates] = useState<SessionTemplate[]>([]);
+  const [templateSession, setTemplateSession] = useState<StudySession | null>(null);
+  const [ratingsOpen, setRatingsOpen] = useState(false);
+  const [seriesDetails, setSeriesDetails] = useState<{ series: SessionSeries; sessions: StudySession[] } | null>(null);
+  const [createConflicts, setCreateConflicts] = useState<SessionConflict[]>([]);
+  const [pendingConflict, setPendingConflict] = useState<{
+    conflicts: SessionConflict[];
+    confirmLabel: string;
+    onConfirm: () => Promise<void>;
+  } | null>(null);
   
   const { user } = useAuthStore();
   const navigate = useNavigate();
-  const { register, handleSubmit, reset, control, formState: { errors } } = useForm<CreateSessionForm>({
+  const { register, handleSubmit, reset, control, watch, setValue, formState: { errors } } = useForm<CreateSessionForm>({
     defaultValues: {
+      templateId: '',
       title: '',
       description: '',
       groupId: '',
       startTime: '',
       duration: 60,
+      allDay: false,
+      timezone: getViewerTimezone(user),
+      autoStart: false,
+      autoComplete: false,
       type: 'study',
-      maxParticipants: 10
+      maxParticipants: 10,
+      repeat: 'none',
+      repeatDays: [],
+      repeatEnd: 'count',
+      repeatCount: 10,
+      repeatUntil: ''
     }
   });
+  const {
+    register: registerEdit,
+    handleSubmit: handleEditSubmit,
+    reset: resetEdit,
+    control: editControl,
+    setError: setEditError,
+    formState: { errors: editErrors }
+  } = useForm<EditSessionForm>();
+
+  const repeat = watch('repeat');
+  const repeatEnd = watch('repeatEnd');
+  const startTime = watch('startTime');
+  const duration = watch('duration');
+  const allDay = watch('allDay');
+  const timezone = watch('timezone');
+  const groupId = watch('groupId');
+  const templateId = watch('templateId');
+
+  // Personal templates and those of the chosen group
+  const groupTemplates = templates.filter(template => !template.group || !groupId || template.group._id === groupId);
+  const selectedTemplate = templates.find(template => template._id === templateId);
 
-  // Fetch sessions data
   useEffect(() => {
-    const fetchSessions = async () => {
-      try {
-        setLoading(true);
-        const [upcoming, past, my, groupsResponse] = await Promise.all([
-          studySessionService.getUpcomingSessions(),
-          studySessionService.getPastSessions(),
-          studySessionService.getMySessions(),
-          groupsAPI.getUserGroups()
-        ]);
-        setUpcomingSessions(upcoming);
-        setPastSessions(past);
-        setMySessions(my);
-        
-        console.log('Groups response:', groupsResponse);
-        console.log('Groups data:', groupsResponse.data);
-        
-        // The API returns groups directly in response.data
-        const groups = groupsResponse.data || groupsResponse;
-        console.log('Processed groups:', groups);
-        setUserGroups(Array.isArray(groups) ? groups : []);
-      } catch (error) {
-        console.error('Failed to fetch sessions:', error);
-        toast.error('Failed to load study sessions');
-      } finally {
-        setLoading(false);
-      }
-    };
+    if (!createDialogOpen) return;
+
+    studySessionService.getTemplates()
+      .then(setTemplates)
+      .catch(error => {
+        console.error('Error fetching session templates:', error);
+        setTemplates([]);
+      });
+  }, [createDialogOpen]);
+
+  // Fill the form in from a template; the agenda and links are added by the server
+  const applyTemplate = (id: string) => {
+    setValue('templateId', id);
+    const template = templates.find(entry => entry._id === id);
+    if (!template) return;
+
+    if (template.title) setValue('title', template.title);
+    if (template.description) setValue('description', template.description);
+    setValue('type', template.type);
+    setValue('duration', template.duration);
+    setValue('allDay', false);
+    if (template.maxParticipants) setValue('maxParticipants', template.maxParticipants);
+    if (template.group) setValue('groupId', template.group._id);
+  };
+
+  // Warn about overlapping sessions while a time is being picked
+  useEffect(() => {
+    const start = zonedInputToDate(startTime || '', isValidTimezone(timezone) ? timezone : getViewerTimezone(user));
+    const minutes = allDay ? 24 * 60 : Number(duration);
+    if (!createDialogOpen || !startTime || isNaN(start.getTime()) || !minutes) {
+      setCreateConflicts([]);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      studySessionService.checkConflicts(start.toISOString(), new Date(start.getTime() + minutes * 60000).toISOString())
+        .then(setCreateConflicts)
+        .catch(() => setCreateConflicts([]));
+    }, 400);
 
-    fetchSessions();
+    return () => clearTimeout(timer);
+  }, [createDialogOpen, startTime, duration, allDay, timezone, user]);
+
+  const fetchGroups = useCallback(async () => {
+    try {
+      const groupsResponse = await groupsAPI.getUserGroups();
+      // The API returns groups directly in response.data
+      const groups = groupsResponse.data || groupsResponse;
+      setUserGroups(Array.isArray(groups) ? groups : []);
+    } catch (error) {
+      console.error('Failed to fetch groups:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchGroups();
+  }, [fetchGroups]);
+
+  const tab = sessionTabs[activeTab];
+  const currentList = lists[tab];
+  // Responses to superseded requests (e.g. before a filter change) are dropped
+  const requestIds = useRef<Record<SessionTab, number>>({ upcoming: 0, past: 0, my: 0, cancelled: 0 });
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const setList = (list: SessionTab, update: (state: SessionListState) => SessionListState) =>
+    setLists(prev => ({ ...prev, [list]: update(prev[list]) }));
+
+  const updateSessions = (list: SessionTab, update: (sessions: StudySession[]) => StudySession[]) =>
+    setList(list, state => ({ ...state, sessions: update(state.sessions) }));
+
+  // Load the first page of a list, or the page after `cursor`
+  const loadSessions = useCallback(async (list: SessionTab, cursor: string | null) => {
+    const requestId = ++requestIds.current[list];
+    setLists(prev => ({ ...prev, [list]: { ...prev[list], loading: true } }));
+
+    let page: SessionPage | null = null;
+    try {
+      page = await sessionLoaders[list]({
+        ...toListFilters(filters, getViewerTimezone(user), user?._id),
+        cursor: cursor || undefined,
+      });
+    } catch (error) {
+      console.error('Failed to fetch sessions:', error);
+      toast.error('Failed to load study sessions');
+    }
+
+    if (requestId !== requestIds.current[list]) return;
+    setLists(prev => ({
+      ...prev,
+      [list]: page
+        ? {
+            sessions: cursor ? [...prev[list].sessions, ...page.sessions] : page.sessions,
+            nextCursor: page.nextCursor,
+            loading: false,
+            loaded: true,
+          }
+        : { ...prev[list], loading: false, loaded: true },
+    }));
+  }, [filters, user]);
+
+  // Reload every list from the first page, e.g. after the filters changed
+  const refreshSessions = useCallback(() => {
+    sessionTabs.forEach(list => requestIds.current[list]++);
+    setLists(emptyLists);
   }, []);
 
+  // Drop a list so it is fetched again when it is next shown
+  const resetList = (list: SessionTab) => {
+    requestIds.current[list]++;
+    setList(list, () => emptyList);
+  };
+
+  const handleFiltersChange = useCallback((values: SessionFilterValues) => {
+    setFilters(values);
+    refreshSessions();
+  }, [refreshSessions]);
+
+  useEffect(() => {
+    if (!currentList.loaded && !currentList.loading) {
+      loadSessions(tab, null);
+    }
+  }, [tab, currentList, loadSessions]);
+
+  // Infinite scroll: fetch the next page once the end of the list comes into view
+  useEffect(() => {
+    const node = loadMoreRef.current;
+    const cursor = currentList.nextCursor;
+    if (!node || !cursor || currentList.loading) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) {
+        loadSessions(tab, cursor);
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [tab, currentList, loadSessions]);
+
   const handleSessionActionClick = (event: React.MouseEvent<HTMLElement>, session: StudySession) => {
     setAnchorEl(event.currentTarget);
     setSelectedSession(session);
@@ -140,26 +452,66 @@ const StudySessions: React.FC = () => {
     reset();
   };
 
-  const onCreateSubmit = async (data: CreateSessionForm) => {
+  // The server answers 409 with the overlapping sessions when an action would double-book the user
+  const getConflicts = (error: any): SessionConflict[] | null =>
+    error.response?.status === 409 ? error.response.data.conflicts : null;
+
+  const submitCreate = async (data: CreateSessionForm, ignoreConflicts: boolean) => {
     try {
       setLoading(true);
       
+      // The start is entered as local time in the chosen timezone; all-day
+      // sessions are snapped to whole days by the backend
+      const start = zonedInputToDate(data.startTime, data.timezone);
+      const minutes = data.allDay ? 24 * 60 : data.duration;
+
       // Prepare data in the format expected by the backend
       const sessionData = {
         title: data.title,
         description: data.description,
         groupId: data.groupId,
-        scheduledStart: new Date(data.startTime).toISOString(),
-        scheduledEnd: new Date(new Date(data.startTime).getTime() + data.duration * 60000).toISOString(),
+        scheduledStart: start.toISOString(),
+        scheduledEnd: new Date(start.getTime() + minutes * 60000).toISOString(),
+        timezone: data.timezone,
+        allDay: data.allDay,
+        autoStart: data.autoStart,
+        autoComplete: data.autoComplete,
         type: data.type,
-        agenda: []
+        maxParticipants: Number(data.maxParticipants),
+        agenda: [],
+        templateId: data.templateId || undefined,
+        ignoreConflicts
       };
 
+      if (data.repeat !== 'none') {
+        const { sessions } = await studySessionService.createSeries({
+          ...sessionData,
+          recurrence: { rrule: buildRRule(data) }
+        });
+        updateSessions('upcoming', prev => [...prev, ...sessions].sort(
+          (a, b) => new Date(a.scheduledStart).getTime() - new Date(b.scheduledStart).getTime()
+        ));
+        handleCreateDialogClose();
+        toast.success(`Created ${sessions.length} recurring sessions`);
+        return;
+      }
+
       const createdSession = await studySessionService.createSession(sessionData as any);
-      setUpcomingSessions(prev => [createdSession, ...prev]);
+      updateSessions('upcoming', prev => [createdSession, ...prev].sort(
+        (a, b) => new Date(a.scheduledStart).getTime() - new Date(b.scheduledStart).getTime()
+      ));
       handleCreateDialogClose();
       toast.success('Study session created successfully!');
     } catch (error) {
+      const conflicts = getConflicts(error);
+      if (conflicts) {
+        setPendingConflict({
+          conflicts,
+          confirmLabel: 'Create anyway',
+          onConfirm: () => submitCreate(data, true)
+        });
+        return;
+      }
       console.error('Failed to create study session:', error);
       toast.error('Failed to create study session');
     } finally {
@@ -167,34 +519,289 @@ const StudySessions: React.FC = () => {
     }
   };
 
+  const onCreateSubmit = (data: CreateSessionForm) => submitCreate(data, false);
+
+  const isParticipant = (session: StudySession) =>
+    (session.participants || []).some(p => (p.user?._id || p.user) === user?._id);
+
+  // Guests came in with an invite link; they enter the room without joining
+  const isGuest = (session: StudySession) =>
+    (session.guests || []).some(guest => guest.user === user?._id);
+
+  const getWaitlistPosition = (session: StudySession) =>
+    (session.waitlist || []).findIndex(entry => entry.user === user?._id) + 1;
+
+  const isFull = (session: StudySession) =>
+    Boolean(session.maxParticipants) && (session.participants?.length || 0) >= session.maxParticipants!;
+
+  const replaceSession = (updated: StudySession) => {
+    const replace = (sessions: StudySession[]) => sessions.map(s => (s._id === updated._id ? updated : s));
+    updateSessions('upcoming', replace);
+    updateSessions('my', replace);
+  };
+
   const handleJoinSession = async (session: StudySession) => {
+    if (isParticipant(session) || isGuest(session)) {
+      navigate(`/sessions/${session._id}`);
+      return;
+    }
+
+    await joinSession(session, false);
+  };
+
+  const joinSession = async (session: StudySession, ignoreConflicts: boolean) => {
     try {
-      await studySessionService.joinSession(session._id);
+      await studySessionService.joinSession(session._id, ignoreConflicts);
       toast.success('Successfully joined session');
       navigate(`/sessions/${session._id}`);
     } catch (error) {
+      const conflicts = getConflicts(error);
+      if (conflicts) {
+        setPendingConflict({
+          conflicts,
+          confirmLabel: 'Join anyway',
+          onConfirm: () => joinSession(session, true)
+        });
+        return;
+      }
       console.error('Failed to join session:', error);
       toast.error('Failed to join session');
     }
   };
 
+  const handleJoinWaitlist = async (session: StudySession) => {
+    try {
+      const { position } = await studySessionService.joinWaitlist(session._id);
+      replaceSession({
+        ...session,
+        waitlist: [...(session.waitlist || []), { user: user!._id, joinedAt: new Date() }]
+      });
+      toast.success(`You're #${position} on the waitlist`);
+    } catch (error: any) {
+      console.error('Failed to join waitlist:', error);
+      toast.error(error.response?.data?.message || 'Failed to join waitlist');
+    }
+  };
+
+  const handleLeaveWaitlist = async (session: StudySession) => {
+    try {
+      await studySessionService.leaveWaitlist(session._id);
+      replaceSession({
+        ...session,
+        waitlist: (session.waitlist || []).filter(entry => entry.user !== user?._id)
+      });
+      toast.success('Left the waitlist');
+    } catch (error) {
+      console.error('Failed to leave waitlist:', error);
+      toast.error('Failed to leave waitlist');
+    }
+  };
+
+  const renderJoinButton = (session: StudySession) => {
+    const position = getWaitlistPosition(session);
+
+    if (position > 0) {
+      return (
+        <Button
+          variant="outlined"
+          color="primary"
+          fullWidth
+          onClick={() => handleLeaveWaitlist(session)}
+          startIcon={<HourglassEmpty />}
+        >
+          Leave waitlist (#{position})
+        </Button>
+      );
+    }
+
+    if (!isParticipant(session) && !isGuest(session) && isFull(session)) {
+      return (
+        <Button
+          variant="outlined"
+          color="primary"
+          fullWidth
+          onClick={() => handleJoinWaitlist(session)}
+          startIcon={<HourglassEmpty />}
+        >
+          Join waitlist (#{(session.waitlist?.length || 0) + 1})
+        </Button>
+      );
+    }
+
+    return (
+      <Button
+        variant="contained"
+        color="primary"
+        fullWidth
+        onClick={() => handleJoinSession(session)}
+        startIcon={<VideoCall />}
+      >
+        Join Session
+      </Button>
+    );
+  };
+
+  // Sessions are edited in the timezone they were scheduled in
+  const sessionTimezone = (session: StudySession) =>
+    isValidTimezone(session.timezone) ? session.timezone : getViewerTimezone(user);
+
   const handleEditSession = (session: StudySession) => {
-    // TODO: Implement edit session dialog
+    setEditingSession(session);
+    resetEdit({
+      title: session.title,
+      description: session.description,
+      startTime: dateToZonedInput(session.scheduledStart, sessionTimezone(session), session.allDay),
+      duration: Math.round((new Date(session.scheduledEnd).getTime() - new Date(session.scheduledStart).getTime()) / 60000),
+      maxParticipants: session.maxParticipants ? String(session.maxParticipants) : '',
+      scope: 'this'
+    });
     handleMenuClose();
   };
 
-  const handleCancelSession = async (session: StudySession) => {
+  const onEditSubmit = async (data: EditSessionForm) => {
+    if (!editingSession) return;
+
     try {
       setLoading(true);
-      await studySessionService.cancelSession(session._id);
-      setUpcomingSessions(prev => prev.filter(s => s._id !== session._id));
-      toast.success('Study session cancelled successfully!');
+      const start = zonedInputToDate(data.startTime, sessionTimezone(editingSession));
+      const updatedSession = await studySessionService.updateSession(editingSession._id, {
+        title: data.title,
+        description: data.description,
+        scheduledStart: start,
+        scheduledEnd: new Date(start.getTime() + data.duration * 60000),
+        maxParticipants: data.maxParticipants ? Number(data.maxParticipants) : null
+      }, data.scope);
+
+      setEditingSession(null);
+      if (data.scope === 'following') {
+        // Every later occurrence changed as well
+        refreshSessions();
+      } else {
+        replaceSession(updatedSession);
+      }
+      toast.success('Study session updated successfully!');
+    } catch (error) {
+      const validationErrors = getValidationErrors(error);
+      if (validationErrors) {
+        // All-day sessions have no duration field; their end is part of the date
+        const fieldFor = (path: string) =>
+          path === 'scheduledEnd' && editingSession.allDay ? 'startTime' : editFieldFor[path];
+        const messages = fieldErrorMessages(validationErrors);
+        Object.keys(messages)
+          .filter(path => fieldFor(path))
+          .forEach(path => setEditError(fieldFor(path), { type: 'server', message: messages[path] }));
+
+        const general = validationErrors.find(e => e.type !== 'field' || !fieldFor(e.path));
+        toast.error(general?.msg || 'Please correct the highlighted fields');
+        return;
+      }
+      console.error('Failed to update study session:', error);
+      toast.error('Failed to update study session');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleViewSeries = async (session: StudySession) => {
+    handleMenuClose();
+    if (!session.series) return;
+
+    try {
+      setSeriesDetails(await studySessionService.getSeries(session.series));
     } catch (error) {
+      console.error('Failed to load session series:', error);
+      toast.error('Failed to load session series');
+    }
+  };
+
+  const handleCancelSeries = async (session: StudySession, details: CancellationDetails) => {
+    if (!session.series) return;
+
+    try {
+      setLoading(true);
+      await studySessionService.cancelSeries(session.series, details);
+      updateSessions('upcoming', prev => prev.filter(s => s.series !== session.series));
+      resetList('my');
+      resetList('cancelled');
+      setCancelling(null);
+      toast.success('Recurring series cancelled');
+    } catch (error: any) {
+      console.error('Failed to cancel session series:', error);
+      toast.error(error.response?.data?.message || 'Failed to cancel session series');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isHost = (session: StudySession) => (session.host?._id || session.host) === user?._id;
+
+  // Co-hosts run a session like its host. Group moderators can too, which the
+  // lists don't tell; they manage sessions from the session page.
+  const runsSession = (session: StudySession) =>
+    isHost(session) ||
+    (session.coHosts || []).some(coHost => (typeof coHost === 'string' ? coHost : coHost._id) === user?._id);
+
+  const handleStartSession = async (session: StudySession) => {
+    handleMenuClose();
+    try {
+      await studySessionService.startSession(session._id);
+      updateSessions('upcoming', prev => prev.filter(s => s._id !== session._id));
+      navigate(`/sessions/${session._id}`);
+    } catch (error: any) {
+      console.error('Failed to start study session:', error);
+      toast.error(error.response?.data?.message || 'Failed to start study session');
+    }
+  };
+
+  const handleEndSession = async (session: StudySession) => {
+    handleMenuClose();
+    try {
+      replaceSession(await studySessionService.endSession(session._id));
+      toast.success('Study session ended');
+    } catch (error: any) {
+      console.error('Failed to end study session:', error);
+      toast.error(error.response?.data?.message || 'Failed to end study session');
+    }
+  };
+
+  const handleCancelSession = async (session: StudySession, details: CancellationDetails) => {
+    try {
+      setLoading(true);
+      await studySessionService.cancelSession(session._id, details);
+      updateSessions('upcoming', prev => prev.filter(s => s._id !== session._id));
+      updateSessions('my', prev => prev.filter(s => s._id !== session._id));
+      resetList('cancelled');
+      setCancelling(null);
+      toast.success('Study session cancelled successfully!');
+    } catch (error: any) {
       console.error('Failed to cancel study session:', error);
-      toast.error('Failed to cancel study session');
+      toast.error(error.response?.data?.message || 'Failed to cancel study session');
     } finally {
       setLoading(false);
-      handleMenuClose();
+    }
+  };
+
+  const handleConfirmCancel = (details: CancellationDetails) => {
+    if (!cancelling) return Promise.resolve();
+    return cancelling.series
+      ? handleCancelSeries(cancelling.session, details)
+      : handleCancelSession(cancelling.session, details);
+  };
+
+  const canRestore = (session: StudySession) =>
+    runsSession(session) && Boolean(session.restorableUntil) && new Date(session.restorableUntil!) > new Date();
+
+  const handleRestoreSession = async (session: StudySession) => {
+    handleMenuClose();
+    try {
+      await studySessionService.restoreSession(session._id);
+      updateSessions('cancelled', prev => prev.filter(s => s._id !== session._id));
+      resetList('upcoming');
+      resetList('my');
+      toast.success('Study session restored');
+    } catch (error: any) {
+      console.error('Failed to restore study session:', error);
+      toast.error(error.response?.data?.message || 'Failed to restore study session');
     }
   };
 
@@ -204,6 +811,7 @@ const StudySessions: React.FC = () => {
     { value: 'presentation', label: 'Presentation', icon: <Poll /> },
     { value: 'exam-prep', label: 'Exam Preparation', icon: <Quiz /> },
     { value: 'project-work', label: 'Project Work', icon: <TrendingUp /> },
+    { value: 'pomodoro', label: 'Pomodoro Co-working', icon: <Timer /> },
   ];
 
   const getStatusColor = (status: string) => {
@@ -221,9 +829,19 @@ const StudySessions: React.FC = () => {
       <Card>
         <CardContent>
           <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
-            <Typography variant="h6" gutterBottom>
-              {session.title}
-            </Typography>
+            <Box>
+              <Typography variant="h6" gutterBottom>
+                {session.title}
+              </Typography>
+              {session.series && (
+                <Chip
+                  size="small"
+                  icon={<Repeat />}
+                  label={session.isException ? 'Recurring (edited)' : 'Recurring'}
+                  sx={{ mb: 1 }}
+                />
+              )}
+            </Box>
             <IconButton onClick={(e) => handleSessionActionClick(e, session)}>
               <MoreVert />
             </IconButton>
@@ -233,6 +851,22 @@ const StudySessions: React.FC = () => {
             {session.description}
           </Typography>
 
+          {session.status === 'cancelled' && session.cancellation && (
+            <Alert severity="warning" sx={{ mt: 1 }}>
+              {session.cancellation.reason || 'Cancelled without a reason'}
+              {session.cancellation.suggestedStart && (
+                <Box sx={{ mt: 0.5 }}>
+                  Suggested instead:{' '}
+                  <SessionTime
+                    scheduledStart={session.cancellation.suggestedStart}
+                    scheduledEnd={session.cancellation.suggestedEnd || session.cancellation.suggestedStart}
+                    timezone={session.timezone}
+                  />
+                </Box>
+              )}
+            </Alert>
+          )}
+
           <Box sx={{ mt: 2 }}>
             <Typography variant="body2" component="div" sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
               <Group sx={{ mr: 1 }} />
@@ -241,7 +875,12 @@ const StudySessions: React.FC = () => {
 
             <Typography variant="body2" component="div" sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
               <Schedule sx={{ mr: 1 }} />
-              {format(new Date(session.scheduledStart), 'PPp')}
+              <SessionTime
+                scheduledStart={session.scheduledStart}
+                scheduledEnd={session.scheduledEnd}
+                timezone={session.timezone}
+                allDay={session.allDay}
+              />
             </Typography>
 
             <Typography variant="body2" component="div" sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
@@ -251,7 +890,9 @@ const StudySessions: React.FC = () => {
 
             <Typography variant="body2" component="div" sx={{ display: 'flex', alignItems: 'center' }}>
               <AccessTime sx={{ mr: 1 }} />
-              {Math.round((new Date(session.scheduledEnd).getTime() - new Date(session.scheduledStart).getTime()) / 60000)} minutes
+              {session.allDay
+                ? 'All day'
+                : `${Math.round((new Date(session.scheduledEnd).getTime() - new Date(session.scheduledStart).getTime()) / 60000)} minutes`}
             </Typography>
 
             <Box sx={{ mt: 2, display: 'flex', gap: 1, flexWrap: 'wrap' }}>
@@ -271,16 +912,15 @@ const StudySessions: React.FC = () => {
               )}
             </Box>
 
+            {session.maxParticipants && (
+              <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 1 }}>
+                {session.participants?.length || 0}/{session.maxParticipants} spots taken
+                {(session.waitlist?.length || 0) > 0 && ` • ${session.waitlist!.length} waiting`}
+              </Typography>
+            )}
+
             <Box sx={{ mt: 2 }}>
-              <Button
-                variant="contained"
-                color="primary"
-                fullWidth
-                onClick={() => handleJoinSession(session)}
-                startIcon={<VideoCall />}
-              >
-                Join Session
-              </Button>
+              {renderJoinButton(session)}
             </Box>
           </Box>
         </CardContent>
@@ -292,51 +932,166 @@ const StudySessions: React.FC = () => {
     <Box sx={{ p: 3 }}>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
         <Typography variant="h4">Study Sessions</Typography>
-        <Button
-          variant="contained"
-          color="primary"
-          startIcon={<Add />}
-          onClick={handleCreateDialogOpen}
-        >
-          Create Session
-        </Button>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            color="primary"
+            startIcon={<Star />}
+            onClick={() => setRatingsOpen(true)}
+          >
+            My Ratings
+          </Button>
+          <Button
+            variant="outlined"
+            color="primary"
+            startIcon={<UploadFile />}
+            onClick={() => setImportDialogOpen(true)}
+          >
+            Import .ics
+          </Button>
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<Add />}
+            onClick={handleCreateDialogOpen}
+          >
+            Create Session
+          </Button>
+        </Box>
       </Box>
 
       <Tabs value={activeTab} onChange={(_, newValue) => setActiveTab(newValue)} sx={{ mb: 3 }}>
         <Tab label="Upcoming Sessions" />
         <Tab label="Past Sessions" />
         <Tab label="My Sessions" />
+        <Tab label="Cancelled" />
       </Tabs>
 
-      {loading ? (
-        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
-          <CircularProgress />
-        </Box>
-      ) : (
-        <Grid container spacing={3}>
-          {activeTab === 0 && upcomingSessions.map(renderSessionCard)}
-          {activeTab === 1 && pastSessions.map(renderSessionCard)}
-          {activeTab === 2 && mySessions.map(renderSessionCard)}
-        </Grid>
+      <SessionFilters
+        filters={filters}
+        onChange={handleFiltersChange}
+        groups={userGroups}
+        sessionTypes={sessionTypes}
+      />
+
+      <Grid container spacing={3}>
+        {currentList.sessions.map(renderSessionCard)}
+      </Grid>
+
+      {currentList.loaded && !currentList.loading && currentList.sessions.length === 0 && (
+        <Typography color="text.secondary" align="center" sx={{ p: 3 }}>
+          No sessions found
+        </Typography>
       )}
 
+      <Box ref={loadMoreRef} sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+        {currentList.loading && <CircularProgress />}
+      </Box>
+
       <Menu
         anchorEl={anchorEl}
         open={Boolean(anchorEl)}
         onClose={handleMenuClose}
       >
-        <MenuItem onClick={() => selectedSession && handleEditSession(selectedSession)}>
+        {selectedSession && runsSession(selectedSession) && selectedSession.status === 'scheduled' && (
+          <MenuItem onClick={() => handleStartSession(selectedSession)}>
+            <ListItemIcon>
+              <PlayArrow fontSize="small" />
+            </ListItemIcon>
+            Start Session
+          </MenuItem>
+        )}
+        {selectedSession && runsSession(selectedSession) && selectedSession.status === 'live' && (
+          <MenuItem onClick={() => handleEndSession(selectedSession)}>
+            <ListItemIcon>
+              <Stop fontSize="small" />
+            </ListItemIcon>
+            End Session
+          </MenuItem>
+        )}
+        {selectedSession && runsSession(selectedSession) && ['live', 'completed'].includes(selectedSession.status) && (
+          <MenuItem onClick={() => { setAttendanceSessionId(selectedSession._id); handleMenuClose(); }}>
+            <ListItemIcon>
+              <HowToReg fontSize="small" />
+            </ListItemIcon>
+            Attendance
+          </MenuItem>
+        )}
+        {selectedSession && runsSession(selectedSession) && selectedSession.status === 'completed' && (
+          <MenuItem onClick={() => { setFeedbackSession(selectedSession); handleMenuClose(); }}>
+            <ListItemIcon>
+              <Star fontSize="small" />
+            </ListItemIcon>
+            View Feedback
+          </MenuItem>
+        )}
+        {selectedSession && !runsSession(selectedSession) && isParticipant(selectedSession) &&
+          selectedSession.status === 'completed' && (
+          <MenuItem onClick={() => { setRatingSession(selectedSession); handleMenuClose(); }}>
+            <ListItemIcon>
+              <RateReview fontSize="small" />
+            </ListItemIcon>
+            Rate Session
+          </MenuItem>
+        )}
+        {selectedSession && selectedSession.status === 'completed' && selectedSession.agenda?.length > 0 && (
+          <MenuItem onClick={() => { setAgendaSession(selectedSession); handleMenuClose(); }}>
+            <ListItemIcon>
+              <FormatListNumbered fontSize="small" />
+            </ListItemIcon>
+            Agenda Review
+          </MenuItem>
+        )}
+        <MenuItem onClick={() => { setHistorySession(selectedSession); handleMenuClose(); }}>
           <ListItemIcon>
-            <Edit fontSize="small" />
+            <History fontSize="small" />
           </ListItemIcon>
-          Edit Session
+          History
         </MenuItem>
-        <MenuItem onClick={() => selectedSession && handleCancelSession(selectedSession)}>
+        <MenuItem onClick={() => { setTemplateSession(selectedSession); handleMenuClose(); }}>
           <ListItemIcon>
-            <Delete fontSize="small" />
+            <BookmarkAdd fontSize="small" />
           </ListItemIcon>
-          Cancel Session
+          Save as Template
         </MenuItem>
+        <MenuItem onClick={() => selectedSession && handleEditSession(selectedSession)}>
+          <ListItemIcon>
+            <Edit fontSize="small" />
+          </ListItemIcon>
+          Edit Session
+        </MenuItem>
+        {selectedSession && ['scheduled', 'live'].includes(selectedSession.status) && (
+          <MenuItem onClick={() => { setCancelling({ session: selectedSession, series: false }); handleMenuClose(); }}>
+            <ListItemIcon>
+              <Delete fontSize="small" />
+            </ListItemIcon>
+            Cancel Session
+          </MenuItem>
+        )}
+        {selectedSession && canRestore(selectedSession) && (
+          <MenuItem onClick={() => handleRestoreSession(selectedSession)}>
+            <ListItemIcon>
+              <Restore fontSize="small" />
+            </ListItemIcon>
+            Restore Session
+          </MenuItem>
+        )}
+        {selectedSession?.series && (
+          <MenuItem onClick={() => handleViewSeries(selectedSession)}>
+            <ListItemIcon>
+              <Repeat fontSize="small" />
+            </ListItemIcon>
+            View Series
+          </MenuItem>
+        )}
+        {selectedSession?.series && (
+          <MenuItem onClick={() => { setCancelling({ session: selectedSession, series: true }); handleMenuClose(); }}>
+            <ListItemIcon>
+              <EventBusy fontSize="small" />
+            </ListItemIcon>
+            Cancel Series
+          </MenuItem>
+        )}
       </Menu>
 
       <Dialog open={createDialogOpen} onClose={handleCreateDialogClose} maxWidth="sm" fullWidth>
@@ -344,6 +1099,32 @@ const StudySessions: React.FC = () => {
           <DialogTitle>Create New Study Session</DialogTitle>
           <DialogContent>
             <Box sx={{ mt: 2 }}>
+              {templates.length > 0 && (
+                <FormControl fullWidth margin="normal">
+                  <InputLabel>Start from template</InputLabel>
+                  <Select
+                    label="Start from template"
+                    value={templateId}
+                    onChange={(e) => applyTemplate(e.target.value)}
+                  >
+                    <MenuItem value="">
+                      <em>No template</em>
+                    </MenuItem>
+                    {groupTemplates.map(template => (
+                      <MenuItem key={template._id} value={template._id}>
+                        {template.name}
+                        {template.group ? ` – ${template.group.name}` : ' – Personal'}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                  {selectedTemplate && (
+                    <Typography variant="caption" color="text.secondary" sx={{ mt: 1 }}>
+                      Adds {selectedTemplate.agenda.length} agenda topics and {selectedTemplate.resources.length} links
+                    </Typography>
+                  )}
+                </FormControl>
+              )}
+
               <TextField
                 label="Title"
                 fullWidth
@@ -413,9 +1194,20 @@ const StudySessions: React.FC = () => {
                 )}
               </FormControl>
 
+              <Controller
+                name="allDay"
+                control={control}
+                render={({ field }) => (
+                  <FormControlLabel
+                    control={<Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                    label="All day"
+                  />
+                )}
+              />
+
               <TextField
-                label="Start Time"
-                type="datetime-local"
+                label={allDay ? 'Date' : 'Start Time'}
+                type={allDay ? 'date' : 'datetime-local'}
                 fullWidth
                 InputLabelProps={{ shrink: true }}
                 {...register('startTime', { required: 'Start time is required' })}
@@ -425,19 +1217,40 @@ const StudySessions: React.FC = () => {
               />
 
               <TextField
-                label="Duration (minutes)"
-                type="number"
+                label="Timezone"
                 fullWidth
-                {...register('duration', {
-                  required: 'Duration is required',
-                  min: { value: 15, message: 'Duration must be at least 15 minutes' },
-                  max: { value: 480, message: 'Duration cannot exceed 8 hours' }
+                {...register('timezone', {
+                  required: 'Timezone is required',
+                  validate: value => isValidTimezone(value) || 'Unknown timezone'
                 })}
-                error={!!errors.duration}
-                helperText={errors.duration?.message}
+                error={!!errors.timezone}
+                helperText={errors.timezone?.message || 'IANA name, e.g. Europe/Berlin. The start time is in this timezone.'}
                 margin="normal"
               />
 
+              {!allDay && (
+                <TextField
+                  label="Duration (minutes)"
+                  type="number"
+                  fullWidth
+                  {...register('duration', {
+                    required: 'Duration is required',
+                    min: { value: 15, message: 'Duration must be at least 15 minutes' },
+                    max: { value: 480, message: 'Duration cannot exceed 8 hours' }
+                  })}
+                  error={!!errors.duration}
+                  helperText={errors.duration?.message}
+                  margin="normal"
+                />
+              )}
+
+              {createConflicts.length > 0 && (
+                <Alert severity="warning" sx={{ mt: 1 }}>
+                  This time overlaps with {createConflicts.length === 1 ? 'one of your sessions' : `${createConflicts.length} of your sessions`}:
+                  <ConflictList conflicts={createConflicts} />
+                </Alert>
+              )}
+
               <TextField
                 label="Max Participants"
                 type="number"
@@ -451,6 +1264,111 @@ const StudySessions: React.FC = () => {
                 helperText={errors.maxParticipants?.message}
                 margin="normal"
               />
+
+              <Box>
+                <Controller
+                  name="autoStart"
+                  control={control}
+                  render={({ field }) => (
+                    <FormControlLabel
+                      control={<Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                      label="Start automatically"
+                    />
+                  )}
+                />
+                <Controller
+                  name="autoComplete"
+                  control={control}
+                  render={({ field }) => (
+                    <FormControlLabel
+                      control={<Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                      label="End automatically"
+                    />
+                  )}
+                />
+              </Box>
+
+              <FormControl fullWidth margin="normal">
+                <InputLabel>Repeat</InputLabel>
+                <Controller
+                  name="repeat"
+                  control={control}
+                  render={({ field }) => (
+                    <Select {...field} label="Repeat">
+                      <MenuItem value="none">Does not repeat</MenuItem>
+                      <MenuItem value="weekly">Weekly</MenuItem>
+                      <MenuItem value="biweekly">Every 2 weeks</MenuItem>
+                    </Select>
+                  )}
+                />
+              </FormControl>
+
+              {repeat !== 'none' && (
+                <Box sx={{ mt: 1 }}>
+                  <FormLabel>Repeat on</FormLabel>
+                  <Controller
+                    name="repeatDays"
+                    control={control}
+                    render={({ field }) => (
+                      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 1 }}>
+                        {weekdays.map(day => {
+                          const selected = field.value.includes(day.value);
+                          return (
+                            <Chip
+                              key={day.value}
+                              label={day.label}
+                              color={selected ? 'primary' : 'default'}
+                              onClick={() => field.onChange(
+                                selected ? field.value.filter(d => d !== day.value) : [...field.value, day.value]
+                              )}
+                            />
+                          );
+                        })}
+                      </Box>
+                    )}
+                  />
+                  <Typography variant="caption" color="text.secondary">
+                    Leave empty to repeat on the weekday of the start time
+                  </Typography>
+
+                  <Controller
+                    name="repeatEnd"
+                    control={control}
+                    render={({ field }) => (
+                      <RadioGroup row {...field} sx={{ mt: 1 }}>
+                        <FormControlLabel value="count" control={<Radio />} label="After a number of sessions" />
+                        <FormControlLabel value="until" control={<Radio />} label="On a date" />
+                      </RadioGroup>
+                    )}
+                  />
+
+                  {repeatEnd === 'count' ? (
+                    <TextField
+                      label="Number of sessions"
+                      type="number"
+                      fullWidth
+                      {...register('repeatCount', {
+                        min: { value: 2, message: 'A series needs at least 2 sessions' },
+                        max: { value: 52, message: 'Cannot exceed 52 sessions' }
+                      })}
+                      error={!!errors.repeatCount}
+                      helperText={errors.repeatCount?.message}
+                      margin="normal"
+                    />
+                  ) : (
+                    <TextField
+                      label="Repeat until"
+                      type="date"
+                      fullWidth
+                      InputLabelProps={{ shrink: true }}
+                      {...register('repeatUntil', { required: 'End date is required' })}
+                      error={!!errors.repeatUntil}
+                      helperText={errors.repeatUntil?.message}
+                      margin="normal"
+                    />
+                  )}
+                </Box>
+              )}
             </Box>
           </DialogContent>
           <DialogActions>
@@ -461,6 +1379,186 @@ const StudySessions: React.FC = () => {
           </DialogActions>
         </form>
       </Dialog>
+
+      <Dialog open={Boolean(editingSession)} onClose={() => setEditingSession(null)} maxWidth="sm" fullWidth>
+        <form onSubmit={handleEditSubmit(onEditSubmit)}>
+          <DialogTitle>Edit Study Session</DialogTitle>
+          <DialogContent>
+            <TextField
+              label="Title"
+              fullWidth
+              {...registerEdit('title', { required: 'Title is required' })}
+              error={!!editErrors.title}
+              helperText={editErrors.title?.message}
+              margin="normal"
+            />
+
+            <TextField
+              label="Description"
+              fullWidth
+              multiline
+              rows={3}
+              {...registerEdit('description', { required: 'Description is required' })}
+              error={!!editErrors.description}
+              helperText={editErrors.description?.message}
+              margin="normal"
+            />
+
+            <TextField
+              label={editingSession?.allDay ? 'Date' : 'Start Time'}
+              type={editingSession?.allDay ? 'date' : 'datetime-local'}
+              fullWidth
+              InputLabelProps={{ shrink: true }}
+              {...registerEdit('startTime', { required: 'Start time is required' })}
+              error={!!editErrors.startTime}
+              helperText={editErrors.startTime?.message || (editingSession && `Time in ${sessionTimezone(editingSession)}`)}
+              margin="normal"
+            />
+
+            {!editingSession?.allDay && (
+              <TextField
+                label="Duration (minutes)"
+                type="number"
+                fullWidth
+                {...registerEdit('duration', {
+                  required: 'Duration is required',
+                  min: { value: 15, message: 'Duration must be at least 15 minutes' },
+                  max: { value: 480, message: 'Duration cannot exceed 8 hours' }
+                })}
+                error={!!editErrors.duration}
+                helperText={editErrors.duration?.message}
+                margin="normal"
+              />
+            )}
+
+            <TextField
+              label="Max Participants"
+              type="number"
+              fullWidth
+              {...registerEdit('maxParticipants', {
+                min: { value: 1, message: 'Must be at least 1' }
+              })}
+              error={!!editErrors.maxParticipants}
+              helperText={editErrors.maxParticipants?.message || 'Leave empty for no limit'}
+              margin="normal"
+            />
+
+            {editingSession?.series && (
+              <FormControl margin="normal">
+                <FormLabel>Apply changes to</FormLabel>
+                <Controller
+                  name="scope"
+                  control={editControl}
+                  render={({ field }) => (
+                    <RadioGroup {...field}>
+                      <FormControlLabel value="this" control={<Radio />} label="This occurrence" />
+                      <FormControlLabel value="following" control={<Radio />} label="This and following occurrences" />
+                    </RadioGroup>
+                  )}
+                />
+              </FormControl>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setEditingSession(null)}>Cancel</Button>
+            <Button type="submit" variant="contained" color="primary" disabled={loading}>
+              {loading ? <CircularProgress size={24} /> : 'Save Changes'}
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+
+      <Dialog open={Boolean(seriesDetails)} onClose={() => setSeriesDetails(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{seriesDetails?.series.title}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Repeat fontSize="small" />
+            {seriesDetails && describeRRule(seriesDetails.series.rrule)}
+          </Typography>
+          <List dense>
+            {seriesDetails?.sessions.map(occurrence => (
+              <ListItem key={occurrence._id} divider>
+                <ListItemText
+                  primary={
+                    <SessionTime
+                      scheduledStart={occurrence.scheduledStart}
+                      scheduledEnd={occurrence.scheduledEnd}
+                      timezone={occurrence.timezone}
+                      allDay={occurrence.allDay}
+                    />
+                  }
+                  secondary={occurrence.isException ? `${occurrence.title} (edited)` : occurrence.title}
+                />
+                <Chip
+                  size="small"
+                  label={occurrence.status}
+                  color={getStatusColor(occurrence.status) as any}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSeriesDetails(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      <ConflictDialog
+        open={Boolean(pendingConflict)}
+        conflicts={pendingConflict?.conflicts || []}
+        confirmLabel={pendingConflict?.confirmLabel || ''}
+        loading={loading}
+        onClose={() => setPendingConflict(null)}
+        onConfirm={async () => {
+          const action = pendingConflict?.onConfirm;
+          setPendingConflict(null);
+          await action?.();
+        }}
+      />
+
+      <FeedbackDialog session={ratingSession} onClose={() => setRatingSession(null)} />
+
+      <SessionFeedbackDialog session={feedbackSession} onClose={() => setFeedbackSession(null)} />
+
+      <AgendaReviewDialog session={agendaSession} onClose={() => setAgendaSession(null)} />
+
+      <SessionHistoryDialog
+        session={historySession}
+        canViewPast={Boolean(historySession && runsSession(historySession))}
+        onClose={() => setHistorySession(null)}
+      />
+
+      <SaveTemplateDialog session={templateSession} onClose={() => setTemplateSession(null)} />
+
+      <CancelSessionDialog
+        session={cancelling?.session || null}
+        series={cancelling?.series}
+        onClose={() => setCancelling(null)}
+        onConfirm={handleConfirmCancel}
+      />
+
+      <Dialog open={ratingsOpen} onClose={() => setRatingsOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Ratings of Sessions I Hosted</DialogTitle>
+        <DialogContent>
+          {ratingsOpen && <FeedbackTrends />}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRatingsOpen(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      <AttendanceReportDialog
+        sessionId={attendanceSessionId}
+        onClose={() => setAttendanceSessionId(null)}
+      />
+
+      <ImportSessionsDialog
+        open={importDialogOpen}
+        onClose={() => setImportDialogOpen(false)}
+        onImported={refreshSessions}
+        groups={userGroups}
+        sessionTypes={sessionTypes}
+      />
     </Box>
   );
 };
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { NotificationSettings, UserNotification, UserNotificationPage } from '../types';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
 
@@ -91,6 +92,49 @@ export const groupsAPI = {
   updateGroup: (groupId: string, updates: any) => api.put(`/groups/${groupId}`, updates),
   
   deleteGroup: (groupId: string) => api.delete(`/groups/${groupId}`),
+
+  getSchedule: (groupId: string) => api.get(`/groups/${groupId}/schedule`),
+
+  updateSchedule: (groupId: string, schedule: {
+    regularMeetings: Array<{ _id?: string; day: string; time: string; duration: number }>;
+    timezone?: string;
+    autoSessions?: { enabled: boolean; weeksAhead?: number };
+  }) => api.put(`/groups/${groupId}/schedule`, schedule),
+
+  syncSchedule: (groupId: string) => api.post(`/groups/${groupId}/schedule/sync`),
+
+  getAttendance: (groupId: string, params: { from?: string; to?: string }) =>
+    api.get(`/groups/${groupId}/attendance`, { params }),
+
+  downloadAttendance: (groupId: string, params: { from?: string; to?: string }) =>
+    api.get(`/groups/${groupId}/attendance`, { params: { ...params, format: 'csv' }, responseType: 'blob' }),
+
+  getFeedback: (groupId: string, params: { from?: string; to?: string; host?: string }) =>
+    api.get(`/groups/${groupId}/feedback`, { params }),
+
+  getResources: (groupId: string) => api.get(`/groups/${groupId}/resources`),
+
+  uploadResource: (groupId: string, file: File, title?: string) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (title) formData.append('title', title);
+    return api.post(`/groups/${groupId}/resources/files`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 0
+    });
+  },
+
+  downloadResource: (groupId: string, resourceId: string) =>
+    api.get(`/groups/${groupId}/resources/${resourceId}/download`, { responseType: 'blob', timeout: 0 }),
+
+  deleteResource: (groupId: string, resourceId: string) =>
+    api.delete(`/groups/${groupId}/resources/${resourceId}`),
+
+  inviteByEmail: (groupId: string, email: string) =>
+    api.post<{ message: string }>(`/groups/${groupId}/invitations`, { email }),
+
+  requestToJoin: (groupId: string, message?: string) =>
+    api.post<{ message: string }>(`/groups/${groupId}/join-requests`, { message }),
 };
 
 // Messages API
@@ -126,6 +170,18 @@ export const usersAPI = {
   searchUsers: (query: string) => api.get(`/users/search?q=${query}`),
   getDashboard: () => api.get('/users/dashboard'),
   getStats: () => api.get('/users/stats'),
+  getNotificationSettings: () => api.get('/users/me/notification-settings'),
+  updateNotificationSettings: (settings: Partial<NotificationSettings>) =>
+    api.put('/users/me/notification-settings', settings),
+};
+
+// Notifications API
+export const notificationsAPI = {
+  getNotifications: (params?: { before?: string; limit?: number; unread?: boolean }) =>
+    api.get<UserNotificationPage>('/notifications', { params }),
+  getUnreadCount: () => api.get<{ count: number }>('/notifications/unread-count'),
+  markRead: (notificationId: string) => api.post<UserNotification>(`/notifications/${notificationId}/read`),
+  markAllRead: () => api.post('/notifications/read-all'),
 };
 
 // Study Sessions API
@@ -1,22 +1,108 @@
 import api from './api';
-import { StudySession } from '../types';
+import {
+  StudySession,
+  CancellationDetails,
+  SessionSeries,
+  SessionRecurrence,
+  SessionTemplate,
+  SessionTemplateInput,
+  SeriesEditScope,
+  SessionImportCandidate,
+  SessionImportPreview,
+  SessionConflict,
+  SessionListFilters,
+  SessionPage,
+  SessionUpdate,
+  SessionAttendanceReport,
+  SessionFeedbackReport,
+  MyFeedback,
+  FeedbackInput,
+  PendingFeedbackSession,
+  FeedbackTrends,
+  AgendaState,
+  PomodoroSettings,
+  PomodoroState,
+  BreakoutState,
+  BreakoutInput,
+  BreakoutAttendanceRound,
+  Resource,
+  ResourceList,
+  SessionHistory,
+  SessionSnapshot,
+  SessionInvite,
+  SessionInviteInput,
+  SessionInvitePreview
+} from '../types';
+import { fileNameFromDisposition } from '../utils/download';
+
+// Query parameters of a session list request; pass the previous page's
+// nextCursor to get the following page
+type SessionListParams = SessionListFilters & { cursor?: string; limit?: number };
 
 export const studySessionService = {
-  // Get all upcoming sessions
-  getUpcomingSessions: async (): Promise<StudySession[]> => {
-    const response = await api.get('/study-sessions/upcoming');
+  // Get a page of upcoming sessions
+  getUpcomingSessions: async (params: SessionListParams = {}): Promise<SessionPage> => {
+    const response = await api.get('/study-sessions/upcoming', { params });
+    return response.data;
+  },
+
+  // Get a page of past sessions, most recent first
+  getPastSessions: async (params: SessionListParams = {}): Promise<SessionPage> => {
+    const response = await api.get('/study-sessions/past', { params });
+    return response.data;
+  },
+
+  // Get a page of sessions where user is host or participant
+  getMySessions: async (params: SessionListParams = {}): Promise<SessionPage> => {
+    const response = await api.get('/study-sessions/my-sessions', { params });
+    return response.data;
+  },
+
+  // Get a page of my cancelled sessions, each with until when it can be restored
+  getCancelledSessions: async (params: SessionListParams = {}): Promise<SessionPage> => {
+    const response = await api.get('/study-sessions/cancelled', { params });
     return response.data;
   },
 
-  // Get past sessions
-  getPastSessions: async (): Promise<StudySession[]> => {
-    const response = await api.get('/study-sessions/past');
+  // Get the URL of the personal calendar (ICS) feed of my sessions
+  getCalendarFeed: async (): Promise<{ url: string }> => {
+    const response = await api.get('/study-sessions/my-sessions/calendar');
     return response.data;
   },
 
-  // Get sessions where user is host or participant
-  getMySessions: async (): Promise<StudySession[]> => {
-    const response = await api.get('/study-sessions/my-sessions');
+  // Issue a new calendar feed URL; the previous one stops working
+  regenerateCalendarFeed: async (): Promise<{ url: string }> => {
+    const response = await api.post('/study-sessions/my-sessions/calendar/regenerate');
+    return response.data;
+  },
+
+  // My sessions that overlap a time range
+  checkConflicts: async (start: string, end: string): Promise<SessionConflict[]> => {
+    const response = await api.get('/study-sessions/conflicts', { params: { start, end } });
+    return response.data.conflicts;
+  },
+
+  // Upload an .ics file and preview the sessions it would create in a group
+  previewImport: async (file: File, groupId: string): Promise<SessionImportPreview> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('groupId', groupId);
+    formData.append('timezone', Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+    const response = await api.post('/study-sessions/import/preview', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return response.data;
+  },
+
+  // Create the confirmed sessions of an import preview
+  importSessions: async (
+    groupId: string,
+    type: StudySession['type'],
+    sessions: SessionImportCandidate[]
+  ): Promise<{ created: StudySession[]; skipped: Array<{ importUid: string; title: string; reason?: string }> }> => {
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const response = await api.post('/study-sessions/import', { groupId, type, sessions, timezone });
     return response.data;
   },
 
@@ -26,25 +112,332 @@ export const studySessionService = {
     return response.data;
   },
 
-  // Update a study session
-  updateSession: async (sessionId: string, sessionData: Partial<StudySession>): Promise<StudySession> => {
-    const response = await api.put(`/study-sessions/${sessionId}`, sessionData);
+  // Create a recurring series; the backend returns the series and its generated occurrences
+  createSeries: async (
+    sessionData: Record<string, any> & { recurrence: SessionRecurrence }
+  ): Promise<{ series: SessionSeries; sessions: StudySession[] }> => {
+    const response = await api.post('/study-sessions', sessionData);
+    return response.data;
+  },
+
+  // Get a recurring series with all of its occurrences
+  getSeries: async (seriesId: string): Promise<{ series: SessionSeries; sessions: StudySession[] }> => {
+    const response = await api.get(`/study-sessions/series/${seriesId}`);
+    return response.data;
+  },
+
+  // Cancel a recurring series and its upcoming occurrences
+  cancelSeries: async (seriesId: string, details: CancellationDetails = {}): Promise<void> => {
+    await api.delete(`/study-sessions/series/${seriesId}`, { data: details });
+  },
+
+  // Update a study session; for series occurrences, scope picks "this" or "this and following"
+  updateSession: async (
+    sessionId: string,
+    sessionData: SessionUpdate,
+    scope: SeriesEditScope = 'this'
+  ): Promise<StudySession> => {
+    const response = await api.put(`/study-sessions/${sessionId}`, sessionData, { params: { scope } });
+    return response.data;
+  },
+
+  // Start a scheduled session (host only)
+  startSession: async (sessionId: string): Promise<StudySession> => {
+    const response = await api.post(`/study-sessions/${sessionId}/start`);
+    return response.data;
+  },
+
+  // End a live session (host only)
+  endSession: async (sessionId: string): Promise<StudySession> => {
+    const response = await api.post(`/study-sessions/${sessionId}/end`);
+    return response.data;
+  },
+
+  // Who attended a session and for how long (host only)
+  getAttendance: async (sessionId: string): Promise<SessionAttendanceReport> => {
+    const response = await api.get(`/study-sessions/${sessionId}/attendance`);
     return response.data;
   },
 
-  // Delete/Cancel a study session
-  cancelSession: async (sessionId: string): Promise<void> => {
-    await api.delete(`/study-sessions/${sessionId}`);
+  // The attendance report of a session as a CSV file (host only)
+  downloadAttendance: async (sessionId: string): Promise<{ blob: Blob; fileName: string }> => {
+    const response = await api.get(`/study-sessions/${sessionId}/attendance`, {
+      params: { format: 'csv' },
+      responseType: 'blob'
+    });
+    return {
+      blob: response.data,
+      fileName: fileNameFromDisposition(response.headers['content-disposition'], 'attendance.csv')
+    };
   },
 
-  // Join a study session
-  joinSession: async (sessionId: string): Promise<StudySession> => {
-    const response = await api.post(`/study-sessions/${sessionId}/join`);
+  // Completed sessions I took part in and haven't rated yet
+  getPendingFeedback: async (): Promise<PendingFeedbackSession[]> => {
+    const response = await api.get('/study-sessions/feedback/pending');
+    return response.data.sessions;
+  },
+
+  // Ratings across the sessions I hosted
+  getFeedbackTrends: async (params: { from?: string; to?: string } = {}): Promise<FeedbackTrends> => {
+    const response = await api.get('/study-sessions/feedback/trends', { params });
+    return response.data;
+  },
+
+  // Ratings and comments of a session (host and group moderators)
+  getSessionFeedback: async (sessionId: string): Promise<SessionFeedbackReport> => {
+    const response = await api.get(`/study-sessions/${sessionId}/feedback`);
+    return response.data;
+  },
+
+  // My feedback on a session and whether I can still change it
+  getMyFeedback: async (sessionId: string): Promise<MyFeedback> => {
+    const response = await api.get(`/study-sessions/${sessionId}/feedback/mine`);
+    return response.data;
+  },
+
+  // Rate a completed session, or change my rating
+  submitFeedback: async (sessionId: string, feedback: FeedbackInput): Promise<MyFeedback> => {
+    const response = await api.put(`/study-sessions/${sessionId}/feedback`, feedback);
+    return response.data;
+  },
+
+  // The agenda of a session with planned and actual time per topic
+  getAgenda: async (sessionId: string): Promise<AgendaState> => {
+    const response = await api.get(`/study-sessions/${sessionId}/agenda`);
+    return response.data;
+  },
+
+  // Add a topic to the end of the agenda (host only)
+  addAgendaItem: async (sessionId: string, item: { topic: string; duration: number }): Promise<AgendaState> => {
+    const response = await api.post(`/study-sessions/${sessionId}/agenda`, item);
+    return response.data;
+  },
+
+  // Change the topic or planned minutes of an agenda item (host only)
+  updateAgendaItem: async (
+    sessionId: string,
+    itemId: string,
+    changes: { topic?: string; duration?: number }
+  ): Promise<AgendaState> => {
+    const response = await api.put(`/study-sessions/${sessionId}/agenda/${itemId}`, changes);
+    return response.data;
+  },
+
+  // Remove an agenda item that hasn't been started (host only)
+  removeAgendaItem: async (sessionId: string, itemId: string): Promise<AgendaState> => {
+    const response = await api.delete(`/study-sessions/${sessionId}/agenda/${itemId}`);
+    return response.data;
+  },
+
+  // Put the agenda in a new order, given every item id (host only)
+  reorderAgenda: async (sessionId: string, order: string[]): Promise<AgendaState> => {
+    const response = await api.put(`/study-sessions/${sessionId}/agenda/order`, { order });
+    return response.data;
+  },
+
+  // Move on to the next topic, or to itemId, in a live session (host only)
+  advanceAgenda: async (sessionId: string, itemId?: string): Promise<AgendaState> => {
+    const response = await api.post(`/study-sessions/${sessionId}/agenda/advance`, { itemId });
+    return response.data;
+  },
+
+  // The timer of a pomodoro session
+  getPomodoro: async (sessionId: string): Promise<PomodoroState> => {
+    const response = await api.get(`/study-sessions/${sessionId}/pomodoro`);
+    return response.data;
+  },
+
+  // Change the timer's lengths (while stopped) or muting (hosts only)
+  updatePomodoro: async (sessionId: string, changes: Partial<PomodoroSettings>): Promise<PomodoroState> => {
+    const response = await api.put(`/study-sessions/${sessionId}/pomodoro`, changes);
+    return response.data;
+  },
+
+  // Start the timer in a live session (hosts only)
+  startPomodoro: async (sessionId: string): Promise<PomodoroState> => {
+    const response = await api.post(`/study-sessions/${sessionId}/pomodoro/start`);
+    return response.data;
+  },
+
+  // Stop the timer (hosts only)
+  stopPomodoro: async (sessionId: string): Promise<PomodoroState> => {
+    const response = await api.post(`/study-sessions/${sessionId}/pomodoro/stop`);
+    return response.data;
+  },
+
+  // The open round of breakout rooms of a session
+  getBreakouts: async (sessionId: string): Promise<BreakoutState> => {
+    const response = await api.get(`/study-sessions/${sessionId}/breakouts`);
+    return response.data;
+  },
+
+  // Split a live session into breakout rooms (hosts only)
+  startBreakouts: async (sessionId: string, input: BreakoutInput): Promise<BreakoutState> => {
+    const response = await api.post(`/study-sessions/${sessionId}/breakouts`, input);
+    return response.data;
+  },
+
+  // Bring everyone back to the main room (hosts only)
+  endBreakouts: async (sessionId: string): Promise<BreakoutState> => {
+    const response = await api.post(`/study-sessions/${sessionId}/breakouts/end`);
+    return response.data;
+  },
+
+  // Send a message to every breakout room (hosts only)
+  broadcastToBreakouts: async (sessionId: string, message: string): Promise<void> => {
+    await api.post(`/study-sessions/${sessionId}/breakouts/broadcast`, { message });
+  },
+
+  // Minutes each member spent in their breakout room (hosts only)
+  getBreakoutAttendance: async (sessionId: string): Promise<BreakoutAttendanceRound[]> => {
+    const response = await api.get(`/study-sessions/${sessionId}/breakouts/attendance`);
+    return response.data;
+  },
+
+  // Files and links shared in a session
+  getResources: async (sessionId: string): Promise<ResourceList> => {
+    const response = await api.get(`/study-sessions/${sessionId}/resources`);
+    return response.data;
+  },
+
+  // Share a file in a session (host and participants)
+  uploadResource: async (sessionId: string, file: File, title?: string): Promise<Resource> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (title) formData.append('title', title);
+
+    const response = await api.post(`/study-sessions/${sessionId}/resources/files`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 0
+    });
+    return response.data;
+  },
+
+  downloadResource: async (sessionId: string, resource: Resource): Promise<{ blob: Blob; fileName: string }> => {
+    const response = await api.get(`/study-sessions/${sessionId}/resources/${resource._id}/download`, {
+      responseType: 'blob',
+      timeout: 0
+    });
+    return {
+      blob: response.data,
+      fileName: fileNameFromDisposition(response.headers['content-disposition'], resource.file?.name || resource.title)
+    };
+  },
+
+  deleteResource: async (sessionId: string, resourceId: string): Promise<void> => {
+    await api.delete(`/study-sessions/${sessionId}/resources/${resourceId}`);
+  },
+
+  // Who changed what about a session, oldest first
+  getHistory: async (sessionId: string): Promise<SessionHistory> => {
+    const response = await api.get(`/study-sessions/${sessionId}/history`);
+    return response.data;
+  },
+
+  // How a session looked at a point in time (host and group moderators)
+  getSnapshot: async (sessionId: string, at: string): Promise<SessionSnapshot> => {
+    const response = await api.get(`/study-sessions/${sessionId}/history/snapshot`, { params: { at } });
+    return response.data;
+  },
+
+  // Cancel a study session, telling participants why and optionally when to meet instead
+  cancelSession: async (sessionId: string, details: CancellationDetails = {}): Promise<void> => {
+    await api.delete(`/study-sessions/${sessionId}`, { data: details });
+  },
+
+  // Undo a cancellation while the restore window is open
+  restoreSession: async (sessionId: string): Promise<StudySession> => {
+    const response = await api.post(`/study-sessions/${sessionId}/restore`);
+    return response.data;
+  },
+
+  // Templates to start a session from: personal ones and those of the user's groups
+  getTemplates: async (groupId?: string): Promise<SessionTemplate[]> => {
+    const response = await api.get('/session-templates', { params: { group: groupId } });
+    return response.data;
+  },
+
+  createTemplate: async (template: SessionTemplateInput): Promise<SessionTemplate> => {
+    const response = await api.post('/session-templates', template);
+    return response.data;
+  },
+
+  // Save a session's format as a template, shared with its group unless personal is set
+  saveAsTemplate: async (sessionId: string, name: string, personal = false): Promise<SessionTemplate> => {
+    const response = await api.post(`/session-templates/from-session/${sessionId}`, { name, personal });
+    return response.data;
+  },
+
+  updateTemplate: async (templateId: string, changes: Omit<SessionTemplateInput, 'group'>): Promise<SessionTemplate> => {
+    const response = await api.put(`/session-templates/${templateId}`, changes);
+    return response.data;
+  },
+
+  deleteTemplate: async (templateId: string): Promise<void> => {
+    await api.delete(`/session-templates/${templateId}`);
+  },
+
+  // Replace the co-hosts of a session
+  setCoHosts: async (sessionId: string, coHosts: string[]): Promise<StudySession> => {
+    const response = await api.put(`/study-sessions/${sessionId}/co-hosts`, { coHosts });
+    return response.data;
+  },
+
+  // Hand a session to another host, optionally keeping the current one as a co-host
+  transferHost: async (sessionId: string, userId: string, keepAsCoHost = false): Promise<StudySession> => {
+    const response = await api.post(`/study-sessions/${sessionId}/transfer-host`, { userId, keepAsCoHost });
+    return response.data;
+  },
+
+  // The invite links of a session, newest first; hosts and group moderators only
+  getInvites: async (sessionId: string): Promise<SessionInvite[]> => {
+    const response = await api.get(`/study-sessions/${sessionId}/invites`);
+    return response.data;
+  },
+
+  // Issue an invite link that lets someone from outside the group into the session
+  createInvite: async (sessionId: string, input: SessionInviteInput): Promise<SessionInvite> => {
+    const response = await api.post(`/study-sessions/${sessionId}/invites`, input);
+    return response.data;
+  },
+
+  // Revoke an invite link; guests who came in with it lose access
+  revokeInvite: async (sessionId: string, inviteId: string): Promise<SessionInvite> => {
+    const response = await api.delete(`/study-sessions/${sessionId}/invites/${inviteId}`);
+    return response.data;
+  },
+
+  // Where an invite link leads, before accepting it
+  getInvitePreview: async (token: string): Promise<SessionInvitePreview> => {
+    const response = await api.get(`/study-sessions/invites/${encodeURIComponent(token)}`);
+    return response.data;
+  },
+
+  // Become a guest of the session an invite link leads to
+  acceptInvite: async (token: string): Promise<{ sessionId: string; message: string }> => {
+    const response = await api.post(`/study-sessions/invites/${encodeURIComponent(token)}/accept`);
+    return response.data;
+  },
+
+  // Join a study session; overlapping sessions are rejected with a 409 unless ignoreConflicts is set
+  joinSession: async (sessionId: string, ignoreConflicts = false): Promise<StudySession> => {
+    const response = await api.post(`/study-sessions/${sessionId}/join`, { ignoreConflicts });
     return response.data;
   },
 
   // Leave a study session
   leaveSession: async (sessionId: string): Promise<void> => {
     await api.post(`/study-sessions/${sessionId}/leave`);
+  },
+
+  // Join the waitlist of a full session; resolves to the 1-based position
+  joinWaitlist: async (sessionId: string): Promise<{ position: number }> => {
+    const response = await api.post(`/study-sessions/${sessionId}/waitlist`);
+    return response.data;
+  },
+
+  // Leave the waitlist of a session
+  leaveWaitlist: async (sessionId: string): Promise<void> => {
+    await api.delete(`/study-sessions/${sessionId}/waitlist`);
   }
 };
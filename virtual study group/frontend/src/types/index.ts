@@ -24,15 +24,59 @@ export interface User {
   studyStats: {
     totalStudyTime: number;
     sessionsCompleted: number;
+    // Work blocks of pomodoro sessions stayed for
+    pomodorosCompleted?: number;
     streak: number;
     achievements: string[];
   };
+  notificationSettings?: NotificationSettings;
   isOnline: boolean;
   lastSeen: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface NotificationSettings {
+  email: boolean;
+  push: boolean;
+  sessionReminders: boolean;
+  groupMessages: boolean;
+  achievements: boolean;
+  // Minutes before a session starts, longest first
+  reminderLeadMinutes: number[];
+  // Kinds of email the user unsubscribed from; only used while `email` is on
+  emailOptOuts: EmailCategory[];
+}
+
+export type EmailCategory = 'reminders' | 'cancellations' | 'invites';
+
+export type UserNotificationType =
+  | 'session-reminder'
+  | 'session-cancelled'
+  | 'session-restored'
+  | 'waitlist-promoted'
+  | 'host-assigned'
+  | 'mention'
+  | 'group-join-request'
+  | 'achievement';
+
+// An entry of the notification center; `link` is the app path it opens
+export interface UserNotification {
+  _id: string;
+  type: UserNotificationType;
+  title: string;
+  body?: string;
+  link?: string;
+  readAt?: string;
+  createdAt: string;
+}
+
+export interface UserNotificationPage {
+  notifications: UserNotification[];
+  nextCursor: string | null;
+  unreadCount: number;
+}
+
 export interface Group {
   _id: string;
   name: string;
@@ -45,10 +89,7 @@ export interface Group {
   moderators: User[];
   members: GroupMember[];
   inviteCode: string;
-  schedule: {
-    regularMeetings: Meeting[];
-    timezone: string;
-  };
+  schedule: GroupSchedule;
   resources: Resource[];
   settings: GroupSettings;
   stats: {
@@ -68,17 +109,47 @@ export interface GroupMember {
 }
 
 export interface Meeting {
+  _id?: string;
   day: 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
   time: string;
   duration: number;
 }
 
+export interface GroupSchedule {
+  regularMeetings: Meeting[];
+  timezone: string;
+  autoSessions?: {
+    enabled: boolean;
+    weeksAhead: number;
+    lastSyncedAt?: Date;
+  };
+}
+
 export interface Resource {
+  _id: string;
   title: string;
   type: 'file' | 'link' | 'note';
   url: string;
+  // Set for uploaded files, which are downloaded through the API
+  file?: {
+    name: string;
+    size: number;
+    contentType: string;
+  };
   uploadedBy: User;
   uploadedAt: Date;
+  // Only in resource lists
+  canDelete?: boolean;
+}
+
+// The shared resources of a session or group with the upload limits
+export interface ResourceList {
+  resources: Resource[];
+  // Whether the group allows file sharing, and whether I may upload
+  fileSharing: boolean;
+  canUpload: boolean;
+  maxFileSize: number;
+  allowedTypes: string[];
 }
 
 export interface GroupSettings {
@@ -120,19 +191,33 @@ export interface MessageReaction {
   emoji: string;
 }
 
+export interface SessionPermissions {
+  manage: boolean;
+  assignHosts: boolean;
+}
+
 export interface StudySession {
   _id: string;
   title: string;
   description: string;
   group: Group;
   host: User;
+  // Run the session with the host; user ids in lists, users in the detail
+  coHosts?: Array<User | string>;
   scheduledStart: Date;
   scheduledEnd: Date;
   actualStart?: Date;
   actualEnd?: Date;
   status: 'scheduled' | 'live' | 'completed' | 'cancelled';
-  type: 'study' | 'discussion' | 'presentation' | 'exam-prep' | 'project-work';
+  // Started/ended by the server at scheduledStart/scheduledEnd
+  autoStart?: boolean;
+  autoComplete?: boolean;
+  type: 'study' | 'discussion' | 'presentation' | 'exam-prep' | 'project-work' | 'pomodoro';
+  maxParticipants?: number;
   participants: SessionParticipant[];
+  waitlist?: WaitlistEntry[];
+  // People from outside the group let in with an invite link
+  guests?: SessionGuest[];
   agenda: AgendaItem[];
   resources: Resource[];
   recording?: {
@@ -149,17 +234,175 @@ export interface StudySession {
     collaborators: User[];
     lastUpdated: Date;
   };
-  feedback: SessionFeedback[];
+  // Only served through the feedback endpoints
+  feedback?: SessionFeedback[];
   aiInsights?: {
     summary: string;
     keyTopics: string[];
     recommendations: string[];
     participationStats: any;
   };
+  // Why and by whom the session was cancelled; kept once it is restored
+  cancellation?: {
+    reason?: string;
+    suggestedStart?: Date;
+    suggestedEnd?: Date;
+    cancelledBy?: string;
+    cancelledAt: Date;
+    restoredAt?: Date;
+  };
+  // Only in the detail: whether the viewer manages the session (host,
+  // co-host or group moderator) and can choose its hosts
+  permissions?: SessionPermissions;
+  // Only in the cancelled list: until when the host can restore the session
+  restorableUntil?: Date | null;
+  series?: string;
+  occurrenceStart?: Date;
+  isException?: boolean;
+  timezone?: string;
+  allDay?: boolean;
+  importUid?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Sent along when cancelling a session or series
+export interface CancellationDetails {
+  reason?: string;
+  suggestedStart?: string;
+  suggestedEnd?: string;
+}
+
+export interface SessionSeries {
+  _id: string;
+  title: string;
+  description: string;
+  group: string;
+  host: string;
+  type: StudySession['type'];
+  maxParticipants?: number;
+  rrule: string;
+  dtstart: Date;
+  duration: number;
+  exdates: Date[];
+  materializedUntil?: Date;
+  status: 'active' | 'cancelled';
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A reusable session format. Group templates are shared with the group's
+// members; the others are personal. `duration` is in minutes.
+export interface SessionTemplate {
+  _id: string;
+  name: string;
+  group?: { _id: string; name: string };
+  createdBy: { _id: string; firstName: string; lastName: string } | string;
+  title?: string;
+  description?: string;
+  type: StudySession['type'];
+  duration: number;
+  maxParticipants?: number;
+  agenda: Array<{ topic: string; duration: number }>;
+  resources: Array<{ title: string; url: string }>;
+  // Whether the viewer may change or delete it
+  canEdit: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Fields sent to create or change a template; `group` only when creating
+export type SessionTemplateInput = Partial<Pick<
+  SessionTemplate,
+  'name' | 'title' | 'description' | 'type' | 'duration' | 'maxParticipants' | 'agenda' | 'resources'
+>> & { group?: string };
+
+export interface SessionRecurrence {
+  rrule: string;
+  exdates?: string[];
+}
+
+export type SeriesEditScope = 'this' | 'following';
+
+// Fields a host can change with PUT /study-sessions/:id; null removes the cap
+export interface SessionUpdate {
+  title?: string;
+  description?: string;
+  type?: StudySession['type'];
+  maxParticipants?: number | null;
+  scheduledStart?: Date | string;
+  scheduledEnd?: Date | string;
+  timezone?: string;
+  allDay?: boolean;
+  autoStart?: boolean;
+  autoComplete?: boolean;
+}
+
+// Validation errors as returned by the API (express-validator), in a
+// `{ message, errors }` body with status 400
+export interface FieldValidationError {
+  type: 'field';
+  path: string;
+  msg: string;
+  value?: unknown;
+  location: string;
+}
+
+export interface UnknownFieldsError {
+  type: 'unknown_fields';
+  msg: string;
+  fields: Array<{ path: string; value?: unknown; location: string }>;
+}
+
+export type ApiValidationError = FieldValidationError | UnknownFieldsError;
+
+// Filters of the session lists; from/to are ISO timestamps
+export interface SessionListFilters {
+  q?: string;
+  group?: string;
+  type?: StudySession['type'];
+  host?: string;
+  status?: StudySession['status'];
+  from?: string;
+  to?: string;
+}
+
+export interface SessionPage {
+  sessions: StudySession[];
+  nextCursor: string | null;
+}
+
+export interface SessionConflict {
+  _id: string;
+  title: string;
+  scheduledStart: string;
+  scheduledEnd: string;
+  timezone?: string;
+  allDay?: boolean;
+  status: StudySession['status'];
+  group?: { _id: string; name: string };
+}
+
+export interface SessionImportCandidate {
+  importUid: string;
+  title: string;
+  description: string;
+  scheduledStart: string;
+  scheduledEnd: string;
+  timezone?: string;
+  allDay: boolean;
+  status: 'new' | 'duplicate' | 'invalid';
+  reason?: string;
+  existingSessionId?: string;
+}
+
+export interface SessionImportPreview {
+  groupId: string;
+  fileName: string;
+  sessions: SessionImportCandidate[];
+  counts: Record<SessionImportCandidate['status'], number>;
+}
+
 export interface SessionParticipant {
   user: User;
   joinedAt: Date;
@@ -167,17 +410,242 @@ export interface SessionParticipant {
   duration?: number;
 }
 
+// Someone currently in a session room, as sent with `session-presence`
+export interface PresentUser {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  avatar?: string;
+}
+
+export interface AttendanceUser extends PresentUser {
+  email?: string;
+}
+
+// Time a person was present in a session while it was live, merged from
+// every time they entered and left the room
+export interface AttendanceRecord {
+  user: AttendanceUser;
+  minutes: number;
+  firstJoined: string;
+  lastLeft: string;
+  segments: Array<{ start: string; end: string }>;
+}
+
+export interface SessionAttendanceReport {
+  session: Pick<StudySession, '_id' | 'title' | 'status'> & {
+    scheduledStart: string;
+    scheduledEnd: string;
+    actualStart?: string;
+    actualEnd?: string;
+  };
+  attendees: AttendanceRecord[];
+  totalMinutes: number;
+}
+
+export interface GroupAttendanceReport {
+  from: string;
+  to: string;
+  sessions: Array<{
+    _id: string;
+    title: string;
+    actualStart: string;
+    actualEnd?: string;
+    attendees: Array<{ user: AttendanceUser; minutes: number }>;
+  }>;
+  members: Array<{ user: AttendanceUser; sessions: number; minutes: number }>;
+}
+
+export interface WaitlistEntry {
+  user: string;
+  joinedAt: Date;
+}
+
+export interface SessionGuest {
+  user: string;
+  invite: string;
+  addedAt: Date;
+}
+
 export interface AgendaItem {
+  _id: string;
   topic: string;
+  // Planned minutes
   duration: number;
   completed: boolean;
+  startedAt?: string;
+  endedAt?: string;
+}
+
+export interface AgendaStateItem extends AgendaItem {
+  // Minutes actually spent, counting up while the item is running
+  actualMinutes: number | null;
+}
+
+// The agenda as sent by the API and with `agenda-updated`. The countdown of
+// the running item ends at `currentEndsAt`, in server time.
+export interface AgendaState {
+  sessionId: string;
+  items: AgendaStateItem[];
+  currentItemId: string | null;
+  currentEndsAt: string | null;
+  plannedMinutes: number;
+  serverTime: string;
+}
+
+export interface PomodoroLengths {
+  // Minutes
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  // A long break follows every this many work blocks
+  longBreakEvery: number;
+}
+
+export interface PomodoroSettings extends PomodoroLengths {
+  muteDuringWork: boolean;
+}
+
+// The timer of a pomodoro session, as sent by the API and with
+// `pomodoro-updated`. `run` is null while the timer is stopped; the current
+// phase follows from when it started, in server time.
+export interface PomodoroState {
+  sessionId: string;
+  settings: PomodoroSettings;
+  run: (PomodoroLengths & { startedAt: string }) | null;
+  serverTime: string;
+}
+
+export interface BreakoutRoom {
+  _id: string;
+  name: string;
+  members: PresentUser[];
+}
+
+// The open round of breakout rooms, as sent by the API and with
+// `breakouts-updated`; `round` is null while everyone is in the main room.
+// The countdown ends at `endsAt`, in server time.
+export interface BreakoutState {
+  sessionId: string;
+  round: {
+    _id: string;
+    assignment: 'random' | 'manual';
+    // Minutes
+    duration: number;
+    startedAt: string;
+    endsAt: string;
+    rooms: BreakoutRoom[];
+  } | null;
+  serverTime: string;
+}
+
+export type BreakoutInput =
+  | { assignment: 'random'; roomCount: number; duration: number }
+  | { assignment: 'manual'; rooms: Array<{ name?: string; members: string[] }>; duration: number };
+
+// Minutes each member spent in their room, per round
+export interface BreakoutAttendanceRound {
+  _id: string;
+  assignment: 'random' | 'manual';
+  duration: number;
+  startedAt: string;
+  endedAt?: string;
+  rooms: Array<{
+    _id: string;
+    name: string;
+    members: Array<{ user: PresentUser; minutes: number }>;
+  }>;
+}
+
+export type SessionInviteStatus = 'active' | 'expired' | 'used' | 'revoked';
+
+// An invite link of a session, as the hosts see it
+export interface SessionInvite {
+  _id: string;
+  label?: string;
+  url: string;
+  expiresAt: string;
+  singleUse: boolean;
+  status: SessionInviteStatus;
+  uses: Array<{ user: PresentUser; at: string }>;
+  createdBy: PresentUser;
+  createdAt: string;
+  revokedAt?: string;
 }
 
+export interface SessionInviteInput {
+  expiresInHours?: number;
+  singleUse?: boolean;
+  label?: string;
+}
+
+// Where an invite link leads, as the invitee sees it before accepting.
+// `problem` says why it can't be accepted; people who can see the session
+// already have `hasAccess`.
+export interface SessionInvitePreview {
+  session: Pick<StudySession, '_id' | 'title' | 'description' | 'type' | 'status' | 'host' | 'group' |
+    'scheduledStart' | 'scheduledEnd' | 'timezone' | 'allDay'>;
+  expiresAt: string;
+  singleUse: boolean;
+  status: SessionInviteStatus;
+  problem: string | null;
+  hasAccess: boolean;
+}
+
+// A rating as the viewer may see it: `user` is left out of anonymous
+// entries when the viewer hosted the session
 export interface SessionFeedback {
-  user: User;
+  _id: string;
+  user?: PresentUser;
   rating: number;
-  comment: string;
-  submittedAt: Date;
+  comment?: string;
+  anonymous: boolean;
+  submittedAt: string;
+  editedAt?: string;
+}
+
+export interface FeedbackSummary {
+  count: number;
+  average: number | null;
+  // Number of ratings per star, from 1 to 5
+  distribution: number[];
+}
+
+export interface SessionFeedbackReport {
+  summary: FeedbackSummary;
+  feedback: SessionFeedback[];
+}
+
+// The user's own feedback on a session; `denied` says why they can't give or
+// change it (any more)
+export interface MyFeedback {
+  feedback: Omit<SessionFeedback, 'user'> | null;
+  editableUntil: string | null;
+  denied: string | null;
+}
+
+export interface FeedbackInput {
+  rating: number;
+  comment?: string;
+  anonymous?: boolean;
+}
+
+export interface PendingFeedbackSession {
+  _id: string;
+  title: string;
+  host: PresentUser;
+  group?: { _id: string; name: string };
+  actualStart?: string;
+  actualEnd: string;
+}
+
+export interface FeedbackTrends {
+  from: string;
+  to: string;
+  summary: FeedbackSummary;
+  sessions: Array<FeedbackSummary & { _id: string; title: string; host: PresentUser; actualEnd: string }>;
+  hosts: Array<FeedbackSummary & { host: PresentUser; sessions: number }>;
+  comments: Array<SessionFeedback & { session: { _id: string; title: string } }>;
 }
 
 export interface AIResponse {
@@ -217,6 +685,9 @@ export interface DashboardSession {
   title: string;
   groupName: string;
   time: Date;
+  endTime?: Date;
+  timezone?: string;
+  allDay?: boolean;
   host?: string;
 }
 
@@ -260,3 +731,52 @@ export interface StudyProgressItem {
   totalTime: number;
   level: 'Beginner' | 'Intermediate' | 'Advanced';
 }
+
+export type SessionChangeAction =
+  | 'created'
+  | 'updated'
+  | 'started'
+  | 'completed'
+  | 'cancelled'
+  | 'restored'
+  | 'joined'
+  | 'left'
+  | 'waitlist-joined'
+  | 'waitlist-left'
+  | 'promoted'
+  | 'co-hosts-changed'
+  | 'host-transferred'
+  | 'guests-changed'
+  | 'agenda-changed'
+  | 'resources-changed'
+  | 'feedback-changed';
+
+// One entry of a session's change log. Host changes hold a user id, co-host,
+// participant, waitlist and guest changes lists of user ids; agenda and
+// resource changes lists of topics and titles, feedback changes the number
+// of ratings and their average; dates are ISO strings.
+export interface SessionChange {
+  _id: string;
+  action: SessionChangeAction;
+  // Missing for automatic changes
+  actor?: PresentUser;
+  at: string;
+  changes: Array<{ field: string; from?: any; to?: any }>;
+}
+
+export interface SessionHistory {
+  entries: SessionChange[];
+  // The people participant and waitlist changes refer to
+  users: PresentUser[];
+}
+
+// The tracked fields of a session as they were at `at`
+export interface SessionSnapshot {
+  sessionId: string;
+  at: string;
+  state: { [field: string]: any };
+  users: PresentUser[];
+  // False if the session is older than its change log
+  complete: boolean;
+  appliedChanges: number;
+}
@@ -0,0 +1,18 @@
+import { ApiValidationError, FieldValidationError } from '../types';
+
+// The validation errors of a failed request, or null if it failed otherwise
+export const getValidationErrors = (error: any): ApiValidationError[] | null => {
+  const errors = error?.response?.status === 400 ? error.response.data?.errors : null;
+  return Array.isArray(errors) ? errors : null;
+};
+
+// First message per field, keyed by the API field name
+export const fieldErrorMessages = (errors: ApiValidationError[]): Record<string, string> =>
+  errors
+    .filter((error): error is FieldValidationError => error.type === 'field')
+    .reduce<Record<string, string>>((messages, error) => {
+      if (!messages[error.path]) {
+        messages[error.path] = error.msg;
+      }
+      return messages;
+    }, {});
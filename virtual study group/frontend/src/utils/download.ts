@@ -0,0 +1,17 @@
+// The file name from a Content-Disposition header, e.g. `attachment; filename="report.csv"`
+export const fileNameFromDisposition = (header: string | undefined, fallback: string) => {
+  const match = header?.match(/filename="?([^";]+)"?/);
+  return match ? match[1] : fallback;
+};
+
+// Let the browser save a downloaded file
+export const saveFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
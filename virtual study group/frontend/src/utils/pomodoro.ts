@@ -0,0 +1,46 @@
+import { PomodoroLengths } from '../types';
+
+// The phase of a running pomodoro timer, worked out from when it started the
+// same way the server counts work blocks: work, break, work, ..., with a
+// long break after every `longBreakEvery` work blocks.
+
+const MINUTE_MS = 60 * 1000;
+
+export type PomodoroPhase = 'work' | 'short-break' | 'long-break';
+
+export interface PomodoroPosition {
+  phase: PomodoroPhase;
+  // The work block this phase belongs to, counting from 1
+  cycle: number;
+  // Milliseconds since the epoch
+  phaseStart: number;
+  phaseEnd: number;
+}
+
+// Where a timer started at `startedAt` is at `now` (both in ms)
+export const pomodoroPosition = (lengths: PomodoroLengths, startedAt: number, now: number): PomodoroPosition => {
+  const work = lengths.workMinutes * MINUTE_MS;
+  const shortBreak = lengths.shortBreakMinutes * MINUTE_MS;
+  const longBreak = lengths.longBreakMinutes * MINUTE_MS;
+  const every = lengths.longBreakEvery;
+
+  // Everything repeats after `every` work blocks and the long break
+  const period = every * work + (every - 1) * shortBreak + longBreak;
+  const periods = Math.floor(Math.max(0, now - startedAt) / period);
+  let start = startedAt + periods * period;
+
+  for (let index = 0; ; index++) {
+    const cycle = periods * every + index + 1;
+    if (now < start + work) {
+      return { phase: 'work', cycle, phaseStart: start, phaseEnd: start + work };
+    }
+    start += work;
+
+    const long = index === every - 1;
+    const breakLength = long ? longBreak : shortBreak;
+    if (long || now < start + breakLength) {
+      return { phase: long ? 'long-break' : 'short-break', cycle, phaseStart: start, phaseEnd: start + breakLength };
+    }
+    start += breakLength;
+  }
+};
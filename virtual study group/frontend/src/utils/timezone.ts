@@ -0,0 +1,145 @@
+import { User } from '../types';
+
+// Timezone helpers built on Intl. Sessions are stored as UTC instants plus the
+// IANA timezone they were scheduled in; viewers see them in the timezone from
+// their profile (falling back to the browser's), with the host's local time
+// alongside when it differs.
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const partsFormatters: { [timeZone: string]: Intl.DateTimeFormat } = {};
+
+const getPartsFormatter = (timeZone: string) => {
+  if (!partsFormatters[timeZone]) {
+    partsFormatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  }
+  return partsFormatters[timeZone];
+};
+
+export const isValidTimezone = (timeZone?: string): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    getPartsFormatter(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// The timezone the current user wants to see times in
+export const getViewerTimezone = (user?: User | null) => {
+  const preferred = user?.studyPreferences?.timezone;
+  return isValidTimezone(preferred) ? preferred : browserTimezone();
+};
+
+// Local wall-clock time of an instant, as a Date whose UTC fields hold it
+const toWallClock = (date: Date, timeZone: string) => {
+  const parts = getPartsFormatter(timeZone).formatToParts(date);
+  const get = (type: string) => parseInt(parts.find(part => part.type === type)!.value, 10);
+
+  // Some engines print midnight as 24 with hour12: false
+  return new Date(Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second')));
+};
+
+const getOffset = (date: Date, timeZone: string) =>
+  Math.round((toWallClock(date, timeZone).getTime() - date.getTime()) / MINUTE_MS);
+
+// The instant a timezone shows a wall-clock time. Times skipped by a
+// spring-forward change move forward; repeated times resolve to the earlier one.
+const fromWallClock = (wall: Date, timeZone: string) => {
+  const offsets = [
+    getOffset(new Date(wall.getTime() - DAY_MS), timeZone),
+    getOffset(new Date(wall.getTime() + DAY_MS), timeZone),
+  ];
+
+  const candidates = offsets
+    .map(offset => new Date(wall.getTime() - offset * MINUTE_MS))
+    .filter(candidate => toWallClock(candidate, timeZone).getTime() === wall.getTime())
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  return candidates[0] || new Date(wall.getTime() - Math.min(offsets[0], offsets[1]) * MINUTE_MS);
+};
+
+// Interpret a datetime-local ("yyyy-MM-ddTHH:mm") or date ("yyyy-MM-dd")
+// input value as local time in `timeZone`
+export const zonedInputToDate = (value: string, timeZone: string): Date => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?/.exec(value);
+  if (!match) return new Date(NaN);
+
+  const [, year, month, day, hour = '0', minute = '0'] = match;
+  return fromWallClock(new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute)), timeZone);
+};
+
+// Value for a datetime-local (or date, when `dateOnly`) input showing an instant in `timeZone`
+export const dateToZonedInput = (date: Date | string, timeZone: string, dateOnly = false) => {
+  const iso = toWallClock(new Date(date), timeZone).toISOString();
+  return dateOnly ? iso.slice(0, 10) : iso.slice(0, 16);
+};
+
+export const formatInTimezone = (
+  date: Date | string,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions
+) => new Intl.DateTimeFormat(undefined, { ...options, timeZone }).format(new Date(date));
+
+const DATE_OPTIONS: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' };
+const TIME_OPTIONS: Intl.DateTimeFormatOptions = { hour: 'numeric', minute: '2-digit' };
+
+export interface SessionTimeInput {
+  scheduledStart: Date | string;
+  scheduledEnd?: Date | string;
+  timezone?: string;
+  allDay?: boolean;
+}
+
+export interface FormattedSessionTime {
+  viewer: string;
+  // The host's local time, when it differs from the viewer's
+  host?: string;
+}
+
+export const formatSessionTime = (session: SessionTimeInput, viewerTimezone: string): FormattedSessionTime => {
+  const hostTimezone = isValidTimezone(session.timezone) ? session.timezone : undefined;
+
+  // All-day sessions are calendar dates in the host's timezone; shifting them
+  // into another timezone would make them start or end mid-day.
+  if (session.allDay) {
+    const zone = hostTimezone || viewerTimezone;
+    const start = formatInTimezone(session.scheduledStart, zone, DATE_OPTIONS);
+    const lastDay = session.scheduledEnd
+      ? formatInTimezone(new Date(new Date(session.scheduledEnd).getTime() - 1), zone, DATE_OPTIONS)
+      : start;
+    return { viewer: lastDay === start ? `${start} · All day` : `${start} – ${lastDay} · All day` };
+  }
+
+  const formatRange = (zone: string) => {
+    if (!session.scheduledEnd) {
+      return formatInTimezone(session.scheduledStart, zone, { ...DATE_OPTIONS, ...TIME_OPTIONS, timeZoneName: 'short' });
+    }
+    const start = formatInTimezone(session.scheduledStart, zone, { ...DATE_OPTIONS, ...TIME_OPTIONS });
+    const end = formatInTimezone(session.scheduledEnd, zone, { ...TIME_OPTIONS, timeZoneName: 'short' });
+    return `${start} – ${end}`;
+  };
+
+  const viewer = formatRange(viewerTimezone);
+  if (!hostTimezone) {
+    return { viewer };
+  }
+
+  // Compare local times rather than zone names: Europe/Paris and Europe/Berlin agree
+  const start = new Date(session.scheduledStart);
+  const sameLocalTime = getOffset(start, hostTimezone) === getOffset(start, viewerTimezone);
+  return sameLocalTime ? { viewer } : { viewer, host: formatRange(hostTimezone) };
+};